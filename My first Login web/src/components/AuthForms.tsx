@@ -0,0 +1,177 @@
+import React, { useEffect, useId, useState } from 'react';
+import { AuthError, hasErrors, validateSignIn, validateSignUp, type AuthSession, type FieldErrors } from '@/lib/authClient';
+import { useAuth } from '@/hooks/use-auth';
+
+type FormProps = {
+  onSuccess?: (session: AuthSession) => void;
+  /** switch to the other form (sign in <-> sign up) */
+  onSwitch?: () => void;
+};
+
+type FieldProps = {
+  label: string;
+  type?: string;
+  value: string;
+  onChange: (v: string) => void;
+  error?: string;
+  autoComplete?: string;
+  autoFocus?: boolean;
+};
+
+const Field: React.FC<FieldProps> = ({ label, type = 'text', value, onChange, error, autoComplete, autoFocus }) => {
+  const id = useId();
+  return (
+    <label htmlFor={id} className="flex flex-col gap-1 text-left text-sm">
+      <span className="font-medium">{label}</span>
+      <input
+        id={id}
+        type={type}
+        value={value}
+        autoComplete={autoComplete}
+        autoFocus={autoFocus}
+        onChange={e => onChange(e.target.value)}
+        aria-invalid={error ? true : undefined}
+        aria-describedby={error ? `${id}-error` : undefined}
+        className={`px-3 py-2 rounded bg-white/10 border ${error ? 'border-red-400' : 'border-white/20'} text-white placeholder:text-white/40 outline-none focus:border-white/60`}
+      />
+      {error ? <span id={`${id}-error`} className="text-xs text-red-300">{error}</span> : null}
+    </label>
+  );
+};
+
+const FormError: React.FC<{ message: string | null }> = ({ message }) => (
+  message ? <div role="alert" className="rounded border border-red-400/60 bg-red-500/15 px-3 py-2 text-sm text-red-200">{message}</div> : null
+);
+
+// map anything thrown by the client to field errors + a banner message
+const describeError = (err: unknown): { fields: FieldErrors; message: string } => {
+  if (err instanceof AuthError) return { fields: err.fieldErrors, message: err.message };
+  return { fields: {}, message: 'No se pudo contactar con el servidor. Inténtalo de nuevo.' };
+};
+
+export const LoginForm: React.FC<FormProps> = ({ onSuccess, onSwitch }) => {
+  const { signIn } = useAuth();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = { email, password };
+    const v = validateSignIn(input);
+    setErrors(v);
+    setFormError(null);
+    if (hasErrors(v)) return;
+    setSubmitting(true);
+    try {
+      const session = await signIn(input);
+      onSuccess?.(session);
+    } catch (err) {
+      const { fields, message } = describeError(err);
+      setErrors(fields);
+      setFormError(message);
+      setPassword('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="flex flex-col gap-3">
+      <h2 className="text-2xl font-bold">Sign in</h2>
+      <FormError message={formError} />
+      <Field label="Email" type="email" value={email} onChange={setEmail} error={errors.email} autoComplete="email" autoFocus />
+      <Field label="Contraseña" type="password" value={password} onChange={setPassword} error={errors.password} autoComplete="current-password" />
+      <button type="submit" disabled={submitting} className="mt-2 bg-white text-black px-5 py-2 rounded disabled:opacity-60">
+        {submitting ? 'Entrando…' : 'SIGN IN'}
+      </button>
+      {onSwitch ? (
+        <p className="text-sm text-gray-300">¿No tienes cuenta? <button type="button" className="underline" onClick={onSwitch}>Regístrate</button></p>
+      ) : null}
+    </form>
+  );
+};
+
+export const RegisterForm: React.FC<FormProps> = ({ onSuccess, onSwitch }) => {
+  const { signUp } = useAuth();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [errors, setErrors] = useState<FieldErrors & { confirm?: string }>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = { name, email, password };
+    const v: FieldErrors & { confirm?: string } = validateSignUp(input);
+    if (confirm !== password) v.confirm = 'Las contraseñas no coinciden';
+    setErrors(v);
+    setFormError(null);
+    if (hasErrors(v)) return;
+    setSubmitting(true);
+    try {
+      const session = await signUp(input);
+      onSuccess?.(session);
+    } catch (err) {
+      const { fields, message } = describeError(err);
+      setErrors(fields);
+      setFormError(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="flex flex-col gap-3">
+      <h2 className="text-2xl font-bold">Sign up</h2>
+      <FormError message={formError} />
+      <Field label="Nombre" value={name} onChange={setName} error={errors.name} autoComplete="name" autoFocus />
+      <Field label="Email" type="email" value={email} onChange={setEmail} error={errors.email} autoComplete="email" />
+      <Field label="Contraseña" type="password" value={password} onChange={setPassword} error={errors.password} autoComplete="new-password" />
+      <Field label="Repite la contraseña" type="password" value={confirm} onChange={setConfirm} error={errors.confirm} autoComplete="new-password" />
+      <button type="submit" disabled={submitting} className="mt-2 bg-white text-black px-5 py-2 rounded disabled:opacity-60">
+        {submitting ? 'Creando cuenta…' : 'SIGN UP'}
+      </button>
+      {onSwitch ? (
+        <p className="text-sm text-gray-300">¿Ya tienes cuenta? <button type="button" className="underline" onClick={onSwitch}>Inicia sesión</button></p>
+      ) : null}
+    </form>
+  );
+};
+
+export type AuthMode = 'signin' | 'signup';
+
+type AuthDialogProps = {
+  mode: AuthMode;
+  onModeChange: (m: AuthMode) => void;
+  onClose: () => void;
+  /** called after a successful sign in / sign up (defaults to onClose) */
+  onSuccess?: () => void;
+};
+
+/**
+ * AuthDialog: modal con los formularios de login/registro. Se cierra con Escape,
+ * clic fuera o tras autenticarse.
+ */
+export const AuthDialog: React.FC<AuthDialogProps> = ({ mode, onModeChange, onClose, onSuccess = onClose }) => {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-70 flex items-center justify-center bg-black/70 backdrop-blur-sm" onPointerDown={e => { if (e.target === e.currentTarget) onClose(); }}>
+      <div role="dialog" aria-modal="true" aria-label={mode === 'signin' ? 'Sign in' : 'Sign up'} className="relative w-[min(420px,92vw)] rounded-lg border border-white/10 bg-gray-900 p-6 text-white shadow-xl">
+        <button type="button" aria-label="Cerrar" className="absolute right-3 top-3 px-2 text-white/70 hover:text-white" onClick={onClose}>✕</button>
+        {mode === 'signin'
+          ? <LoginForm onSuccess={onSuccess} onSwitch={() => onModeChange('signup')} />
+          : <RegisterForm onSuccess={onSuccess} onSwitch={() => onModeChange('signin')} />}
+      </div>
+    </div>
+  );
+};
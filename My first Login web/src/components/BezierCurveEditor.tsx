@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { clamp, BEZIER_PRESETS, formatCubicBezier, parseCubicBezier, type CubicBezier } from './animationUtils';
+
+type BezierCurveEditorProps = {
+  /** control points of the segment, used as the handles' position; null when the engine's curve isn't a cubic-bezier (no handles until one is set) */
+  value: CubicBezier | null;
+  /** true when the keyframe has its own bezier (otherwise value mirrors the named easing) */
+  custom: boolean;
+  /** easing actually applied by the engine; the curve and the preview dot sample it */
+  ease: (t: number) => number;
+  onChange: (value: CubicBezier | undefined) => void;
+  /** drag start/end, so the host can group a drag into one undo entry */
+  onDragStart?: () => void;
+  onDragEnd?: () => void;
+  copied: CubicBezier | null;
+  onCopy: (value: CubicBezier) => void;
+};
+
+const SIZE = 180;
+const PAD = 16;
+// visible value range; back/elastic curves overshoot below 0 and above 1
+const Y_MIN = -0.7;
+const Y_MAX = 1.7;
+const PREVIEW_MS = 1400;
+
+const toX = (x: number) => PAD + x * (SIZE - 2 * PAD);
+const toY = (y: number) => PAD + (Y_MAX - y) / (Y_MAX - Y_MIN) * (SIZE - 2 * PAD);
+
+/**
+ * BezierCurveEditor: editor visual de la curva cubic-bezier de un tramo, con
+ * asas arrastrables, punto de previsualización y presets.
+ */
+const BezierCurveEditor: React.FC<BezierCurveEditorProps> = ({ value, custom, ease, onChange, onDragStart, onDragEnd, copied, onCopy }) => {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const dragRef = useRef<0 | 1 | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [text, setText] = useState<string | null>(null);
+
+  // loop the preview dot along the curve
+  useEffect(() => {
+    let raf = 0;
+    const start = performance.now();
+    const tick = (now: number) => {
+      // hold briefly at the end of each run
+      setProgress(clamp(((now - start) % (PREVIEW_MS + 400)) / PREVIEW_MS, 0, 1));
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, []);
+
+  const setHandle = (handle: 0 | 1, x: number, y: number) => {
+    if (!value) return;
+    const next = [...value] as CubicBezier;
+    next[handle * 2] = Math.round(clamp(x, 0, 1) * 100) / 100;
+    next[handle * 2 + 1] = Math.round(clamp(y, -1, 2) * 100) / 100;
+    onChange(next);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (dragRef.current === null || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const sx = SIZE / rect.width, sy = SIZE / rect.height;
+    const x = ((e.clientX - rect.left) * sx - PAD) / (SIZE - 2 * PAD);
+    const y = Y_MAX - ((e.clientY - rect.top) * sy - PAD) / (SIZE - 2 * PAD) * (Y_MAX - Y_MIN);
+    setHandle(dragRef.current, x, y);
+  };
+  const onPointerUp = () => {
+    if (dragRef.current === null) return;
+    dragRef.current = null;
+    onDragEnd?.();
+  };
+
+  const onHandleKey = (handle: 0 | 1, e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 0.1 : 0.01;
+    const dx = e.key === 'ArrowRight' ? step : e.key === 'ArrowLeft' ? -step : 0;
+    const dy = e.key === 'ArrowUp' ? step : e.key === 'ArrowDown' ? -step : 0;
+    if ((!dx && !dy) || !value) return;
+    e.preventDefault();
+    setHandle(handle, value[handle * 2] + dx, value[handle * 2 + 1] + dy);
+  };
+
+  const samples = Array.from({ length: 61 }, (_, i) => i / 60);
+  const path = samples.map((t, i) => `${i ? 'L' : 'M'}${toX(t).toFixed(1)},${toY(ease(t)).toFixed(1)}`).join(' ');
+  const handles: [0 | 1, number, number, number, number][] = value ? [
+    [0, value[0], value[1], 0, 0],
+    [1, value[2], value[3], 1, 1],
+  ] : [];
+
+  return (
+    <div className="flex gap-3 items-start text-xs">
+      <svg
+        ref={svgRef}
+        width={SIZE}
+        height={SIZE}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="border rounded bg-white/5 touch-none select-none"
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        role="group"
+        aria-label="Editor de curva"
+      >
+        {/* 0 and 1 guides */}
+        <line x1={toX(0)} x2={toX(1)} y1={toY(0)} y2={toY(0)} stroke="currentColor" strokeOpacity={0.25} />
+        <line x1={toX(0)} x2={toX(1)} y1={toY(1)} y2={toY(1)} stroke="currentColor" strokeOpacity={0.25} />
+        <line x1={toX(0)} x2={toX(1)} y1={toY(0)} y2={toY(1)} stroke="currentColor" strokeOpacity={0.15} strokeDasharray="3 3" />
+        {handles.map(([h, x, y, ax, ay]) => (
+          <line key={`arm-${h}`} x1={toX(ax)} y1={toY(ay)} x2={toX(x)} y2={toY(y)} stroke="#6366f1" strokeOpacity={custom ? 0.8 : 0.35} />
+        ))}
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={2} />
+        {/* preview: the dot follows the eased value, the tick on the bottom the linear time */}
+        <circle cx={toX(progress)} cy={toY(ease(progress))} r={4} fill="#f43f5e" />
+        <circle cx={toX(progress)} cy={SIZE - 4} r={2} fill="currentColor" fillOpacity={0.5} />
+        {handles.map(([h, x, y]) => (
+          <circle
+            key={`h-${h}`}
+            cx={toX(x)}
+            cy={toY(y)}
+            r={6}
+            fill={custom ? '#6366f1' : '#a5b4fc'}
+            className="cursor-grab"
+            tabIndex={0}
+            role="slider"
+            aria-label={`Asa ${h + 1}`}
+            aria-valuetext={`x ${x}, y ${y}`}
+            onPointerDown={e => { e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId); dragRef.current = h; onDragStart?.(); }}
+            onKeyDown={e => onHandleKey(h, e)}
+          />
+        ))}
+      </svg>
+
+      <div className="flex flex-col gap-1 min-w-40">
+        <input
+          aria-label="cubic-bezier"
+          className="p-1 border rounded font-mono"
+          value={text ?? (custom && value ? formatCubicBezier(value) : '')}
+          placeholder={value ? formatCubicBezier(value) : 'cubic-bezier(…)'}
+          onChange={e => setText(e.target.value)}
+          onBlur={() => { const b = text === null ? null : parseCubicBezier(text); if (b) onChange(b); setText(null); }}
+          onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        />
+        <select aria-label="Preset de curva" className="p-1 border rounded" value="" onChange={e => { const p = BEZIER_PRESETS.find(p => p.name === e.target.value); if (p) onChange(p.value); }}>
+          <option value="" disabled>Preset…</option>
+          {(['CSS', 'Back', 'Elastic', 'Bounce'] as const).map(group => (
+            <optgroup key={group} label={group}>
+              {BEZIER_PRESETS.filter(p => p.group === group).map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </optgroup>
+          ))}
+        </select>
+        <div className="flex gap-1">
+          <button className="px-2 py-1 bg-gray-200 rounded" disabled={!value} onClick={() => value && onCopy(value)}>Copiar</button>
+          <button className="px-2 py-1 bg-gray-200 rounded" disabled={!copied} onClick={() => copied && onChange(copied)}>Pegar</button>
+          <button className="px-2 py-1 bg-gray-200 rounded" disabled={!custom} title="Volver al easing con nombre" onClick={() => onChange(undefined)}>Quitar</button>
+        </div>
+        {value ? null : <div className="opacity-70">Esta curva no es un cubic-bezier: elige un preset o escribe uno para editarla.</div>}
+      </div>
+    </div>
+  );
+};
+
+export default BezierCurveEditor;
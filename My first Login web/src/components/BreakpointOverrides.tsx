@@ -0,0 +1,55 @@
+import React from 'react';
+import { KEYFRAME_PROPERTIES, LAYER_TYPE_PROPERTIES, type Breakpoint, type LayerConfig, type NumericProperty } from './animationEngine';
+import { clearOverrides, LAYOUT_DEFAULTS, LAYOUT_FIELDS, overrideCount, setKeyframeOverride, setLayoutOverride } from './responsive';
+
+type BreakpointOverridesProps = {
+  layer: LayerConfig;
+  breakpoint: Breakpoint;
+  /** the layer as the wider breakpoints leave it: what an empty field inherits */
+  inherited: LayerConfig;
+  onUpdate: (update: (layers: LayerConfig[]) => LayerConfig[], coalesce?: string) => void;
+};
+
+/**
+ * BreakpointOverrides: layout y valores de keyframe de una capa en un
+ * breakpoint. Un campo vacío hereda (del breakpoint más ancho o de escritorio,
+ * que se ve como placeholder); vaciarlo quita el override.
+ */
+const BreakpointOverrides: React.FC<BreakpointOverridesProps> = ({ layer, breakpoint, inherited, onUpdate }) => {
+  const override = layer.responsive?.[breakpoint.id];
+  const count = overrideCount(layer, breakpoint.id);
+  const numberOrNone = (text: string) => (text === '' ? undefined : Number(text));
+  // tracks this layer type can animate, besides color
+  const properties = KEYFRAME_PROPERTIES.filter(p => p.key !== 'color' && (!LAYER_TYPE_PROPERTIES[p.key] || LAYER_TYPE_PROPERTIES[p.key] === layer.type)) as { key: NumericProperty; label: string; step?: number }[];
+
+  return (
+    <div role="group" aria-label={`${layer.label} en ${breakpoint.label}`} className="mt-2 p-1 border rounded text-xs space-y-1">
+      <div className="flex items-center gap-2">
+        <span>{breakpoint.label} (≤ {breakpoint.maxWidth}px) · {count} cambio(s)</span>
+        <button className="ml-auto px-1 bg-gray-200 rounded" disabled={!count} onClick={()=>onUpdate(layers => clearOverrides(layers, layer.id, breakpoint.id))}>Quitar overrides</button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {/* a group only places its pivot */}
+        {LAYOUT_FIELDS.filter(f => layer.type !== 'group' || f.key === 'x' || f.key === 'y').map(f => (
+          <label key={f.key} className="flex items-center gap-1">{f.label}
+            <input type="number" placeholder={String(inherited[f.key] ?? LAYOUT_DEFAULTS[f.key])} value={override?.[f.key] ?? ''} className="p-1 w-16"
+              onChange={e=>onUpdate(layers => setLayoutOverride(layers, layer.id, breakpoint.id, { [f.key]: numberOrNone(e.target.value) }), `bp:${breakpoint.id}:${f.key}:${layer.id}`)} />
+          </label>
+        ))}
+      </div>
+      {inherited.keyframes.map(k => (
+        <div key={k.id} className="flex flex-wrap items-center gap-2">
+          <span className="font-mono w-14">{k.time}ms</span>
+          {properties.filter(p => k[p.key] !== undefined || override?.keyframes?.[k.id]?.[p.key] !== undefined).map(p => (
+            <label key={p.key} className="flex items-center gap-1">{p.label}
+              <input aria-label={`${p.key} @ ${k.time}ms`} type="number" step={p.step} placeholder={String(k[p.key] ?? '—')} value={override?.keyframes?.[k.id]?.[p.key] ?? ''} className="p-1 w-16"
+                onChange={e=>onUpdate(layers => setKeyframeOverride(layers, layer.id, breakpoint.id, k.id, { [p.key]: numberOrNone(e.target.value) }), `bp:${breakpoint.id}:${p.key}:${k.id}`)} />
+            </label>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BreakpointOverrides;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { bindingsFor, filterCommands, formatCombo, type Keymap, type RunnableCommand } from './commands';
+
+type CommandPaletteProps = {
+  commands: RunnableCommand[];
+  keymap: Keymap;
+  onClose: () => void;
+};
+
+/**
+ * CommandPalette: busca y ejecuta cualquier comando del editor (Ctrl+K).
+ * Flechas para moverse, Enter para ejecutar y Esc para cerrar.
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, keymap, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const matches = filterCommands(commands, query);
+  const current = Math.min(active, Math.max(0, matches.length - 1));
+
+  const run = (command: RunnableCommand | undefined) => {
+    if (!command?.enabled) return;
+    onClose();
+    command.run();
+  };
+
+  return (
+    <div className="fixed inset-0 z-80 bg-black/40 flex items-start justify-center pt-24" onMouseDown={onClose}>
+      <div role="dialog" aria-modal="true" aria-label="Paleta de comandos" className="w-[32rem] max-w-[90vw] rounded bg-white text-black shadow-xl" onMouseDown={e=>e.stopPropagation()}
+        onKeyDown={e=>{
+          // Escape must not reach the studio's close handler
+          e.stopPropagation();
+          if (e.key === 'Escape') { e.preventDefault(); onClose(); }
+          if (e.key === 'ArrowDown') { e.preventDefault(); setActive((current + 1) % Math.max(1, matches.length)); }
+          if (e.key === 'ArrowUp') { e.preventDefault(); setActive((current - 1 + matches.length) % Math.max(1, matches.length)); }
+          if (e.key === 'Enter') { e.preventDefault(); run(matches[current]); }
+        }}>
+        <input
+          autoFocus
+          className="w-full p-2 border-b outline-none"
+          placeholder="Escribe un comando…"
+          aria-label="Buscar comando"
+          aria-activedescendant={matches[current] ? `command-${matches[current].id}` : undefined}
+          value={query}
+          onChange={e=>{ setQuery(e.target.value); setActive(0); }}
+        />
+        <ul role="listbox" className="max-h-80 overflow-auto py-1 text-sm">
+          {matches.map((c, i) => (
+            <li key={c.id} id={`command-${c.id}`} role="option" aria-selected={i === current} aria-disabled={!c.enabled}
+              className={`flex items-center gap-2 px-3 py-1 cursor-pointer ${i === current ? 'bg-indigo-100' : ''} ${c.enabled ? '' : 'opacity-40'}`}
+              onMouseEnter={()=>setActive(i)} onClick={()=>run(c)}>
+              <span className="text-xs opacity-60 w-20 shrink-0">{c.group}</span>
+              <span className="flex-1">{c.label}</span>
+              {bindingsFor(c, keymap).slice(0, 1).map(k => <kbd key={k} className="text-xs px-1 border rounded">{formatCombo(k)}</kbd>)}
+            </li>
+          ))}
+          {!matches.length ? <li className="px-3 py-2 opacity-60">Ningún comando coincide</li> : null}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
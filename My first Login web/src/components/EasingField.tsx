@@ -0,0 +1,68 @@
+import React from 'react';
+import { formatEasingSpec, parseEasingSpec } from './animationUtils';
+
+type EasingFieldProps = {
+  value?: string;
+  onChange: (value: string) => void;
+};
+
+// generator params with their defaults, in call order
+const GENERATORS: Record<string, { label: string; params: { name: string; default: number; step?: number; min?: number }[] }> = {
+  spring: { label: 'spring', params: [{ name: 'stiffness', default: 100, min: 1 }, { name: 'damping', default: 10, min: 0 }, { name: 'mass', default: 1, step: 0.1, min: 0.1 }] },
+  steps: { label: 'steps', params: [{ name: 'steps', default: 4, min: 1 }] },
+  elastic: { label: 'elastic', params: [{ name: 'amplitude', default: 1, step: 0.1, min: 1 }, { name: 'period', default: 0.3, step: 0.05, min: 0.05 }] },
+};
+const NAMED = ['linear', 'ease', 'ease-in', 'ease-out', 'bounce'];
+const STEP_POSITIONS = ['jump-end', 'jump-start', 'jump-none', 'jump-both'];
+
+/**
+ * EasingField: selector de easing del keyframe; para spring, steps y elastic
+ * muestra sus parámetros y compone la llamada ("spring(100, 10, 1)").
+ */
+const EasingField: React.FC<EasingFieldProps> = ({ value = 'linear', onChange }) => {
+  const { name, args } = parseEasingSpec(value);
+  const generator = GENERATORS[name];
+  const known = NAMED.includes(name) || !!generator;
+  const params = generator?.params.map((p, i) => (args[i] !== undefined && Number.isFinite(Number(args[i])) ? Number(args[i]) : p.default)) ?? [];
+  const position = name === 'steps' ? args[1] ?? 'jump-end' : undefined;
+
+  const select = (next: string) => {
+    const g = GENERATORS[next];
+    onChange(g ? formatEasingSpec(next, [...g.params.map(p => p.default), ...(next === 'steps' ? ['jump-end'] : [])]) : next);
+  };
+  const setParam = (i: number, v: number) => {
+    const next = [...params];
+    next[i] = v;
+    onChange(formatEasingSpec(name, position ? [...next, position] : next));
+  };
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1">
+      <select aria-label="easing" value={known ? name : 'custom'} onChange={e => select(e.target.value === 'custom' ? value : e.target.value)} className="p-1">
+        {NAMED.map(n => <option key={n} value={n}>{n}</option>)}
+        {Object.entries(GENERATORS).map(([key, g]) => <option key={key} value={key}>{g.label}</option>)}
+        {!known ? <option value="custom">{value}</option> : null}
+      </select>
+      {generator?.params.map((p, i) => (
+        <input
+          key={p.name}
+          aria-label={p.name}
+          title={p.name}
+          type="number"
+          step={p.step ?? 1}
+          min={p.min}
+          value={params[i]}
+          onChange={e => setParam(i, Number(e.target.value))}
+          className="p-1 w-14"
+        />
+      ))}
+      {position ? (
+        <select aria-label="steps position" value={position} onChange={e => onChange(formatEasingSpec('steps', [params[0], e.target.value]))} className="p-1">
+          {STEP_POSITIONS.map(p => <option key={p} value={p}>{p}</option>)}
+        </select>
+      ) : null}
+    </span>
+  );
+};
+
+export default EasingField;
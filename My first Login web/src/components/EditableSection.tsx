@@ -1,66 +1,192 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { clamp, lerp, cubicBezierEasing, snap } from './animationUtils';
-
-type KeyframePoint = { id: string; time: number; translate: number; opacity: number; easing?: string; bezier?: [number,number,number,number] };
-
-type LayerConfig = {
-  id: string;
-  label: string;
-  depth: number; // 0..1
-  color: string;
-  image?: string | null; // data URL or URL
-  visible?: boolean;
-  // layout in preview (percentages)
-  x?: number; // 0..100
-  y?: number; // 0..100
-  w?: number; // width percent
-  h?: number; // height percent
-  keyframes: KeyframePoint[];
+import React, { useEffect, useId, useImperativeHandle, useRef, useState } from 'react';
+import { clamp, formatCubicBezier, NAMED_EASING_BEZIER, type CubicBezier } from './animationUtils';
+import { drawScene, easingFor, engineRuntimeSource, evaluateLayer, walkLayers, KEYFRAME_PROPERTIES, LAYER_TYPE_PROPERTIES, breakpointsOf, frameStep, overrideLayer, playbackOf, resolveResponsive, startPlayback, stepPlayback, type AnimatableProperty, type AnimationConfig, type Breakpoint, type NumericProperty, type LoopRange, type PlaybackMode, type PlaybackSettings, type TimelineMarker, type TimelineRegion, type FocusConfig, type GlitchConfig, type GradientConfig, type KeyframePoint, type LayerConfig, type ShapeConfig, type TextConfig } from './animationEngine';
+import {
+  createDefaultProject,
+  defaultGroup,
+  defaultFocus,
+  defaultFocusLayer,
+  defaultGlitch,
+  defaultGlitchLayer,
+  defaultLayer,
+  defaultShape,
+  defaultShapeLayer,
+  defaultText,
+  defaultTextLayer,
+  parseProject,
+  projectDocument,
+  serializeProject,
+  type ProjectDocument,
+  type SchemaError,
+} from './projectSchema';
+import type { ProjectStore } from '@/lib/projectStore';
+import { generateCssKeyframes, generateMarkup, generateWaapiHtml } from './domExport';
+import { exportLottie, importLottie, isLottie, type LottieImportResult } from './lottie';
+import { parseSvgDocument, svgToLayers, type SvgImportResult } from './svgImport';
+import BezierCurveEditor from './BezierCurveEditor';
+import GraphEditor from './GraphEditor';
+import BreakpointOverrides from './BreakpointOverrides';
+import { addBreakpoint, breakpointAt, DEVICE_PRESETS, removeBreakpoint, setKeyframeOverride, setLayoutOverride, updateBreakpoint, type LayoutField } from './responsive';
+import ExportFramesPanel from './ExportFramesPanel';
+import EasingField from './EasingField';
+import CommandPalette from './CommandPalette';
+import ShortcutsSheet from './ShortcutsSheet';
+import { useHistory } from '@/hooks/use-history';
+import { usePresetList, useSymbolList } from '@/hooks/use-project-store';
+import { useKeymap } from '@/hooks/use-keymap';
+import { BUILDER_COMMANDS, bindingsFor, commandsForCombo, formatCombo, isActiveScope, keyCombo, pushScope, raiseScope, type RunnableCommand } from './commands';
+import { addKeyframes, alignKeyframes, copyKeyframes, deleteKeyframes, distributeKeyframes, moveKeyframes, pasteKeyframes, reverseKeyframes, selectedTimes, stretchKeyframes, type KeyframeClip, type TimedRef } from './keyframeOps';
+import { EMPTY_SELECTION, isKeyframeSelected, pruneSelection, selectKeyframe, selectLayer, type KeyframeRef, type Selection } from './selection';
+import { groupsAt, layerDelta, motionPaths, pathData } from './motionPath';
+import { DEFAULT_ONION_SKIN, drawOnionSkin, onionSkinFrames, type OnionSkinSettings } from './onionSkin';
+import { FPS_PRESETS, formatTimecode, frameAt, nextRate, parseTimecode, PLAYBACK_MODE_LABELS, PLAYBACK_RATES } from './timecode';
+import { addMarker, addRegion, adjacentMarker, removeMarker, removeRegion, setLoopPoint, snapTargets, snapTime, updateMarker, updateRegion } from './timelineMarkers';
+import { duplicateLayers, instantiateSymbol, layerRows, parentCandidates, removeLayerTree, setLayerParent, symbolLayers, ungroupLayers } from './layerTree';
+
+// the exported React component imports the engine from a plain JS module (engineModuleSource); this types what it uses
+const REACT_ENGINE_DECLARATION = `// generated by AnimationBuilder: types for animationEngine.js
+export type Animation = { timelineDuration: number; layers: AnimationLayer[]; [key: string]: unknown };
+export type AnimationLayer = { id: string; type?: string; color: string; image?: string | null; x?: number; y?: number; w?: number; h?: number; [key: string]: unknown };
+export type PlaybackMode = 'once' | 'loop' | 'pingpong';
+export type PlaybackSettings = { rate: number; mode: PlaybackMode; reverse: boolean; fps: number };
+export type PlaybackState = { time: number; direction: 1 | -1; ended: boolean };
+export type Marker = { id: string; time: number; label: string };
+
+export declare const engine: {
+  playbackOf(animation: Animation): PlaybackSettings;
+  resolveResponsive(animation: Animation, width: number): Animation;
+  drawScene(ctx: CanvasRenderingContext2D, animation: Animation, time: number, width: number, height: number, images?: Record<string, HTMLImageElement>): void;
+  frameStep(time: number, fps: number, frames: number, duration: number): number;
+  startPlayback(animation: Animation, settings: PlaybackSettings, time: number): PlaybackState;
+  stepPlayback(animation: Animation, settings: PlaybackSettings, state: PlaybackState, elapsed: number): { state: PlaybackState; markers: Marker[] };
 };
+`;
 
-const mkId = () => String(Math.random()).slice(2);
-
-const defaultLayer = (): LayerConfig => ({
-  id: mkId(),
-  label: 'Layer',
-  depth: 0.5,
-  color: '#ffffff',
-  image: null,
-  visible: true,
-  x: 50,
-  y: 50,
-  w: 60,
-  h: 30,
-  keyframes: [
-    { id: mkId(), time: 0, translate: 40, opacity: 0, easing: 'linear' },
-    { id: mkId(), time: 1000, translate: 0, opacity: 1, easing: 'linear' },
-  ],
-});
+const engineModuleSource = () => `// generated by AnimationBuilder: timeline engine shared with the editor (animationEngine.ts)
+export const engine = ${engineRuntimeSource()};
+`;
 
 /**
  * AnimationBuilder: editor visual con canvas preview, timeline clave y persistencia.
  */
-type BuilderProps = { mode?: 'overlay' | 'embedded' };
-const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay' }) => {
-  const [layers, setLayers] = useState<LayerConfig[]>([defaultLayer(), { ...defaultLayer(), label: 'Foreground', depth: 0.9, color: '#f1f5f9' }]);
+/** imperative API used by the host (AnimationStudio menus) */
+export type BuilderHandle = {
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  /** edit the layer list as one undoable step (used by the studio Inspector) */
+  updateLayers: (update: (layers: LayerConfig[]) => LayerConfig[], coalesce?: string) => void;
+  setLayerImage: (layerId: string, file: File) => void;
+  /** File menu: open a .json, save now (download without a store) and the document for "Save as" */
+  openFile: () => void;
+  save: () => void;
+  document: () => ProjectDocument;
+  /** copies of the selected layers, which become the selection */
+  duplicate: () => void;
+  seek: (time: number) => void;
+  /** View menu */
+  panels: () => Record<BuilderPanel, boolean>;
+  setPanel: (panel: BuilderPanel, visible: boolean) => void;
+  zoom: () => number;
+  setZoom: (zoom: number) => void;
+  /** Export menu: one of the exporters reported in BuilderMenus, plus the frames panel (it needs its options) */
+  runExporter: (id: string) => void;
+  showFramesExport: () => void;
+  openPalette: () => void;
+  openShortcuts: () => void;
+};
+
+export type BuilderPanel = 'layers' | 'timeline';
+
+export type BuilderView = { panels: Record<BuilderPanel, boolean>; zoom: number; breakpoint: Breakpoint | null };
+
+export type BuilderExporter = { id: string; label: string; title?: string };
+
+/** what the studio menus show: each command's first binding, formatted ("Ctrl+Z"), and the exporters of the Export panel */
+export type BuilderMenus = { shortcuts: Record<string, string>; exporters: BuilderExporter[] };
+
+const ZOOM_RANGE = { min: 0.5, max: 4 };
+// px within which a dragged keyframe snaps to a marker
+const SNAP_DISTANCE = 6;
+
+type BuilderProps = {
+  mode?: 'overlay' | 'embedded';
+  onOpenStudio?: () => void;
+  ref?: React.Ref<BuilderHandle>;
+  /** with a store and a project id the builder loads that project and autosaves it; presets and symbols need a store */
+  store?: ProjectStore;
+  projectId?: string;
+  /** selection shared with the host; the builder keeps its own when not given */
+  selection?: Selection;
+  onSelectionChange?: (selection: Selection) => void;
+  /** called with the layer list after every change */
+  onLayersChange?: (layers: LayerConfig[]) => void;
+  /** called when undo or redo becomes available or unavailable (the studio's Edit menu) */
+  onHistoryChange?: (history: { canUndo: boolean; canRedo: boolean }) => void;
+  /** called when a panel is shown or hidden or the timeline zoom changes (the studio's View menu) */
+  onViewChange?: (view: BuilderView) => void;
+  /** called when a shortcut is rebound or the exporters change (the studio's menus) */
+  onMenusChange?: (menus: BuilderMenus) => void;
+  /** only these layers are listed (studio search); null lists them all */
+  visibleLayers?: Set<string> | null;
+};
+
+type SaveStatus = 'idle' | 'loading' | 'saving' | 'saved' | 'error';
+const AUTOSAVE_DELAY = 800; // ms
+
+// what undo/redo covers: the layers and the duration plus the markers, labelled regions, loop range, playback settings and breakpoints saved with them
+type EditorState = { layers: LayerConfig[]; timelineDuration: number; markers: TimelineMarker[]; regions: TimelineRegion[]; loop: LoopRange | null; playback: PlaybackSettings; breakpoints: Breakpoint[] };
+
+const editorStateOf = (project: ProjectDocument): EditorState =>
+  ({ layers: project.layers, timelineDuration: project.timelineDuration, markers: project.markers ?? [], regions: project.regions ?? [], loop: project.loop ?? null, playback: playbackOf(project), breakpoints: breakpointsOf(project) });
+
+const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay', onOpenStudio, ref, store, projectId, selection: sharedSelection, onSelectionChange, onLayersChange, onHistoryChange, onViewChange, onMenusChange, visibleLayers = null }) => {
+  // every edit goes through the undo/redo history
+  const history = useHistory<EditorState>(() => editorStateOf(createDefaultProject()));
+  const { layers, timelineDuration, markers, regions, loop: loopRange, playback, breakpoints } = history.state;
+  // setState-like setters for one part of the history; an update that changes nothing records no entry
+  const setPart = <K extends keyof EditorState>(key: K) => (next: React.SetStateAction<EditorState[K]>, options?: { coalesce?: string }) =>
+    history.set(state => {
+      const value = next instanceof Function ? next(state[key]) : next;
+      return Object.is(value, state[key]) ? state : { ...state, [key]: value };
+    }, options);
+  const setLayers = setPart('layers');
+  const setTimelineDuration = setPart('timelineDuration');
+  const setMarkers = setPart('markers');
+  const setRegions = setPart('regions');
+  const setLoopRange = setPart('loop');
+  const setPlayback = setPart('playback');
+  const setBreakpoints = setPart('breakpoints');
   const [panels, setPanels] = useState<{ layers: boolean; timeline: boolean; settings: boolean }>(()=>({ layers: true, timeline: true, settings: true }));
   const [playing, setPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
-  const [timelineDuration, setTimelineDuration] = useState(2000); // ms
   const [snapEnabled, setSnapEnabled] = useState(true);
   const [snapInterval, setSnapInterval] = useState(50); // ms
   const [timelineZoom, setTimelineZoom] = useState(1); // scale
+  const config: AnimationConfig = { timelineDuration, layers, markers, regions, loop: loopRange, playback, breakpoints };
+  // device width the preview plays at (null: the panel's width with the desktop values); canvas edits go to the breakpoint that wins there
+  const [previewWidth, setPreviewWidth] = useState<number | null>(null);
+  const [breakpointsOpen, setBreakpointsOpen] = useState(false);
+  // what the DOM exports measure breakpoints on
+  const [breakpointQueries, setBreakpointQueries] = useState<'media' | 'container'>('media');
+  const editingBreakpoint = breakpointAt(breakpoints, previewWidth);
+  const scene = previewWidth === null ? config : resolveResponsive(config, previewWidth);
+  // text typed in the timecode field, until it is applied
+  const [timecodeDraft, setTimecodeDraft] = useState<string | null>(null);
+  const fpsListId = useId();
   const [previewAsScroll, setPreviewAsScroll] = useState(false);
+  // preview aids; view settings, not saved with the project
+  const [onionSkinOn, setOnionSkinOn] = useState(false);
+  const [onionSkin, setOnionSkin] = useState<OnionSkinSettings>(DEFAULT_ONION_SKIN);
+  const [showPaths, setShowPaths] = useState(false);
+  // keyframes of each layer as a list of fields or as value curves
+  const [keyframeView, setKeyframeView] = useState<'list' | 'graph'>('list');
+  const [previewSize, setPreviewSize] = useState<{ width: number; height: number } | null>(null);
 
   // helper removed in favor of inline toggles in header to avoid unused warnings
-  const [presets, setPresets] = useState<{ name: string; config: LayerConfig[] }[]>(() => {
-    try {
-      const raw = localStorage.getItem('animation-builder-presets');
-      return raw ? JSON.parse(raw) : [];
-    } catch {
-      return [];
-    }
-  });
+  // presets live in the store with their images as blobs, like projects
+  const { presets, rejected: rejectedPresets } = usePresetList(store);
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -68,11 +194,90 @@ const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay' }) => {
   const imagesRef = useRef<Record<string, HTMLImageElement | null>>({});
   const rafRef = useRef<number | null>(null);
   const playingRef = useRef(false);
+  // offscreen canvas the onion-skin ghosts are painted on
+  const ghostCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const [editorTheme, setEditorTheme] = useState<'light'|'dark'|'crimson'>(()=>{
     try { return (localStorage.getItem('animation-builder-theme') as 'light'|'dark'|'crimson') || 'light'; } catch { return 'light'; }
   });
   const [liveMessage, setLiveMessage] = useState('');
-  const [selectedKF, setSelectedKF] = useState<{layerId:string;kfId:string}|null>(null);
+  // validation errors of the last failed "Open project"
+  const [importErrors, setImportErrors] = useState<SchemaError[] | null>(null);
+  // features dropped by the last Lottie import
+  const [importWarnings, setImportWarnings] = useState<{ title: string; items: string[] } | null>(null);
+  const projectFileRef = useRef<HTMLInputElement | null>(null);
+  const svgFileRef = useRef<HTMLInputElement | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  // last document written to (or read from) the store; autosave skips it
+  const savedRef = useRef<({ id: string } & Required<AnimationConfig>) | null>(null);
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  const [ownSelection, setOwnSelection] = useState<Selection>(EMPTY_SELECTION);
+  const selection = sharedSelection ?? ownSelection;
+  // handlers that run before the next render (focus right after pointerdown) read the latest selection here
+  const selectionRef = useRef(selection);
+  selectionRef.current = selection;
+  const setSelection = (next: Selection) => {
+    selectionRef.current = next;
+    if (onSelectionChange) onSelectionChange(next);
+    else setOwnSelection(next);
+  };
+  // the keyframe the keyboard shortcuts act on: the last one selected
+  const selectedKF: KeyframeRef | null = selection.keyframes[selection.keyframes.length - 1] ?? null;
+  const setSelectedKF = (ref: KeyframeRef | null) => setSelection(ref ? selectKeyframe(selectionRef.current, ref) : { ...selectionRef.current, keyframes: [] });
+  const additive = (e: React.MouseEvent | React.PointerEvent) => e.shiftKey || e.ctrlKey || e.metaKey;
+  const [keyframeClip, setKeyframeClip] = useState<KeyframeClip>([]);
+  const [stretchPercent, setStretchPercent] = useState(150);
+  // keyboard: the registry's commands run in this editor only while it is the active scope
+  const [keymap, setKeymap] = useKeymap();
+  const [overlay, setOverlay] = useState<'palette' | 'shortcuts' | null>(null);
+  const scopeId = useId();
+  const commandsRef = useRef<RunnableCommand[]>([]);
+  const exportersRef = useRef<(BuilderExporter & { run: () => void })[]>([]);
+  const keymapRef = useRef(keymap);
+  const overlayRef = useRef(overlay);
+  useEffect(() => {
+    const release = pushScope(scopeId);
+    // the page around the builder keeps its keys: they are taken while the focus is inside the builder, or on
+    // the page body right after a click in it (the canvas and the panels don't hold the focus); a press elsewhere ends that
+    let engaged = false;
+    const onPointer = (ev: PointerEvent) => { engaged = !!rootRef.current?.contains(ev.target as Node); };
+    const onKey = (ev: KeyboardEvent) => {
+      if (!isActiveScope(scopeId) || overlayRef.current) return;
+      const target = ev.target as HTMLElement;
+      const onPage = target === document.body || target === document.documentElement;
+      if (!rootRef.current?.contains(target) && !(onPage && engaged)) return;
+      if (target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.tagName === 'SELECT' || target?.isContentEditable) return;
+      // buttons and links keep their keys; keyframe diamonds are the exception, their arrows and Delete are commands
+      if (target?.closest?.('button, a, [role="button"]:not(.timeline-keyframe)')) return;
+      // open menus keep their arrow keys, and so do sliders (curve handles, motion-path dots)
+      if (target?.closest?.('[role="menu"], [role="dialog"]')) return;
+      if (ev.key.startsWith('Arrow') && target?.closest?.('[role="slider"]')) return;
+      const combo = keyCombo(ev);
+      // Space scrolls the page from its body; it only reaches the commands (play / pause) with the focus in the builder
+      if (combo === 'Space' && !rootRef.current?.contains(target)) return;
+      const command = combo ? commandsForCombo(commandsRef.current, keymapRef.current, combo).find(c => c.enabled) : undefined;
+      if (!command) return;
+      // handled keys are marked so the studio's own listeners (Escape closes it) skip them
+      ev.preventDefault();
+      command.run();
+    };
+    // capture: runs before any bubbling listener, whatever the mount order
+    window.addEventListener('keydown', onKey, true);
+    window.addEventListener('pointerdown', onPointer, true);
+    return () => {
+      window.removeEventListener('keydown', onKey, true);
+      window.removeEventListener('pointerdown', onPointer, true);
+      release();
+    };
+  }, [scopeId]);
+  // layers whose per-property timeline rows are expanded
+  const [expandedTracks, setExpandedTracks] = useState<Record<string, boolean>>({});
+  // groups folded in both the layers panel and the timeline
+  const [collapsedGroups, setCollapsedGroups] = useState<Record<string, boolean>>({});
+  const toggleGroup = (id: string) => setCollapsedGroups(x => ({ ...x, [id]: !x[id] }));
+  const symbols = useSymbolList(store);
+  // keyframe whose curve editor is open, and the curve copied between keyframes
+  const [curveOpen, setCurveOpen] = useState<string | null>(null);
+  const [copiedCurve, setCopiedCurve] = useState<CubicBezier | null>(null);
   const [leftWidth, setLeftWidth] = useState<number>(()=>{
     try { const v = localStorage.getItem('animation-leftWidth'); return v ? Number(v) : 640; } catch { return 640; }
   });
@@ -139,57 +344,120 @@ const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay' }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [previewAsScroll, timelineDuration, layers]);
 
-  // keyboard shortcuts: A = add keyframe to selected layer at currentTime
-  useEffect(()=>{
-    const onKey = (ev: KeyboardEvent) => {
-      if ((ev.target as HTMLElement)?.tagName === 'INPUT' || (ev.target as HTMLElement)?.isContentEditable) return;
-      if (ev.key === 'a' || ev.key === 'A') {
-        if (selectedKF) { addKeyframe(selectedKF.layerId, Math.round(currentTime)); setLiveMessage('Keyframe añadido'); }
-      }
-      if (ev.key === 'Delete' || ev.key === 'Backspace') {
-        if (selectedKF) { removeKeyframe(selectedKF.layerId, selectedKF.kfId); setSelectedKF(null); setLiveMessage('Keyframe eliminado'); }
-      }
-      if (ev.key === 'ArrowLeft' || ev.key === 'ArrowRight') {
-        if (selectedKF) {
-          const layer = layers.find(l=>l.id===selectedKF.layerId);
-          if (!layer) return;
-          const k = layer.keyframes.find(k=>k.id === selectedKF.kfId);
-          if (!k) return;
-          const delta = ev.shiftKey ? 100 : 10;
-          const nt = ev.key === 'ArrowLeft' ? Math.max(0, k.time - delta) : Math.min(timelineDuration, k.time + delta);
-          updateKeyframe(layer.id, k.id, { time: nt });
-          setLiveMessage(`Keyframe movido a ${nt}ms`);
-        }
-      }
-    };
-    window.addEventListener('keydown', onKey);
-    return ()=> window.removeEventListener('keydown', onKey);
-  }, [selectedKF, currentTime, layers, timelineDuration]);
-
-  // utilities to update state
-  const setLayer = (id: string, patch: Partial<LayerConfig>) => setLayers(prev => prev.map(l => (l.id === id ? { ...l, ...patch } : l)));
+  // utilities to update state; `coalesce` merges rapid edits of one field (typing, sliders) into a single undo step
+  const setLayer = (id: string, patch: Partial<LayerConfig>, coalesce?: string) => setLayers(prev => prev.map(l => (l.id === id ? { ...l, ...patch } : l)), { coalesce });
   const addLayer = () => setLayers(prev => [...prev, defaultLayer()]);
-  const removeLayer = (id: string) => setLayers(prev => prev.filter(l => l.id !== id));
+  const removeLayer = (id: string) => setLayers(prev => removeLayerTree(prev, id));
+  const addGroup = () => setLayers(prev => [...prev, defaultGroup()]);
+  const addTextLayer = () => setLayers(prev => [...prev, defaultTextLayer()]);
+  const setText = (layer: LayerConfig, patch: Partial<TextConfig>, coalesce?: string) => setLayer(layer.id, { text: { ...(layer.text ?? defaultText()), ...patch } }, coalesce);
+  const addShapeLayer = () => setLayers(prev => [...prev, defaultShapeLayer()]);
+  const setShape = (layer: LayerConfig, patch: Partial<ShapeConfig>, coalesce?: string) => setLayer(layer.id, { shape: { ...(layer.shape ?? defaultShape()), ...patch } }, coalesce);
+  const addGlitchLayer = () => setLayers(prev => [...prev, defaultGlitchLayer()]);
+  const setGlitch = (layer: LayerConfig, patch: Partial<GlitchConfig>, coalesce?: string) => setLayer(layer.id, { glitch: { ...(layer.glitch ?? defaultGlitch()), ...patch } }, coalesce);
+  const addFocusLayer = () => setLayers(prev => [...prev, defaultFocusLayer()]);
+  const setFocus = (layer: LayerConfig, patch: Partial<FocusConfig>, coalesce?: string) => setLayer(layer.id, { focus: { ...(layer.focus ?? defaultFocus()), ...patch } }, coalesce);
+  const setGradient = (layer: LayerConfig, patch: Partial<GradientConfig> | null) => {
+    const current = layer.shape?.gradient ?? { type: 'linear' as const, angle: 0, stops: [{ offset: 0, color: layer.color }, { offset: 1, color: '#000000' }] };
+    setShape(layer, { gradient: patch ? { ...current, ...patch } : null });
+  };
+
+  // symbols: a group saved to the user's library and copied into any project
+  const saveAsSymbol = (group: LayerConfig) => {
+    if (!store) return;
+    store.saveSymbol(group.label, symbolLayers(layers, group.id)).then(
+      () => setLiveMessage(`Símbolo ${group.label} guardado`),
+      (e: Error) => setLiveMessage(`No se pudo guardar el símbolo: ${e.message}`),
+    );
+  };
+  const insertSymbol = (index: number) => {
+    const symbol = symbols[index];
+    if (!symbol) return;
+    setLayers(prev => [...prev, ...instantiateSymbol(symbol)]);
+    setLiveMessage(`Símbolo ${symbol.name} insertado`);
+  };
 
   // keyframe helpers
   const addKeyframe = (layerId: string, time = Math.round(timelineDuration / 2)) => {
-    setLayers(prev => prev.map(l => l.id === layerId ? { ...l, keyframes: [...l.keyframes, { id: mkId(), time, translate: 0, opacity: 1 }].sort((a,b)=>a.time-b.time) } : l));
+    setLayers(prev => addKeyframes(prev, [layerId], time).layers);
   };
   const removeKeyframe = (layerId: string, kfId: string) => {
     setLayers(prev => prev.map(l => l.id === layerId ? { ...l, keyframes: l.keyframes.filter(k => k.id !== kfId) } : l));
   };
-  const updateKeyframe = (layerId: string, kfId: string, patch: Partial<KeyframePoint>) => {
-    setLayers(prev => prev.map(l => l.id === layerId ? { ...l, keyframes: l.keyframes.map(k => k.id === kfId ? { ...k, ...patch } : k).sort((a,b)=>a.time-b.time) } : l));
+  const updateKeyframe = (layerId: string, kfId: string, patch: Partial<KeyframePoint>, coalesce?: string) => {
+    setLayers(prev => prev.map(l => l.id === layerId ? { ...l, keyframes: l.keyframes.map(k => k.id === kfId ? { ...k, ...patch } : k).sort((a,b)=>a.time-b.time) } : l), { coalesce });
+  };
+  // layout and values edited on the preview; with a breakpoint in the preview they go to its overrides
+  const setLayout = (id: string, patch: Partial<Record<LayoutField, number>>, coalesce?: string) => {
+    if (editingBreakpoint) setLayers(prev => setLayoutOverride(prev, id, editingBreakpoint.id, patch), { coalesce });
+    else setLayer(id, patch, coalesce);
+  };
+  const setKeyframeValues = (layerId: string, kfId: string, patch: Partial<Record<NumericProperty, number>>, coalesce?: string) => {
+    if (editingBreakpoint) setLayers(prev => setKeyframeOverride(prev, layerId, editingBreakpoint.id, kfId, patch), { coalesce });
+    else updateKeyframe(layerId, kfId, patch, coalesce);
   };
 
-  // image upload
+  /**
+   * SVG files become shape layers grouped under the file name. With a layer id
+   * the group takes that layer's place, box and keyframes; otherwise it's added
+   * in the middle of the stage.
+   */
+  const importSvgFile = (file: File, replaceId?: string) => {
+    file.text().then(text => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      const target = replaceId ? layers.find(l => l.id === replaceId) : undefined;
+      let result: SvgImportResult;
+      try {
+        result = svgToLayers(parseSvgDocument(text), {
+          width: rect?.width || 800,
+          height: rect?.height || 400,
+          name: file.name.replace(/\.svg$/i, ''),
+          box: target ? { x: target.x ?? 50, y: target.y ?? 50, w: target.w ?? 60, h: target.h ?? 30 } : undefined,
+        });
+      } catch (e) {
+        setImportErrors([{ path: '', message: `${file.name}: ${(e as Error).message}` }]);
+        return;
+      }
+      const [group, ...shapes] = result.layers;
+      setLayers(prev => {
+        const at = prev.findIndex(l => l.id === replaceId);
+        if (at < 0) return [...prev, group, ...shapes];
+        const old = prev[at];
+        const placed = { ...group, label: old.label, parentId: old.parentId ?? null, keyframes: old.keyframes };
+        return [...prev.slice(0, at), placed, ...shapes, ...prev.slice(at + 1)];
+      });
+      setImportWarnings(result.unsupported.length ? { title: 'SVG importado sin estas características', items: result.unsupported } : null);
+      setLiveMessage(`${file.name}: ${shapes.length} forma(s) importada(s)`);
+    }, () => setImportErrors([{ path: '', message: `no se pudo leer ${file.name}` }]));
+  };
+  const isSvgFile = (file: File) => file.type === 'image/svg+xml' || /\.svg$/i.test(file.name);
+
+  // image upload; SVGs are imported as shapes instead of a rasterized data URL
   const setLayerImageFile = (layerId: string, file: File | null) => {
     if (!file) return;
+    if (isSvgFile(file)) return importSvgFile(file, layerId);
     const reader = new FileReader();
     reader.onload = () => setLayer(layerId, { image: String(reader.result) });
     reader.readAsDataURL(file);
   };
 
+  // the host mirrors the layers (Inspector) and the selection drops what was deleted or undone
+  useEffect(() => { onLayersChange?.(layers); }, [layers, onLayersChange]);
+  useEffect(() => { onHistoryChange?.({ canUndo: history.canUndo, canRedo: history.canRedo }); }, [history.canUndo, history.canRedo, onHistoryChange]);
+  // the commands and exporters are read from the refs set during render; their titles follow the scroll preview, the bindings the keymap
+  useEffect(() => {
+    if (!onMenusChange) return;
+    const shortcuts: Record<string, string> = {};
+    commandsRef.current.forEach(c => { const combo = bindingsFor(c, keymap)[0]; if (combo) shortcuts[c.id] = formatCombo(combo); });
+    onMenusChange({ shortcuts, exporters: exportersRef.current.map(({ id, label, title }) => ({ id, label, title })) });
+  }, [keymap, previewAsScroll, onMenusChange]);
+  useEffect(() => { onViewChange?.({ panels: { layers: panels.layers, timeline: panels.timeline }, zoom: timelineZoom, breakpoint: editingBreakpoint }); }, [panels.layers, panels.timeline, timelineZoom, editingBreakpoint, onViewChange]);
+  useEffect(() => {
+    const pruned = pruneSelection(selectionRef.current, layers);
+    if (pruned !== selectionRef.current) setSelection(pruned);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [layers]);
+
   // preload images into image elements so draw can be synchronous
   useEffect(() => {
     layers.forEach(layer => {
@@ -204,8 +472,53 @@ const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay' }) => {
     });
   }, [layers]);
 
+  // load the stored project; its history starts fresh
+  const resetHistory = history.reset;
+  useEffect(() => {
+    if (!store || !projectId) return;
+    let cancelled = false;
+    savedRef.current = null;
+    setSaveStatus('loading');
+    store.load(projectId).then(p => {
+      if (cancelled) return;
+      if (!p) { setSaveStatus('error'); setLiveMessage('Proyecto no encontrado'); return; }
+      const state = editorStateOf(p.document);
+      savedRef.current = { id: projectId, ...state };
+      resetHistory(state);
+      setSaveStatus('saved');
+      setLiveMessage(`Proyecto ${p.meta.name} abierto`);
+    }, (e: Error) => {
+      if (cancelled) return;
+      setSaveStatus('error');
+      setLiveMessage(`No se pudo cargar el proyecto: ${e.message}`);
+    });
+    return () => { cancelled = true; };
+  }, [store, projectId, resetHistory]);
+
+  // debounced autosave; pending changes are flushed on unmount and page hide
+  const flushSave = () => { const job = pendingSaveRef.current; pendingSaveRef.current = null; job?.(); };
+  useEffect(() => {
+    const saved = savedRef.current;
+    if (!store || !projectId || !saved || saved.id !== projectId) return;
+    if (saved.layers === layers && saved.timelineDuration === timelineDuration && saved.markers === markers && saved.regions === regions && saved.loop === loopRange && saved.playback === playback && saved.breakpoints === breakpoints) return;
+    pendingSaveRef.current = () => {
+      setSaveStatus('saving');
+      store.save(projectId, projectDocument({ timelineDuration, layers, markers, regions, loop: loopRange, playback, breakpoints })).then(() => {
+        savedRef.current = { id: projectId, layers, timelineDuration, markers, regions, loop: loopRange, playback, breakpoints };
+        setSaveStatus('saved');
+      }, (e: Error) => { setSaveStatus('error'); setLiveMessage(`No se pudo guardar: ${e.message}`); });
+    };
+    const timer = window.setTimeout(flushSave, AUTOSAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [store, projectId, layers, timelineDuration, markers, regions, loopRange, playback, breakpoints]);
+  useEffect(() => {
+    window.addEventListener('pagehide', flushSave);
+    return () => { window.removeEventListener('pagehide', flushSave); flushSave(); };
+  }, []);
+
   // timeline interaction (drag keyframes)
-  const dragState = useRef<{ layerId: string; kfId: string; offsetX: number; rectLeft: number; rectWidth: number; scroller?: HTMLElement | null } | null>(null);
+  // `origins` are the selected keyframes' times when the drag started; they move by the anchor's offset
+  const dragState = useRef<{ layerId: string; kfId: string; offsetX: number; rectLeft: number; rectWidth: number; scroller?: HTMLElement | null; anchor: number; origins: TimedRef[] } | null>(null);
   const autoScrollRAF = useRef<number | null>(null);
 
   const onTimelinePointerDown = (e: React.PointerEvent, layerId: string, kfId: string) => {
@@ -218,9 +531,18 @@ const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay' }) => {
     // find the scrollable area (the parent of .timeline-track-inner)
     const inner = timeline.querySelector('.timeline-track-inner') as HTMLElement | null;
     const scroller = inner ? inner.parentElement as HTMLElement : timeline;
-    dragState.current = { layerId, kfId, offsetX, rectLeft: rect.left, rectWidth, scroller };
-    setSelectedKF({layerId,kfId});
-    setLiveMessage('Keyframe seleccionado');
+    // a modifier toggles the keyframe; a plain press on a selected one keeps the selection for a group drag
+    const ref = { layerId, kfId };
+    const current = selectionRef.current;
+    const next = additive(e) || !isKeyframeSelected(current, ref) ? selectKeyframe(current, ref, additive(e)) : current;
+    setSelection(next);
+    setLiveMessage(`${next.keyframes.length} keyframe(s) seleccionado(s)`);
+    if (!isKeyframeSelected(next, ref)) return;
+    const origins = selectedTimes(layers, next.keyframes);
+    const anchor = origins.find(o => o.ref.kfId === kfId)?.time ?? 0;
+    dragState.current = { layerId, kfId, offsetX, rectLeft: rect.left, rectWidth, scroller, anchor, origins };
+    // the whole drag becomes one history entry
+    history.begin();
     (e.target as HTMLElement).setPointerCapture(e.pointerId);
 
     // start smooth auto-scroll loop
@@ -250,17 +572,19 @@ const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay' }) => {
   };
   const onTimelinePointerMove = (e: React.PointerEvent) => {
     if (!dragState.current) return;
-    const { layerId, kfId, rectLeft, rectWidth } = dragState.current;
+    const { rectLeft, rectWidth, anchor, origins } = dragState.current;
     const x = e.clientX - rectLeft;
     let t = clamp(x / rectWidth, 0, 1) * timelineDuration;
-    if (snapEnabled && snapInterval > 0) t = snap(t, snapInterval);
-    updateKeyframe(layerId, kfId, { time: Math.round(t) });
+    // keyframes also snap to markers, region edges and the loop points within a few pixels
+    if (snapEnabled) t = snapTime(t, { interval: snapInterval, targets: snapTargets(config), threshold: SNAP_DISTANCE / rectWidth * timelineDuration });
+    setLayers(prev => moveKeyframes(prev, origins, Math.round(t) - anchor, timelineDuration));
   };
   const onTimelinePointerUp = (e: React.PointerEvent) => {
     if (!dragState.current) return;
     try { (e.target as HTMLElement).releasePointerCapture(e.pointerId); } catch {}
     dragState.current = null;
-    setLiveMessage('Keyframe movido');
+    history.commit();
+    setLiveMessage('Keyframes movidos');
     if (autoScrollRAF.current) { cancelAnimationFrame(autoScrollRAF.current); autoScrollRAF.current = null; }
   };
 
@@ -292,6 +616,75 @@ const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay' }) => {
     setLiveMessage('Tiempo actualizado');
   };
 
+  // marker lane: clicking empty space seeks, markers are dragged along it (on the grid when snap is on)
+  const markerDrag = useRef<{ id: string; startX: number; rectLeft: number; rectWidth: number; moved: boolean } | null>(null);
+  // a drag ends in a click on the marker; it must not seek
+  const markerMovedRef = useRef(false);
+  const onLanePointerDown = (e: React.PointerEvent) => {
+    if (e.target !== e.currentTarget) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    seekTo(Math.round(clamp((e.clientX - rect.left) / rect.width, 0, 1) * timelineDuration));
+  };
+  const onMarkerPointerDown = (e: React.PointerEvent, id: string) => {
+    const lane = (e.currentTarget as HTMLElement).parentElement;
+    if (!lane) return;
+    const rect = lane.getBoundingClientRect();
+    markerDrag.current = { id, startX: e.clientX, rectLeft: rect.left, rectWidth: rect.width, moved: false };
+    markerMovedRef.current = false;
+    // the whole drag becomes one history entry
+    history.begin();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+  };
+  const onMarkerPointerMove = (e: React.PointerEvent) => {
+    const drag = markerDrag.current;
+    if (!drag || (!drag.moved && Math.abs(e.clientX - drag.startX) < 3)) return;
+    drag.moved = true;
+    const t = snapTime(clamp((e.clientX - drag.rectLeft) / drag.rectWidth, 0, 1) * timelineDuration, { interval: snapEnabled ? snapInterval : 0, targets: [], threshold: 0 });
+    setMarkers(prev => updateMarker(prev, drag.id, { time: Math.round(t) }));
+  };
+  const onMarkerPointerUp = (e: React.PointerEvent) => {
+    const drag = markerDrag.current;
+    if (!drag) return;
+    try { (e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId); } catch {}
+    markerDrag.current = null;
+    history.commit();
+    markerMovedRef.current = drag.moved;
+    if (drag.moved) setLiveMessage('Marcador movido');
+  };
+
+  // rubber-band selection across tracks, starting on empty timeline space
+  const [band, setBand] = useState<{ x0: number; y0: number; x1: number; y1: number; additive: boolean } | null>(null);
+  const onBandPointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0 || (e.target as HTMLElement).closest('.timeline-keyframe, .timeline-scrubber, button, input, select')) return;
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setBand({ x0: e.clientX, y0: e.clientY, x1: e.clientX, y1: e.clientY, additive: additive(e) });
+  };
+  const onBandPointerMove = (e: React.PointerEvent) => {
+    if (band) setBand({ ...band, x1: e.clientX, y1: e.clientY });
+  };
+  const onBandPointerUp = (e: React.PointerEvent) => {
+    if (!band) return;
+    setBand(null);
+    const left = Math.min(band.x0, band.x1), right = Math.max(band.x0, band.x1);
+    const top = Math.min(band.y0, band.y1), bottom = Math.max(band.y0, band.y1);
+    const current = selectionRef.current;
+    // a plain click on empty space clears the keyframe selection
+    if (right - left < 3 && bottom - top < 3) {
+      if (!band.additive) setSelection({ ...current, keyframes: [] });
+      return;
+    }
+    const hits = Array.from((e.currentTarget as HTMLElement).querySelectorAll<HTMLElement>('.timeline-keyframe')).filter(el => {
+      const r = el.getBoundingClientRect();
+      return r.right >= left && r.left <= right && r.bottom >= top && r.top <= bottom;
+    }).map(el => ({ layerId: el.dataset.layerId!, kfId: el.dataset.kfId! }));
+    const base = band.additive ? current.keyframes : [];
+    // property rows repeat the layer's diamonds
+    const keyframes = [...base, ...hits].filter((r, i, all) => all.findIndex(o => o.layerId === r.layerId && o.kfId === r.kfId) === i);
+    const layerIds = [...new Set([...(band.additive ? current.layerIds : []), ...keyframes.map(r => r.layerId)])];
+    setSelection({ layerIds, keyframes });
+    setLiveMessage(`${keyframes.length} keyframe(s) seleccionado(s)`);
+  };
+
   // drawing on canvas based on currentTime
   const draw = (time: number) => {
     const canvas = canvasRef.current;
@@ -306,92 +699,29 @@ const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay' }) => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     ctx.setTransform(dpr,0,0,dpr,0,0);
-    ctx.clearRect(0,0,rect.width,rect.height);
-
-    // draw layers in order
-    layers.forEach(layer => {
-      if (!layer.visible) return;
-      // interpolate keyframes for this time
-      if (layer.keyframes.length === 0) return;
-      let prev = layer.keyframes[0];
-      let next = layer.keyframes[layer.keyframes.length-1];
-      for (let i=0;i<layer.keyframes.length;i++){
-        if (layer.keyframes[i].time <= time) prev = layer.keyframes[i];
-        if (layer.keyframes[i].time >= time) { next = layer.keyframes[i]; break; }
-      }
-      const span = next.time - prev.time || 1;
-      const localT = clamp((time - prev.time) / span, 0, 1);
-      // easing per-keyframe (prefer next.bezier if present)
-      let eased = localT;
-      if ((next as KeyframePoint).bezier) {
-        const b = (next as KeyframePoint).bezier!;
-        const f = cubicBezierEasing(b[0], b[1], b[2], b[3]);
-        eased = f(localT);
-      } else {
-        const easing = (next as KeyframePoint).easing || 'linear';
-        const easeT = (t: number) => {
-          switch (easing) {
-            case 'ease-in': return t * t;
-            case 'ease-out': return t * (2 - t);
-            case 'ease': return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
-            default: return t;
-          }
-        };
-        eased = easeT(localT);
-      }
-      const translate = lerp(prev.translate, next.translate, eased);
-      const opacity = lerp(prev.opacity, next.opacity, eased);
-
-      ctx.save();
-      ctx.globalAlpha = clamp(opacity,0,1);
-
-  // draw image or box centered — but also consider layout x/y/w/h (percent)
-  const cx = rect.width * ((layer.x ?? 50) / 100);
-  const cy = rect.height * ((layer.y ?? 50) / 100) + translate;
-  const w = rect.width * ((layer.w ?? 60) / 100);
-  const h = rect.height * ((layer.h ?? 30) / 100);
-      if (layer.image) {
-        const img = imagesRef.current[layer.id];
-        if (img && img.complete && img.naturalWidth) {
-          ctx.save();
-          ctx.globalAlpha = clamp(opacity,0,1);
-          const iw = img.width, ih = img.height;
-          const ar = iw/ih;
-          let dw = w, dh = w/ar;
-          if (dh > h) { dh = h; dw = h*ar; }
-          ctx.drawImage(img, cx - dw/2, cy - dh/2, dw, dh);
-          ctx.restore();
-        } else {
-          // placeholder while image loads
-          ctx.fillStyle = '#222';
-          ctx.fillRect(cx - w/2, cy - h/2, w, h);
-        }
-      } else {
-        ctx.fillStyle = layer.color;
-        ctx.fillRect(cx - w/2, cy - h/2, w, h);
-        ctx.fillStyle = '#000';
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        ctx.fillText(layer.label, cx, cy);
-      }
-
-      ctx.restore();
-    });
+    drawScene(ctx, scene, time, rect.width, rect.height, imagesRef.current);
+    // ghosts only while paused: they are for tuning a pose, and each one is a full redraw
+    if (onionSkinOn && !playing) {
+      ghostCanvasRef.current ??= document.createElement('canvas');
+      drawOnionSkin(ctx, onionSkinFrames(time, playback.fps, timelineDuration, onionSkin), ghostCanvasRef.current,
+        (c, t) => drawScene(c, scene, t, rect.width, rect.height, imagesRef.current));
+    }
   };
 
-  // playback loop
+  // playback loop; speed, direction and what happens at the ends (stop, wrap, bounce) follow the playback settings
   useEffect(() => {
-    let start = performance.now() - currentTime;
+    let state = startPlayback(config, playback, currentTime);
+    let last = performance.now();
     const loop = (now: number) => {
-      const t = now - start;
-      if (t >= timelineDuration) {
-        setCurrentTime(timelineDuration);
+      state = stepPlayback(config, playback, state, Math.max(0, now - last)).state;
+      last = now;
+      setCurrentTime(state.time);
+      draw(state.time);
+      if (state.ended) {
         playingRef.current = false;
         setPlaying(false);
         return;
       }
-      setCurrentTime(t);
-      draw(t);
       rafRef.current = requestAnimationFrame(loop);
     };
     if (playing) {
@@ -403,10 +733,24 @@ const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay' }) => {
     }
     return () => { if (rafRef.current) cancelAnimationFrame(rafRef.current); };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [playing, layers, timelineDuration]);
+  }, [playing, layers, timelineDuration, loopRange, playback, previewWidth, breakpoints]);
 
   // draw when currentTime or layers change (paused)
-  useEffect(() => { if (!playing) draw(currentTime); /* eslint-disable-next-line react-hooks/exhaustive-deps */ }, [currentTime, layers]);
+  useEffect(() => { if (!playing) draw(currentTime); /* eslint-disable-next-line react-hooks/exhaustive-deps */ }, [currentTime, layers, onionSkinOn, onionSkin, playback.fps, previewWidth, breakpoints]);
+
+  // the motion-path overlay is laid out in preview pixels
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => {
+      const rect = container.getBoundingClientRect();
+      setPreviewSize(size => (size && size.width === rect.width && size.height === rect.height ? size : { width: rect.width, height: rect.height }));
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [visible]);
 
   const play = () => { setPlaying(true); };
   const pause = () => { setPlaying(false); };
@@ -414,18 +758,89 @@ const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay' }) => {
 
   // presets
   const savePreset = (name: string) => {
-    const p = [...presets, { name, config: layers }];
-    setPresets(p);
-    localStorage.setItem('animation-builder-presets', JSON.stringify(p));
+    if (!store) return;
+    store.savePreset(name, projectDocument(config)).then(
+      () => setLiveMessage(`Preset ${name} guardado`),
+      (e: Error) => setLiveMessage(`No se pudo guardar el preset: ${e.message}`),
+    );
   };
   const loadPreset = (index: number) => {
     const p = presets[index];
-    if (p) setLayers(p.config);
+    if (p) applyProject(p.document, `Preset ${p.name} cargado`);
+  };
+
+  // open project: file picker, drag-and-drop and paste all end here
+  const applyProject = (project: ProjectDocument, message: string) => {
+    setPlaying(false);
+    // one undo step brings the previous project back
+    history.set(editorStateOf(project));
+    setCurrentTime(0);
+    setSelectedKF(null);
+    setImportErrors(null);
+    setImportWarnings(null);
+    setLiveMessage(message);
+  };
+  const openLottie = (raw: unknown, source: string) => {
+    let result: LottieImportResult;
+    // a malformed file must not fail silently inside the file-read or paste handler
+    try {
+      result = importLottie(raw);
+    } catch (e) {
+      result = { ok: false, errors: [{ path: '', message: `Lottie no válido: ${(e as Error).message}` }] };
+    }
+    if (!result.ok) {
+      setImportErrors(result.errors);
+      setLiveMessage(`No se pudo abrir ${source}: ${result.errors.length} error(es)`);
+      return;
+    }
+    applyProject(result.project, `Lottie abierto desde ${source}`);
+    if (result.unsupported.length) setImportWarnings({ title: 'Lottie importado sin estas características', items: result.unsupported });
+  };
+  const openProjectText = (text: string, source: string) => {
+    let raw: unknown = null;
+    try { raw = JSON.parse(text); } catch { /* parseProject reports it (or reads the snippet form) */ }
+    if (isLottie(raw)) return openLottie(raw, source);
+    const result = parseProject(text);
+    if (!result.ok) {
+      setImportErrors(result.errors);
+      setLiveMessage(`No se pudo abrir ${source}: ${result.errors.length} error(es)`);
+      return;
+    }
+    const migrated = result.migratedFrom !== null ? ` (migrado desde la versión ${result.migratedFrom})` : '';
+    applyProject(result.project, `Proyecto abierto desde ${source}${migrated}`);
+  };
+  const openProjectFile = (file: File) => {
+    file.text().then(text => openProjectText(text, file.name), () => setImportErrors([{ path: '', message: `no se pudo leer ${file.name}` }]));
+  };
+  const pasteProject = () => {
+    navigator.clipboard?.readText().then(text => openProjectText(text, 'el portapapeles'), () => setLiveMessage('No se pudo leer el portapapeles'));
+  };
+  const onProjectDrop = (e: React.DragEvent) => {
+    const files = Array.from(e.dataTransfer.files);
+    const svg = files.find(isSvgFile);
+    if (svg) {
+      e.preventDefault();
+      importSvgFile(svg);
+      return;
+    }
+    const file = files.find(f => f.type === 'application/json' || f.name.endsWith('.json'));
+    if (!file) return;
+    e.preventDefault();
+    openProjectFile(file);
+  };
+  const onProjectPaste = (e: React.ClipboardEvent) => {
+    // pasting into a field keeps its normal behaviour
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+    const text = e.clipboardData.getData('text');
+    if (!text.trim()) return;
+    e.preventDefault();
+    openProjectText(text, 'el portapapeles');
   };
 
   // small helper to download a generated file
-  const downloadFile = (filename: string, content: string, mime = 'text/plain') => {
-    const blob = new Blob([content], { type: mime });
+  const downloadFile = (filename: string, content: string | Blob, mime = 'text/plain') => {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: mime });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -436,76 +851,78 @@ const AnimationBuilder: React.FC<BuilderProps> = ({ mode = 'overlay' }) => {
     setTimeout(() => URL.revokeObjectURL(url), 500);
   };
 
-  const exportJSON = () => { const json = JSON.stringify({ timelineDuration, layers }, null, 2); navigator.clipboard?.writeText(json); alert('JSON copiado'); };
-  const exportSnippet = () => { const snippet = `const animation = ${JSON.stringify({ timelineDuration, layers }, null, 2)};`; navigator.clipboard?.writeText(snippet); alert('Snippet copiado'); };
+  const exportJSON = () => { const json = serializeProject(config); navigator.clipboard?.writeText(json); alert('JSON copiado'); };
+  const exportProjectFile = () => downloadFile('animation-project.json', serializeProject(config), 'application/json');
+  const exportSnippet = () => { const snippet = `const animation = ${JSON.stringify(projectDocument(config), null, 2)};`; navigator.clipboard?.writeText(snippet); alert('Snippet copiado'); };
 
   const generateReactComponentString = () => {
-    const cfg = JSON.stringify({ timelineDuration, layers }, null, 2);
+    const cfg = JSON.stringify(projectDocument(config), null, 2);
     const rect = containerRef.current?.getBoundingClientRect();
     const exportW = Math.round(rect?.width ?? 800);
     const exportH = Math.round(rect?.height ?? 400);
-    return `import React, { useEffect, useRef, useState } from 'react';
-
-type KeyframePoint = { id: string; time: number; translate: number; opacity: number; easing?: string };
-type LayerConfig = { id: string; label: string; depth: number; color: string; image?: string | null; visible?: boolean; keyframes: KeyframePoint[] };
+    return `// generated by AnimationBuilder; needs animationEngine.js and animationEngine.d.ts next to it
+import { useEffect, useRef, useState } from 'react';
+import { engine, type Animation, type PlaybackMode } from './animationEngine.js';
 
-const animation = ${cfg};
+const animation: Animation = ${cfg};
 
-export default function ExportedAnimation({ width = ${exportW}, height = ${exportH}, autoplay = false, loop = false }: { width?: number; height?: number; autoplay?: boolean; loop?: boolean }) {
+// onMarker is called with each marker's name as playback passes it. rate, mode and reverse default to the
+// project's playback settings; loop is a shorthand for mode="loop" (the loop range, or the whole timeline)
+export default function ExportedAnimation({ width = ${exportW}, height = ${exportH}, autoplay = false, loop = false, rate, mode, reverse, onMarker }: { width?: number; height?: number; autoplay?: boolean; loop?: boolean; rate?: number; mode?: PlaybackMode; reverse?: boolean; onMarker?: (name: string, time: number) => void }) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const [playing, setPlaying] = useState(autoplay);
-  const imgs: Record<string, HTMLImageElement> = {} as any;
+  const imgs = useRef<Record<string, HTMLImageElement>>({});
+  const onMarkerRef = useRef(onMarker);
+  onMarkerRef.current = onMarker;
+  // where Pause left off; Play resumes from here
+  const timeRef = useRef(0);
+  const defaults = engine.playbackOf(animation);
+  const settings = { ...defaults, rate: rate ?? defaults.rate, mode: mode ?? (loop ? 'loop' : defaults.mode), reverse: reverse ?? defaults.reverse };
 
   useEffect(() => {
     // preload images
-    animation.layers.forEach((l: any) => {
-      if (l.image) { const im = new Image(); im.src = l.image; imgs[l.id] = im; }
+    animation.layers.forEach(l => {
+      if (l.image) { const im = new Image(); im.src = l.image; imgs.current[l.id] = im; }
     });
   }, []);
 
+  const drawAt = (time: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    // breakpoint overrides go by the component's width, like container queries
+    if (ctx) engine.drawScene(ctx, engine.resolveResponsive(animation, width), time, width, height, imgs.current);
+  };
+  // one frame forward or back at the project's fps; it pauses
+  const step = (frames: number) => {
+    setPlaying(false);
+    timeRef.current = engine.frameStep(timeRef.current, settings.fps, frames, animation.timelineDuration);
+    drawAt(timeRef.current);
+  };
+
   useEffect(() => {
+    if (!playing) return;
     let raf = 0;
-    let start = performance.now();
+    let state = engine.startPlayback(animation, settings, timeRef.current);
+    let last = performance.now();
     const loopFn = (now: number) => {
-      let t = now - start;
-      if (!playing) { start = now - t; raf = requestAnimationFrame(loopFn); return; }
-      if (t > animation.timelineDuration) {
-        if (loop) { start = now; t = 0; } else { setPlaying(false); return; }
-      }
-      const canvas = canvasRef.current; if (!canvas) return;
-      const ctx = canvas.getContext('2d'); if (!ctx) return;
-      ctx.clearRect(0,0,canvas.width,canvas.height);
-      animation.layers.forEach((layer: any) => {
-        if (!layer.visible) return;
-        const kf = layer.keyframes;
-        if (!kf || kf.length === 0) return;
-        let prev = kf[0]; let next = kf[kf.length-1];
-        for (let i=0;i<kf.length;i++){ if(kf[i].time <= t) prev = kf[i]; if(kf[i].time >= t){ next = kf[i]; break; } }
-        const span = Math.max(1, next.time - prev.time);
-        const localT = Math.max(0, Math.min(1, (t - prev.time) / span));
-        const translate = prev.translate + (next.translate - prev.translate) * localT;
-        const opacity = prev.opacity + (next.opacity - prev.opacity) * localT;
-        ctx.save(); ctx.globalAlpha = opacity; ctx.fillStyle = layer.color;
-        if (layer.image && imgs[layer.id] && imgs[layer.id].complete) {
-          const img = imgs[layer.id]; const iw = img.width, ih = img.height; const ar = iw/ih; let dw = width*0.6, dh = dw/ar; if (dh > height*0.4) { dh = height*0.4; dw = dh*ar; }
-          ctx.drawImage(img, (width-dw)/2, (height-dh)/2 + translate, dw, dh);
-        } else {
-          ctx.fillRect(10, 10 + translate + layer.depth*20, 200, 60);
-        }
-        ctx.restore();
-      });
+      const next = engine.stepPlayback(animation, settings, state, Math.max(0, now - last));
+      last = now;
+      state = next.state;
+      next.markers.forEach(m => onMarkerRef.current?.(m.label, m.time));
+      timeRef.current = state.time;
+      drawAt(state.time);
+      if (state.ended) { setPlaying(false); return; }
       raf = requestAnimationFrame(loopFn);
     };
     raf = requestAnimationFrame(loopFn);
     return () => cancelAnimationFrame(raf);
-  }, [playing]);
+  }, [playing, settings.rate, settings.mode, settings.reverse, width, height]);
 
   return (
     <div>
       <canvas ref={canvasRef} width={width} height={height} style={{ border: '1px solid #ccc' }} />
       {/* Render elements as divs positioned according to layout so exported component can show DOM preview */}
       <div style={{ position: 'relative', width, height }}>
-        {animation.layers.map((layer: any) => (
+        {animation.layers.filter(layer => layer.type !== 'group').map(layer => (
           <div key={layer.id} style={{ position: 'absolute', left: (layer.x ?? 50) + '%', top: (layer.y ?? 50) + '%', width: (layer.w ?? 60) + '%', height: (layer.h ?? 30) + '%', transform: 'translate(-50%, -50%)' }}>
             {/* simple preview box */}
             <div style={{ width: '100%', height: '100%', background: layer.color, opacity: 0.9 }} />
@@ -515,6 +932,8 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
       <div style={{ marginTop: 8 }}>
         <button onClick={()=>setPlaying(true)}>Play</button>
         <button onClick={()=>setPlaying(false)}>Pause</button>
+        <button onClick={()=>step(-1)} aria-label="Previous frame">◀|</button>
+        <button onClick={()=>step(1)} aria-label="Next frame">|▶</button>
       </div>
     </div>
   );
@@ -525,16 +944,18 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
   const exportReactComponent = () => {
     const component = generateReactComponentString();
     navigator.clipboard?.writeText(component);
-    alert('React component copiado al portapapeles');
+    alert('React component copiado al portapapeles (el motor, animationEngine.js y su .d.ts, viene con "Download .tsx")');
   };
 
+  // the component and the engine module it imports, with its declaration
   const exportReactComponentFile = () => {
-    const tsx = generateReactComponentString();
-    downloadFile('ExportedAnimation.tsx', tsx, 'text/plain;charset=utf-8');
+    downloadFile('ExportedAnimation.tsx', generateReactComponentString(), 'text/plain;charset=utf-8');
+    downloadFile('animationEngine.js', engineModuleSource(), 'text/javascript;charset=utf-8');
+    downloadFile('animationEngine.d.ts', REACT_ENGINE_DECLARATION, 'text/plain;charset=utf-8');
   };
 
   const generateHtmlPreviewString = () => {
-    const payload = JSON.stringify({ timelineDuration, layers }, null, 2);
+    const payload = JSON.stringify(projectDocument(config), null, 2);
     // A small self-contained HTML page that mounts a canvas and simple controls and a theme selector
     return `<!doctype html>
 <html>
@@ -554,8 +975,14 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
     <div class="controls">
       <button id="play">Play</button>
       <button id="pause">Pause</button>
+      <button id="prevFrame" aria-label="Previous frame">◀|</button>
+      <button id="nextFrame" aria-label="Next frame">|▶</button>
+      <label>Speed: <select id="rate"></select></label>
+      <label>Mode: <select id="mode"><option value="once">once</option><option value="loop">loop</option><option value="pingpong">ping-pong</option></select></label>
+      <label><input type="checkbox" id="reverse"/> Reverse</label>
       <label>Theme: <select id="theme"><option>light</option><option>dark</option><option>crimson</option></select></label>
       <label><input type="checkbox" id="asScroll"/> Preview as scroll</label>
+      <span id="marker" aria-live="polite"></span>
     </div>
     <canvas id="c" width="800" height="400" style="width:100%;height:320px;border:1px solid rgba(255,255,255,0.06);background:#000"></canvas>
     <div id="domPreview" style="position:relative;width:100%;height:200px;margin-top:8px"></div>
@@ -567,16 +994,32 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
     const ctx = canvas.getContext('2d');
     const imgs = {};
     animation.layers.forEach(l => { if (l.image) { const im = new Image(); im.src = l.image; imgs[l.id] = im; } });
-    let playing = false; let start = performance.now(); const timelineDuration = animation.timelineDuration;
-    function drawAt(t){ ctx.clearRect(0,0,canvas.width,canvas.height); animation.layers.forEach(layer => {
-      if (!layer.visible) return; const kf = layer.keyframes; if (!kf||kf.length===0) return; let prev=kf[0], next=kf[kf.length-1]; for(let i=0;i<kf.length;i++){ if(kf[i].time<=t) prev=kf[i]; if(kf[i].time>=t){ next=kf[i]; break; }} const span=Math.max(1,next.time-prev.time); const localT=Math.max(0,Math.min(1,(t-prev.time)/span)); const translate = prev.translate + (next.translate - prev.translate)*localT; const opacity = prev.opacity + (next.opacity - prev.opacity)*localT; ctx.save(); ctx.globalAlpha = opacity; ctx.fillStyle = layer.color; if (layer.image && imgs[layer.id] && imgs[layer.id].complete){ const img=imgs[layer.id]; const iw=img.width, ih=img.height, ar=iw/ih; let dw=canvas.width*0.6, dh=dw/ar; if (dh>canvas.height*0.4){ dh=canvas.height*0.4; dw=dh*ar;} ctx.drawImage(img, (canvas.width-dw)/2, (canvas.height-dh)/2 + translate, dw, dh); } else { ctx.fillRect(10, 10 + translate + layer.depth*20, 200, 60); } ctx.restore(); }); }
-    function loop(now){ if(!playing){ requestAnimationFrame(loop); return;} let t = now - start; if (t > timelineDuration){ playing = false; return;} drawAt(t); requestAnimationFrame(loop); }
-    document.getElementById('play').addEventListener('click', ()=>{ playing=true; start=performance.now(); requestAnimationFrame(loop); });
+    const engine = ${engineRuntimeSource()};
+    let playing = false; let last = performance.now(); let time = 0; let state = null; const timelineDuration = animation.timelineDuration;
+    // the project's playback settings; the controls below change them
+    const settings = engine.playbackOf(animation);
+    const rateSelect = document.getElementById('rate'); [...new Set([${PLAYBACK_RATES.join(', ')}, settings.rate])].sort((a, b) => a - b).forEach(r => rateSelect.add(new Option(r + '×', r, false, r === settings.rate)));
+    const modeSelect = document.getElementById('mode'); modeSelect.value = settings.mode;
+    const reverseBox = document.getElementById('reverse'); reverseBox.checked = settings.reverse;
+    // a new setting restarts the step from where playback is
+    function restart(){ if (playing) state = engine.startPlayback(animation, settings, time); }
+    rateSelect.addEventListener('change', ()=>{ settings.rate = Number(rateSelect.value); restart(); });
+    modeSelect.addEventListener('change', ()=>{ settings.mode = modeSelect.value; restart(); });
+    reverseBox.addEventListener('change', ()=>{ settings.reverse = reverseBox.checked; restart(); });
+    // breakpoint overrides go by the width the canvas is shown at
+    function drawAt(t){ time = t; engine.drawScene(ctx, engine.resolveResponsive(animation, canvas.clientWidth), t, canvas.width, canvas.height, imgs); }
+    // markers are dispatched on the document as "animationmarker" events ({ detail: { name, time } })
+    document.addEventListener('animationmarker', e => { document.getElementById('marker').textContent = '▼ ' + e.detail.name; });
+    function loop(now){ if(!playing) return; const next = engine.stepPlayback(animation, settings, state, Math.max(0, now - last)); last = now; state = next.state; next.markers.forEach(m => document.dispatchEvent(new CustomEvent('animationmarker', { detail: { name: m.label, time: m.time } }))); drawAt(state.time); if (state.ended){ playing = false; return; } requestAnimationFrame(loop); }
+    document.getElementById('play').addEventListener('click', ()=>{ if (playing) return; playing=true; state = engine.startPlayback(animation, settings, time); last=performance.now(); requestAnimationFrame(loop); });
     document.getElementById('pause').addEventListener('click', ()=>{ playing=false; });
+    function step(frames){ playing=false; drawAt(engine.frameStep(time, settings.fps, frames, timelineDuration)); }
+    document.getElementById('prevFrame').addEventListener('click', ()=>step(-1));
+    document.getElementById('nextFrame').addEventListener('click', ()=>step(1));
     const asScroll = document.getElementById('asScroll'); asScroll.addEventListener('change', ()=>{ if(asScroll.checked){ window.addEventListener('scroll', onScroll); onScroll(); } else window.removeEventListener('scroll', onScroll); });
     function onScroll(){ const scrollTop = window.scrollY || window.pageYOffset; const maxScroll = Math.max(1, document.body.scrollHeight - window.innerHeight); const prog = Math.max(0, Math.min(1, scrollTop / maxScroll)); drawAt(prog * timelineDuration); }
     // populate DOM preview
-    const domPreview = document.getElementById('domPreview'); animation.layers.forEach(layer=>{ const d = document.createElement('div'); d.style.position='absolute'; d.style.left=(layer.x||50)+'%'; d.style.top=(layer.y||50)+'%'; d.style.width=(layer.w||60)+'%'; d.style.height=(layer.h||30)+'%'; d.style.transform='translate(-50%,-50%)'; d.style.background=layer.color; domPreview.appendChild(d); });
+    const domPreview = document.getElementById('domPreview'); animation.layers.forEach(layer=>{ if (layer.type === 'group') return; const d = document.createElement('div'); d.style.position='absolute'; d.style.left=(layer.x||50)+'%'; d.style.top=(layer.y||50)+'%'; d.style.width=(layer.w||60)+'%'; d.style.height=(layer.h||30)+'%'; d.style.transform='translate(-50%,-50%)'; d.style.background=layer.color; domPreview.appendChild(d); });
     // theme selector
     document.getElementById('theme').addEventListener('change', (e)=>{ const v=e.target.value; document.body.style.background = v==='dark' ? '#0b1220' : v==='crimson' ? '#1b0b0e' : '#f6f7fb'; document.body.style.color = v==='dark' || v==='crimson' ? '#fff' : '#000'; });
   </script>
@@ -589,6 +1032,319 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
     downloadFile('animation-preview.html', html, 'text/html;charset=utf-8');
   };
 
+  // native DOM exports; the stage takes the current preview size, scroll mode and breakpoint queries
+  const domExportOptions = () => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return { width: Math.round(rect?.width ?? 800), height: Math.round(rect?.height ?? 400), scroll: previewAsScroll, queries: breakpointQueries };
+  };
+  const exportCssFile = () => downloadFile('animation.css', generateCssKeyframes(config, domExportOptions()), 'text/css;charset=utf-8');
+  const exportMarkup = () => { navigator.clipboard?.writeText(generateMarkup(config)); alert('Markup copiado'); };
+  const exportWaapiFile = () => downloadFile('animation-waapi.html', generateWaapiHtml(config, domExportOptions()), 'text/html;charset=utf-8');
+  const exportLottieFile = () => {
+    const { width, height } = domExportOptions();
+    // a fixed-size export takes the values the preview shows
+    const { animation, warnings } = exportLottie(scene, { width, height, fps: 30 });
+    downloadFile('animation.lottie.json', JSON.stringify(animation), 'application/json');
+    setLiveMessage(warnings.length ? `Lottie exportado sin: ${warnings.join('; ')}` : 'Lottie exportado');
+  };
+
+  const exporters: (BuilderExporter & { className: string; run: () => void })[] = [
+    { id: 'json', label: 'Export JSON', className: 'bg-gray-200', run: exportJSON },
+    { id: 'snippet', label: 'Export Snippet', className: 'bg-gray-200', run: exportSnippet },
+    { id: 'react', label: 'Copy React Component', className: 'bg-gray-200', run: exportReactComponent },
+    { id: 'tsx', label: 'Download .tsx', title: 'Con animationEngine.js y animationEngine.d.ts', className: 'bg-blue-600 text-white', run: exportReactComponentFile },
+    { id: 'html', label: 'Download HTML Preview', className: 'bg-green-600 text-white', run: exportHtmlPreviewFile },
+    { id: 'css', label: 'Download CSS @keyframes', title: previewAsScroll ? 'Con animation-timeline (scroll)' : undefined, className: 'bg-gray-200', run: exportCssFile },
+    { id: 'markup', label: 'Copy Markup', className: 'bg-gray-200', run: exportMarkup },
+    { id: 'waapi', label: 'Download WAAPI .html', title: previewAsScroll ? 'Con ViewTimeline (scroll)' : undefined, className: 'bg-gray-200', run: exportWaapiFile },
+    { id: 'lottie', label: 'Download Lottie .json', title: 'Capas sólidas e imagen; position, opacity, rotation y scale', className: 'bg-gray-200', run: exportLottieFile },
+  ];
+  const framesPanelRef = useRef<HTMLDivElement | null>(null);
+
+  const duplicateSelected = () => {
+    const copy = duplicateLayers(layers, selectionRef.current.layerIds);
+    if (!copy.ids.length) return;
+    setLayers(copy.layers);
+    setSelection({ layerIds: copy.ids, keyframes: [] });
+    setLiveMessage(`${copy.ids.length} capa(s) duplicada(s)`);
+  };
+
+  // keyframe diamond; `prop` marks a per-property row (same keyframe, same drag/keyboard handling)
+  const renderKeyframe = (layer: LayerConfig, k: KeyframePoint, prop?: AnimatableProperty) => (
+    <div key={k.id}
+      onPointerDown={(e)=>onTimelinePointerDown(e, layer.id, k.id)}
+      data-layer-id={layer.id}
+      data-kf-id={k.id}
+      role="button"
+      tabIndex={0}
+      aria-pressed={isKeyframeSelected(selection, { layerId: layer.id, kfId: k.id }) ? 'true' : 'false'}
+      onFocus={()=>{ if (!isKeyframeSelected(selectionRef.current, { layerId: layer.id, kfId: k.id })) setSelectedKF({layerId: layer.id, kfId: k.id}); setLiveMessage(`Keyframe seleccionado: ${layer.label} @ ${k.time}ms`); }}
+      // arrows and Delete go through the command registry and act on the whole selection
+      onKeyDown={(ev)=>{
+        if (ev.key === 'Enter') { setSelectedKF({layerId: layer.id, kfId: k.id}); setLiveMessage('Keyframe seleccionado'); }
+      }}
+      className={`timeline-keyframe absolute top-1/2 -translate-y-1/2 bg-blue-500 rounded-full w-3 h-3 cursor-grab ${isKeyframeSelected(selection, { layerId: layer.id, kfId: k.id }) ? 'ring-2 ring-yellow-400' : ''}`}
+      style={{ left: `${clamp(k.time/timelineDuration,0,1)*100}%`, background: prop === 'color' ? k.color : undefined }}
+      title={prop ? `${prop}: ${k[prop]} @ ${k.time}ms` : `${k.time}ms`} />
+  );
+  // property rows only list properties that at least one keyframe animates
+  const rows = layerRows(layers, collapsedGroups).filter(({ layer }) => !visibleLayers || visibleLayers.has(layer.id));
+  const animatedProps = (layer: LayerConfig) => KEYFRAME_PROPERTIES.filter(p => layer.keyframes.some(k => k[p.key] !== undefined));
+
+  // bulk keyframe operations act on the whole selection
+  const selectedKeyframeRefs = selection.keyframes;
+  const editKeyframes = (update: (prev: LayerConfig[]) => LayerConfig[], message: string, coalesce?: string) => {
+    setLayers(update, { coalesce });
+    setLiveMessage(message);
+  };
+  const nudgeKeyframes = (delta: number) => editKeyframes(
+    prev => moveKeyframes(prev, selectedTimes(prev, selectedKeyframeRefs), delta, timelineDuration),
+    `Keyframes movidos ${delta > 0 ? '+' : ''}${delta}ms`,
+    `nudge:${selectedKeyframeRefs.map(r => r.kfId).join(',')}`,
+  );
+  const stretchSelected = (factor: number) => editKeyframes(prev => stretchKeyframes(prev, selectedKeyframeRefs, factor, timelineDuration), `Tiempo escalado ×${factor}`);
+  const addKeyframesAtPlayhead = () => {
+    const added = addKeyframes(layers, selection.layerIds, Math.round(currentTime));
+    setLayers(added.layers);
+    setSelection({ layerIds: selection.layerIds, keyframes: added.refs });
+    setLiveMessage(`${added.refs.length} keyframe(s) añadido(s) en ${Math.round(currentTime)}ms`);
+  };
+  const copySelectedKeyframes = () => {
+    setKeyframeClip(copyKeyframes(layers, selectedKeyframeRefs));
+    setLiveMessage(`${selectedKeyframeRefs.length} keyframe(s) copiado(s)`);
+  };
+  const pasteKeyframeClip = () => {
+    const pasted = pasteKeyframes(layers, keyframeClip, Math.round(currentTime), timelineDuration);
+    if (!pasted.refs.length) { setLiveMessage('Las capas copiadas ya no existen'); return; }
+    setLayers(pasted.layers);
+    setSelection({ layerIds: [...new Set(pasted.refs.map(r => r.layerId))], keyframes: pasted.refs });
+    setLiveMessage(`${pasted.refs.length} keyframe(s) pegado(s) en ${Math.round(currentTime)}ms`);
+  };
+  const hasKeyframes = selectedKeyframeRefs.length > 0;
+
+  // markers, regions and loop points are placed at the playhead
+  const seekTo = (time: number) => { setPlaying(false); setCurrentTime(clamp(time, 0, timelineDuration)); };
+  const addMarkerAtPlayhead = () => {
+    const added = addMarker(markers, Math.round(currentTime));
+    setMarkers(added.markers);
+    setLiveMessage(`Marcador ${added.marker.label} en ${added.marker.time}ms`);
+  };
+  const jumpToMarker = (direction: 1 | -1) => {
+    const marker = adjacentMarker(markers, currentTime, direction);
+    if (!marker) return;
+    seekTo(marker.time);
+    setLiveMessage(`Marcador ${marker.label} (${marker.time}ms)`);
+  };
+  // over the selected keyframes' span when there is one
+  const addRegionHere = () => {
+    const times = selectedTimes(layers, selectedKeyframeRefs).map(e => e.time);
+    const [start, end] = times.length > 1 ? [times[0], times[times.length - 1]] : [Math.round(currentTime), Math.round(currentTime)];
+    const added = addRegion(regions, start, end, timelineDuration);
+    setRegions(added.regions);
+    setLiveMessage(`${added.region.label}: ${added.region.start}–${added.region.end}ms`);
+  };
+  // a loop range is only played in loop or ping-pong mode, so setting one leaves "once" (in the same undo step)
+  const applyLoopRange = (next: LoopRange | null) => {
+    history.set(state => ({ ...state, loop: next, playback: next && state.playback.mode === 'once' ? { ...state.playback, mode: 'loop' } : state.playback }));
+    setLiveMessage(next ? `Loop ${next.start}–${next.end}ms` : 'Sin loop');
+  };
+  const setLoopAt = (point: 'start' | 'end') => applyLoopRange(setLoopPoint(loopRange, point, Math.round(currentTime), timelineDuration));
+
+  // transport: frame steps and the timecode field seek (and pause) like the marker buttons
+  const changePlayback = (patch: Partial<PlaybackSettings>, message: string) => {
+    setPlayback({ ...playback, ...patch });
+    setLiveMessage(message);
+  };
+  const stepFrames = (frames: number) => {
+    const time = frameStep(currentTime, playback.fps, frames, timelineDuration);
+    seekTo(time);
+    setLiveMessage(`Fotograma ${frameAt(time, playback.fps)}`);
+  };
+  const applyTimecode = () => {
+    if (timecodeDraft === null) return true;
+    const time = parseTimecode(timecodeDraft, playback.fps);
+    if (time === null) return false;
+    seekTo(time);
+    setTimecodeDraft(null);
+    return true;
+  };
+  // device sizes and breakpoints
+  const setDevice = (width: number | null) => {
+    setPreviewWidth(width);
+    const at = breakpointAt(breakpoints, width);
+    setLiveMessage(width === null ? 'Vista previa de escritorio' : `Vista previa a ${width}px${at ? ` · ${at.label}` : ''}`);
+  };
+  const newBreakpoint = () => {
+    const { breakpoints: next, breakpoint } = addBreakpoint(breakpoints, previewWidth ?? 480);
+    setBreakpoints(next);
+    setLiveMessage(`Breakpoint ${breakpoint.label} añadido`);
+  };
+  // its overrides go with it, as one undo step
+  const dropBreakpoint = (b: Breakpoint) => {
+    history.set(state => ({ ...state, ...removeBreakpoint(state.layers, state.breakpoints, b.id) }));
+    setLiveMessage(`Breakpoint ${b.label} quitado`);
+  };
+
+  // motion path: a keyframe's dot moves its translate; the groups it sits in are undone first
+  const pathKeyStart = (layerId: string, keyframe: KeyframePoint) => {
+    const entry = walkLayers(scene.layers).find(e => e.layer.id === layerId);
+    const state = entry && evaluateLayer(entry.layer, keyframe.time);
+    return { groups: groupsAt(entry?.parents ?? [], keyframe.time), translate: keyframe.translate, translateX: keyframe.translateX ?? state?.translateX ?? 0 };
+  };
+  const movePathKey = (layerId: string, kfId: string, start: ReturnType<typeof pathKeyStart>, dx: number, dy: number, coalesce?: string) => {
+    const d = layerDelta(start.groups, { x: dx, y: dy });
+    setKeyframeValues(layerId, kfId, { translateX: Math.round(start.translateX + d.x), translate: Math.round(start.translate + d.y) }, coalesce);
+  };
+  const onPathKeyPointerDown = (e: React.PointerEvent<SVGCircleElement>, layerId: string, keyframe: KeyframePoint) => {
+    e.stopPropagation();
+    const el = e.currentTarget;
+    el.setPointerCapture(e.pointerId);
+    const start = pathKeyStart(layerId, keyframe);
+    const x0 = e.clientX, y0 = e.clientY;
+    setSelectedKF({ layerId, kfId: keyframe.id });
+    // the layer follows its dot
+    seekTo(keyframe.time);
+    history.begin();
+    const onMove = (ev: PointerEvent) => movePathKey(layerId, keyframe.id, start, ev.clientX - x0, ev.clientY - y0);
+    const onUp = () => {
+      try { el.releasePointerCapture(e.pointerId); } catch { /* capture already lost */ }
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      history.commit();
+      setLiveMessage('Keyframe movido en la trayectoria');
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
+  // arrow keys move the focused dot 1px (10px with Shift) on screen
+  const onPathKeyKeyDown = (e: React.KeyboardEvent<SVGCircleElement>, layerId: string, keyframe: KeyframePoint) => {
+    const dir = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] }[e.key];
+    if (!dir) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const step = e.shiftKey ? 10 : 1;
+    movePathKey(layerId, keyframe.id, pathKeyStart(layerId, keyframe), dir[0] * step, dir[1] * step, `path-${keyframe.id}`);
+  };
+
+  const timecodeInvalid = timecodeDraft !== null && parseTimecode(timecodeDraft, playback.fps) === null;
+  const playbackModes = Object.keys(PLAYBACK_MODE_LABELS) as PlaybackMode[];
+
+  const handlers: Record<string, { run: () => void; enabled?: boolean }> = {
+    'palette.open': { run: () => setOverlay('palette') },
+    'shortcuts.open': { run: () => setOverlay('shortcuts') },
+    'history.undo': { run: () => { history.undo(); setLiveMessage('Deshacer'); }, enabled: history.canUndo },
+    'history.redo': { run: () => { history.redo(); setLiveMessage('Rehacer'); }, enabled: history.canRedo },
+    'selection.clear': { run: () => setSelection(EMPTY_SELECTION), enabled: hasKeyframes || selection.layerIds.length > 0 },
+    'selection.allKeyframes': {
+      run: () => setSelection({ layerIds: rows.map(r => r.layer.id), keyframes: rows.flatMap(({ layer }) => layer.keyframes.map(k => ({ layerId: layer.id, kfId: k.id }))) }),
+    },
+    'keyframes.add': { run: addKeyframesAtPlayhead, enabled: selection.layerIds.length > 0 },
+    'keyframes.delete': {
+      run: () => { editKeyframes(prev => deleteKeyframes(prev, selectedKeyframeRefs), `${selectedKeyframeRefs.length} keyframe(s) eliminado(s)`); setSelectedKF(null); },
+      enabled: hasKeyframes,
+    },
+    'keyframes.nudgeLeft': { run: () => nudgeKeyframes(-10), enabled: hasKeyframes },
+    'keyframes.nudgeRight': { run: () => nudgeKeyframes(10), enabled: hasKeyframes },
+    'keyframes.nudgeLeftBig': { run: () => nudgeKeyframes(-100), enabled: hasKeyframes },
+    'keyframes.nudgeRightBig': { run: () => nudgeKeyframes(100), enabled: hasKeyframes },
+    'keyframes.copy': { run: copySelectedKeyframes, enabled: hasKeyframes },
+    'keyframes.paste': { run: pasteKeyframeClip, enabled: keyframeClip.length > 0 },
+    'keyframes.stretch': { run: () => stretchSelected(2), enabled: selectedKeyframeRefs.length > 1 },
+    'keyframes.squeeze': { run: () => stretchSelected(0.5), enabled: selectedKeyframeRefs.length > 1 },
+    'keyframes.reverse': { run: () => editKeyframes(prev => reverseKeyframes(prev, selectedKeyframeRefs), 'Keyframes invertidos'), enabled: selectedKeyframeRefs.length > 1 },
+    'keyframes.align': { run: () => editKeyframes(prev => alignKeyframes(prev, selectedKeyframeRefs, Math.round(currentTime), timelineDuration), `Keyframes alineados en ${Math.round(currentTime)}ms`), enabled: hasKeyframes },
+    'keyframes.distribute': { run: () => editKeyframes(prev => distributeKeyframes(prev, selectedKeyframeRefs), 'Keyframes distribuidos'), enabled: selectedKeyframeRefs.length > 2 },
+    'playback.toggle': { run: () => (playing ? pause() : play()) },
+    'playback.stepBack': { run: () => stepFrames(-1), enabled: currentTime > 0 },
+    'playback.stepForward': { run: () => stepFrames(1), enabled: currentTime < timelineDuration },
+    'playback.toStart': { run: () => seekTo(0) },
+    'playback.toEnd': { run: () => seekTo(timelineDuration) },
+    'playback.slower': { run: () => { const rate = nextRate(playback.rate, -1); changePlayback({ rate }, `Velocidad ${rate}×`); }, enabled: playback.rate > PLAYBACK_RATES[0] },
+    'playback.faster': { run: () => { const rate = nextRate(playback.rate, 1); changePlayback({ rate }, `Velocidad ${rate}×`); }, enabled: playback.rate < PLAYBACK_RATES[PLAYBACK_RATES.length - 1] },
+    'playback.reverse': { run: () => changePlayback({ reverse: !playback.reverse }, playback.reverse ? 'Reproducción hacia delante' : 'Reproducción al revés') },
+    'playback.mode': {
+      run: () => {
+        const mode = playbackModes[(playbackModes.indexOf(playback.mode) + 1) % playbackModes.length];
+        changePlayback({ mode }, `Modo: ${PLAYBACK_MODE_LABELS[mode]}`);
+      },
+    },
+    'markers.add': { run: addMarkerAtPlayhead },
+    'markers.prev': { run: () => jumpToMarker(-1), enabled: markers.some(m => m.time < currentTime) },
+    'markers.next': { run: () => jumpToMarker(1), enabled: markers.some(m => m.time > currentTime) },
+    'regions.add': { run: addRegionHere },
+    'loop.setIn': { run: () => setLoopAt('start') },
+    'loop.setOut': { run: () => setLoopAt('end') },
+    'loop.clear': { run: () => { setLoopRange(null); setLiveMessage('Sin loop'); }, enabled: !!loopRange },
+    'layers.add': { run: addLayer },
+    'layers.addText': { run: addTextLayer },
+    'layers.addShape': { run: addShapeLayer },
+    'layers.addGroup': { run: addGroup },
+    'layers.duplicate': { run: duplicateSelected, enabled: selection.layerIds.length > 0 },
+    'layers.delete': {
+      run: () => { setLayers(prev => selection.layerIds.reduce(removeLayerTree, prev)); setSelection(EMPTY_SELECTION); setLiveMessage('Capas eliminadas'); },
+      enabled: !hasKeyframes && selection.layerIds.length > 0,
+    },
+    'view.timeline': { run: () => setPanels(p => ({ ...p, timeline: !p.timeline })) },
+    'view.layers': { run: () => setPanels(p => ({ ...p, layers: !p.layers })) },
+    'view.onionSkin': { run: () => { setOnionSkinOn(!onionSkinOn); setLiveMessage(onionSkinOn ? 'Papel cebolla desactivado' : 'Papel cebolla activado'); } },
+    'view.motionPaths': { run: () => { setShowPaths(!showPaths); setLiveMessage(showPaths ? 'Trayectorias ocultas' : 'Trayectorias visibles'); } },
+    'view.device': { run: () => { const i = DEVICE_PRESETS.findIndex(d => d.width === previewWidth); setDevice(DEVICE_PRESETS[(i + 1) % DEVICE_PRESETS.length].width); } },
+    'view.keyframeGraph': { run: () => { setKeyframeView(v => (v === 'list' ? 'graph' : 'list')); setLiveMessage(keyframeView === 'list' ? 'Keyframes como curvas' : 'Keyframes como lista'); } },
+    'view.zoomIn': { run: () => setTimelineZoom(z => clamp(Math.round((z + 0.5) * 10) / 10, ZOOM_RANGE.min, ZOOM_RANGE.max)) },
+    'view.zoomOut': { run: () => setTimelineZoom(z => clamp(Math.round((z - 0.5) * 10) / 10, ZOOM_RANGE.min, ZOOM_RANGE.max)) },
+  };
+  const commands: RunnableCommand[] = [
+    ...BUILDER_COMMANDS.map(c => ({ ...c, enabled: handlers[c.id]?.enabled ?? true, run: handlers[c.id]?.run ?? (() => {}) })),
+    // every exporter can be run from the palette and bound to a key
+    ...exporters.map(x => ({ id: `export.${x.id}`, label: x.label, group: 'Exportar', keys: [], enabled: true, run: x.run })),
+  ];
+  commandsRef.current = commands;
+  exportersRef.current = exporters;
+  keymapRef.current = keymap;
+  overlayRef.current = overlay;
+
+  // the user's first binding of a command, formatted
+  const shortcutOf = (commandId: string) => {
+    const command = commands.find(c => c.id === commandId);
+    const combo = command && bindingsFor(command, keymap)[0];
+    return combo ? formatCombo(combo) : undefined;
+  };
+  // button title with the command's shortcut, when it has one
+  const titled = (label: string, commandId: string) => {
+    const combo = shortcutOf(commandId);
+    return combo ? `${label} (${combo})` : label;
+  };
+  // rebuilt every render: the history and the handlers close over the current layers
+  useImperativeHandle(ref, () => ({
+    undo: history.undo,
+    redo: history.redo,
+    canUndo: () => history.canUndo,
+    canRedo: () => history.canRedo,
+    updateLayers: (update, coalesce) => setLayers(update, { coalesce }),
+    setLayerImage: (layerId, file) => setLayerImageFile(layerId, file),
+    openFile: () => projectFileRef.current?.click(),
+    save: () => {
+      if (!store || !projectId) { exportProjectFile(); return; }
+      flushSave();
+      setLiveMessage('Proyecto guardado');
+    },
+    document: () => projectDocument(config),
+    duplicate: duplicateSelected,
+    seek: seekTo,
+    panels: () => ({ layers: panels.layers, timeline: panels.timeline }),
+    setPanel: (panel, visible) => setPanels(p => ({ ...p, [panel]: visible })),
+    zoom: () => timelineZoom,
+    setZoom: zoom => setTimelineZoom(clamp(Math.round(zoom * 10) / 10, ZOOM_RANGE.min, ZOOM_RANGE.max)),
+    runExporter: id => exporters.find(x => x.id === id)?.run(),
+    showFramesExport: () => {
+      setUiCollapsed(false);
+      requestAnimationFrame(() => framesPanelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+    },
+    openPalette: () => setOverlay('palette'),
+    openShortcuts: () => setOverlay('shortcuts'),
+  }));
+
+
   const themeClass = editorTheme === 'crimson' ? 'editor-crimson' : (editorTheme === 'dark' ? 'editor-dark' : 'editor-light');
   // compute major/minor ticks based on timeline duration so ruler adapts
   const computeTicks = (duration: number) => {
@@ -623,7 +1379,9 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
   }
 
   return (
-  <div ref={rootRef} className={rootClass} style={{ gridTemplateColumns: `${leftWidth}px 8px minmax(260px, 1fr)` }} tabIndex={0}>
+  <div ref={rootRef} className={rootClass} style={{ gridTemplateColumns: `${leftWidth}px 8px minmax(260px, 1fr)` }} tabIndex={0}
+    onPointerDownCapture={()=>raiseScope(scopeId)} onFocusCapture={()=>raiseScope(scopeId)}
+    onDragOver={e=>{ if (e.dataTransfer.types.includes('Files')) e.preventDefault(); }} onDrop={onProjectDrop} onPaste={onProjectPaste}>
       <div className="flex items-center gap-3">
         <h3 className="text-lg font-semibold">Animation Builder</h3>
         <div className="ml-auto flex gap-2 items-center controls">
@@ -641,8 +1399,11 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
             <button className="px-2 py-1 bg-transparent text-sm" onClick={()=>setPanels(p=>({ ...p, timeline: !p.timeline }))}>{panels.timeline ? 'Ocultar timeline' : 'Mostrar timeline'}</button>
             <button className="px-2 py-1 bg-transparent text-sm" onClick={()=>setPanels(p=>({ ...p, layers: !p.layers }))}>{panels.layers ? 'Ocultar layers' : 'Mostrar layers'}</button>
           </div>
-          <button title="Abrir Studio" className="px-2 py-1 bg-indigo-600 text-white rounded" onClick={()=>{ window.dispatchEvent(new CustomEvent('open-animation-studio')); setLiveMessage('Abriendo editor completo'); }}>Abrir Studio</button>
-          <button className="px-3 py-1 bg-blue-600 text-white rounded" onClick={play} disabled={playing}>Play</button>
+          {onOpenStudio ? <button title="Abrir Studio" className="px-2 py-1 bg-indigo-600 text-white rounded" onClick={()=>{ onOpenStudio(); setLiveMessage('Abriendo editor completo'); }}>Abrir Studio</button> : null}
+          {store && projectId ? <span className="text-xs opacity-70" role="status">{{ idle: '', loading: 'Cargando…', saving: 'Guardando…', saved: 'Guardado', error: 'Sin guardar' }[saveStatus]}</span> : null}
+          <button title="Deshacer (Ctrl+Z)" aria-label="Deshacer" className="px-2 py-1 rounded" onClick={history.undo} disabled={!history.canUndo}>↶</button>
+          <button title="Rehacer (Ctrl+Shift+Z)" aria-label="Rehacer" className="px-2 py-1 rounded" onClick={history.redo} disabled={!history.canRedo}>↷</button>
+          <button className="px-3 py-1 bg-blue-600 text-white rounded" title={titled('Reproducir', 'playback.toggle')} onClick={play} disabled={playing}>Play</button>
           <button className="px-3 py-1 bg-gray-300 rounded" onClick={pause} disabled={!playing}>Pause</button>
           <button className="px-3 py-1 bg-red-500 text-white rounded" onClick={stop}>Stop</button>
         </div>
@@ -652,10 +1413,40 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
 
       <div className="grid gap-3" style={{ gridTemplateColumns: `${leftWidth}px 8px minmax(260px, 1fr)` }}>
         <div>
-          <div ref={containerRef} className="preview-container relative bg-black rounded h-72 overflow-hidden" style={{ minHeight: 240 }}>
+          <div role="toolbar" aria-label="Tamaño de la vista previa" className="flex flex-wrap items-center gap-1 mb-1 text-xs">
+            {DEVICE_PRESETS.map(d => (
+              <button key={d.label} className={`px-1 rounded ${previewWidth === d.width ? 'bg-indigo-200' : 'bg-gray-200'}`} aria-pressed={previewWidth === d.width} onClick={()=>setDevice(d.width)}>
+                {d.label}{d.width ? ` ${d.width}` : ''}
+              </button>
+            ))}
+            <label className="flex items-center gap-1">Ancho
+              <input type="number" min={1} placeholder="—" value={previewWidth ?? ''} onChange={e=>{ const w = Math.round(Number(e.target.value)); setDevice(w > 0 ? w : null); }} className="p-1 border rounded w-16" /> px
+            </label>
+            <span className="opacity-70" role="status">{editingBreakpoint ? `Editando ${editingBreakpoint.label} (≤ ${editingBreakpoint.maxWidth}px)` : 'Editando escritorio'}</span>
+            <button className="ml-auto px-1 bg-gray-200 rounded" aria-expanded={breakpointsOpen} onClick={()=>setBreakpointsOpen(o => !o)}>Breakpoints</button>
+          </div>
+          {breakpointsOpen ? (
+            <div role="group" aria-label="Breakpoints" className="flex flex-wrap items-center gap-2 mb-1 p-1 border rounded text-xs">
+              {breakpoints.map(b => (
+                <span key={b.id} className="flex items-center gap-1">
+                  <input aria-label="Nombre del breakpoint" value={b.label} onChange={e=>setBreakpoints(prev => updateBreakpoint(prev, b.id, { label: e.target.value }), { coalesce: `breakpoint:${b.id}:label` })} className="p-1 border rounded w-20" />
+                  ≤<input aria-label={`Ancho máximo de ${b.label}`} type="number" min={1} value={b.maxWidth} onChange={e=>setBreakpoints(prev => updateBreakpoint(prev, b.id, { maxWidth: Math.max(1, Math.round(Number(e.target.value))) }), { coalesce: `breakpoint:${b.id}:maxWidth` })} className="p-1 border rounded w-16" />px
+                  <button className="text-red-500" aria-label={`Quitar ${b.label}`} title="Quitar el breakpoint y sus overrides" onClick={()=>dropBreakpoint(b)}>✕</button>
+                </span>
+              ))}
+              <button className="px-1 bg-gray-200 rounded" title="Nuevo breakpoint hasta el ancho de la vista previa" onClick={newBreakpoint}>+ Breakpoint</button>
+              <label className="ml-auto flex items-center gap-1" title="Cómo miden el ancho las exportaciones CSS y WAAPI">Exportar con
+                <select value={breakpointQueries} onChange={e=>setBreakpointQueries(e.target.value as 'media' | 'container')} className="p-1 border rounded">
+                  <option value="media">@media (ventana)</option>
+                  <option value="container">@container (escenario)</option>
+                </select>
+              </label>
+            </div>
+          ) : null}
+          <div ref={containerRef} className="preview-container relative bg-black rounded h-72 overflow-hidden" style={{ minHeight: 240, ...(previewWidth !== null ? { width: previewWidth, maxWidth: '100%', marginInline: 'auto' } : {}) }}>
             <canvas ref={canvasRef} />
-            {/* overlay draggable elements */}
-            {layers.map(layer => (
+            {/* overlay draggable elements; groups have no box of their own */}
+            {scene.layers.filter(layer => layer.type !== 'group').map(layer => (
               <div key={layer.id}
                 role="group"
                 aria-label={`Layer ${layer.label}`}
@@ -668,16 +1459,18 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
                   const startX = e.clientX; const startY = e.clientY;
                   const startLeft = ((layer.x ?? 50)/100) * rect.width;
                   const startTop = ((layer.y ?? 50)/100) * rect.height;
+                  history.begin();
                   const onMove = (ev: PointerEvent) => {
                     const dx = ev.clientX - startX; const dy = ev.clientY - startY;
                     const nx = ((startLeft + dx)/rect.width)*100;
                     const ny = ((startTop + dy)/rect.height)*100;
-                    setLayer(layer.id, { x: Math.max(0, Math.min(100, nx)), y: Math.max(0, Math.min(100, ny)) });
+                    setLayout(layer.id, { x: Math.max(0, Math.min(100, nx)), y: Math.max(0, Math.min(100, ny)) });
                   };
                   const onUp = () => {
                     try { el.releasePointerCapture(e.pointerId); } catch {}
                     window.removeEventListener('pointermove', onMove);
                     window.removeEventListener('pointerup', onUp);
+                    history.commit();
                   };
                   window.addEventListener('pointermove', onMove);
                   window.addEventListener('pointerup', onUp);
@@ -694,26 +1487,186 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
                 <div className="w-full h-full flex items-center justify-center text-xs text-white/90">{layer.label}</div>
               </div>
             ))}
+            {showPaths && previewSize ? (
+              <svg className="motion-paths absolute inset-0" width={previewSize.width} height={previewSize.height} style={{ pointerEvents: 'none' }} aria-label="Trayectorias">
+                {motionPaths(scene, previewSize).map(({ layer, points, keys }) => (
+                  <g key={layer.id}>
+                    <path d={pathData(points)} fill="none" stroke={layer.color} strokeWidth={1.5} strokeDasharray="4 3" opacity={0.8} />
+                    {keys.map(({ keyframe, point }) => {
+                      const selected = isKeyframeSelected(selection, { layerId: layer.id, kfId: keyframe.id });
+                      return (
+                        <circle key={keyframe.id} cx={point.x} cy={point.y} r={selected ? 6 : 4.5} fill={selected ? '#fff' : layer.color} stroke="#000"
+                          role="slider" tabIndex={0} aria-label={`${layer.label} @ ${keyframe.time}ms: arrastrar para mover`} aria-valuetext={`x ${keyframe.translateX ?? 0}, y ${keyframe.translate}`} style={{ pointerEvents: 'all', cursor: 'move' }}
+                          onPointerDown={e=>onPathKeyPointerDown(e, layer.id, keyframe)} onKeyDown={e=>onPathKeyKeyDown(e, layer.id, keyframe)} />
+                      );
+                    })}
+                  </g>
+                ))}
+              </svg>
+            ) : null}
+          </div>
+
+          <div role="toolbar" aria-label="Ayudas de la vista previa" className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+            <label className="flex items-center gap-1"><input type="checkbox" checked={onionSkinOn} onChange={handlers['view.onionSkin'].run} /> Papel cebolla</label>
+            {onionSkinOn ? (
+              <>
+                <label className="flex items-center gap-1">Antes
+                  <input type="number" min={0} max={10} value={onionSkin.before} onChange={e=>setOnionSkin({ ...onionSkin, before: clamp(Math.round(Number(e.target.value)), 0, 10) })} className="p-1 border rounded w-12" />
+                </label>
+                <label className="flex items-center gap-1">Después
+                  <input type="number" min={0} max={10} value={onionSkin.after} onChange={e=>setOnionSkin({ ...onionSkin, after: clamp(Math.round(Number(e.target.value)), 0, 10) })} className="p-1 border rounded w-12" />
+                </label>
+                <label className="flex items-center gap-1" title={`Fotogramas a ${playback.fps} fps`}>Cada
+                  <input type="number" min={1} value={onionSkin.step} onChange={e=>setOnionSkin({ ...onionSkin, step: Math.max(1, Math.round(Number(e.target.value))) })} className="p-1 border rounded w-12" /> fotogramas
+                </label>
+                <label className="flex items-center gap-1">Opacidad
+                  <input type="range" min={0.1} max={1} step={0.05} value={onionSkin.opacity} onChange={e=>setOnionSkin({ ...onionSkin, opacity: Number(e.target.value) })} className="w-20" />
+                </label>
+              </>
+            ) : null}
+            <label className="flex items-center gap-1"><input type="checkbox" checked={showPaths} onChange={handlers['view.motionPaths'].run} /> Trayectorias</label>
           </div>
 
           {panels.timeline && (
             <div className="timeline mt-2 p-2 border rounded bg-gray-50">
               <div className="flex items-center gap-2 mb-2">
                 <label>Duration (ms)</label>
-                <input type="number" value={timelineDuration} onChange={e=>setTimelineDuration(Number(e.target.value))} className="p-1 border rounded w-28" />
+                <input type="number" min={1} value={timelineDuration} onChange={e=>setTimelineDuration(Math.max(1, Math.round(Number(e.target.value)) || 1), { coalesce: 'timelineDuration' })} className="p-1 border rounded w-28" />
                 <label className="flex items-center gap-1"><input type="checkbox" checked={snapEnabled} onChange={e=>setSnapEnabled(e.target.checked)} /> Snap</label>
                 <input type="number" value={snapInterval} onChange={e=>setSnapInterval(Number(e.target.value))} className="p-1 border rounded w-20" />
                 <label className="flex items-center gap-1">Zoom
-                  <input type="range" min={0.5} max={4} step={0.1} value={timelineZoom} onChange={e=>setTimelineZoom(Number(e.target.value))} className="w-24" />
+                  <input type="range" min={ZOOM_RANGE.min} max={ZOOM_RANGE.max} step={0.1} value={timelineZoom} onChange={e=>setTimelineZoom(Number(e.target.value))} className="w-24" />
+                </label>
+                <div className="ml-auto text-sm flex items-center gap-1">
+                  <input aria-label="Tiempo (mm:ss.mmm, 2.5s, 1250ms o 75f)" title="mm:ss.mmm, 2.5s, 1250ms o 75f"
+                    className="p-1 border rounded w-24 font-mono" aria-invalid={timecodeInvalid} style={timecodeInvalid ? { borderColor: '#dc2626' } : undefined}
+                    value={timecodeDraft ?? formatTimecode(currentTime)}
+                    onChange={e=>setTimecodeDraft(e.target.value)}
+                    onKeyDown={e=>{
+                      if (e.key === 'Enter' && !applyTimecode()) setLiveMessage('Tiempo no válido');
+                      if (e.key === 'Escape') setTimecodeDraft(null);
+                    }}
+                    onBlur={()=>{ if (!applyTimecode()) setTimecodeDraft(null); }} />
+                  <span className="font-mono opacity-70" title={`Fotograma a ${playback.fps} fps`}>f{frameAt(currentTime, playback.fps)}</span>
+                </div>
+              </div>
+
+              <div role="toolbar" aria-label="Reproducción" className="flex flex-wrap items-center gap-1 mb-1 text-xs">
+                <button className="px-1 bg-gray-200 rounded" aria-label="Ir al inicio" title={titled('Ir al inicio', 'playback.toStart')} onClick={()=>seekTo(0)}>⏮</button>
+                <button className="px-1 bg-gray-200 rounded" aria-label="Fotograma anterior" title={titled('Fotograma anterior', 'playback.stepBack')} onClick={()=>stepFrames(-1)} disabled={currentTime <= 0}>◀|</button>
+                <button className="px-1 bg-gray-200 rounded" aria-label="Fotograma siguiente" title={titled('Fotograma siguiente', 'playback.stepForward')} onClick={()=>stepFrames(1)} disabled={currentTime >= timelineDuration}>|▶</button>
+                <button className="px-1 bg-gray-200 rounded" aria-label="Ir al final" title={titled('Ir al final', 'playback.toEnd')} onClick={()=>seekTo(timelineDuration)}>⏭</button>
+                <label className="flex items-center gap-1">Velocidad
+                  <select value={playback.rate} onChange={e=>changePlayback({ rate: Number(e.target.value) }, `Velocidad ${e.target.value}×`)} className="p-1 border rounded">
+                    {[...new Set([...PLAYBACK_RATES, playback.rate])].sort((a, b) => a - b).map(r => <option key={r} value={r}>{r}×</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1">Modo
+                  <select value={playback.mode} onChange={e=>{ const mode = e.target.value as PlaybackMode; changePlayback({ mode }, `Modo: ${PLAYBACK_MODE_LABELS[mode]}`); }} className="p-1 border rounded">
+                    {playbackModes.map(m => <option key={m} value={m}>{PLAYBACK_MODE_LABELS[m]}</option>)}
+                  </select>
                 </label>
-                <div className="ml-auto text-sm">Time: {Math.round(currentTime)}ms</div>
+                <label className="flex items-center gap-1"><input type="checkbox" checked={playback.reverse} onChange={e=>changePlayback({ reverse: e.target.checked }, e.target.checked ? 'Reproducción al revés' : 'Reproducción hacia delante')} /> Al revés</label>
+                <label className="flex items-center gap-1">fps
+                  <input type="number" min={1} list={fpsListId} value={playback.fps} className="p-1 border rounded w-16"
+                    onChange={e=>{ const fps = Number(e.target.value); if (fps > 0) changePlayback({ fps }, `${fps} fps`); }} />
+                  <datalist id={fpsListId}>{FPS_PRESETS.map(f => <option key={f} value={f} />)}</datalist>
+                </label>
+                {loopRange && playback.mode === 'once' ? <span className="opacity-70">El loop sólo se reproduce en modo Loop o Ping-pong</span> : null}
+              </div>
+
+              <div role="toolbar" aria-label="Marcadores y loop" className="flex flex-wrap items-center gap-1 mb-1 text-xs">
+                <button className="px-1 bg-gray-200 rounded" title={titled('Marcador en el cursor', 'markers.add')} onClick={addMarkerAtPlayhead}>+ Marcador</button>
+                <button className="px-1 bg-gray-200 rounded" title="Sobre los keyframes seleccionados, o desde el cursor" onClick={addRegionHere}>+ Región</button>
+                <button className="px-1 bg-gray-200 rounded" onClick={()=>setLoopAt('start')}>Loop in</button>
+                <button className="px-1 bg-gray-200 rounded" onClick={()=>setLoopAt('end')}>Loop out</button>
+                {loopRange ? <button className="px-1 bg-gray-200 rounded" onClick={handlers['loop.clear'].run}>Quitar loop ({loopRange.start}–{loopRange.end}ms)</button> : null}
+              </div>
+              {/* marker lane: loop range, regions and markers over the same scale as the tracks */}
+              <div style={{ height: 30, position: 'relative', overflowX: 'auto' }} className="mb-1">
+                <div className="timeline-markers relative h-full border-b cursor-pointer" style={{ width: `${timelineZoom * 100}%` }} onPointerDown={onLanePointerDown} title="Clic para mover el cursor">
+                  {loopRange ? (
+                    <div aria-hidden className="absolute inset-y-0 bg-emerald-400/20 border-x-2 border-emerald-500 pointer-events-none"
+                      style={{ left: `${loopRange.start / timelineDuration * 100}%`, width: `${(loopRange.end - loopRange.start) / timelineDuration * 100}%` }} />
+                  ) : null}
+                  {regions.map(r => (
+                    <div key={r.id} aria-hidden className="absolute top-0 h-3 rounded-sm px-1 text-[10px] leading-3 text-black truncate pointer-events-none"
+                      style={{ left: `${clamp(r.start / timelineDuration, 0, 1) * 100}%`, width: `${clamp((r.end - r.start) / timelineDuration, 0, 1) * 100}%`, background: r.color ?? '#f59e0b' }}>{r.label}</div>
+                  ))}
+                  {markers.map(m => (
+                    <button key={m.id} className="timeline-marker absolute bottom-0 -translate-x-1/2 px-0.5 text-[10px] leading-4 whitespace-nowrap cursor-grab"
+                      style={{ left: `${clamp(m.time / timelineDuration, 0, 1) * 100}%` }}
+                      title={`${m.label} @ ${m.time}ms (arrastrar para mover)`}
+                      onPointerDown={e=>onMarkerPointerDown(e, m.id)} onPointerMove={onMarkerPointerMove} onPointerUp={onMarkerPointerUp}
+                      onClick={()=>{ if (markerMovedRef.current) { markerMovedRef.current = false; return; } seekTo(m.time); setLiveMessage(`Marcador ${m.label} (${m.time}ms)`); }}>▼ {m.label}</button>
+                  ))}
+                  <div aria-hidden className="absolute inset-y-0 w-px bg-red-500 pointer-events-none" style={{ left: `${clamp(currentTime / timelineDuration, 0, 1) * 100}%` }} />
+                </div>
               </div>
+              {markers.length || regions.length ? (
+                <details className="text-xs mb-1">
+                  <summary>Marcadores ({markers.length}) y regiones ({regions.length})</summary>
+                  <div className="mt-1 space-y-1">
+                    {markers.map(m => (
+                      <div key={m.id} className="flex items-center gap-1">
+                        <span aria-hidden>▼</span>
+                        <input aria-label="Nombre del marcador" className="p-0.5 border rounded flex-1" value={m.label} onChange={e=>setMarkers(prev => updateMarker(prev, m.id, { label: e.target.value }), { coalesce: `marker:${m.id}:label` })} />
+                        <input aria-label={`Tiempo de ${m.label} (ms)`} type="number" className="p-0.5 border rounded w-20" value={m.time} onChange={e=>setMarkers(prev => updateMarker(prev, m.id, { time: clamp(Number(e.target.value), 0, timelineDuration) }), { coalesce: `marker:${m.id}:time` })} />
+                        <button className="text-red-500" title="Borrar marcador" onClick={()=>setMarkers(prev => removeMarker(prev, m.id))}>✕</button>
+                      </div>
+                    ))}
+                    {regions.map(r => (
+                      <div key={r.id} className="flex items-center gap-1">
+                        <input aria-label="Color de la región" type="color" value={r.color ?? '#f59e0b'} onChange={e=>setRegions(prev => updateRegion(prev, r.id, { color: e.target.value }, timelineDuration), { coalesce: `region:${r.id}:color` })} />
+                        <input aria-label="Nombre de la región" className="p-0.5 border rounded flex-1" value={r.label} onChange={e=>setRegions(prev => updateRegion(prev, r.id, { label: e.target.value }, timelineDuration), { coalesce: `region:${r.id}:label` })} />
+                        <input aria-label={`Inicio de ${r.label} (ms)`} type="number" className="p-0.5 border rounded w-20" value={r.start} onChange={e=>setRegions(prev => updateRegion(prev, r.id, { start: Number(e.target.value) }, timelineDuration), { coalesce: `region:${r.id}:start` })} />
+                        <input aria-label={`Fin de ${r.label} (ms)`} type="number" className="p-0.5 border rounded w-20" value={r.end} onChange={e=>setRegions(prev => updateRegion(prev, r.id, { end: Number(e.target.value) }, timelineDuration), { coalesce: `region:${r.id}:end` })} />
+                        <button title="Usar como loop" onClick={()=>applyLoopRange({ start: r.start, end: r.end })}>⟲</button>
+                        <button className="text-red-500" title="Borrar región" onClick={()=>setRegions(prev => removeRegion(prev, r.id))}>✕</button>
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              ) : null}
 
-              <div className="space-y-1">
-                <div className="text-xs text-muted">Atajos: A = añadir keyframe (cuando uno está seleccionado), ←/→ mover (Shift=100ms), Enter seleccionar, Supr borrar</div>
-                {layers.map((layer) => (
-                  <div key={layer.id} role="region" aria-label={`Pista de tiempo ${layer.label}`} className="timeline-track relative panel p-1" onPointerMove={onTimelinePointerMove} onPointerUp={onTimelinePointerUp}>
-                    <div className="text-sm font-medium">{layer.label} {layer.visible ? '' : '(hidden)'}</div>
+              <div className="space-y-1 relative select-none" onPointerDown={onBandPointerDown} onPointerMove={onBandPointerMove} onPointerUp={onBandPointerUp}>
+                {band ? (
+                  <div aria-hidden className="fixed z-50 border border-sky-500 bg-sky-400/20 pointer-events-none"
+                    style={{ left: Math.min(band.x0, band.x1), top: Math.min(band.y0, band.y1), width: Math.abs(band.x1 - band.x0), height: Math.abs(band.y1 - band.y0) }} />
+                ) : null}
+                <div className="text-xs text-muted">
+                  Shift/Ctrl+clic o arrastrar en un hueco selecciona varios keyframes; se mueven juntos.
+                  {' '}<button className="underline" onClick={()=>setOverlay('palette')}>Comandos ({formatCombo(bindingsFor(BUILDER_COMMANDS[0], keymap)[0] ?? '')})</button>
+                  {' · '}<button className="underline" onClick={()=>setOverlay('shortcuts')}>Atajos</button>
+                </div>
+                {hasKeyframes ? (
+                  <div role="toolbar" aria-label="Keyframes seleccionados" className="flex flex-wrap items-center gap-1 text-xs">
+                    <span className="font-medium">{selectedKeyframeRefs.length} keyframe(s):</span>
+                    <button className="px-1 bg-gray-200 rounded" onClick={handlers['keyframes.copy'].run}>Copiar</button>
+                    <button className="px-1 bg-gray-200 rounded" disabled={!keyframeClip.length} onClick={pasteKeyframeClip}>Pegar en el cursor</button>
+                    <button className="px-1 bg-gray-200 rounded" disabled={!handlers['keyframes.reverse'].enabled} onClick={handlers['keyframes.reverse'].run}>Invertir</button>
+                    <button className="px-1 bg-gray-200 rounded" onClick={handlers['keyframes.align'].run}>Alinear al cursor</button>
+                    <button className="px-1 bg-gray-200 rounded" disabled={!handlers['keyframes.distribute'].enabled} onClick={handlers['keyframes.distribute'].run}>Distribuir</button>
+                    <label className="flex items-center gap-1">Escala
+                      <input type="number" min={1} step={10} value={stretchPercent} onChange={e=>setStretchPercent(Number(e.target.value))} className="p-0.5 border rounded w-16" />%
+                    </label>
+                    <button className="px-1 bg-gray-200 rounded" disabled={selectedKeyframeRefs.length < 2 || !(stretchPercent > 0)} onClick={()=>stretchSelected(stretchPercent / 100)}>Aplicar</button>
+                    <button className="px-1 bg-gray-200 rounded text-red-600" onClick={handlers['keyframes.delete'].run}>Borrar</button>
+                  </div>
+                ) : (keyframeClip.length ? (
+                  <div className="text-xs"><button className="px-1 bg-gray-200 rounded" onClick={pasteKeyframeClip}>Pegar {keyframeClip.length} keyframe(s) en el cursor</button></div>
+                ) : null)}
+                {rows.map(({ layer, depth }) => (
+                  <div key={layer.id} role="region" aria-label={`Pista de tiempo ${layer.label}`} className="timeline-track relative panel p-1" style={{ marginLeft: depth * 12 }} onPointerMove={onTimelinePointerMove} onPointerUp={onTimelinePointerUp}>
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      {layer.type === 'group' ? (
+                        <button className="text-xs px-1" aria-expanded={!collapsedGroups[layer.id]} aria-label={`Contenido de ${layer.label}`} title={collapsedGroups[layer.id] ? 'Expandir grupo' : 'Plegar grupo'} onClick={()=>toggleGroup(layer.id)}>{collapsedGroups[layer.id] ? '⊞' : '⊟'}</button>
+                      ) : null}
+                      <button className="text-xs px-1" aria-expanded={!!expandedTracks[layer.id]} aria-label={`Propiedades de ${layer.label}`} onClick={()=>setExpandedTracks(x=>({ ...x, [layer.id]: !x[layer.id] }))}>{expandedTracks[layer.id] ? '▾' : '▸'}</button>
+                      <button className={`text-left ${selection.layerIds.includes(layer.id) ? 'underline decoration-2 decoration-yellow-400' : ''}`} aria-pressed={selection.layerIds.includes(layer.id)} title="Seleccionar (Ctrl/Shift+clic añade a la selección)" onClick={e=>setSelection(selectLayer(selection, layer.id, additive(e)))}>
+                        {layer.label} {layer.type === 'group' ? '(grupo)' : ''} {layer.visible ? '' : '(hidden)'}
+                      </button>
+                    </div>
                     {/* ruler */}
                     <div className="timeline-ruler relative h-6 mb-1" aria-hidden>
                       {ticksMinor.map(t => (
@@ -728,25 +1681,7 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
                     </div>
                     <div style={{ height: 36, position: 'relative', overflowX: 'auto' }}>
                       <div className="timeline-track-inner" style={{ position: 'relative', height: '100%', width: `${timelineZoom * 100}%` }}>
-                        {layer.keyframes.map(k => (
-                          <div key={k.id}
-                            onPointerDown={(e)=>onTimelinePointerDown(e, layer.id, k.id)}
-                            role="button"
-                            tabIndex={0}
-                            aria-pressed={selectedKF && selectedKF.layerId === layer.id && selectedKF.kfId === k.id ? 'true' : 'false'}
-                            onFocus={()=>{ setSelectedKF({layerId: layer.id, kfId: k.id}); setLiveMessage(`Keyframe seleccionado: ${layer.label} @ ${k.time}ms`); }}
-                            onKeyDown={(ev)=>{
-                              if (ev.key === 'Enter') { setSelectedKF({layerId: layer.id, kfId: k.id}); setLiveMessage('Keyframe seleccionado'); }
-                              if(ev.key === 'ArrowLeft') { updateKeyframe(layer.id,k.id,{time: Math.max(0, k.time - (ev.shiftKey?100:10))}); setLiveMessage('Keyframe movido'); ev.preventDefault(); }
-                              if(ev.key === 'ArrowRight') { updateKeyframe(layer.id,k.id,{time: Math.min(timelineDuration, k.time + (ev.shiftKey?100:10))}); setLiveMessage('Keyframe movido'); ev.preventDefault(); }
-                              if(ev.key === 'Delete' || ev.key === 'Backspace') { removeKeyframe(layer.id, k.id); setSelectedKF(null); setLiveMessage('Keyframe eliminado'); ev.preventDefault(); }
-                              if(ev.key === '+' || ev.key === '=') { updateKeyframe(layer.id,k.id,{time: Math.min(timelineDuration, k.time + (ev.shiftKey?100:10))}); setLiveMessage('Keyframe movido'); ev.preventDefault(); }
-                              if(ev.key === '-') { updateKeyframe(layer.id,k.id,{time: Math.max(0, k.time - (ev.shiftKey?100:10))}); setLiveMessage('Keyframe movido'); ev.preventDefault(); }
-                            }}
-                            className="timeline-keyframe absolute top-1/2 -translate-y-1/2 bg-blue-500 rounded-full w-3 h-3 cursor-grab"
-                            style={{ left: `${clamp(k.time/timelineDuration,0,1)*100}%` }}
-                            title={`${k.time}ms`} />
-                          ))}
+                        {layer.keyframes.map(k => renderKeyframe(layer, k))}
 
                         {/* scrubber */}
                         <div
@@ -759,6 +1694,16 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
                         />
                       </div>
                     </div>
+                    {expandedTracks[layer.id] && animatedProps(layer).map(p => (
+                      <div key={p.key} className="timeline-property-row flex items-center gap-2">
+                        <div className="w-24 shrink-0 text-xs opacity-80">{p.label}</div>
+                        <div style={{ height: 20, position: 'relative', overflowX: 'auto', flex: 1 }}>
+                          <div className="timeline-track-inner" style={{ position: 'relative', height: '100%', width: `${timelineZoom * 100}%` }}>
+                            {layer.keyframes.filter(k => k[p.key] !== undefined).map(k => renderKeyframe(layer, k, p.key))}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 ))}
               </div>
@@ -782,6 +1727,7 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
 
   { !uiCollapsed ? (
   <div className="space-y-2">
+          {panels.layers && (
           <div>
             <div className="flex items-center justify-between">
               <strong>Layers</strong>
@@ -789,50 +1735,314 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
                 {selectedKF ? <div className="px-2 py-1 bg-yellow-100 rounded">Selected: {(() => { const l = layers.find(x=>x.id===selectedKF!.layerId); const k = l?.keyframes.find(x=>x.id===selectedKF!.kfId); return `${l?.label || selectedKF!.layerId} @ ${k?.time ?? '?'}ms`; })()}</div> : null}
                 <div className="flex gap-2">
                 <button className="text-xs px-2 py-1 bg-green-600 text-white rounded" onClick={addLayer}>Add</button>
-                <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={()=>{ setLayers([defaultLayer(), {...defaultLayer(), label:'Foreground', depth:0.9 }]); }}>Reset</button>
+                <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={addTextLayer}>Add text</button>
+                <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={addShapeLayer}>Add shape</button>
+                <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={addGlitchLayer}>Add LetterGlitch</button>
+                <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={addFocusLayer}>Add TrueFocus</button>
+                <button className="text-xs px-2 py-1 bg-gray-200 rounded" title="Cada trazado del SVG se convierte en una capa de forma" onClick={()=>svgFileRef.current?.click()}>Importar SVG</button>
+                <input ref={svgFileRef} type="file" accept="image/svg+xml,.svg" className="hidden" onChange={e=>{ const f = e.target.files?.[0]; if (f) importSvgFile(f); e.target.value = ''; }} />
+                <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={addGroup}>Add group</button>
+                <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={()=>{ setLayers(createDefaultProject().layers); }}>Reset</button>
                 </div>
               </div>
             </div>
 
             <div className="mt-2 space-y-2 max-h-48 overflow-auto">
-              {layers.map(layer => (
-                <div key={layer.id} className="border rounded p-2">
+              {rows.map(({ layer, depth }) => (
+                <div key={layer.id} className={`border rounded p-2 ${selection.layerIds.includes(layer.id) ? 'ring-2 ring-yellow-400' : ''}`} style={{ marginLeft: depth * 12 }}
+                  onClick={e=>{ if (!(e.target as HTMLElement).closest('input,select,textarea,button')) setSelection(selectLayer(selection, layer.id, additive(e))); }}>
                   <div className="flex items-center gap-2">
-                    <input className="flex-1 p-1" value={layer.label} onChange={e=>setLayer(layer.id,{label:e.target.value})} />
-                    <button className="text-xs text-red-500" onClick={()=>removeLayer(layer.id)}>Delete</button>
+                    {layer.type === 'group' ? (
+                      <button className="text-xs px-1" aria-expanded={!collapsedGroups[layer.id]} aria-label={`Contenido de ${layer.label}`} onClick={()=>toggleGroup(layer.id)}>{collapsedGroups[layer.id] ? '⊞' : '⊟'}</button>
+                    ) : null}
+                    <input className="flex-1 p-1" value={layer.label} onChange={e=>setLayer(layer.id,{label:e.target.value}, `label:${layer.id}`)} />
+                    {layer.type === 'group' ? (
+                      <>
+                        <button className="text-xs px-1 bg-gray-200 rounded" title="Sacar las capas del grupo" onClick={()=>setLayers(prev => ungroupLayers(prev, layer.id))}>Desagrupar</button>
+                        {store ? <button className="text-xs px-1 bg-gray-200 rounded" title="Guardar en la biblioteca para usarlo en otros proyectos" onClick={()=>saveAsSymbol(layer)}>Crear símbolo</button> : null}
+                      </>
+                    ) : null}
+                    <button className="text-xs text-red-500" title={layer.type === 'group' ? 'Borra el grupo y su contenido' : undefined} onClick={()=>removeLayer(layer.id)}>Delete</button>
                   </div>
                   <div className="mt-2 grid grid-cols-2 gap-2 text-sm">
                     <label className="flex flex-col"><span className="text-xs">Visible</span>
                       <input type="checkbox" checked={!!layer.visible} onChange={e=>setLayer(layer.id,{visible:e.target.checked})} />
                     </label>
-                    <label className="flex flex-col"><span className="text-xs">Depth</span>
-                      <input type="range" min={0} max={1} step={0.01} value={layer.depth} onChange={e=>setLayer(layer.id,{depth:Number(e.target.value)})} />
-                    </label>
-                    <label className="flex flex-col"><span className="text-xs">Color</span>
-                      <input type="color" value={layer.color} onChange={e=>setLayer(layer.id,{color:e.target.value})} />
-                    </label>
-                    <label className="flex flex-col"><span className="text-xs">Image</span>
-                      <input type="file" accept="image/*" onChange={e=>setLayerImageFile(layer.id, e.target.files ? e.target.files[0] : null)} />
-                    </label>
-                    <label className="flex flex-col"><span className="text-xs">Layout (x,y,w,h %)</span>
-                      <div className="flex gap-1">
-                        <input type="number" value={layer.x} onChange={e=>setLayer(layer.id,{x: Number(e.target.value)})} className="p-1 w-14" />
-                        <input type="number" value={layer.y} onChange={e=>setLayer(layer.id,{y: Number(e.target.value)})} className="p-1 w-14" />
-                        <input type="number" value={layer.w} onChange={e=>setLayer(layer.id,{w: Number(e.target.value)})} className="p-1 w-14" />
-                        <input type="number" value={layer.h} onChange={e=>setLayer(layer.id,{h: Number(e.target.value)})} className="p-1 w-14" />
-                      </div>
+                    <label className="flex flex-col"><span className="text-xs">Grupo</span>
+                      <select className="p-1 border rounded" value={layer.parentId ?? ''} onChange={e=>setLayers(prev => setLayerParent(prev, layer.id, e.target.value || null))}>
+                        <option value="">(ninguno)</option>
+                        {parentCandidates(layers, layer.id).map(g => <option key={g.id} value={g.id}>{g.label}</option>)}
+                      </select>
                     </label>
+                    {layer.type === 'group' ? (
+                      <label className="flex flex-col"><span className="text-xs">Pivote (x,y %)</span>
+                        <div className="flex gap-1">
+                          <input type="number" value={layer.x ?? 50} onChange={e=>setLayer(layer.id,{x: Number(e.target.value)}, `x:${layer.id}`)} className="p-1 w-14" />
+                          <input type="number" value={layer.y ?? 50} onChange={e=>setLayer(layer.id,{y: Number(e.target.value)}, `y:${layer.id}`)} className="p-1 w-14" />
+                        </div>
+                      </label>
+                    ) : (
+                      <>
+                        <label className="flex flex-col"><span className="text-xs">Depth</span>
+                          <input type="range" min={0} max={1} step={0.01} value={layer.depth} onChange={e=>setLayer(layer.id,{depth:Number(e.target.value)}, `depth:${layer.id}`)} />
+                        </label>
+                        <label className="flex flex-col"><span className="text-xs">{layer.type === 'glitch' ? 'Fondo' : 'Color'}</span>
+                          <input type="color" value={layer.color} onChange={e=>setLayer(layer.id,{color:e.target.value}, `color:${layer.id}`)} />
+                        </label>
+                        {!layer.type ? (
+                          <label className="flex flex-col"><span className="text-xs">Image</span>
+                            <input type="file" accept="image/*" onChange={e=>setLayerImageFile(layer.id, e.target.files ? e.target.files[0] : null)} />
+                          </label>
+                        ) : null}
+                        <label className="flex flex-col"><span className="text-xs">Layout (x,y,w,h %)</span>
+                          <div className="flex gap-1">
+                            <input type="number" value={layer.x} onChange={e=>setLayer(layer.id,{x: Number(e.target.value)}, `x:${layer.id}`)} className="p-1 w-14" />
+                            <input type="number" value={layer.y} onChange={e=>setLayer(layer.id,{y: Number(e.target.value)}, `y:${layer.id}`)} className="p-1 w-14" />
+                            <input type="number" value={layer.w} onChange={e=>setLayer(layer.id,{w: Number(e.target.value)}, `w:${layer.id}`)} className="p-1 w-14" />
+                            <input type="number" value={layer.h} onChange={e=>setLayer(layer.id,{h: Number(e.target.value)}, `h:${layer.id}`)} className="p-1 w-14" />
+                          </div>
+                        </label>
+                      </>
+                    )}
                   </div>
 
-                  <div className="mt-2 text-xs">Keyframes:</div>
+                  {layer.type === 'text' && layer.text ? (
+                    <div className="mt-2 grid grid-cols-2 gap-2 text-sm">
+                      <label className="flex flex-col col-span-2"><span className="text-xs">Texto</span>
+                        <textarea rows={2} className="p-1 border rounded" value={layer.text.content} onChange={e=>setText(layer, { content: e.target.value }, `text:${layer.id}`)} />
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Fuente</span>
+                        <input className="p-1" value={layer.text.fontFamily} onChange={e=>setText(layer, { fontFamily: e.target.value }, `font:${layer.id}`)} />
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Tamaño / peso</span>
+                        <div className="flex gap-1">
+                          <input type="number" min={1} value={layer.text.fontSize} onChange={e=>setText(layer, { fontSize: Math.max(1, Number(e.target.value)) }, `fontSize:${layer.id}`)} className="p-1 w-16" />
+                          <select className="p-1" value={layer.text.fontWeight} onChange={e=>setText(layer, { fontWeight: Number(e.target.value) })}>
+                            {[300, 400, 500, 600, 700, 800, 900].map(w => <option key={w} value={w}>{w}</option>)}
+                          </select>
+                        </div>
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Alineación</span>
+                        <select className="p-1" value={layer.text.align} onChange={e=>setText(layer, { align: e.target.value as TextConfig['align'] })}>
+                          <option value="left">Izquierda</option>
+                          <option value="center">Centro</option>
+                          <option value="right">Derecha</option>
+                        </select>
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Escalonado (track Reveal)</span>
+                        <select className="p-1" value={layer.text.stagger} onChange={e=>setText(layer, { stagger: e.target.value as TextConfig['stagger'] })}>
+                          <option value="none">Todo a la vez</option>
+                          <option value="word">Por palabra</option>
+                          <option value="char">Por letra</option>
+                        </select>
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Solape (unidades)</span>
+                        <input type="number" min={1} step={0.5} value={layer.text.spread} onChange={e=>setText(layer, { spread: Math.max(1, Number(e.target.value)) }, `spread:${layer.id}`)} className="p-1 w-16" />
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Desplazamiento Y (px)</span>
+                        <input type="number" value={layer.text.offsetY} onChange={e=>setText(layer, { offsetY: Number(e.target.value) }, `offsetY:${layer.id}`)} className="p-1 w-16" />
+                      </label>
+                    </div>
+                  ) : null}
+
+                  {layer.type === 'shape' && layer.shape ? (
+                    <div className="mt-2 grid grid-cols-2 gap-2 text-sm">
+                      <label className="flex flex-col"><span className="text-xs">Forma</span>
+                        <select className="p-1" value={layer.shape.kind} onChange={e=>setShape(layer, { kind: e.target.value as ShapeConfig['kind'] })}>
+                          <option value="rect">Rectángulo</option>
+                          <option value="ellipse">Elipse</option>
+                          <option value="polygon">Polígono</option>
+                          <option value="path">Trazado libre</option>
+                        </select>
+                      </label>
+                      {layer.shape.kind === 'rect' ? (
+                        <label className="flex flex-col"><span className="text-xs">Radio de esquina (px)</span>
+                          <input type="number" min={0} value={layer.shape.radius ?? 0} onChange={e=>setShape(layer, { radius: Math.max(0, Number(e.target.value)) }, `radius:${layer.id}`)} className="p-1 w-16" />
+                        </label>
+                      ) : null}
+                      {layer.shape.kind === 'polygon' ? (
+                        <label className="flex flex-col"><span className="text-xs">Lados</span>
+                          <input type="number" min={3} value={layer.shape.sides ?? 6} onChange={e=>setShape(layer, { sides: Math.max(3, Math.round(Number(e.target.value))) }, `sides:${layer.id}`)} className="p-1 w-16" />
+                        </label>
+                      ) : null}
+                      {layer.shape.kind === 'path' ? (
+                        <>
+                          <label className="flex flex-col col-span-2"><span className="text-xs">Trazado SVG (d)</span>
+                            <textarea rows={2} className="p-1 border rounded font-mono text-xs" value={layer.shape.path ?? ''} onChange={e=>setShape(layer, { path: e.target.value }, `path:${layer.id}`)} />
+                          </label>
+                          <label className="flex flex-col col-span-2"><span className="text-xs">viewBox (x y ancho alto)</span>
+                            <input className="p-1 font-mono text-xs" placeholder="caja de la capa en px" defaultValue={layer.shape.viewBox?.join(' ') ?? ''} key={layer.shape.viewBox?.join(' ')} onBlur={e=>{ const v = e.target.value.trim().split(/[\s,]+/).filter(Boolean).map(Number); setShape(layer, { viewBox: v.length === 4 && v.every(Number.isFinite) && v[2] > 0 && v[3] > 0 ? v as ShapeConfig['viewBox'] : undefined }); }} />
+                          </label>
+                        </>
+                      ) : null}
+                      <label className="flex flex-col"><span className="text-xs">Relleno (color de la capa)</span>
+                        <input type="checkbox" checked={layer.shape.fill} onChange={e=>setShape(layer, { fill: e.target.checked })} />
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Degradado</span>
+                        <select className="p-1" value={layer.shape.gradient?.type ?? ''} onChange={e=>setGradient(layer, e.target.value ? { type: e.target.value as GradientConfig['type'] } : null)}>
+                          <option value="">Ninguno</option>
+                          <option value="linear">Lineal</option>
+                          <option value="radial">Radial</option>
+                        </select>
+                      </label>
+                      {layer.shape.gradient ? (
+                        <div className="col-span-2 flex flex-wrap items-center gap-2 text-xs">
+                          {layer.shape.gradient.type === 'linear' ? (
+                            <label className="flex items-center gap-1">Ángulo
+                              <input type="number" value={layer.shape.gradient.angle} onChange={e=>setGradient(layer, { angle: Number(e.target.value) })} className="p-1 w-14" />
+                            </label>
+                          ) : null}
+                          {layer.shape.gradient.stops.map((stop, si) => (
+                            <span key={si} className="flex items-center gap-1">
+                              <input type="color" aria-label={`Color de la parada ${si + 1}`} value={stop.color} onChange={e=>setGradient(layer, { stops: layer.shape!.gradient!.stops.map((s, j) => j === si ? { ...s, color: e.target.value } : s) })} />
+                              <input type="number" aria-label={`Posición de la parada ${si + 1}`} min={0} max={1} step={0.05} value={stop.offset} onChange={e=>setGradient(layer, { stops: layer.shape!.gradient!.stops.map((s, j) => j === si ? { ...s, offset: clamp(Number(e.target.value)) } : s) })} className="p-1 w-14" />
+                              {layer.shape!.gradient!.stops.length > 2 ? <button className="text-red-500" title="Quitar parada" onClick={()=>setGradient(layer, { stops: layer.shape!.gradient!.stops.filter((_, j) => j !== si) })}>✕</button> : null}
+                            </span>
+                          ))}
+                          <button className="px-1 bg-gray-200 rounded" title="Añadir parada" onClick={()=>setGradient(layer, { stops: [...layer.shape!.gradient!.stops, { offset: 1, color: '#ffffff' }] })}>+</button>
+                        </div>
+                      ) : null}
+                      <label className="flex flex-col"><span className="text-xs">Trazo</span>
+                        <div className="flex items-center gap-1">
+                          <input type="checkbox" aria-label="Con trazo" checked={!!layer.shape.stroke} onChange={e=>setShape(layer, { stroke: e.target.checked ? '#ffffff' : null })} />
+                          {layer.shape.stroke ? <input type="color" aria-label="Color del trazo" value={layer.shape.stroke} onChange={e=>setShape(layer, { stroke: e.target.value }, `stroke:${layer.id}`)} /> : null}
+                        </div>
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Grosor (track Draw)</span>
+                        <input type="number" min={0} step={0.5} value={layer.shape.strokeWidth} onChange={e=>setShape(layer, { strokeWidth: Math.max(0, Number(e.target.value)) }, `strokeWidth:${layer.id}`)} className="p-1 w-16" />
+                      </label>
+                    </div>
+                  ) : null}
+
+                  {layer.type === 'glitch' && layer.glitch ? (
+                    <div className="mt-2 grid grid-cols-2 gap-2 text-sm">
+                      <label className="flex flex-col col-span-2"><span className="text-xs">glitchColors</span>
+                        <div className="flex flex-wrap items-center gap-1">
+                          {layer.glitch.glitchColors.map((c, ci) => (
+                            <span key={ci} className="flex items-center">
+                              <input type="color" aria-label={`Color ${ci + 1}`} value={c} onChange={e=>setGlitch(layer, { glitchColors: layer.glitch!.glitchColors.map((x, j) => j === ci ? e.target.value : x) }, `glitchColor:${layer.id}:${ci}`)} />
+                              {layer.glitch!.glitchColors.length > 1 ? <button className="text-xs text-red-500" title="Quitar color" onClick={()=>setGlitch(layer, { glitchColors: layer.glitch!.glitchColors.filter((_, j) => j !== ci) })}>✕</button> : null}
+                            </span>
+                          ))}
+                          <button className="text-xs px-1 bg-gray-200 rounded" title="Añadir color" onClick={()=>setGlitch(layer, { glitchColors: [...layer.glitch!.glitchColors, '#ffffff'] })}>+</button>
+                        </div>
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">glitchSpeed (ms)</span>
+                        <input type="number" min={1} value={layer.glitch.glitchSpeed} onChange={e=>setGlitch(layer, { glitchSpeed: Math.max(1, Number(e.target.value)) }, `glitchSpeed:${layer.id}`)} className="p-1 w-16" />
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Semilla</span>
+                        <div className="flex gap-1">
+                          <input type="number" value={layer.glitch.seed} onChange={e=>setGlitch(layer, { seed: Math.round(Number(e.target.value)) }, `seed:${layer.id}`)} className="p-1 w-24" />
+                          <button className="text-xs px-1 bg-gray-200 rounded" title="Otra secuencia de glitches" onClick={()=>setGlitch(layer, { seed: Math.floor(Math.random() * 1e9) })}>↻</button>
+                        </div>
+                      </label>
+                      <label className="flex items-center gap-1 text-xs"><input type="checkbox" checked={layer.glitch.centerVignette} onChange={e=>setGlitch(layer, { centerVignette: e.target.checked })} />Viñeta central</label>
+                      <label className="flex items-center gap-1 text-xs"><input type="checkbox" checked={layer.glitch.outerVignette} onChange={e=>setGlitch(layer, { outerVignette: e.target.checked })} />Viñeta exterior</label>
+                      <label className="flex items-center gap-1 text-xs"><input type="checkbox" checked={layer.glitch.smooth} onChange={e=>setGlitch(layer, { smooth: e.target.checked })} />Transición suave</label>
+                      <label className="flex flex-col col-span-2"><span className="text-xs">Caracteres</span>
+                        <input className="p-1 font-mono text-xs" value={layer.glitch.characters} onChange={e=>setGlitch(layer, { characters: e.target.value }, `characters:${layer.id}`)} />
+                      </label>
+                    </div>
+                  ) : null}
+
+                  {layer.type === 'focus' && layer.focus ? (
+                    <div className="mt-2 grid grid-cols-2 gap-2 text-sm">
+                      <label className="flex flex-col col-span-2"><span className="text-xs">Frase</span>
+                        <input className="p-1" value={layer.focus.sentence} onChange={e=>setFocus(layer, { sentence: e.target.value }, `sentence:${layer.id}`)} />
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Fuente</span>
+                        <input className="p-1" value={layer.focus.fontFamily} onChange={e=>setFocus(layer, { fontFamily: e.target.value }, `focusFont:${layer.id}`)} />
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Tamaño (px)</span>
+                        <input type="number" min={1} value={layer.focus.fontSize} onChange={e=>setFocus(layer, { fontSize: Math.max(1, Number(e.target.value)) }, `focusSize:${layer.id}`)} className="p-1 w-16" />
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">blurAmount (px)</span>
+                        <input type="number" min={0} step={0.5} value={layer.focus.blurAmount} onChange={e=>setFocus(layer, { blurAmount: Math.max(0, Number(e.target.value)) }, `blurAmount:${layer.id}`)} className="p-1 w-16" />
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">borderColor</span>
+                        <input className="p-1" value={layer.focus.borderColor} onChange={e=>setFocus(layer, { borderColor: e.target.value }, `borderColor:${layer.id}`)} />
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Transición (s)</span>
+                        <input type="number" min={0} step={0.1} value={layer.focus.animationDuration} onChange={e=>setFocus(layer, { animationDuration: Math.max(0, Number(e.target.value)) }, `focusDuration:${layer.id}`)} className="p-1 w-16" />
+                      </label>
+                      <label className="flex flex-col"><span className="text-xs">Pausa (s)</span>
+                        <input type="number" min={0} step={0.1} value={layer.focus.pauseBetweenAnimations} onChange={e=>setFocus(layer, { pauseBetweenAnimations: Math.max(0, Number(e.target.value)) }, `focusPause:${layer.id}`)} className="p-1 w-16" />
+                      </label>
+                    </div>
+                  ) : null}
+
+                  {editingBreakpoint ? (
+                    <BreakpointOverrides
+                      layer={layer}
+                      breakpoint={editingBreakpoint}
+                      inherited={overrideLayer(layer, breakpointsOf(config).filter(b => b.maxWidth > editingBreakpoint.maxWidth).map(b => b.id))}
+                      onUpdate={(update, coalesce)=>setLayers(update, { coalesce })}
+                    />
+                  ) : null}
+                  {/* the list and the curves edit the desktop values; a breakpoint's go in its overrides above */}
+                  <div className="mt-2 flex items-center gap-2 text-xs">{editingBreakpoint ? 'Keyframes (escritorio):' : 'Keyframes:'}
+                    <div role="group" aria-label="Vista de keyframes" className="flex gap-1">
+                      <button className={`px-1 rounded ${keyframeView === 'list' ? 'bg-indigo-200' : 'bg-gray-200'}`} aria-pressed={keyframeView === 'list'} onClick={()=>setKeyframeView('list')}>Lista</button>
+                      <button className={`px-1 rounded ${keyframeView === 'graph' ? 'bg-indigo-200' : 'bg-gray-200'}`} aria-pressed={keyframeView === 'graph'} title={titled('Curvas', 'view.keyframeGraph')} onClick={()=>setKeyframeView('graph')}>Curvas</button>
+                    </div>
+                  </div>
                   <div className="space-y-1">
-                    {layer.keyframes.map(k => (
-                      <div key={k.id} className="flex items-center gap-2">
-                        <input aria-label="time" type="number" value={k.time} onChange={e=>updateKeyframe(layer.id,k.id,{time:Number(e.target.value)})} className="p-1 w-20" />
-                        <input aria-label="translate" type="number" value={k.translate} onChange={e=>updateKeyframe(layer.id,k.id,{translate:Number(e.target.value)})} className="p-1 w-20" />
-                        <input aria-label="opacity" type="number" step={0.01} min={0} max={1} value={k.opacity} onChange={e=>updateKeyframe(layer.id,k.id,{opacity:Number(e.target.value)})} className="p-1 w-20" />
-                        <input aria-label="easing" placeholder="easing (linear|ease|ease-in|ease-out)" value={k.easing||'linear'} onChange={e=>updateKeyframe(layer.id,k.id,{easing:e.target.value})} className="p-1 w-28" />
-                        <button className="text-xs text-red-500" onClick={()=>removeKeyframe(layer.id,k.id)}>✕</button>
+                    {keyframeView === 'graph' ? (
+                      <GraphEditor
+                        layer={layer}
+                        duration={timelineDuration}
+                        currentTime={currentTime}
+                        selectedIds={selection.keyframes.filter(r => r.layerId === layer.id).map(r => r.kfId)}
+                        onSelect={(kfId, additive)=>setSelection(kfId ? selectKeyframe(selectionRef.current, { layerId: layer.id, kfId }, additive) : { ...selectionRef.current, keyframes: [] })}
+                        onUpdate={(update, coalesce)=>setLayers(update, { coalesce })}
+                        onDragStart={history.begin}
+                        onDragEnd={history.commit}
+                        snapTime={snapEnabled ? t => snapTime(t, { interval: snapInterval, targets: [], threshold: 0 }) : undefined}
+                      />
+                    ) : layer.keyframes.map((k, ki) => (
+                      <div key={k.id} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <input aria-label="time" type="number" value={k.time} onChange={e=>updateKeyframe(layer.id,k.id,{time:clamp(Number(e.target.value), 0, timelineDuration)}, `time:${k.id}`)} className="p-1 w-20" />
+                          <input aria-label="translate" type="number" value={k.translate} onChange={e=>updateKeyframe(layer.id,k.id,{translate:Number(e.target.value)}, `translate:${k.id}`)} className="p-1 w-20" />
+                          <input aria-label="opacity" type="number" step={0.01} min={0} max={1} value={k.opacity} onChange={e=>updateKeyframe(layer.id,k.id,{opacity:clamp(Number(e.target.value), 0, 1)}, `opacity:${k.id}`)} className="p-1 w-20" />
+                          <EasingField value={k.easing} onChange={easing=>updateKeyframe(layer.id,k.id,{easing}, `easing:${k.id}`)} />
+                          <button className={`text-xs px-1 rounded ${k.bezier ? 'bg-indigo-200' : 'bg-gray-200'}`} aria-expanded={curveOpen === k.id} title={k.bezier ? formatCubicBezier(k.bezier) : 'Editar curva'} onClick={()=>setCurveOpen(o => o === k.id ? null : k.id)}>Curva</button>
+                          <button className="text-xs text-red-500" onClick={()=>removeKeyframe(layer.id,k.id)}>✕</button>
+                        </div>
+                        {/* optional tracks: empty input = this keyframe doesn't animate the property */}
+                        <div className="flex flex-wrap items-center gap-2 pl-2 text-xs">
+                          {KEYFRAME_PROPERTIES.filter(p => p.key !== 'translate' && p.key !== 'opacity' && p.key !== 'color' && (!LAYER_TYPE_PROPERTIES[p.key] || LAYER_TYPE_PROPERTIES[p.key] === layer.type)).map(p => (
+                            <label key={p.key} className="flex items-center gap-1">{p.label}
+                              <input aria-label={p.key} type="number" step={p.step} placeholder="—" value={k[p.key] ?? ''} onChange={e=>updateKeyframe(layer.id,k.id,{[p.key]: e.target.value === '' ? undefined : Number(e.target.value)}, `${p.key}:${k.id}`)} className="p-1 w-16" />
+                            </label>
+                          ))}
+                          <label className="flex items-center gap-1">Color
+                            {k.color !== undefined ? (
+                              <>
+                                <input aria-label="color" type="color" value={k.color} onChange={e=>updateKeyframe(layer.id,k.id,{color:e.target.value}, `color:${k.id}`)} />
+                                <button className="text-red-500" title="Quitar color" onClick={()=>updateKeyframe(layer.id,k.id,{color: undefined})}>✕</button>
+                              </>
+                            ) : (
+                              <button className="px-1 bg-gray-200 rounded" title="Animar color" onClick={()=>updateKeyframe(layer.id,k.id,{color: layer.color})}>+</button>
+                            )}
+                          </label>
+                        </div>
+                        {curveOpen === k.id ? (
+                          <div className="pl-2">
+                            {/* the curve shapes the segment that ends at this keyframe */}
+                            {ki === 0 ? <div className="text-xs opacity-70 mb-1">El primer keyframe no tiene tramo de entrada: su curva no se aplica.</div> : null}
+                            <BezierCurveEditor
+                              value={k.bezier ?? NAMED_EASING_BEZIER[k.easing || 'linear'] ?? null}
+                              custom={!!k.bezier}
+                              ease={easingFor(k)}
+                              onChange={b=>updateKeyframe(layer.id,k.id,{bezier: b}, `bezier:${k.id}`)}
+                              onDragStart={history.begin}
+                              onDragEnd={history.commit}
+                              copied={copiedCurve}
+                              onCopy={b=>{ setCopiedCurve(b); navigator.clipboard?.writeText(formatCubicBezier(b)); setLiveMessage('Curva copiada'); }}
+                            />
+                          </div>
+                        ) : null}
                       </div>
                     ))}
                     <div className="mt-1">
@@ -843,32 +2053,93 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
               ))}
             </div>
           </div>
+          )}
 
           <div className="border rounded p-2">
-            <strong>Presets</strong>
-            <div className="mt-2 flex gap-2">
-              <input id="presetName" placeholder="name" className="p-1 border rounded flex-1" />
-              <button className="px-2 py-1 bg-green-600 text-white rounded" onClick={()=>{ const el = document.getElementById('presetName') as HTMLInputElement | null; if(el && el.value) savePreset(el.value); }}>Save</button>
+            <strong>Project</strong>
+            <div className="mt-2 flex gap-2 flex-wrap">
+              <button className="px-2 py-1 bg-indigo-600 text-white rounded" onClick={()=>projectFileRef.current?.click()}>Abrir proyecto</button>
+              <button className="px-2 py-1 bg-gray-200 rounded" onClick={pasteProject}>Pegar JSON</button>
+              <button className="px-2 py-1 bg-gray-200 rounded" onClick={exportProjectFile}>Download .json</button>
+              <input ref={projectFileRef} type="file" accept="application/json,.json" className="hidden" onChange={e=>{ const f = e.target.files?.[0]; if (f) openProjectFile(f); e.target.value = ''; }} />
             </div>
-            <div className="mt-2 space-y-1">
-              {presets.map((p, i) => (
-                <div key={i} className="flex items-center gap-2">
-                  <div className="flex-1 text-sm">{p.name}</div>
-                  <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={()=>loadPreset(i)}>Load</button>
+            <div className="text-xs mt-1 opacity-70">También puedes soltar un .json (proyecto o Lottie) sobre el editor o pegarlo con Ctrl+V.</div>
+            {importErrors ? (
+              <div role="alert" className="mt-2 text-sm text-red-600">
+                <div className="flex items-center gap-2">
+                  <strong className="flex-1">No se pudo abrir el proyecto</strong>
+                  <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={()=>setImportErrors(null)}>✕</button>
                 </div>
-              ))}
-            </div>
+                <ul className="mt-1 list-disc pl-5 max-h-40 overflow-auto">
+                  {importErrors.map((err, i) => <li key={i}><code>{err.path || '(raíz)'}</code>: {err.message}</li>)}
+                </ul>
+              </div>
+            ) : null}
+            {importWarnings ? (
+              <div role="status" className="mt-2 text-sm text-amber-700">
+                <div className="flex items-center gap-2">
+                  <strong className="flex-1">{importWarnings.title}</strong>
+                  <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={()=>setImportWarnings(null)}>✕</button>
+                </div>
+                <ul className="mt-1 list-disc pl-5 max-h-40 overflow-auto">
+                  {importWarnings.items.map((w, i) => <li key={i}>{w}</li>)}
+                </ul>
+              </div>
+            ) : null}
           </div>
 
+          {store ? (
+            <div className="border rounded p-2">
+              <strong>Presets</strong>
+              <div className="mt-2 flex gap-2">
+                <input id="presetName" placeholder="name" className="p-1 border rounded flex-1" />
+                <button className="px-2 py-1 bg-green-600 text-white rounded" onClick={()=>{ const el = document.getElementById('presetName') as HTMLInputElement | null; if(el && el.value) savePreset(el.value); }}>Save</button>
+              </div>
+              {rejectedPresets.length ? (
+                <div role="status" className="mt-2 text-xs text-red-600">No se pudieron importar estos presets antiguos (siguen en este navegador): {rejectedPresets.join(', ')}</div>
+              ) : null}
+              <div className="mt-2 space-y-1">
+                {presets.map((p, i) => (
+                  <div key={p.id} className="flex items-center gap-2">
+                    <div className="flex-1 text-sm">{p.name}</div>
+                    <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={()=>loadPreset(i)}>Load</button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {store ? (
+            <div className="border rounded p-2">
+              <strong>Símbolos</strong>
+              <div className="text-xs mt-1 opacity-70">Usa «Crear símbolo» en un grupo para reutilizarlo en tus otros proyectos.</div>
+              <div className="mt-2 space-y-1">
+                {symbols.map((sym, i) => (
+                  <div key={sym.id} className="flex items-center gap-2">
+                    <div className="flex-1 text-sm">{sym.name} <span className="text-xs opacity-70">({sym.layers.length - 1} capas)</span></div>
+                    <button className="text-xs px-2 py-1 bg-gray-200 rounded" onClick={()=>insertSymbol(i)}>Insertar</button>
+                    <button className="text-xs text-red-500" aria-label={`Borrar símbolo ${sym.name}`} onClick={()=>{ if (window.confirm(`¿Borrar el símbolo «${sym.name}»? Las instancias ya insertadas se conservan.`)) store.removeSymbol(sym.id); }}>✕</button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
           <div className="border rounded p-2">
             <strong>Export</strong>
             <div className="mt-2 flex gap-2 flex-wrap">
-                <button className="px-2 py-1 bg-gray-200 rounded" onClick={exportJSON}>Export JSON</button>
-                <button className="px-2 py-1 bg-gray-200 rounded" onClick={exportSnippet}>Export Snippet</button>
-                <button className="px-2 py-1 bg-gray-200 rounded" onClick={exportReactComponent}>Copy React Component</button>
-                <button className="px-2 py-1 bg-blue-600 text-white rounded" onClick={exportReactComponentFile}>Download .tsx</button>
-                <button className="px-2 py-1 bg-green-600 text-white rounded" onClick={exportHtmlPreviewFile}>Download HTML Preview</button>
+                {exporters.map(x => (
+                  <button key={x.id} className={`px-2 py-1 rounded ${x.className}`} title={x.title} onClick={x.run}>{x.label}</button>
+                ))}
               </div>
+            <div ref={framesPanelRef}>
+            <ExportFramesPanel
+              config={scene}
+              images={imagesRef.current}
+              defaultSize={()=>{ const { width, height } = domExportOptions(); return { width, height }; }}
+              onRendered={(blob, filename)=>{ downloadFile(filename, blob); setLiveMessage(`${filename} exportado`); }}
+            />
+            </div>
           </div>
         </div>
         ) : (
@@ -877,6 +2148,8 @@ export default function ExportedAnimation({ width = ${exportW}, height = ${expor
           </div>
         )}
       </div>
+      {overlay === 'palette' ? <CommandPalette commands={commands} keymap={keymap} onClose={()=>setOverlay(null)} /> : null}
+      {overlay === 'shortcuts' ? <ShortcutsSheet commands={commands} keymap={keymap} onChange={setKeymap} onClose={()=>setOverlay(null)} /> : null}
     </div>
   );
 };
@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import type { AnimationConfig, EngineImages } from './animationEngine';
+import { renderGif, renderVideo, supportedVideoMime, type VideoFormat } from './frameRenderer';
+import { renderPngSequence, renderSpriteSheet } from './spriteExport';
+
+type ExportFormat = VideoFormat | 'gif' | 'spritesheet' | 'png-sequence';
+
+// formats that can keep a transparent background / trim empty frames
+const ALPHA_FORMATS: ExportFormat[] = ['gif', 'spritesheet', 'png-sequence'];
+const TRIM_FORMATS: ExportFormat[] = ['spritesheet', 'png-sequence'];
+
+const FILENAMES: Record<ExportFormat, string> = {
+  webm: 'animation.webm',
+  mp4: 'animation.mp4',
+  gif: 'animation.gif',
+  spritesheet: 'animation-spritesheet.zip',
+  'png-sequence': 'animation-frames.zip',
+};
+
+type ExportFramesPanelProps = {
+  config: AnimationConfig;
+  images: EngineImages;
+  /** initial resolution, usually the preview size */
+  defaultSize: () => { width: number; height: number };
+  onRendered: (blob: Blob, filename: string) => void;
+};
+
+const FPS_OPTIONS = [12, 15, 24, 30, 60];
+
+/**
+ * ExportFramesPanel: renderiza la timeline frame a frame a WebM/MP4
+ * (MediaRecorder), GIF, sprite sheet o secuencia PNG, con progreso y cancelación.
+ */
+const ExportFramesPanel: React.FC<ExportFramesPanelProps> = ({ config, images, defaultSize, onRendered }) => {
+  const [format, setFormat] = useState<ExportFormat>('webm');
+  const [fps, setFps] = useState(24);
+  const [transparent, setTransparent] = useState(false);
+  const [trim, setTrim] = useState(true);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const { width, height } = size ?? defaultSize();
+  const isVideo = format === 'webm' || format === 'mp4';
+  const unsupported = isVideo && !supportedVideoMime(format);
+
+  const render = async () => {
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setError(null);
+    setProgress(0);
+    // the snapshot taken here is what gets rendered, even if editing continues
+    const background = transparent && ALPHA_FORMATS.includes(format) ? null : '#000';
+    const options = { width, height, fps, images, background, trim: trim && TRIM_FORMATS.includes(format), signal: abort.signal, onProgress: setProgress };
+    try {
+      const blob = format === 'webm' || format === 'mp4' ? await renderVideo(config, format, options)
+        : format === 'gif' ? await renderGif(config, options)
+        : format === 'spritesheet' ? await renderSpriteSheet(config, options)
+        : await renderPngSequence(config, options);
+      onRendered(blob, FILENAMES[format]);
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') setError((e as Error).message);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-2 text-sm space-y-2">
+      <div className="flex flex-wrap gap-2 items-center">
+        <select aria-label="Formato" value={format} onChange={e => setFormat(e.target.value as ExportFormat)} className="p-1 border rounded" disabled={progress !== null}>
+          <option value="webm">WebM</option>
+          <option value="mp4">MP4</option>
+          <option value="gif">GIF</option>
+          <option value="spritesheet">Sprite sheet + atlas (.zip)</option>
+          <option value="png-sequence">Secuencia PNG (.zip)</option>
+        </select>
+        <label className="flex items-center gap-1">fps
+          <select value={fps} onChange={e => setFps(Number(e.target.value))} className="p-1 border rounded" disabled={progress !== null}>
+            {FPS_OPTIONS.map(f => <option key={f} value={f}>{f}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <input aria-label="Ancho" type="number" min={16} value={width} onChange={e => setSize({ width: Number(e.target.value), height })} className="p-1 border rounded w-20" disabled={progress !== null} />
+          ×
+          <input aria-label="Alto" type="number" min={16} value={height} onChange={e => setSize({ width, height: Number(e.target.value) })} className="p-1 border rounded w-20" disabled={progress !== null} />
+        </label>
+        {ALPHA_FORMATS.includes(format) ? (
+          <label className="flex items-center gap-1"><input type="checkbox" checked={transparent} onChange={e => setTransparent(e.target.checked)} disabled={progress !== null} /> Fondo transparente</label>
+        ) : null}
+        {TRIM_FORMATS.includes(format) ? (
+          <label className="flex items-center gap-1" title="Quita los frames sin nada dibujado del principio y del final, también con fondo opaco"><input type="checkbox" checked={trim} onChange={e => setTrim(e.target.checked)} disabled={progress !== null} /> Recortar vacíos</label>
+        ) : null}
+        {progress === null ? (
+          <button className="px-2 py-1 bg-blue-600 text-white rounded" disabled={unsupported || width < 1 || height < 1} onClick={render}>Exportar</button>
+        ) : (
+          <button className="px-2 py-1 bg-red-500 text-white rounded" onClick={() => abortRef.current?.abort()}>Cancelar</button>
+        )}
+      </div>
+      {unsupported ? <div className="text-xs opacity-70">Este navegador no puede grabar {format.toUpperCase()}.</div> : null}
+      {isVideo && progress !== null ? <div className="text-xs opacity-70">La grabación de vídeo dura lo mismo que la animación.</div> : null}
+      {progress !== null ? (
+        <progress className="w-full" value={progress} max={1} aria-label="Progreso del render">{Math.round(progress * 100)}%</progress>
+      ) : null}
+      {error ? <div role="alert" className="text-xs text-red-600">{error}</div> : null}
+    </div>
+  );
+};
+
+export default ExportFramesPanel;
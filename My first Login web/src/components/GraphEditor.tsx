@@ -0,0 +1,309 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { KeyframePoint, LayerConfig, NumericProperty } from './animationEngine';
+import {
+  bezierFromHandle,
+  dragGraphKeyframes,
+  fitView,
+  graphProperties,
+  niceStep,
+  panView,
+  propertyTrack,
+  PROPERTY_COLORS,
+  sampleCurve,
+  segmentHandles,
+  trackRange,
+  zoomView,
+  type GraphPoint,
+  type GraphView,
+  type ValueRange,
+} from './curveGraph';
+
+type GraphEditorProps = {
+  layer: LayerConfig;
+  duration: number;
+  currentTime: number;
+  /** ids of this layer's selected keyframes */
+  selectedIds: string[];
+  /** null clears the keyframe selection */
+  onSelect: (kfId: string | null, additive: boolean) => void;
+  /** edits go through the builder's undo history; `coalesce` merges key repeats into one step */
+  onUpdate: (update: (layers: LayerConfig[]) => LayerConfig[], coalesce?: string) => void;
+  /** drag start/end, so the host can group a drag into one undo entry */
+  onDragStart?: () => void;
+  onDragEnd?: () => void;
+  /** where a dragged keyframe's time lands (the timeline's snapping) */
+  snapTime?: (time: number) => number;
+};
+
+const W = 520;
+const H = 220;
+const PAD = 24;
+
+type Drag =
+  | { kind: 'keys'; property: NumericProperty; x: number; y: number; origins: { kfId: string; time: number; value?: number }[]; anchor: number }
+  | { kind: 'handle'; property: NumericProperty; prev: KeyframePoint; next: KeyframePoint; handle: 0 | 1 }
+  | { kind: 'pan'; x: number; y: number; view: GraphView; moved: boolean };
+
+/**
+ * GraphEditor: vista de curvas de los keyframes de una capa. Cada propiedad
+ * elegida se dibuja tal y como la reproduce el motor; los keyframes se
+ * arrastran en tiempo y valor y las asas editan el cubic-bezier del tramo.
+ * Rueda = zoom (Alt: sólo valor, Shift: sólo tiempo), arrastrar el fondo
+ * desplaza la vista y F encuadra la selección.
+ */
+const GraphEditor: React.FC<GraphEditorProps> = ({ layer, duration, currentTime, selectedIds, onSelect, onUpdate, onDragStart, onDragEnd, snapTime }) => {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const properties = graphProperties(layer);
+  const [shown, setShown] = useState<NumericProperty[]>(() => {
+    const animated = properties.filter(p => new Set(propertyTrack(layer, p.key).map(k => k[p.key])).size > 1).map(p => p.key);
+    return animated.length ? animated : ['translate'];
+  });
+  // each curve on its own 0..1 scale, so px, degrees and opacity fit together
+  const [normalized, setNormalized] = useState(true);
+  // ranges used for normalizing, frozen while dragging so the curve doesn't rescale under the pointer
+  const [frozenRanges, setFrozenRanges] = useState<Partial<Record<NumericProperty, ValueRange>> | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  const rangeOf = (property: NumericProperty) => frozenRanges?.[property] ?? trackRange(layer, property);
+  const toGraph = (property: NumericProperty, value: number) => {
+    if (!normalized) return value;
+    const { min, max } = rangeOf(property);
+    return (value - min) / (max - min);
+  };
+  const fromGraph = (property: NumericProperty, value: number) => {
+    if (!normalized) return value;
+    const { min, max } = rangeOf(property);
+    return min + value * (max - min);
+  };
+
+  const keyPoints = (only: string[] | null, props = shown, norm = normalized) => props.flatMap(p => {
+    const range = trackRange(layer, p);
+    return propertyTrack(layer, p)
+      .filter(k => !only || only.includes(k.id))
+      .map(k => ({ time: k.time, value: norm ? ((k[p] as number) - range.min) / (range.max - range.min) : k[p] as number }));
+  });
+  const fitAll = (props = shown, norm = normalized): GraphView => {
+    const points = keyPoints(null, props, norm);
+    const edge = points[0]?.value ?? 0;
+    return fitView([...points, { time: 0, value: edge }, { time: duration, value: edge }])!;
+  };
+  const [view, setView] = useState<GraphView>(() => fitAll());
+  const fitSelection = () => setView(fitView(keyPoints(selectedIds.length ? selectedIds : null)) ?? fitAll());
+
+  const sx = (t: number) => PAD + (t - view.t0) / (view.t1 - view.t0) * (W - 2 * PAD);
+  const sy = (v: number) => PAD + (view.v1 - v) / (view.v1 - view.v0) * (H - 2 * PAD);
+  // pointer position in graph units
+  const pointer = (e: { clientX: number; clientY: number }): GraphPoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = (e.clientX - rect.left) * W / rect.width, y = (e.clientY - rect.top) * H / rect.height;
+    return { time: view.t0 + (x - PAD) / (W - 2 * PAD) * (view.t1 - view.t0), value: view.v1 - (y - PAD) / (H - 2 * PAD) * (view.v1 - view.v0) };
+  };
+
+  // wheel zoom needs a non-passive listener to keep the page from scrolling
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const v = viewRef.current;
+      const x = (e.clientX - rect.left) * W / rect.width, y = (e.clientY - rect.top) * H / rect.height;
+      const anchor = { time: v.t0 + (x - PAD) / (W - 2 * PAD) * (v.t1 - v.t0), value: v.v1 - (y - PAD) / (H - 2 * PAD) * (v.v1 - v.v0) };
+      setView(zoomView(v, e.deltaY > 0 ? 1.15 : 1 / 1.15, anchor, e.altKey ? 'value' : e.shiftKey ? 'time' : 'both'));
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const freeze = () => setFrozenRanges(Object.fromEntries(shown.map(p => [p, trackRange(layer, p)])));
+
+  const onKeyPointerDown = (e: React.PointerEvent, property: NumericProperty, k: KeyframePoint) => {
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+    // a keyframe outside the selection is dragged on its own
+    const ids = selectedIds.includes(k.id) ? selectedIds : [k.id];
+    if (!selectedIds.includes(k.id) || additive) onSelect(k.id, additive);
+    if (additive) return;
+    const origins = layer.keyframes.filter(x => ids.includes(x.id)).map(x => ({ kfId: x.id, time: x.time, value: x[property] }));
+    freeze();
+    onDragStart?.();
+    setDrag({ kind: 'keys', property, x: e.clientX, y: e.clientY, origins, anchor: k.time });
+  };
+  const onHandlePointerDown = (e: React.PointerEvent, property: NumericProperty, prev: KeyframePoint, next: KeyframePoint, handle: 0 | 1) => {
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    freeze();
+    onDragStart?.();
+    setDrag({ kind: 'handle', property, prev, next, handle });
+  };
+  const onBackgroundPointerDown = (e: React.PointerEvent) => {
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setDrag({ kind: 'pan', x: e.clientX, y: e.clientY, view, moved: false });
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!drag || !svgRef.current) return;
+    if (drag.kind === 'handle') {
+      const p = pointer(e);
+      const { property, prev, next, handle } = drag;
+      const bezier = bezierFromHandle(prev, next, property, handle, { time: p.time, value: fromGraph(property, p.value) });
+      if (bezier) onUpdate(layers => layers.map(l => (l.id !== layer.id ? l : { ...l, keyframes: l.keyframes.map(k => (k.id === next.id ? { ...k, bezier } : k)) })));
+      return;
+    }
+    const rect = svgRef.current.getBoundingClientRect();
+    const dx = (e.clientX - drag.x) * W / rect.width, dy = (e.clientY - drag.y) * H / rect.height;
+    if (drag.kind === 'pan') {
+      if (Math.abs(dx) + Math.abs(dy) > 2) {
+        const from = drag.view;
+        setView(panView(from, -dx / (W - 2 * PAD) * (from.t1 - from.t0), dy / (H - 2 * PAD) * (from.v1 - from.v0)));
+        if (!drag.moved) setDrag({ ...drag, moved: true });
+      }
+    } else {
+      const { property, origins, anchor } = drag;
+      const dt = dx / (W - 2 * PAD) * (view.t1 - view.t0);
+      const dv = -dy / (H - 2 * PAD) * (view.v1 - view.v0);
+      const snapped = Math.round(snapTime ? snapTime(anchor + dt) - anchor : dt);
+      // normalized curves move in 0..1, the keyframes in the property's units
+      const { min, max } = rangeOf(property);
+      onUpdate(prev => dragGraphKeyframes(prev, layer.id, origins, property, snapped, normalized ? dv * (max - min) : dv, duration));
+    }
+  };
+  const onPointerUp = () => {
+    if (!drag) return;
+    if (drag.kind === 'pan') {
+      // a click on the background clears the selection
+      if (!drag.moved) onSelect(null, false);
+    } else onDragEnd?.();
+    setDrag(null);
+    setFrozenRanges(null);
+  };
+
+  // arrows: ←/→ move the keyframe 10 ms (100 with Shift), ↑/↓ change its value by one step (ten with Shift)
+  const onKeyKeyDown = (e: React.KeyboardEvent, property: NumericProperty, k: KeyframePoint) => {
+    const step = properties.find(p => p.key === property)?.step ?? 1;
+    const times: Record<string, number> = { ArrowLeft: -10, ArrowRight: 10 };
+    const values: Record<string, number> = { ArrowDown: -step, ArrowUp: step };
+    if (!(e.key in times) && !(e.key in values)) return;
+    e.preventDefault();
+    const factor = e.shiftKey ? 10 : 1;
+    const origin = [{ kfId: k.id, time: k.time, value: k[property] }];
+    onUpdate(prev => dragGraphKeyframes(prev, layer.id, origin, property, (times[e.key] ?? 0) * factor, (values[e.key] ?? 0) * factor, duration), `graph:${k.id}:${property}`);
+  };
+  const onSvgKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'f' || e.key === 'F') { e.preventDefault(); fitSelection(); }
+  };
+
+  const toggleProperty = (property: NumericProperty) => {
+    const next = shown.includes(property) ? shown.filter(p => p !== property) : [...shown, property];
+    setShown(next);
+    if (next.length) setView(fitAll(next));
+  };
+
+  const timeStep = niceStep(view.t1 - view.t0, 6);
+  const valueStep = niceStep(view.v1 - view.v0, 4);
+  const ticks = (from: number, to: number, step: number) => {
+    const out: number[] = [];
+    for (let v = Math.ceil(from / step) * step; v <= to; v += step) out.push(Math.round(v / step) * step);
+    return out;
+  };
+  const fmt = (v: number) => String(Math.round(v * 1000) / 1000);
+
+  return (
+    <div className="graph-editor space-y-1 text-xs">
+      <div role="toolbar" aria-label={`Curvas de ${layer.label}`} className="flex flex-wrap items-center gap-2">
+        {properties.map(p => (
+          <label key={p.key} className="flex items-center gap-1">
+            <input type="checkbox" checked={shown.includes(p.key)} onChange={() => toggleProperty(p.key)} />
+            <span aria-hidden style={{ color: PROPERTY_COLORS[p.key] }}>■</span>{p.label}
+          </label>
+        ))}
+        <label className="flex items-center gap-1" title="Cada curva en su propia escala 0–1">
+          <input type="checkbox" checked={normalized} onChange={e => { setNormalized(e.target.checked); setView(fitAll(shown, e.target.checked)); }} /> Normalizar
+        </label>
+        <button className="px-1 bg-gray-200 rounded" title="Encuadrar los keyframes seleccionados (F)" onClick={fitSelection}>Encuadrar selección</button>
+        <button className="px-1 bg-gray-200 rounded" onClick={() => setView(fitAll())}>Ver todo</button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${W} ${H}`}
+        className="w-full border rounded bg-white/5 touch-none select-none"
+        tabIndex={0}
+        role="group"
+        aria-label={`Gráfica de ${layer.label}: rueda para zoom, arrastrar el fondo para desplazar, F para encuadrar`}
+        onPointerDown={onBackgroundPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onKeyDown={onSvgKeyDown}
+      >
+        <defs>
+          <clipPath id={`graph-clip-${layer.id}`}><rect x={PAD} y={PAD} width={W - 2 * PAD} height={H - 2 * PAD} /></clipPath>
+        </defs>
+        {ticks(view.t0, view.t1, timeStep).map(t => (
+          <g key={`t${t}`}>
+            <line x1={sx(t)} x2={sx(t)} y1={PAD} y2={H - PAD} stroke="currentColor" strokeOpacity={0.12} />
+            <text x={sx(t)} y={H - 6} textAnchor="middle" fontSize={9} fill="currentColor" fillOpacity={0.6}>{fmt(t)}</text>
+          </g>
+        ))}
+        {ticks(view.v0, view.v1, valueStep).map(v => (
+          <g key={`v${v}`}>
+            <line x1={PAD} x2={W - PAD} y1={sy(v)} y2={sy(v)} stroke="currentColor" strokeOpacity={0.12} />
+            <text x={2} y={sy(v) + 3} fontSize={9} fill="currentColor" fillOpacity={0.6}>{fmt(v)}</text>
+          </g>
+        ))}
+        <g clipPath={`url(#graph-clip-${layer.id})`}>
+          {/* timeline ends and playhead */}
+          <rect x={sx(0)} y={PAD} width={Math.max(0, sx(duration) - sx(0))} height={H - 2 * PAD} fill="currentColor" fillOpacity={0.04} />
+          <line x1={sx(currentTime)} x2={sx(currentTime)} y1={PAD} y2={H - PAD} stroke="#ef4444" />
+          {shown.map(property => {
+            const color = PROPERTY_COLORS[property];
+            const track = propertyTrack(layer, property);
+            const curve = sampleCurve(layer, property, Math.max(0, view.t0), Math.min(duration, view.t1));
+            return (
+              <g key={property}>
+                <path d={curve.map((p, i) => `${i ? 'L' : 'M'}${sx(p.time).toFixed(1)},${sy(toGraph(property, p.value)).toFixed(1)}`).join(' ')} fill="none" stroke={color} strokeWidth={2} />
+                {/* handles of the segments next to a selected keyframe */}
+                {track.slice(1).map((next, i) => {
+                  const prev = track[i];
+                  if (!selectedIds.includes(prev.id) && !selectedIds.includes(next.id)) return null;
+                  const handles = segmentHandles(prev, next, property);
+                  if (!handles) return null;
+                  return (
+                    <g key={`h-${next.id}`}>
+                      {handles.map((h, hi) => {
+                        const end = hi === 0 ? prev : next;
+                        const x = sx(h.time), y = sy(toGraph(property, h.value));
+                        return (
+                          <g key={hi}>
+                            <line x1={sx(end.time)} y1={sy(toGraph(property, end[property] as number))} x2={x} y2={y} stroke={color} strokeOpacity={next.bezier ? 0.8 : 0.4} />
+                            <circle cx={x} cy={y} r={4} fill="#fff" stroke={color} className="cursor-grab" role="slider" tabIndex={-1}
+                              aria-label={`Asa ${hi + 1} del tramo hasta ${next.time}ms`}
+                              onPointerDown={e => onHandlePointerDown(e, property, prev, next, hi as 0 | 1)} />
+                          </g>
+                        );
+                      })}
+                    </g>
+                  );
+                })}
+                {track.map(k => {
+                  const selected = selectedIds.includes(k.id);
+                  return (
+                    <circle key={k.id} cx={sx(k.time)} cy={sy(toGraph(property, k[property] as number))} r={selected ? 6 : 4.5}
+                      fill={selected ? '#fff' : color} stroke={selected ? color : '#000'} strokeWidth={selected ? 2 : 1} className="cursor-grab"
+                      role="slider" tabIndex={0} aria-label={`${property} @ ${k.time}ms`} aria-valuenow={k[property]}
+                      onPointerDown={e => onKeyPointerDown(e, property, k)} onKeyDown={e => onKeyKeyDown(e, property, k)} />
+                  );
+                })}
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+    </div>
+  );
+};
+
+export default GraphEditor;
@@ -0,0 +1,148 @@
+import React from 'react';
+import { KEYFRAME_PROPERTIES, LAYER_TYPE_PROPERTIES, type Breakpoint, type KeyframePoint, type LayerConfig } from './animationEngine';
+import EasingField from './EasingField';
+import { patchKeyframes, patchLayers, selectedKeyframes, selectedLayers, sharedValue, type Selection } from './selection';
+
+type InspectorProps = {
+  layers: LayerConfig[];
+  selection: Selection;
+  /** the breakpoint the builder's canvas is editing; the inspector still edits the desktop values */
+  breakpoint?: Breakpoint | null;
+  /** edits go through the builder's undo history; `coalesce` merges typing into one step */
+  onUpdate: (update: (layers: LayerConfig[]) => LayerConfig[], coalesce?: string) => void;
+  /** image files go through the builder (SVGs become shape layers) */
+  onImageFile: (layerId: string, file: File) => void;
+};
+
+const inputClass = 'p-1 rounded text-black w-full';
+
+type NumberFieldProps = {
+  label: string;
+  values: (number | undefined)[];
+  onChange: (value: number | undefined) => void;
+  step?: number;
+  /** optional tracks: clearing the field removes the value */
+  optional?: boolean;
+};
+
+// empty with a "mixto" placeholder when the selection disagrees
+const NumberField: React.FC<NumberFieldProps> = ({ label, values, onChange, step, optional }) => {
+  const { value, mixed } = sharedValue(values);
+  return (
+    <label className="flex flex-col text-xs">{label}
+      <input
+        type="number"
+        step={step}
+        className={inputClass}
+        placeholder={mixed ? 'mixto' : optional ? '—' : ''}
+        value={value ?? ''}
+        onChange={e => {
+          if (e.target.value === '') { if (optional) onChange(undefined); return; }
+          onChange(Number(e.target.value));
+        }}
+      />
+    </label>
+  );
+};
+
+const MixedNote: React.FC<{ mixed: boolean }> = ({ mixed }) => (mixed ? <span className="ml-1 opacity-60">(mixto)</span> : null);
+
+/**
+ * Inspector: propiedades de las capas y keyframes seleccionados. Con varios
+ * seleccionados cada cambio se aplica a todos y los valores distintos se
+ * muestran como mixtos.
+ */
+const Inspector: React.FC<InspectorProps> = ({ layers, selection, breakpoint = null, onUpdate, onImageFile }) => {
+  const chosen = selectedLayers(layers, selection);
+  const keyframes = selectedKeyframes(layers, selection);
+  if (!chosen.length && !keyframes.length) {
+    return <div className="text-sm opacity-70">Selecciona una capa o un keyframe en el editor (Ctrl/Shift+clic para añadir a la selección).</div>;
+  }
+  const ids = chosen.map(l => l.id);
+  const refs = keyframes.map(({ layer, keyframe }) => ({ layerId: layer.id, kfId: keyframe.id }));
+  const key = (field: string) => `inspector:${field}:${ids.join(',')}:${refs.map(r => r.kfId).join(',')}`;
+  const setLayers = (patch: Partial<LayerConfig>, field?: string) => onUpdate(prev => patchLayers(prev, ids, patch), field && key(field));
+  const setKeyframes = (patch: Partial<KeyframePoint>, field?: string) => onUpdate(prev => patchKeyframes(prev, refs, patch), field && key(field));
+
+  const label = sharedValue(chosen.map(l => l.label));
+  const visible = sharedValue(chosen.map(l => !!l.visible));
+  const color = sharedValue(chosen.map(l => l.color));
+  const kfColor = sharedValue(keyframes.map(({ keyframe }) => keyframe.color));
+  const easing = sharedValue(keyframes.map(({ keyframe }) => keyframe.easing ?? 'linear'));
+  const types = new Set(keyframes.map(({ layer }) => layer.type));
+  // a type-specific track only shows when every selected keyframe's layer has that type
+  const properties = KEYFRAME_PROPERTIES.filter(p => p.key !== 'translate' && p.key !== 'opacity' && p.key !== 'color'
+    && (!LAYER_TYPE_PROPERTIES[p.key] || (types.size === 1 && types.has(LAYER_TYPE_PROPERTIES[p.key]))));
+
+  return (
+    <div className="space-y-4 text-sm">
+      {breakpoint ? (
+        <div role="note" className="text-xs opacity-70">Valores de escritorio. Los de {breakpoint.label} se cambian en el lienzo o en sus overrides del editor.</div>
+      ) : null}
+      {chosen.length ? (
+        <section aria-label="Capas seleccionadas" className="space-y-2">
+          <div className="font-medium">{chosen.length === 1 ? chosen[0].label || 'Capa' : `${chosen.length} capas`}</div>
+          <label className="flex flex-col text-xs">Nombre
+            <input className={inputClass} placeholder={label.mixed ? 'mixto' : ''} value={label.value ?? ''} onChange={e=>setLayers({ label: e.target.value }, 'label')} />
+          </label>
+          <label className="flex items-center gap-2 text-xs">
+            <input type="checkbox" checked={!!visible.value} ref={el => { if (el) el.indeterminate = visible.mixed; }} onChange={e=>setLayers({ visible: e.target.checked })} />
+            Visible
+          </label>
+          <div className="grid grid-cols-4 gap-1">
+            {(['x', 'y', 'w', 'h'] as const).map(f => (
+              <NumberField key={f} label={`${f} %`} values={chosen.map(l => l[f])} onChange={v => setLayers({ [f]: v ?? 0 }, f)} />
+            ))}
+          </div>
+          <NumberField label="Depth (0..1)" step={0.01} values={chosen.map(l => l.depth)} onChange={v => setLayers({ depth: Math.min(1, Math.max(0, v ?? 0)) }, 'depth')} />
+          <label className="flex items-center gap-2 text-xs">Color
+            <input type="color" value={color.value ?? '#ffffff'} onChange={e=>setLayers({ color: e.target.value }, 'color')} />
+            <MixedNote mixed={color.mixed} />
+          </label>
+          <div className="flex items-center gap-2 text-xs">
+            <label className="flex flex-col flex-1">Imagen
+              <input type="file" accept="image/*" onChange={e=>{ const f = e.target.files?.[0]; if (f) ids.forEach(id => onImageFile(id, f)); e.target.value = ''; }} />
+            </label>
+            {chosen.some(l => l.image) ? <button className="px-2 py-1 bg-white/10 rounded" onClick={()=>setLayers({ image: null })}>Quitar</button> : null}
+          </div>
+        </section>
+      ) : null}
+
+      {keyframes.length ? (
+        <section aria-label="Keyframes seleccionados" className="space-y-2">
+          <div className="font-medium">{keyframes.length === 1 ? `Keyframe @ ${keyframes[0].keyframe.time}ms` : `${keyframes.length} keyframes`}</div>
+          <div className="grid grid-cols-3 gap-1">
+            <NumberField label="Tiempo (ms)" values={keyframes.map(({ keyframe }) => keyframe.time)} onChange={v => setKeyframes({ time: Math.max(0, v ?? 0) }, 'time')} />
+            <NumberField label="Translate Y" values={keyframes.map(({ keyframe }) => keyframe.translate)} onChange={v => setKeyframes({ translate: v ?? 0 }, 'translate')} />
+            <NumberField label="Opacity" step={0.01} values={keyframes.map(({ keyframe }) => keyframe.opacity)} onChange={v => setKeyframes({ opacity: Math.min(1, Math.max(0, v ?? 0)) }, 'opacity')} />
+          </div>
+          {/* optional tracks: empty = these keyframes don't animate the property */}
+          <div className="grid grid-cols-3 gap-1">
+            {properties.map(p => (
+              <NumberField key={p.key} label={p.label} step={p.step} optional values={keyframes.map(({ keyframe }) => keyframe[p.key] as number | undefined)} onChange={v => setKeyframes({ [p.key]: v }, p.key)} />
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs">Color
+            {kfColor.value !== undefined || kfColor.mixed ? (
+              <>
+                <input type="color" aria-label="Color del keyframe" value={kfColor.value ?? '#ffffff'} onChange={e=>setKeyframes({ color: e.target.value }, 'kfColor')} />
+                <MixedNote mixed={kfColor.mixed} />
+                <button className="text-red-300" title="Quitar color" onClick={()=>setKeyframes({ color: undefined })}>✕</button>
+              </>
+            ) : (
+              <button className="px-1 bg-white/10 rounded" title="Animar color" onClick={()=>setKeyframes({ color: keyframes[0].layer.color })}>+</button>
+            )}
+          </div>
+          <div className="text-xs">
+            <div>Easing<MixedNote mixed={easing.mixed} /></div>
+            <div className="text-black">
+              <EasingField value={easing.value} onChange={value => setKeyframes({ easing: value, bezier: undefined }, 'easing')} />
+            </div>
+          </div>
+        </section>
+      ) : null}
+    </div>
+  );
+};
+
+export default Inspector;
@@ -0,0 +1,22 @@
+import { Navigate, Outlet, useLocation } from 'react-router';
+import { useAuth } from '@/hooks/use-auth';
+
+/**
+ * RequireAuth: ruta contenedora que solo deja pasar con sesión activa.
+ * Sin sesión redirige a /login recordando la ruta original en `state.from`.
+ */
+const RequireAuth = () => {
+  const { status } = useAuth();
+  const location = useLocation();
+
+  // wait for the stored session to be read before deciding
+  if (status === 'loading') {
+    return <div className="fixed inset-0 flex items-center justify-center bg-black/80 text-white text-sm">Comprobando sesión…</div>;
+  }
+  if (status === 'anonymous') {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+  return <Outlet />;
+};
+
+export default RequireAuth;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { bindingsFor, formatCombo, keyCombo, rebind, resetBinding, type CommandDef, type Keymap } from './commands';
+
+type ShortcutsSheetProps = {
+  commands: CommandDef[];
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onClose: () => void;
+};
+
+/**
+ * ShortcutsSheet: chuleta con todos los atajos. «Cambiar» espera la siguiente
+ * combinación y se la quita al comando que la tuviera; Esc cancela.
+ */
+const ShortcutsSheet: React.FC<ShortcutsSheetProps> = ({ commands, keymap, onChange, onClose }) => {
+  const [recording, setRecording] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const groups = [...new Set(commands.map(c => c.group))];
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    // neither the editor nor the studio should see these keys
+    e.stopPropagation();
+    if (!recording) {
+      if (e.key === 'Escape') { e.preventDefault(); onClose(); }
+      return;
+    }
+    e.preventDefault();
+    if (e.key === 'Escape') { setRecording(null); return; }
+    const combo = keyCombo(e);
+    if (!combo) return;
+    const taken = commands.filter(c => c.id !== recording && bindingsFor(c, keymap).includes(combo));
+    onChange(rebind(commands, keymap, recording, combo));
+    setNote(taken.length ? `${formatCombo(combo)} ya no ejecuta: ${taken.map(c => c.label).join(', ')}` : '');
+    setRecording(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-80 bg-black/40 flex items-center justify-center" onMouseDown={onClose}>
+      <div role="dialog" aria-modal="true" aria-label="Atajos de teclado" tabIndex={-1} ref={el => el?.focus()}
+        className="w-[40rem] max-w-[95vw] max-h-[85vh] overflow-auto rounded bg-white text-black shadow-xl p-4 outline-none"
+        onMouseDown={e=>e.stopPropagation()} onKeyDown={onKeyDown}>
+        <div className="flex items-center gap-2 mb-2">
+          <strong className="flex-1">Atajos de teclado</strong>
+          <button className="text-xs px-2 py-1 bg-gray-200 rounded" disabled={!Object.keys(keymap).length} onClick={()=>{ onChange({}); setNote(''); }}>Restablecer todo</button>
+          <button className="text-xs px-2 py-1 bg-gray-200 rounded" aria-label="Cerrar" onClick={onClose}>✕</button>
+        </div>
+        <div aria-live="polite" className="text-xs text-amber-700 min-h-4">{recording ? 'Pulsa la nueva combinación (Esc cancela)…' : note}</div>
+        {groups.map(group => (
+          <section key={group} aria-label={group} className="mt-2">
+            <div className="text-xs uppercase opacity-60">{group}</div>
+            <table className="w-full text-sm">
+              <tbody>
+                {commands.filter(c => c.group === group).map(c => (
+                  <tr key={c.id} className="border-t">
+                    <td className="py-1">{c.label}</td>
+                    <td className="py-1 text-right whitespace-nowrap">
+                      {bindingsFor(c, keymap).map(k => <kbd key={k} className="ml-1 text-xs px-1 border rounded">{formatCombo(k)}</kbd>)}
+                      {!bindingsFor(c, keymap).length ? <span className="text-xs opacity-50">sin atajo</span> : null}
+                    </td>
+                    <td className="py-1 pl-2 text-right whitespace-nowrap">
+                      <button className={`text-xs px-1 rounded ${recording === c.id ? 'bg-amber-200' : 'bg-gray-200'}`} aria-pressed={recording === c.id} onClick={()=>setRecording(r => (r === c.id ? null : c.id))}>Cambiar</button>
+                      {keymap[c.id] ? <button className="ml-1 text-xs px-1 bg-gray-200 rounded" title="Volver al atajo por defecto" onClick={()=>onChange(resetBinding(keymap, c.id))}>↺</button> : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsSheet;
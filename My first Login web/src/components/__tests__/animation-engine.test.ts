@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateLayer, evaluateScene, walkLayers, textTokens, staggerProgress, glitchCell, focusState, easingFor, engineRuntimeSource, frameStep, loopRangeOf, markersBetween, playbackOf, startPlayback, stepPlayback, DEFAULT_PLAYBACK, type AnimationEngine, type LayerConfig, type PlaybackState } from '../animationEngine';
+
+const layer = (patch: Partial<LayerConfig> = {}): LayerConfig => ({
+  id: 'a',
+  label: 'A',
+  depth: 0.5,
+  color: '#fff',
+  visible: true,
+  keyframes: [
+    { id: 'k1', time: 0, translate: 40, opacity: 0 },
+    { id: 'k2', time: 1000, translate: 0, opacity: 1 },
+  ],
+  ...patch,
+});
+
+// playback moving forwards (1) or backwards (-1)
+const at = (time: number, direction: 1 | -1 = 1): PlaybackState => ({ time, direction, ended: false });
+
+describe('animationEngine', () => {
+  it('interpolates linearly between keyframes', () => {
+    expect(evaluateLayer(layer(), 500)).toMatchObject({ translate: 20, opacity: 0.5 });
+  });
+
+  it('holds the first and last keyframe outside the range', () => {
+    expect(evaluateLayer(layer(), -100)).toMatchObject({ translate: 40, opacity: 0 });
+    expect(evaluateLayer(layer(), 5000)).toMatchObject({ translate: 0, opacity: 1 });
+  });
+
+  it('uses defaults for properties no keyframe defines', () => {
+    expect(evaluateLayer(layer(), 500)).toMatchObject({ translateX: 0, scale: 1, scaleX: 1, scaleY: 1, rotation: 0, blur: 0, color: '#fff' });
+  });
+
+  it('interpolates optional tracks only between the keyframes that define them', () => {
+    const l = layer({
+      keyframes: [
+        { id: 'k1', time: 0, translate: 0, opacity: 1, rotation: 0, color: '#000000' },
+        { id: 'k2', time: 500, translate: 0, opacity: 1, scale: 2 },
+        { id: 'k3', time: 1000, translate: 0, opacity: 1, rotation: 90, color: '#ffffff' },
+      ],
+    });
+    const s = evaluateLayer(l, 250)!;
+    expect(s.rotation).toBeCloseTo(22.5, 5);
+    // a single keyframe holds its value over the whole timeline
+    expect(s.scale).toBe(2);
+    expect(evaluateLayer(l, 1000)!.color).toBe('#ffffff');
+  });
+
+  it('uses the easing of the segment end keyframe', () => {
+    const l = layer();
+    l.keyframes[1] = { ...l.keyframes[1], easing: 'ease-in' };
+    expect(evaluateLayer(l, 500)!.opacity).toBeCloseTo(0.25, 5);
+    l.keyframes[1] = { ...l.keyframes[1], bezier: [0, 0, 1, 1] };
+    expect(evaluateLayer(l, 500)!.opacity).toBeCloseTo(0.5, 3);
+  });
+
+  it('maps named easings', () => {
+    expect(easingFor({ id: 'x', time: 0, translate: 0, opacity: 0, easing: 'ease-out' })(0.5)).toBeCloseTo(0.75, 5);
+    expect(easingFor({ id: 'x', time: 0, translate: 0, opacity: 0, easing: 'unknown' })(0.3)).toBe(0.3);
+  });
+
+  it('skips hidden and empty layers in the scene', () => {
+    const scene = evaluateScene({ timelineDuration: 1000, layers: [layer(), layer({ id: 'b', visible: false }), layer({ id: 'c', keyframes: [] })] }, 0);
+    expect(scene.map(e => e.layer.id)).toEqual(['a']);
+  });
+
+  it('paints groups children in place and hands them the group states', () => {
+    const group = layer({ id: 'g', type: 'group', keyframes: [{ id: 'gk', time: 0, translate: 10, opacity: 0.5 }] });
+    const layers = [layer({ id: 'c1', parentId: 'g' }), layer({ id: 'top' }), group, layer({ id: 'c2', parentId: 'g' })];
+    expect(walkLayers(layers).map(e => [e.layer.id, e.parents.map(p => p.id)])).toEqual([
+      ['top', []], ['g', []], ['c1', ['g']], ['c2', ['g']],
+    ]);
+    const scene = evaluateScene({ timelineDuration: 1000, layers }, 0);
+    expect(scene.map(e => e.layer.id)).toEqual(['top', 'c1', 'c2']);
+    expect(scene[1].parents[0].state).toMatchObject({ translate: 10, opacity: 0.5 });
+    // hiding the group hides its children; a group without keyframes is a plain container
+    expect(evaluateScene({ timelineDuration: 1000, layers: layers.map(l => (l.id === 'g' ? { ...l, visible: false } : l)) }, 0).map(e => e.layer.id)).toEqual(['top']);
+    expect(evaluateScene({ timelineDuration: 1000, layers: layers.map(l => (l.id === 'g' ? { ...l, keyframes: [] } : l)) }, 0)[1].parents[0].state.opacity).toBe(1);
+  });
+
+  it('leaves layers with a broken or cyclic parent at the root', () => {
+    const a = layer({ id: 'a', type: 'group', parentId: 'b' }), b = layer({ id: 'b', type: 'group', parentId: 'a' });
+    const orphan = layer({ id: 'o', parentId: 'missing' });
+    expect(walkLayers([a, b, orphan]).map(e => e.layer.id).sort()).toEqual(['a', 'b', 'o']);
+  });
+
+  it('splits text into stagger units and spreads the reveal over them', () => {
+    expect(textTokens('Hola  mundo', 'word')).toEqual([{ text: 'Hola', unit: true }, { text: '  ', unit: false }, { text: 'mundo', unit: true }]);
+    expect(textTokens('a b', 'char').map(t => t.unit)).toEqual([true, false, true]);
+    expect(textTokens('a b', 'none')).toEqual([{ text: 'a b', unit: true }]);
+    // 4 units one at a time: halfway through, the first two are in and the rest are out
+    expect([0, 1, 2, 3].map(i => staggerProgress(0.5, i, 4, 1))).toEqual([1, 1, 0, 0]);
+    expect(staggerProgress(0, 0, 4, 2)).toBe(0);
+    expect(staggerProgress(1, 3, 4, 2)).toBe(1);
+    // reveal defaults to fully shown
+    expect(evaluateLayer(layer(), 0)!.reveal).toBe(1);
+  });
+
+  it('draws glitch cells from the seed alone', () => {
+    const glitch = { glitchColors: ['#000000', '#ffffff'], glitchSpeed: 50, centerVignette: false, outerVignette: false, smooth: false, characters: 'AB', seed: 7 };
+    const cells = (time: number, seed = 7) => Array.from({ length: 200 }, (_, i) => glitchCell({ ...glitch, seed }, i, time));
+    // any frame is reproducible, whatever was drawn before it
+    expect(cells(1234)).toEqual(cells(1234));
+    expect(cells(1234)).not.toEqual(cells(1234, 8));
+    // within a tick nothing changes; over many ticks about 5% of the cells change per tick
+    expect(cells(1201)).toEqual(cells(1249));
+    const changed = cells(1250).filter((c, i) => c.char !== cells(1200)[i].char || c.color !== cells(1200)[i].color).length;
+    expect(changed).toBeLessThan(40);
+    expect(cells(0).every(c => 'AB'.includes(c.char))).toBe(true);
+    // smooth fades start from the previous color
+    const smooth = { ...glitch, smooth: true, glitchColors: ['#000000', '#ffffff', '#ff0000'] };
+    const moving = Array.from({ length: 200 }, (_, i) => glitchCell(smooth, i, 1260)).some(c => !smooth.glitchColors.includes(c.color));
+    expect(moving).toBe(true);
+  });
+
+  it('moves the focus one word per cycle', () => {
+    const focus = { sentence: 'a b c', fontFamily: 'serif', fontSize: 10, blurAmount: 5, borderColor: 'red', animationDuration: 0.5, pauseBetweenAnimations: 1.5 };
+    expect(focusState(focus, 3, 0)).toEqual({ index: 0, previous: -1, progress: 1 });
+    expect(focusState(focus, 3, 2250)).toEqual({ index: 1, previous: 0, progress: 0.5 });
+    expect(focusState(focus, 3, 6100)).toMatchObject({ index: 0, previous: 2 });
+  });
+
+  it('repeats the loop range and reports the markers playback passes', () => {
+    const range = loopRangeOf({ timelineDuration: 2000, layers: [], loop: { start: 500, end: 3000 } });
+    expect(range).toEqual({ start: 500, end: 2000 });
+    expect(loopRangeOf({ timelineDuration: 2000, layers: [], loop: { start: 2500, end: 3000 } })).toBeNull();
+    const markers = [{ id: 'b', time: 1000, label: 'b' }, { id: 'a', time: 0, label: 'a' }, { id: 'c', time: 2000, label: 'c' }];
+    const config = { timelineDuration: 2000, layers: [], loop: { start: 500, end: 1000 }, markers };
+    // documents from before the playback settings loop when they have a loop range
+    expect(playbackOf(config).mode).toBe('loop');
+    const loop = playbackOf(config);
+    // starting past the out point starts at the in point
+    expect(startPlayback(config, loop, 1500)).toEqual(at(500));
+    // 0 → 1000, then round the 500–1000 range
+    expect(stepPlayback(config, loop, at(0), 1700)).toEqual({ state: at(700), markers: [markers[1]] });
+    // playing once ignores the range and stops at the end, with the marker there
+    expect(stepPlayback(config, DEFAULT_PLAYBACK, at(1500), 600)).toEqual({ state: { time: 2000, direction: 1, ended: true }, markers: [markers[2]] });
+    expect(markersBetween(markers, 0, 1000).map(m => m.label)).toEqual(['a']);
+    expect(markersBetween(markers, 1000, 2000, true).map(m => m.label)).toEqual(['b', 'c']);
+    expect(markersBetween(markers, 2000, 0).map(m => m.label)).toEqual(['c', 'b']);
+    expect(markersBetween(undefined, 0, 2000)).toEqual([]);
+  });
+
+  it('plays at a rate, backwards, back and forth and steps whole frames', () => {
+    const marker = { id: 'm', time: 800, label: 'm' };
+    const config = { timelineDuration: 1000, layers: [], markers: [marker] };
+    const pingpong = { ...DEFAULT_PLAYBACK, mode: 'pingpong' as const, rate: 2 };
+    // at 2× 300 ms cover 600 of the timeline, bouncing at the end past the marker twice
+    expect(stepPlayback(config, pingpong, at(700), 300)).toEqual({ state: at(700, -1), markers: [marker, marker] });
+    // a bounce doesn't restart; once and loop start over from the other end
+    expect(startPlayback(config, { ...pingpong, reverse: true }, 0)).toEqual(at(0, -1));
+    const reverse = { ...DEFAULT_PLAYBACK, reverse: true };
+    expect(startPlayback(config, reverse, 0)).toEqual(at(1000, -1));
+    expect(stepPlayback(config, reverse, at(1000, -1), 1500)).toEqual({ state: { time: 0, direction: -1, ended: true }, markers: [marker] });
+    expect(frameStep(0, 30, 1, 1000)).toBeCloseTo(33.333, 3);
+    // off the grid the first step lands on the neighbouring frame
+    expect(frameStep(50, 30, 1, 1000)).toBeCloseTo(66.667, 3);
+    expect(frameStep(50, 30, -1, 1000)).toBeCloseTo(33.333, 3);
+    expect(frameStep(990, 30, 1, 1000)).toBe(1000);
+    expect(frameStep(0, 24, -1, 1000)).toBe(0);
+  });
+
+  it('serialized runtime evaluates like the editor engine', () => {
+    const runtime = new Function(`return ${engineRuntimeSource()};`)() as AnimationEngine;
+    const l = layer();
+    l.keyframes[1] = { ...l.keyframes[1], bezier: [0.25, 0.1, 0.25, 1] };
+    for (const t of [0, 250, 500, 999]) {
+      expect(runtime.evaluateLayer(l, t)).toEqual(evaluateLayer(l, t));
+    }
+    for (const easing of ['spring(120, 8, 1)', 'steps(5, jump-start)', 'bounce', 'elastic(1.2, 0.4)']) {
+      l.keyframes[1] = { id: 'k2', time: 1000, translate: 0, opacity: 1, easing };
+      expect(runtime.evaluateLayer(l, 420)).toEqual(evaluateLayer(l, 420));
+    }
+    const glitch = { glitchColors: ['#2b4539', '#61dca3'], glitchSpeed: 40, centerVignette: false, outerVignette: true, smooth: true, characters: 'XYZ', seed: 3 };
+    expect(runtime.glitchCell(glitch, 17, 987)).toEqual(glitchCell(glitch, 17, 987));
+    const timeline = { timelineDuration: 2000, layers: [], loop: { start: 500, end: 1000 }, markers: [{ id: 'm', time: 600, label: 'm' }] };
+    const settings = { ...DEFAULT_PLAYBACK, mode: 'pingpong' as const, rate: 1.5 };
+    expect(runtime.stepPlayback(timeline, settings, at(0), 1700)).toEqual(stepPlayback(timeline, settings, at(0), 1700));
+    expect(runtime.frameStep(512, 24, -3, 2000)).toBe(frameStep(512, 24, -3, 2000));
+  });
+});
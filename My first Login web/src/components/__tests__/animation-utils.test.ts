@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { lerp, snap, clamp, cubicBezierEasing } from '../animationUtils';
+import { lerp, snap, clamp, cubicBezierEasing, mixOklab, formatCubicBezier, parseCubicBezier, NAMED_EASING_BEZIER,
+  springEasing, stepsEasing, bounceEasing, elasticEasing, parseEasingSpec, flattenSvgPath } from '../animationUtils';
+import { easingFor } from '../animationEngine';
 
 describe('animationUtils', () => {
   it('lerp interpolates correctly', () => {
@@ -27,4 +29,86 @@ describe('animationUtils', () => {
     expect(b).toBeGreaterThan(a);
     expect(c).toBeGreaterThan(b);
   });
+
+  it('mixOklab keeps endpoints and mixes perceptually', () => {
+    expect(mixOklab('#ff0000', '#0000ff', 0)).toBe('#ff0000');
+    expect(mixOklab('#ff0000', '#0000ff', 1)).toBe('#0000ff');
+    expect(mixOklab('#fff', '#000', 0)).toBe('#ffffff');
+    // OKLab midpoint of black/white is darker than the sRGB average (#808080)
+    const mid = parseInt(mixOklab('#000000', '#ffffff', 0.5).slice(1, 3), 16);
+    expect(mid).toBeGreaterThan(0x50);
+    expect(mid).toBeLessThan(0x80);
+  });
+
+  it('parses and formats cubic-bezier strings', () => {
+    expect(parseCubicBezier('cubic-bezier(0.34, 1.56, 0.64, 1)')).toEqual([0.34, 1.56, 0.64, 1]);
+    expect(parseCubicBezier('0 0 1 1')).toEqual([0, 0, 1, 1]);
+    expect(parseCubicBezier('cubic-bezier(1.2, 0, 1, 1)')).toBeNull();
+    expect(parseCubicBezier('ease')).toBeNull();
+    expect(formatCubicBezier([1 / 3, 0, 2 / 3, 1])).toBe('cubic-bezier(0.333, 0, 0.667, 1)');
+  });
+
+  it('named easing control points match the engine curves', () => {
+    const [x1, y1, x2, y2] = NAMED_EASING_BEZIER['ease-in'];
+    expect(cubicBezierEasing(x1, y1, x2, y2)(0.5)).toBeCloseTo(0.25, 4);
+    // handles drawn for a named easing must lie on the curve the engine plays
+    for (const [easing, bezier] of Object.entries(NAMED_EASING_BEZIER)) {
+      const engine = easingFor({ id: 'k', time: 0, translate: 0, opacity: 0, easing });
+      for (const t of [0.1, 0.3, 0.5, 0.7, 0.9]) expect(cubicBezierEasing(...bezier)(t)).toBeCloseTo(engine(t), 3);
+    }
+  });
+
+  it('easing generators start at 0 and end at 1', () => {
+    const easings = [springEasing(), springEasing(100, 20, 1), springEasing(100, 40, 1), stepsEasing(4), bounceEasing(), elasticEasing()];
+    for (const ease of easings) {
+      expect(ease(0)).toBeCloseTo(0, 5);
+      expect(ease(1)).toBe(1);
+    }
+  });
+
+  it('underdamped spring and elastic overshoot, bounce and overdamped spring do not', () => {
+    const max = (ease: (t: number) => number) => Math.max(...Array.from({ length: 501 }, (_, i) => ease(i / 500)));
+    expect(max(springEasing(100, 10, 1))).toBeGreaterThan(1.1);
+    expect(max(elasticEasing())).toBeGreaterThan(1.1);
+    expect(max(bounceEasing())).toBeLessThanOrEqual(1);
+    expect(max(springEasing(100, 40, 1))).toBeLessThanOrEqual(1);
+  });
+
+  it('spring duration is its settling time', () => {
+    // zeta = 0.5, w0 = 10: the envelope e^(-5s) reaches 0.1% near 1.38 s
+    const ease = springEasing(100, 10, 1);
+    expect(ease.duration).toBeGreaterThan(1);
+    expect(ease.duration).toBeLessThan(1.5);
+    // close to rest at the end of the segment, so snapping to 1 at t = 1 is invisible
+    for (const t of [0.99, 0.995, 0.999]) expect(Math.abs(ease(t) - 1)).toBeLessThan(0.002);
+    // stiffer springs settle sooner
+    expect(springEasing(400, 20, 1).duration).toBeLessThan(ease.duration);
+  });
+
+  it('steps follows the CSS jump positions', () => {
+    expect([0, 0.3, 0.99].map(stepsEasing(4))).toEqual([0, 0.25, 0.75]);
+    expect(stepsEasing(4, 'jump-start')(0)).toBe(0.25);
+    expect(stepsEasing(3, 'jump-none')(0.5)).toBe(0.5);
+    expect(stepsEasing(3, 'jump-both')(0)).toBe(0.25);
+  });
+
+  it('parses easing specs', () => {
+    expect(parseEasingSpec('spring(120, 8, 1)')).toEqual({ name: 'spring', args: ['120', '8', '1'] });
+    expect(parseEasingSpec('bounce')).toEqual({ name: 'bounce', args: [] });
+  });
+
+  it('flattens SVG paths into polylines', () => {
+    const polyLength = (p: number[]) => p.reduce((n, _, i) => (i >= 2 && i % 2 === 0 ? n + Math.hypot(p[i] - p[i - 2], p[i + 1] - p[i - 1]) : n), 0);
+    // relative commands, implicit lineto after M and closepath
+    const [square] = flattenSvgPath('m10 10 h20 v20 h-20 z');
+    expect(square).toEqual([10, 10, 30, 10, 30, 30, 10, 30, 10, 10]);
+    // two half circles of radius 10
+    const circle = flattenSvgPath('M0 10 A10 10 0 0 1 20 10 A10 10 0 0 1 0 10', 64);
+    expect(polyLength(circle[0])).toBeCloseTo(2 * Math.PI * 10, 0);
+    // a straight cubic keeps its length; subpaths are split at M
+    const parts = flattenSvgPath('M0 0 C10 0 20 0 30 0 M0 5 L0 15');
+    expect(parts).toHaveLength(2);
+    expect(polyLength(parts[0])).toBeCloseTo(30, 5);
+    expect(flattenSvgPath('')).toEqual([]);
+  });
 });
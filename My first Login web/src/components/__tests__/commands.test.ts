@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { BUILDER_COMMANDS, commandsForCombo, filterCommands, formatCombo, isActiveScope, isKeymap, keyCombo, pushScope, raiseScope, rebind, resetBinding } from '../commands';
+
+const press = (key: string, mods: { ctrl?: boolean; meta?: boolean; shift?: boolean; alt?: boolean } = {}) =>
+  keyCombo({ key, ctrlKey: !!mods.ctrl, metaKey: !!mods.meta, shiftKey: !!mods.shift, altKey: !!mods.alt });
+
+describe('commands', () => {
+  it('normalizes key presses into combos', () => {
+    expect(press('z', { ctrl: true })).toBe('Mod+Z');
+    expect(press('Z', { meta: true, shift: true })).toBe('Mod+Shift+Z');
+    expect(press('?', { shift: true })).toBe('?');
+    expect(press('ArrowLeft', { shift: true })).toBe('Shift+ArrowLeft');
+    expect(press('Shift', { shift: true })).toBeNull();
+    expect(formatCombo('Mod+Shift+ArrowLeft')).toBe('Ctrl+Shift+←');
+    expect(formatCombo('Mod++')).toBe('Ctrl++');
+  });
+
+  it('rebinds a combo, taking it from the command that had it', () => {
+    const keymap = rebind(BUILDER_COMMANDS, {}, 'keyframes.reverse', 'Mod+Z');
+    expect(keymap).toEqual({ 'keyframes.reverse': ['Mod+Z'], 'history.undo': [] });
+    expect(commandsForCombo(BUILDER_COMMANDS, keymap, 'Mod+Z').map(c => c.id)).toEqual(['keyframes.reverse']);
+    // back to the defaults: both entries disappear
+    expect(rebind(BUILDER_COMMANDS, keymap, 'history.undo', 'Mod+Z')).toEqual({});
+    expect(resetBinding(keymap, 'history.undo')).toEqual({ 'keyframes.reverse': ['Mod+Z'] });
+    expect(isKeymap(keymap)).toBe(true);
+    expect(isKeymap({ a: 'Mod+Z' })).toBe(false);
+  });
+
+  it('filters the palette by words of the label or group', () => {
+    expect(filterCommands(BUILDER_COMMANDS, 'keyframes inv').map(c => c.id)).toEqual(['keyframes.reverse']);
+    expect(filterCommands(BUILDER_COMMANDS, 'SELECCION todos').map(c => c.id)).toEqual(['selection.allKeyframes']);
+  });
+
+  it('gives the keyboard to the last scope mounted or used', () => {
+    const releaseOverlay = pushScope('overlay');
+    const releaseStudio = pushScope('studio');
+    expect(isActiveScope('studio')).toBe(true);
+    raiseScope('overlay');
+    expect(isActiveScope('overlay')).toBe(true);
+    releaseOverlay();
+    expect(isActiveScope('studio')).toBe(true);
+    releaseStudio();
+    expect(isActiveScope('studio')).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import type { LayerConfig } from '../animationEngine';
+import { bezierFromHandle, dragGraphKeyframes, fitView, niceStep, sampleCurve, segmentHandles, trackRange, zoomView } from '../curveGraph';
+
+const layer: LayerConfig = { id: 'a', label: 'A', depth: 0.5, color: '#fff', visible: true, keyframes: [
+  { id: 'k1', time: 0, translate: 0, opacity: 1 },
+  { id: 'k2', time: 1000, translate: 100, opacity: 1, bezier: [0.42, 0, 1, 1] },
+  { id: 'k3', time: 2000, translate: 100, opacity: 0 },
+] };
+
+describe('curveGraph', () => {
+  it('samples the played value and places the bezier handles on the segment', () => {
+    expect(sampleCurve(layer, 'translate', 0, 2000, 4).map(p => [p.time, Math.round(p.value)])).toEqual([[0, 0], [500, 32], [1000, 100], [1500, 100], [2000, 100]]);
+    expect(trackRange(layer, 'translate')).toEqual({ min: 0, max: 100 });
+    expect(trackRange(layer, 'scale')).toEqual({ min: -1, max: 1 });
+    const [prev, next, last] = layer.keyframes;
+    expect(segmentHandles(prev, next, 'translate')).toEqual([{ time: 420, value: 0 }, { time: 1000, value: 100 }]);
+    expect(segmentHandles(next, last, 'translate')).toBeNull();
+    expect(bezierFromHandle(prev, next, 'translate', 0, { time: 250, value: 150 })).toEqual([0.25, 1.5, 1, 1]);
+    expect(bezierFromHandle(prev, next, 'translate', 1, { time: 3000, value: -500 })).toEqual([0.42, 0, 1, -1]);
+  });
+
+  it('fits, zooms and picks grid steps', () => {
+    expect(fitView([{ time: 0, value: 0 }, { time: 1000, value: 100 }])).toEqual({ t0: -100, t1: 1100, v0: -10, v1: 110 });
+    expect(fitView([{ time: 500, value: 5 }], { padding: 0 })).toEqual({ t0: 450, t1: 550, v0: 4.5, v1: 5.5 });
+    expect(fitView([])).toBeNull();
+    expect(zoomView({ t0: 0, t1: 1000, v0: 0, v1: 10 }, 0.5, { time: 200, value: 5 }, 'time')).toEqual({ t0: 100, t1: 600, v0: 0, v1: 10 });
+    expect([niceStep(1000), niceStep(7), niceStep(0.3, 3)]).toEqual([200, 1, 0.1]);
+  });
+
+  it('drags keyframes in time and value', () => {
+    const origins = [{ kfId: 'k1', time: 0, value: 0 }, { kfId: 'k2', time: 1000, value: 100 }];
+    const [moved] = dragGraphKeyframes([layer], 'a', origins, 'translate', 300, 12.3456, 2000);
+    expect(moved.keyframes.map(k => [k.id, k.time, k.translate])).toEqual([['k1', 300, 12.346], ['k2', 1300, 112.346], ['k3', 2000, 100]]);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { easingToCss, generateCssKeyframes, generateMarkup, generateWaapiScript, layerDomKeyframes, shapeDrawKeyframes, textUnitKeyframes } from '../domExport';
+import type { AnimationConfig, LayerConfig } from '../animationEngine';
+
+const layer: LayerConfig = {
+  id: 'a',
+  label: 'Hero Title',
+  depth: 0.5,
+  color: '#ffffff',
+  visible: true,
+  keyframes: [
+    { id: 'k1', time: 500, translate: 40, opacity: 0 },
+    { id: 'k2', time: 1000, translate: 0, opacity: 1, easing: 'ease-out', rotation: 90 },
+  ],
+};
+const config: AnimationConfig = { timelineDuration: 2000, layers: [layer, { ...layer, id: 'b', visible: false }] };
+
+describe('domExport', () => {
+  it('maps easings to CSS timing functions', () => {
+    const kf = { id: 'k', time: 0, translate: 0, opacity: 1 };
+    expect(easingToCss(kf)).toBe('linear');
+    expect(easingToCss({ ...kf, bezier: [0.34, 1.56, 0.64, 1] })).toBe('cubic-bezier(0.34, 1.56, 0.64, 1)');
+    expect(easingToCss({ ...kf, easing: 'steps(4, start)' })).toBe('steps(4, jump-start)');
+    const spring = easingToCss({ ...kf, easing: 'spring(100, 10, 1)' });
+    expect(spring.startsWith('linear(0, ')).toBe(true);
+    expect(spring.endsWith(', 1)')).toBe(true);
+  });
+
+  it('builds offsets with held values outside the keyframe range', () => {
+    const frames = layerDomKeyframes(layer, 2000);
+    expect(frames.map(f => f.offset)).toEqual([0, 0.25, 0.5, 1]);
+    // the segment into k2 uses k2's easing
+    expect(frames[1].easing).toBe('cubic-bezier(0.333, 0.667, 0.667, 1)');
+    expect(frames[0].style).toEqual(frames[1].style);
+    expect(frames[3].style.transform).toBe('translate(0px, 0px) rotate(90deg) scale(1, 1)');
+  });
+
+  it('emits one @keyframes per visible layer and matching markup', () => {
+    const css = generateCssKeyframes(config, { width: 800, height: 400 });
+    expect(css.match(/@keyframes/g)).toHaveLength(1);
+    expect(css).toContain('animation: ab-hero-title-0-kf 2000ms linear both;');
+    expect(generateMarkup(config)).toContain('<div class="ab-hero-title-0">Hero Title</div>');
+  });
+
+  it('switches to a view timeline when previewing as scroll', () => {
+    const css = generateCssKeyframes(config, { width: 800, height: 400, scroll: true });
+    expect(css).toContain('view-timeline: --ab-stage block;');
+    expect(css).toContain('animation-timeline: --ab-stage;');
+    expect(generateWaapiScript(config, { scroll: true })).toContain('new ViewTimeline');
+  });
+
+  it('maps the playback speed, mode and direction onto the native animations', () => {
+    const pingpong = { ...config, playback: { rate: 2, mode: 'pingpong' as const, reverse: true, fps: 30 } };
+    expect(generateCssKeyframes(pingpong, { width: 800, height: 400 })).toContain('animation: ab-hero-title-0-kf 1000ms linear infinite alternate-reverse both;');
+    expect(generateWaapiScript(pingpong, {})).toContain("{ duration: duration / 2, fill: 'both', iterations: Infinity, direction: 'alternate-reverse' }");
+    const reverse = { ...config, playback: { rate: 1, mode: 'once' as const, reverse: true, fps: 30 } };
+    expect(generateCssKeyframes(reverse, { width: 800, height: 400 })).toContain('animation: ab-hero-title-0-kf 2000ms linear reverse both;');
+  });
+
+  it('emits breakpoint overrides through media or container queries', () => {
+    const responsive: AnimationConfig = { timelineDuration: 2000, layers: [{ ...layer, responsive: { mobile: { x: 30, w: 90, keyframes: { k1: { translate: 10 } } } } }] };
+    const css = generateCssKeyframes(responsive, { width: 800, height: 400 });
+    expect(css).toContain('  width: min(100%, 800px);\n  aspect-ratio: 800 / 400;');
+    expect(css).toContain('@media (max-width: 640px) {\n  .ab-hero-title-0 {\n    left: -15%;\n    width: 90%;\n  }\n}');
+    expect(css).toContain('@keyframes ab-hero-title-0-kf-mobile {');
+    expect(css).toContain('@media (max-width: 640px) {\n  .ab-hero-title-0 {\n    animation-name: ab-hero-title-0-kf-mobile;\n  }\n}');
+    // the tablet breakpoint changes nothing here
+    expect(css).not.toContain('1024px');
+    expect(generateCssKeyframes(responsive, { width: 800, height: 400, queries: 'container' })).toContain('container-type: inline-size;');
+    const script = generateWaapiScript(responsive, { queries: 'container' });
+    expect(script).toContain('"maxWidth": 640');
+    expect(script).toContain('new ResizeObserver(fitBreakpoints).observe(stage);');
+    expect(generateCssKeyframes(config, { width: 800, height: 400 })).not.toContain('@media');
+    expect(generateWaapiScript(config, {})).not.toContain('fitBreakpoints');
+  });
+
+  it('dispatches the timeline markers from the WAAPI script', () => {
+    const script = generateWaapiScript({ ...config, markers: [{ id: 'm2', time: 1500, label: 'out' }, { id: 'm1', time: 500, label: 'in' }] }, {});
+    expect(script).toContain("new CustomEvent('animationmarker'");
+    expect(script.indexOf('"name": "in"')).toBeLessThan(script.indexOf('"name": "out"'));
+    expect(generateWaapiScript(config, {})).not.toContain('animationmarker');
+  });
+
+  it('nests group children in a wrapper animated around the group pivot', () => {
+    const group: LayerConfig = { id: 'g', label: 'Grupo', type: 'group', depth: 0.5, color: '#fff', visible: true, x: 25, y: 50, keyframes: [] };
+    const nested: AnimationConfig = { timelineDuration: 2000, layers: [group, { ...layer, parentId: 'g' }, { ...layer, id: 'c', label: 'Top' }] };
+    expect(generateMarkup(nested)).toBe([
+      '<div class="ab-stage">',
+      '  <div class="ab-grupo-0">',
+      '    <div class="ab-hero-title-1">Hero Title</div>',
+      '  </div>',
+      '  <div class="ab-top-2">Top</div>',
+      '</div>',
+    ].join('\n'));
+    const css = generateCssKeyframes(nested, { width: 800, height: 400 });
+    expect(css).toContain('transform-origin: 25% 50%;');
+    // a static group gets layout but no animation
+    expect(css).not.toContain('ab-grupo-0-kf');
+  });
+
+  it('splits staggered text into animated spans', () => {
+    const text: LayerConfig = {
+      ...layer,
+      id: 't',
+      label: 'Title',
+      type: 'text',
+      text: { content: 'Hi <there>', fontFamily: 'serif', fontSize: 24, fontWeight: 400, align: 'left', stagger: 'word', spread: 1, offsetY: 10 },
+      keyframes: [
+        { id: 'r1', time: 0, translate: 0, opacity: 1, reveal: 0 },
+        { id: 'r2', time: 1000, translate: 0, opacity: 1, reveal: 1 },
+      ],
+    };
+    const cfg: AnimationConfig = { timelineDuration: 1000, layers: [text] };
+    expect(generateMarkup(cfg)).toContain('<div class="ab-title-0"><p><span class="ab-title-0-u0">Hi</span> <span class="ab-title-0-u1">&lt;there&gt;</span></p></div>');
+    const units = textUnitKeyframes(text, 1000);
+    expect(units).toHaveLength(2);
+    expect(units[0][0].style).toEqual({ opacity: '0', transform: 'translateY(10px)' });
+    // the second word only starts once the first one is in
+    const half = units[1].find(f => f.offset === 0.5)!;
+    expect(half.style.opacity).toBe('0');
+    const css = generateCssKeyframes(cfg, { width: 800, height: 400 });
+    expect(css).toContain('@keyframes ab-title-0-u1-kf');
+    expect(css).toContain('font: 400 24px serif;');
+    // without reveal keyframes the text is simply shown
+    expect(textUnitKeyframes({ ...text, keyframes: [layer.keyframes[0]] }, 1000)).toEqual([]);
+  });
+
+  it('renders shapes as inline SVG with a draw-on dash offset', () => {
+    const shape: LayerConfig = {
+      ...layer,
+      id: 's',
+      label: 'Check',
+      type: 'shape',
+      shape: { kind: 'path', path: 'M0 5 L4 9 L12 0', viewBox: [0, 0, 12, 9], fill: false, stroke: '#22c55e', strokeWidth: 2 },
+      keyframes: [
+        { id: 'd1', time: 0, translate: 0, opacity: 1, draw: 0 },
+        { id: 'd2', time: 500, translate: 0, opacity: 1, draw: 1, easing: 'ease-out' },
+      ],
+    };
+    const cfg: AnimationConfig = { timelineDuration: 1000, layers: [shape] };
+    expect(generateMarkup(cfg)).toContain('<svg class="ab-check-0" viewBox="0 0 12 9"><path d="M0 5 L4 9 L12 0" fill="none" stroke="#22c55e" stroke-width="2" pathLength="1" stroke-dasharray="1 1" class="ab-check-0-draw" /></svg>');
+    const draw = shapeDrawKeyframes(shape, 1000);
+    expect(draw.map(f => [f.offset, f.style.strokeDashoffset])).toEqual([[0, '1'], [0.5, '0'], [1, '0']]);
+    expect(draw[0].easing).toBe('cubic-bezier(0.333, 0.667, 0.667, 1)');
+    expect(generateCssKeyframes(cfg, { width: 800, height: 400 })).toContain('stroke-dashoffset: 1;');
+
+    const rect: LayerConfig = { ...shape, shape: { kind: 'rect', radius: 8, fill: true, gradient: { type: 'linear', angle: 0, stops: [{ offset: 0, color: '#fff' }, { offset: 1, color: '#000' }] }, stroke: null, strokeWidth: 0 }, keyframes: [layer.keyframes[0]] };
+    const markup = generateMarkup({ timelineDuration: 1000, layers: [rect] });
+    expect(markup).toContain('<linearGradient id="ab-check-0-fill" gradientUnits="objectBoundingBox" x1="0" y1="0.5" x2="1" y2="0.5">');
+    expect(markup).toContain('<rect width="100%" height="100%" rx="8" fill="url(#ab-check-0-fill)" />');
+    expect(shapeDrawKeyframes(rect, 1000)).toEqual([]);
+  });
+
+  it('draws LetterGlitch and TrueFocus layers on a canvas from the WAAPI script', () => {
+    const glitch: LayerConfig = {
+      ...layer,
+      id: 'g',
+      label: 'Glitch',
+      type: 'glitch',
+      glitch: { glitchColors: ['#61dca3'], glitchSpeed: 50, centerVignette: true, outerVignette: false, smooth: true, characters: 'AB', seed: 1 },
+      keyframes: [{ ...layer.keyframes[0], color: '#000000' }, layer.keyframes[1]],
+    };
+    const cfg: AnimationConfig = { timelineDuration: 1000, layers: [glitch] };
+    expect(generateMarkup(cfg)).toContain('<canvas class="ab-glitch-0" aria-label="Glitch"></canvas>');
+    // the element animates the transform; the color stays with the engine
+    expect(layerDomKeyframes(glitch, 1000)[1].style).not.toHaveProperty('backgroundColor');
+    const script = generateWaapiScript(cfg, {});
+    expect(script).toContain('const engine = (function createAnimationEngine');
+    expect(script).toContain('"selector": ".ab-glitch-0"');
+    expect(script).toContain('engine.drawScene(ctx');
+    expect(generateWaapiScript({ timelineDuration: 1000, layers: [layer] }, {})).not.toContain('const engine');
+  });
+});
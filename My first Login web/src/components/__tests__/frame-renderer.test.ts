@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { frameTimes, gifDelays } from '../frameRenderer';
+
+describe('frameRenderer', () => {
+  it('samples the timeline at exact frame times including the end', () => {
+    expect(frameTimes(1000, 4)).toEqual([0, 250, 500, 750, 1000]);
+    // a partial last frame is clamped to the duration
+    expect(frameTimes(1100, 4).slice(-2)).toEqual([1000, 1100]);
+  });
+
+  it('spreads GIF centisecond rounding so the total matches the fps', () => {
+    const delays = gifDelays(24, 24);
+    expect(delays.reduce((a, b) => a + b, 0)).toBe(100);
+    expect(new Set(delays)).toEqual(new Set([4, 5]));
+  });
+});
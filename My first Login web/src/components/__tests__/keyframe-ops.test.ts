@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import type { LayerConfig } from '../animationEngine';
+import { alignKeyframes, copyKeyframes, distributeKeyframes, moveKeyframes, pasteKeyframes, reverseKeyframes, selectedTimes, stretchKeyframes } from '../keyframeOps';
+
+const layers: LayerConfig[] = [
+  { id: 'a', label: 'A', depth: 0.5, color: '#fff', keyframes: [
+    { id: 'a1', time: 100, translate: 0, opacity: 0 },
+    { id: 'a2', time: 300, translate: 10, opacity: 1, easing: 'ease-in' },
+    { id: 'a3', time: 400, translate: 20, opacity: 1, bezier: [0.1, 0.2, 0.3, 0.4] },
+  ] },
+  { id: 'b', label: 'B', depth: 0.5, color: '#000', keyframes: [
+    { id: 'b1', time: 200, translate: 0, opacity: 1 },
+  ] },
+];
+const refs = (...ids: string[]) => ids.map(kfId => ({ layerId: kfId[0], kfId }));
+const times = (out: LayerConfig[]) => out.map(l => l.keyframes.map(k => [k.id, k.time]));
+
+describe('keyframeOps', () => {
+  it('moves a group keeping its spacing and stops it at the timeline ends', () => {
+    const origins = selectedTimes(layers, refs('a1', 'b1'));
+    expect(origins.map(o => o.time)).toEqual([100, 200]);
+    expect(times(moveKeyframes(layers, origins, 50, 1000))).toEqual([[['a1', 150], ['a2', 300], ['a3', 400]], [['b1', 250]]]);
+    // a1 cannot go below 0, so the whole group stops at -100
+    expect(times(moveKeyframes(layers, origins, -500, 1000))[1]).toEqual([['b1', 100]]);
+    // tracks stay sorted when a keyframe passes another one
+    expect(times(moveKeyframes(layers, selectedTimes(layers, refs('a1')), 250, 1000))[0]).toEqual([['a2', 300], ['a1', 350], ['a3', 400]]);
+  });
+
+  it('stretches from the earliest keyframe, aligns per layer and distributes evenly', () => {
+    expect(times(stretchKeyframes(layers, refs('a1', 'a2', 'b1'), 2, 1000))).toEqual([[['a1', 100], ['a3', 400], ['a2', 500]], [['b1', 300]]]);
+    expect(times(alignKeyframes(layers, refs('a2', 'a3', 'b1'), 600, 1000))).toEqual([[['a1', 100], ['a2', 600], ['a3', 700]], [['b1', 600]]]);
+    expect(times(distributeKeyframes(layers, refs('a1', 'a3', 'b1')))).toEqual([[['a1', 100], ['a2', 300], ['a3', 400]], [['b1', 250]]]);
+  });
+
+  it('reverses times and moves each curve to the keyframe that now ends its segment', () => {
+    const out = reverseKeyframes(layers, refs('a1', 'a2', 'a3'));
+    expect(out[0].keyframes.map(k => [k.id, k.time])).toEqual([['a3', 100], ['a2', 200], ['a1', 400]]);
+    const [a3, a2, a1] = out[0].keyframes;
+    // a2 -> a1 was a1 -> a2 (ease-in), now played backwards
+    expect(a1).toMatchObject({ easing: 'ease-out', bezier: undefined });
+    expect(a2.bezier).toEqual([0.7, 0.6, 0.9, 0.8]);
+    expect(a3.easing).toBeUndefined();
+  });
+
+  it('pastes copies at the playhead with fresh ids, replacing keyframes at the same time', () => {
+    const clip = copyKeyframes(layers, refs('a2', 'b1'));
+    expect(clip.map(c => [c.layerId, c.offset])).toEqual([['b', 0], ['a', 100]]);
+    const { layers: out, refs: pasted } = pasteKeyframes(layers, clip, 300, 1000);
+    expect(pasted).toHaveLength(2);
+    expect(out[0].keyframes.map(k => k.time)).toEqual([100, 300, 400]);
+    expect(out[0].keyframes[2]).toMatchObject({ time: 400, translate: 10 });
+    expect(out[0].keyframes[2].id).not.toBe('a2');
+    expect(out[1].keyframes.map(k => k.time)).toEqual([200, 300]);
+  });
+});
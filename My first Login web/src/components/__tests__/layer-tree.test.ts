@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { LayerConfig } from '../animationEngine';
+import { descendantIds, duplicateLayers, instantiateSymbol, layerRows, parentCandidates, removeLayerTree, setLayerParent, symbolLayers, ungroupLayers } from '../layerTree';
+
+const box = (id: string, parentId?: string): LayerConfig => ({ id, label: id, depth: 0.5, color: '#fff', visible: true, parentId, keyframes: [{ id: `${id}-k`, time: 0, translate: 0, opacity: 1 }] });
+const group = (id: string, parentId?: string): LayerConfig => ({ ...box(id, parentId), type: 'group' });
+
+// outer > (a, inner > b), c
+const layers = [group('outer'), box('a', 'outer'), group('inner', 'outer'), box('b', 'inner'), box('c')];
+
+describe('layerTree', () => {
+  it('lists rows with depth and hides the contents of collapsed groups', () => {
+    expect(layerRows(layers, {}).map(r => [r.layer.id, r.depth])).toEqual([['outer', 0], ['a', 1], ['inner', 1], ['b', 2], ['c', 0]]);
+    expect(layerRows(layers, { inner: true }).map(r => r.layer.id)).toEqual(['outer', 'a', 'inner', 'c']);
+    expect(layerRows(layers, { outer: true }).map(r => r.layer.id)).toEqual(['outer', 'c']);
+  });
+
+  it('refuses to move a group inside itself', () => {
+    expect([...descendantIds(layers, 'outer')]).toEqual(['a', 'inner', 'b']);
+    expect(parentCandidates(layers, 'outer')).toEqual([]);
+    expect(setLayerParent(layers, 'outer', 'inner')).toBe(layers);
+    expect(setLayerParent(layers, 'c', 'inner').find(l => l.id === 'c')!.parentId).toBe('inner');
+  });
+
+  it('removes a group with its contents and ungroups into the parent', () => {
+    expect(removeLayerTree(layers, 'inner').map(l => l.id)).toEqual(['outer', 'a', 'c']);
+    const flat = ungroupLayers(layers, 'inner');
+    expect(flat.find(l => l.id === 'b')!.parentId).toBe('outer');
+    expect(flat.some(l => l.id === 'inner')).toBe(false);
+  });
+
+  it('turns a group into a symbol and instances it with fresh ids', () => {
+    const symbolized = symbolLayers(layers, 'inner');
+    expect(symbolized.map(l => [l.id, l.parentId])).toEqual([['inner', null], ['b', 'inner']]);
+    const copy = instantiateSymbol({ id: 'sym', name: 'Badge', createdAt: 0, layers: symbolized });
+    expect(copy[0]).toMatchObject({ label: 'Badge', symbolId: 'sym', parentId: null, type: 'group' });
+    expect(copy[1].parentId).toBe(copy[0].id);
+    expect(copy.map(l => l.id)).not.toContain('inner');
+    expect(copy[1].keyframes[0].id).not.toBe('b-k');
+  });
+
+  it('duplicates groups with their contents right after the originals', () => {
+    // `b` is inside `inner`, so it is copied once, with the group
+    const { layers: out, ids } = duplicateLayers(layers, ['inner', 'b', 'c']);
+    expect(ids).toHaveLength(2);
+    expect(out.map(l => l.label)).toEqual(['outer', 'a', 'inner', 'b', 'inner copia', 'b', 'c', 'c copia']);
+    const [groupCopy, childCopy] = out.slice(4, 6);
+    expect(groupCopy).toMatchObject({ id: ids[0], parentId: 'outer', type: 'group' });
+    expect(childCopy.parentId).toBe(groupCopy.id);
+    expect(childCopy.keyframes[0].id).not.toBe('b-k');
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateLayer, type AnimationConfig } from '../animationEngine';
+import { exportLottie, importLottie, isLottie } from '../lottie';
+
+const config: AnimationConfig = {
+  timelineDuration: 1000,
+  layers: [
+    {
+      id: 'a', label: 'Fondo', depth: 0.2, color: '#336699', visible: true, x: 50, y: 50, w: 50, h: 20,
+      keyframes: [
+        { id: 'k1', time: 0, translate: 0, opacity: 0, translateX: -40 },
+        { id: 'k2', time: 500, translate: 20, opacity: 1, translateX: 0, bezier: [0.2, 0.8, 0.4, 1] },
+        { id: 'k3', time: 1000, translate: 0, opacity: 0.5, translateX: 40, easing: 'ease-in' },
+      ],
+    },
+    {
+      id: 'b', label: 'Logo', depth: 0.8, color: '#ffffff', image: 'data:image/png;base64,AAAA', visible: true, x: 25, y: 75, w: 10, h: 10,
+      keyframes: [
+        { id: 'k4', time: 0, translate: 0, opacity: 1, rotation: 0 },
+        { id: 'k5', time: 1000, translate: 0, opacity: 1, rotation: 90, easing: 'bounce' },
+      ],
+    },
+  ],
+};
+
+describe('lottie', () => {
+  it('exports solid and image layers, topmost first, with bezier tangents', () => {
+    const { animation } = exportLottie(config, { width: 400, height: 200, fps: 30 });
+    expect(animation).toMatchObject({ fr: 30, ip: 0, op: 30, w: 400, h: 200 });
+    expect(animation.layers.map(l => [l.nm, l.ty])).toEqual([['Logo', 2], ['Fondo', 1]]);
+    expect(animation.assets[0]).toMatchObject({ id: 'image_0', p: 'data:image/png;base64,AAAA', e: 1 });
+
+    const fondo = animation.layers[1];
+    expect(fondo).toMatchObject({ sc: '#336699', sw: 200, sh: 40 });
+    const p = fondo.ks.p;
+    if (p.a !== 1) throw new Error('position should be animated');
+    expect(p.k.map(k => k.t)).toEqual([0, 15, 30]);
+    expect(p.k[0].s).toEqual([160, 100, 0]);
+    // the curve of the segment ending at k2 lives on the key starting it
+    expect(p.k[0].o).toEqual({ x: [0.2], y: [0.8] });
+    expect(p.k[0].i).toEqual({ x: [0.4], y: [1] });
+    expect(fondo.ks.o.a === 1 && fondo.ks.o.k[1].s).toEqual([100]);
+  });
+
+  it('bakes easings that are not cubic beziers into per-frame keys', () => {
+    const { animation } = exportLottie(config, { width: 400, height: 200, fps: 10 });
+    const r = animation.layers[0].ks.r;
+    if (r.a !== 1) throw new Error('rotation should be animated');
+    expect(r.k).toHaveLength(11);
+    expect(r.k[5].s[0]).toBeCloseTo(evaluateLayer(config.layers[1], 500)!.rotation, 2);
+  });
+
+  it('round-trips through import', () => {
+    const { animation } = exportLottie(config, { width: 400, height: 200, fps: 30 });
+    const result = importLottie(JSON.parse(JSON.stringify(animation)));
+    if (!result.ok) throw new Error(result.errors[0].message);
+    expect(result.unsupported).toEqual([]);
+    expect(result.project.timelineDuration).toBe(1000);
+    const [fondo, logo] = result.project.layers;
+    expect(fondo).toMatchObject({ label: 'Fondo', color: '#336699', w: 50, h: 20 });
+    expect(fondo.keyframes.map(k => k.time)).toEqual([0, 500, 1000]);
+    // Lottie only has absolute positions: the box sits where the first frame puts it
+    expect(fondo.x).toBe(40);
+    expect(fondo.keyframes[1]).toMatchObject({ translate: 20, translateX: 40, opacity: 1, bezier: [0.2, 0.8, 0.4, 1] });
+    expect(logo.image).toBe('data:image/png;base64,AAAA');
+    for (const t of [0, 250, 600, 1000]) {
+      const before = evaluateLayer(config.layers[1], t)!, after = evaluateLayer(logo, t)!;
+      expect(after.rotation).toBeCloseTo(before.rotation, 0);
+      const x = (layer: typeof fondo) => layer.x! * 4 + evaluateLayer(layer, t)!.translateX;
+      expect(x(fondo)).toBeCloseTo(x(config.layers[0]), 1);
+    }
+  });
+
+  it('carries markers and regions as Lottie markers', () => {
+    const marked: AnimationConfig = {
+      ...config,
+      markers: [{ id: 'm', time: 500, label: 'beat' }],
+      regions: [{ id: 'r', start: 0, end: 400, label: 'intro' }],
+      loop: { start: 0, end: 500 },
+    };
+    const { animation, warnings } = exportLottie(marked, { width: 400, height: 200, fps: 30 });
+    expect(animation.markers).toEqual([{ tm: 0, cm: 'intro', dr: 12 }, { tm: 15, cm: 'beat', dr: 0 }]);
+    expect(warnings).toContain('el rango de loop no se exporta');
+    const result = importLottie(JSON.parse(JSON.stringify(animation)));
+    if (!result.ok) throw new Error(result.errors[0].message);
+    expect(result.project.markers!.map(m => [m.label, m.time])).toEqual([['beat', 500]]);
+    expect(result.project.regions!.map(r => [r.label, r.start, r.end])).toEqual([['intro', 0, 400]]);
+  });
+
+  it('exports groups as parented null layers and imports them back', () => {
+    const grouped: AnimationConfig = {
+      timelineDuration: 1000,
+      layers: [
+        { id: 'g', label: 'Grupo', type: 'group', depth: 0.5, color: '#fff', visible: true, x: 50, y: 50, keyframes: [
+          { id: 'g1', time: 0, translate: 0, opacity: 1, rotation: 0 },
+          { id: 'g2', time: 1000, translate: 0, opacity: 1, rotation: 90 },
+        ] },
+        { ...config.layers[0], parentId: 'g' },
+      ],
+    };
+    const { animation } = exportLottie(grouped, { width: 400, height: 200, fps: 30 });
+    const [child, nul] = animation.layers;
+    expect(nul).toMatchObject({ ty: 3, nm: 'Grupo', ind: 2 });
+    expect(nul.ks.a).toEqual({ a: 0, k: [200, 100, 0] });
+    expect(child.parent).toBe(2);
+
+    const result = importLottie(JSON.parse(JSON.stringify(animation)));
+    if (!result.ok) throw new Error(result.errors[0].message);
+    const [group, fondo] = result.project.layers;
+    expect(group).toMatchObject({ type: 'group', x: 50, y: 50 });
+    expect(fondo.parentId).toBe(group.id);
+    expect(fondo.x).toBe(40);
+    expect(evaluateLayer(group, 500)!.rotation).toBeCloseTo(45, 3);
+  });
+
+  it('reports what it cannot import', () => {
+    const result = importLottie({
+      v: '5.7.4', fr: 24, ip: 0, op: 48, w: 100, h: 100,
+      layers: [
+        { ty: 4, nm: 'Forma', ks: {} },
+        { ty: 1, nm: 'Caja', sc: '#ff0000', sw: 50, sh: 50, parent: 1, ef: [{}], ks: { o: { a: 0, k: 100, x: 'wiggle(1,2)' }, p: { a: 0, k: [50, 50] } } },
+      ],
+    });
+    if (!result.ok) throw new Error('expected a project');
+    expect(result.project.layers).toHaveLength(1);
+    expect(result.unsupported).toEqual([
+      'Caja: parenting a una capa que no es null (se ignora el padre)',
+      'Caja: efectos',
+      'Caja.opacity: expresiones (se usa el valor base)',
+      'Forma: capa de tipo shape omitida',
+    ]);
+    expect(isLottie({ version: 1, layers: [] })).toBe(false);
+    expect(importLottie({}).ok).toBe(false);
+  });
+
+  it('skips animated properties without keyframe objects', () => {
+    const result = importLottie({
+      v: '5.7.4', fr: 24, ip: 0, op: 48, w: 100, h: 100,
+      layers: [{ ty: 1, nm: 'Caja', sc: '#ff0000', sw: 50, sh: 50, ks: { o: { a: 1, k: [100] }, p: { a: 0, k: [50, 50] } } }],
+    });
+    if (!result.ok) throw new Error('expected a project');
+    expect(result.project.layers[0].keyframes[0].opacity).toBe(1);
+    expect(result.unsupported).toEqual(['Caja.opacity: animada sin keyframes (se ignora)']);
+  });
+});
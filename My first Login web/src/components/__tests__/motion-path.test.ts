@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import type { LayerConfig } from '../animationEngine';
+import { groupsAt, layerDelta, layerPoint, motionPaths, pathData } from '../motionPath';
+
+const size = { width: 200, height: 100 };
+
+describe('motionPath', () => {
+  it('follows the layer center through its keyframes', () => {
+    const layer: LayerConfig = { id: 'a', label: 'A', depth: 0.5, color: '#fff', visible: true, keyframes: [
+      { id: 'k1', time: 0, translate: 0, translateX: 0, opacity: 1 },
+      { id: 'k2', time: 1000, translate: 100, translateX: 40, opacity: 1 },
+    ] };
+    const [path] = motionPaths({ timelineDuration: 1000, layers: [layer, { ...layer, id: 'hidden', visible: false }] }, size, 4);
+    expect(path.points).toEqual([{ x: 100, y: 50 }, { x: 110, y: 75 }, { x: 120, y: 100 }, { x: 130, y: 125 }, { x: 140, y: 150 }]);
+    expect(path.keys.map(k => [k.keyframe.id, k.point])).toEqual([['k1', { x: 100, y: 50 }], ['k2', { x: 140, y: 150 }]]);
+    expect(pathData(path.points.slice(0, 2))).toBe('M100 50 L110 75');
+  });
+
+  it('applies the groups and undoes them for a drag', () => {
+    const group: LayerConfig = { id: 'g', label: 'G', depth: 0.5, color: '#fff', visible: true, type: 'group', keyframes: [{ id: 'gk', time: 0, translate: 0, opacity: 1, rotation: 90, scale: 2 }] };
+    const child: LayerConfig = { id: 'c', label: 'C', depth: 0.5, color: '#fff', visible: true, parentId: 'g', keyframes: [{ id: 'ck', time: 0, translate: 0, translateX: 10, opacity: 1 }] };
+    const groups = groupsAt([group], 0);
+    const point = layerPoint(child, { translate: 0, translateX: 10, rotation: 0, scale: 1, scaleX: 1, scaleY: 1 }, groups, size);
+    expect(point.x).toBeCloseTo(100);
+    expect(point.y).toBeCloseTo(70);
+    expect(motionPaths({ timelineDuration: 1000, layers: [group, child] }, size, 1)[0].keys[0].point.y).toBeCloseTo(70);
+    // 20px down on screen is 10px along the child's x inside the rotated, doubled group
+    const d = layerDelta(groups, { x: 0, y: 20 });
+    expect(d.x).toBeCloseTo(10);
+    expect(d.y).toBeCloseTo(0);
+  });
+});
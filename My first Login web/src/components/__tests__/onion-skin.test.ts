@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { onionSkinFrames } from '../onionSkin';
+
+describe('onionSkin', () => {
+  it('spaces the ghosts in frames, nearest first and fading with distance', () => {
+    const ghosts = onionSkinFrames(1000, 30, 2000, { before: 2, after: 3, step: 3, opacity: 0.6 });
+    expect(ghosts.map(g => [g.time, g.side])).toEqual([[900, 'before'], [1100, 'after'], [800, 'before'], [1200, 'after'], [1300, 'after']]);
+    expect(ghosts.map(g => Math.round(g.opacity * 100) / 100)).toEqual([0.6, 0.6, 0.3, 0.4, 0.2]);
+  });
+
+  it('skips ghosts off the timeline', () => {
+    expect(onionSkinFrames(50, 10, 120, { before: 3, after: 3, step: 1, opacity: 0.5 }).map(g => g.time)).toEqual([]);
+    expect(onionSkinFrames(0, 25, 100, { before: 2, after: 2, step: 1, opacity: 0.5 }).map(g => g.time)).toEqual([40, 80]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_BREAKPOINTS } from '../animationEngine';
+import { importProject, parseProject, serializeProject, PROJECT_VERSION } from '../projectSchema';
+
+const layers = [
+  {
+    id: 'a', label: 'A', depth: 0.5, color: '#fff',
+    keyframes: [
+      { id: 'k2', time: 2400, translate: 0, opacity: 1 },
+      { id: 'k1', time: 0, translate: 40, opacity: 0 },
+    ],
+  },
+];
+
+describe('projectSchema', () => {
+  it('round-trips a serialized project', () => {
+    const result = parseProject(serializeProject({ timelineDuration: 3000, layers: [] }));
+    expect(result).toEqual({ ok: true, migratedFrom: null, project: { version: PROJECT_VERSION, timelineDuration: 3000, layers: [] } });
+  });
+
+  it('migrates unversioned exports and bare preset layer lists', () => {
+    const legacy = importProject({ timelineDuration: 5000, layers });
+    expect(legacy.ok && legacy.migratedFrom).toBe(0);
+    expect(legacy.ok && legacy.project.timelineDuration).toBe(5000);
+
+    // presets dropped the duration: fit it to the last keyframe
+    const preset = importProject(layers);
+    expect(preset.ok && preset.project.timelineDuration).toBe(2400);
+    expect(preset.ok && preset.project.layers[0].keyframes.map(k => k.id)).toEqual(['k1', 'k2']);
+  });
+
+  it('reports per-field errors with their path', () => {
+    const bad = { version: 1, timelineDuration: -1, layers: [{ ...layers[0], depth: 'x', keyframes: [{ id: 'k', time: 0, translate: 0, opacity: 2, bezier: [0, 1] }] }] };
+    const result = importProject(bad);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors.map(e => e.path)).toEqual([
+      'timelineDuration',
+      'layers[0].depth',
+      'layers[0].keyframes[0].opacity',
+      'layers[0].keyframes[0].bezier',
+    ]);
+  });
+
+  it('rejects invalid JSON, duplicate ids and newer versions', () => {
+    expect(parseProject('{').ok).toBe(false);
+    const dup = importProject({ version: 1, timelineDuration: 1000, layers: [layers[0], layers[0]] });
+    expect(!dup.ok && dup.errors[0].path).toBe('layers[1].id');
+    const future = importProject({ version: PROJECT_VERSION + 1, timelineDuration: 1000, layers: [] });
+    expect(!future.ok && future.errors[0].path).toBe('version');
+  });
+
+  it('checks that parents are groups without cycles', () => {
+    const group = { ...layers[0], id: 'g', type: 'group' };
+    expect(importProject({ version: 1, timelineDuration: 1000, layers: [group, { ...layers[0], parentId: 'g' }] }).ok).toBe(true);
+    const notGroup = importProject({ version: 1, timelineDuration: 1000, layers: [layers[0], { ...layers[0], id: 'b', parentId: 'a' }] });
+    expect(!notGroup.ok && notGroup.errors[0].path).toBe('layers[1].parentId');
+    const cycle = importProject({ version: 1, timelineDuration: 1000, layers: [{ ...group, parentId: 'h' }, { ...group, id: 'h', parentId: 'g' }] });
+    expect(!cycle.ok && cycle.errors[0].message).toBe('los grupos forman un ciclo');
+    expect(importProject({ version: 1, timelineDuration: 1000, layers: [{ ...layers[0], type: 'folder' }] }).ok).toBe(false);
+  });
+
+  it('validates shape layers', () => {
+    const shape = { ...layers[0], type: 'shape', shape: { kind: 'polygon', sides: 5, fill: true, gradient: null, stroke: '#000', strokeWidth: 1 } };
+    expect(importProject({ version: 1, timelineDuration: 1000, layers: [shape] }).ok).toBe(true);
+    const bad = importProject({ version: 1, timelineDuration: 1000, layers: [{ ...shape, shape: { ...shape.shape, kind: 'path', gradient: { type: 'conic' } } }] });
+    expect(!bad.ok && bad.errors.map(e => e.path)).toEqual(['layers[0].shape.path', 'layers[0].shape.gradient']);
+    expect(importProject({ version: 1, timelineDuration: 1000, layers: [{ ...layers[0], type: 'shape' }] }).ok).toBe(false);
+  });
+
+  it('keeps markers, regions and the loop range, sorted, and checks them', () => {
+    const doc = {
+      timelineDuration: 3000,
+      layers: [],
+      markers: [{ id: 'm2', time: 2000, label: 'drop' }, { id: 'm1', time: 500, label: 'beat' }],
+      regions: [{ id: 'r', start: 0, end: 1000, label: 'intro', color: '#f00' }],
+      loop: { start: 1000, end: 3000 },
+    };
+    const result = parseProject(serializeProject(doc));
+    expect(result.ok && result.project.markers!.map(m => m.id)).toEqual(['m1', 'm2']);
+    expect(result.ok && result.project.regions).toEqual(doc.regions);
+    expect(result.ok && result.project.loop).toEqual(doc.loop);
+    // empty lists and no loop are left out of the file
+    expect(JSON.parse(serializeProject({ timelineDuration: 1000, layers: [], markers: [], loop: null }))).toEqual({ version: PROJECT_VERSION, timelineDuration: 1000, layers: [] });
+    const bad = importProject({ version: 1, timelineDuration: 1000, layers: [], markers: [{ id: 'm', time: -1, label: 'x' }], regions: [{ id: 'r', start: 500, end: 500, label: 'x' }], loop: { start: 2, end: 1 } });
+    expect(!bad.ok && bad.errors.map(e => e.path)).toEqual(['markers[0].time', 'regions[0].end', 'loop']);
+  });
+
+  it('saves the playback settings unless they are the ones a reader assumes', () => {
+    const playback = { rate: 2, mode: 'pingpong' as const, reverse: true, fps: 24 };
+    const result = parseProject(serializeProject({ timelineDuration: 1000, layers: [], playback }));
+    expect(result.ok && result.project.playback).toEqual(playback);
+    const loop = { start: 0, end: 500 };
+    const plain = { rate: 1, reverse: false, fps: 30 };
+    // playing once, or looping the loop range, goes without saying
+    expect(JSON.parse(serializeProject({ timelineDuration: 1000, layers: [], playback: { ...plain, mode: 'once' } })).playback).toBeUndefined();
+    expect(JSON.parse(serializeProject({ timelineDuration: 1000, layers: [], loop, playback: { ...plain, mode: 'loop' } })).playback).toBeUndefined();
+    expect(JSON.parse(serializeProject({ timelineDuration: 1000, layers: [], loop, playback: { ...plain, mode: 'once' } })).playback).toMatchObject({ mode: 'once' });
+    const bad = importProject({ version: 1, timelineDuration: 1000, layers: [], playback: { rate: 0, mode: 'bounce', reverse: 'no', fps: 30 } });
+    expect(!bad.ok && bad.errors.map(e => e.path)).toEqual(['playback.rate', 'playback.mode', 'playback.reverse']);
+  });
+
+  it('keeps the breakpoints and layer overrides and checks them', () => {
+    const layer = { ...layers[0], responsive: { phone: { x: 20, keyframes: { k: { translate: 5 } } } } };
+    const breakpoints = [{ id: 'phone', label: 'Móvil', maxWidth: 480 }, { id: 'wide', label: 'Ancho', maxWidth: 1440 }];
+    const result = parseProject(serializeProject({ timelineDuration: 1000, layers: [layer], breakpoints }));
+    expect(result.ok && result.project.breakpoints?.map(b => b.id)).toEqual(['wide', 'phone']);
+    expect(result.ok && result.project.layers[0].responsive).toEqual(layer.responsive);
+    // the default tablet and mobile breakpoints go without saying
+    expect(JSON.parse(serializeProject({ timelineDuration: 1000, layers: [], breakpoints: DEFAULT_BREAKPOINTS })).breakpoints).toBeUndefined();
+    const bad = importProject({ version: 1, timelineDuration: 1000, layers: [{ ...layer, responsive: { phone: { w: '50%', keyframes: { k: { opacity: 2, color: '#fff' } } } } }], breakpoints: [{ id: 'phone', label: 'Móvil', maxWidth: 0 }] });
+    expect(!bad.ok && bad.errors.map(e => e.path)).toEqual(['layers[0].responsive.phone.w', 'layers[0].responsive.phone.keyframes.k.opacity', 'layers[0].responsive.phone.keyframes.k.color', 'breakpoints[0].maxWidth']);
+  });
+
+  it('accepts the pasted snippet export', () => {
+    expect(parseProject(`const animation = ${JSON.stringify({ timelineDuration: 1000, layers })};`).ok).toBe(true);
+  });
+});
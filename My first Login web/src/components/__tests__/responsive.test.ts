@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { resolveResponsive, type AnimationConfig, type LayerConfig } from '../animationEngine';
+import { duplicateLayers } from '../layerTree';
+import { addBreakpoint, breakpointAt, clearOverrides, overrideCount, removeBreakpoint, setKeyframeOverride, setLayoutOverride } from '../responsive';
+
+const layer: LayerConfig = { id: 'a', label: 'A', depth: 0.5, color: '#fff', visible: true, x: 50, w: 60, keyframes: [
+  { id: 'k1', time: 0, translate: 100, opacity: 0 },
+  { id: 'k2', time: 1000, translate: 0, opacity: 1 },
+], responsive: {
+  tablet: { w: 80, keyframes: { k1: { translate: 60 } } },
+  mobile: { w: 100, keyframes: { k1: { translate: 30, translateX: -10 } } },
+} };
+const config: AnimationConfig = { timelineDuration: 1000, layers: [layer] };
+
+describe('responsive', () => {
+  it('applies the breakpoints that reach a width, the narrowest last', () => {
+    expect(resolveResponsive(config, 1280)).toBe(config);
+    const tablet = resolveResponsive(config, 800).layers[0];
+    expect([tablet.w, tablet.keyframes[0].translate]).toEqual([80, 60]);
+    const mobile = resolveResponsive(config, 375).layers[0];
+    expect([mobile.x, mobile.w, mobile.keyframes[0]]).toEqual([50, 100, { id: 'k1', time: 0, translate: 30, translateX: -10, opacity: 0 }]);
+    expect(mobile.keyframes[1]).toBe(layer.keyframes[1]);
+    // custom widths take part in the same order
+    const custom = resolveResponsive({ ...config, breakpoints: [{ id: 'mobile', label: 'Móvil', maxWidth: 640 }, { id: 'tablet', label: 'Tablet', maxWidth: 1200 }] }, 1100).layers[0];
+    expect(custom.w).toBe(80);
+    expect(breakpointAt(addBreakpoint([], 640, 'Móvil').breakpoints, 375)?.label).toBe('Móvil');
+    expect(breakpointAt([], 375)).toBeNull();
+  });
+
+  it('edits overrides and drops the empty ones', () => {
+    let layers = setLayoutOverride([layer], 'a', 'tablet', { w: undefined, x: 20 });
+    expect(layers[0].responsive?.tablet).toEqual({ x: 20, keyframes: { k1: { translate: 60 } } });
+    layers = setKeyframeOverride(layers, 'a', 'tablet', 'k1', { translate: undefined });
+    expect(layers[0].responsive?.tablet).toEqual({ x: 20 });
+    expect(overrideCount(layers[0], 'mobile')).toBe(3);
+    layers = clearOverrides(layers, 'a', 'tablet');
+    expect(Object.keys(layers[0].responsive ?? {})).toEqual(['mobile']);
+    const removed = removeBreakpoint(layers, [{ id: 'mobile', label: 'Móvil', maxWidth: 640 }], 'mobile');
+    expect(removed.breakpoints).toEqual([]);
+    expect(removed.layers[0].responsive).toBeUndefined();
+  });
+
+  it('keeps the overrides on copies with fresh keyframe ids', () => {
+    const { layers } = duplicateLayers([layer], ['a']);
+    const copy = layers[1];
+    expect(copy.responsive?.mobile.keyframes).toEqual({ [copy.keyframes[0].id]: { translate: 30, translateX: -10 } });
+    expect(resolveResponsive({ ...config, layers }, 375).layers[1].keyframes[0].translate).toBe(30);
+  });
+});
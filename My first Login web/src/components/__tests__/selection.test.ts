@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import type { LayerConfig } from '../animationEngine';
+import { EMPTY_SELECTION, patchKeyframes, pruneSelection, selectKeyframe, selectLayer, selectedKeyframes, sharedValue } from '../selection';
+
+const layers: LayerConfig[] = [
+  { id: 'a', label: 'A', depth: 0.5, color: '#fff', keyframes: [
+    { id: 'a1', time: 0, translate: 0, opacity: 0 },
+    { id: 'a2', time: 1000, translate: 10, opacity: 1 },
+  ] },
+  { id: 'b', label: 'B', depth: 0.5, color: '#000', keyframes: [
+    { id: 'b1', time: 500, translate: 10, opacity: 1 },
+  ] },
+];
+
+describe('selection', () => {
+  it('replaces on click and toggles with a modifier', () => {
+    const one = selectKeyframe(EMPTY_SELECTION, { layerId: 'a', kfId: 'a1' });
+    expect(one).toEqual({ layerIds: ['a'], keyframes: [{ layerId: 'a', kfId: 'a1' }] });
+    const two = selectKeyframe(one, { layerId: 'b', kfId: 'b1' }, true);
+    expect(two.layerIds).toEqual(['a', 'b']);
+    expect(selectedKeyframes(layers, two).map(({ keyframe }) => keyframe.id)).toEqual(['a1', 'b1']);
+    expect(selectKeyframe(two, { layerId: 'a', kfId: 'a1' }, true).keyframes).toEqual([{ layerId: 'b', kfId: 'b1' }]);
+    // unselecting a layer drops its keyframes too
+    expect(selectLayer(two, 'b', true)).toEqual({ layerIds: ['a'], keyframes: [{ layerId: 'a', kfId: 'a1' }] });
+    expect(selectLayer(two, 'b')).toEqual({ layerIds: ['b'], keyframes: [] });
+  });
+
+  it('prunes deleted layers and keyframes, keeping the object when nothing changed', () => {
+    const sel = { layerIds: ['a', 'b'], keyframes: [{ layerId: 'a', kfId: 'a2' }, { layerId: 'b', kfId: 'b1' }] };
+    expect(pruneSelection(sel, layers)).toBe(sel);
+    expect(pruneSelection(sel, [{ ...layers[0], keyframes: layers[0].keyframes.slice(0, 1) }])).toEqual({ layerIds: ['a'], keyframes: [] });
+  });
+
+  it('reports mixed values and patches keyframes keeping them sorted', () => {
+    expect(sharedValue([1, 1])).toEqual({ value: 1, mixed: false });
+    expect(sharedValue([1, 2])).toEqual({ value: undefined, mixed: true });
+    const patched = patchKeyframes(layers, [{ layerId: 'a', kfId: 'a1' }, { layerId: 'b', kfId: 'b1' }], { time: 1500, scale: 2 });
+    expect(patched[0].keyframes.map(k => [k.id, k.time, k.scale])).toEqual([['a2', 1000, undefined], ['a1', 1500, 2]]);
+    expect(patched[1].keyframes[0]).toMatchObject({ time: 1500, scale: 2 });
+  });
+});
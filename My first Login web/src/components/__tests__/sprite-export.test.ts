@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { buildAtlas, frameName, isFrameEmpty, planSpriteSheet, trimRange } from '../spriteExport';
+
+describe('spriteExport', () => {
+  it('lays frames out in a roughly square grid', () => {
+    const plan = planSpriteSheet(10, 64, 32);
+    expect(plan).toMatchObject({ columns: 4, rows: 3, width: 256, height: 96 });
+    expect(plan.rects[5]).toEqual({ x: 64, y: 32, w: 64, h: 32 });
+    expect(planSpriteSheet(3, 10, 10, 8).columns).toBe(3);
+  });
+
+  it('trims empty frames only at both ends', () => {
+    expect(trimRange([true, true, false, true, false, true])).toEqual({ start: 2, end: 5 });
+    // an all-empty timeline keeps a single frame
+    expect(trimRange([true, true, true])).toEqual({ start: 0, end: 1 });
+    expect(isFrameEmpty(new Uint8ClampedArray([255, 0, 0, 0]))).toBe(true);
+    expect(isFrameEmpty(new Uint8ClampedArray([0, 0, 0, 1]))).toBe(false);
+  });
+
+  it('builds an atlas with frame rects and durations', () => {
+    const plan = planSpriteSheet(2, 8, 8);
+    const atlas = buildAtlas(
+      [{ index: 3, time: 125, duration: 41.67 }, { index: 4, time: 166.67, duration: 41.67 }],
+      plan.rects,
+      plan,
+      { fps: 24, image: 'spritesheet.png', frameWidth: 8, frameHeight: 8, duration: 1000 },
+    );
+    expect(atlas.frames[0]).toEqual({ name: 'frame_0003.png', frame: { x: 0, y: 0, w: 8, h: 8 }, time: 125, duration: 41.67 });
+    expect(atlas.meta.size).toEqual({ w: 16, h: 8 });
+    expect(frameName(12)).toBe('frame_0012.png');
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import type { LayerConfig } from '../animationEngine';
+import type { ProjectMeta } from '@/lib/projectStore';
+import { searchStudio, visibleLayerIds } from '../studioSearch';
+
+const layers: LayerConfig[] = [
+  { id: 'g', label: 'Cabecera', type: 'group', depth: 0.5, color: '#fff', keyframes: [] },
+  { id: 't', label: 'Título', type: 'text', parentId: 'g', depth: 0.5, color: '#fff', text: { content: 'Hola mundo', fontFamily: 'sans-serif', fontSize: 32, fontWeight: 700, align: 'center', stagger: 'char', spread: 1, offsetY: 0 }, keyframes: [
+    { id: 't1', time: 0, translate: 0, opacity: 0 },
+    { id: 't2', time: 750, translate: 0, opacity: 1, rotation: 10, easing: 'ease-out' },
+  ] },
+  { id: 'b', label: 'Fondo', depth: 0.2, color: '#000', keyframes: [{ id: 'b1', time: 1750, translate: 0, opacity: 1 }] },
+];
+
+const projects: ProjectMeta[] = [
+  { id: 'p1', name: 'Landing título', createdAt: 0, updatedAt: 0 },
+  { id: 'p2', name: 'Otro', createdAt: 0, updatedAt: 0 },
+];
+
+describe('studioSearch', () => {
+  it('finds layers by name or text, ignoring case and accents', () => {
+    const results = searchStudio('TITULO', layers, projects);
+    expect(results.layers.map(l => l.id)).toEqual(['t']);
+    expect(results.projects.map(p => p.id)).toEqual(['p1']);
+    expect(searchStudio('mundo', layers, projects).layers.map(l => l.id)).toEqual(['t']);
+    expect(searchStudio('  ', layers, projects)).toEqual({ layers: [], keyframes: [], projects: [] });
+  });
+
+  it('finds keyframes by time, easing or animated property and keeps their groups listed', () => {
+    const byTime = searchStudio('750', layers, projects);
+    expect(byTime.keyframes.map(({ keyframe }) => keyframe.id)).toEqual(['t2', 'b1']);
+    expect(searchStudio('ease-out', layers, projects).keyframes.map(({ keyframe }) => keyframe.id)).toEqual(['t2']);
+    expect(searchStudio('rotation', layers, projects).keyframes.map(({ keyframe }) => keyframe.id)).toEqual(['t2']);
+    expect([...visibleLayerIds(layers, searchStudio('ease-out', layers, projects))].sort()).toEqual(['g', 't']);
+  });
+});
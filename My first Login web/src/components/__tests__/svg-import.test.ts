@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { svgToLayers, type SvgNode } from '../svgImport';
+import { flattenSvgPath } from '../animationUtils';
+
+const el = (tag: string, attrs: Record<string, string> = {}, children: SvgNode[] = []): SvgNode => ({ tag, attrs, children });
+
+describe('svgImport', () => {
+  it('turns drawable elements into shape layers inside a group', () => {
+    const svg = el('svg', { viewBox: '0 0 100 50' }, [
+      el('defs', {}, [el('linearGradient', { id: 'g', x1: '0', y1: '0', x2: '0', y2: '1' }, [
+        el('stop', { offset: '0%', 'stop-color': '#fff' }),
+        el('stop', { offset: '100%', style: 'stop-color: #000' }),
+      ])]),
+      el('rect', { id: 'bg', width: '100', height: '50', rx: '5', fill: 'url(#g)' }),
+      el('g', { stroke: '#f00', 'stroke-width': '2', fill: 'none', transform: 'translate(10, 0)' }, [
+        el('path', { d: 'M0 0 L40 20' }),
+        el('circle', { cx: '50', cy: '25', r: '10', style: 'fill: #00f' }),
+      ]),
+    ]);
+    // a 400x200 stage fitted at 60%: 2.4px per SVG unit
+    const { layers, unsupported } = svgToLayers(svg, { width: 400, height: 200, name: 'logo' });
+    expect(unsupported).toEqual([]);
+    const [group, bg, path, circle] = layers;
+    expect(group).toMatchObject({ type: 'group', label: 'logo', x: 50, y: 50 });
+    expect(layers.slice(1).every(l => l.parentId === group.id && l.type === 'shape')).toBe(true);
+    expect(bg).toMatchObject({ label: 'bg', x: 50, y: 50, w: 60, h: 60 });
+    expect(bg.shape).toMatchObject({ kind: 'rect', radius: 12, fill: true, gradient: { type: 'linear', angle: 90, stops: [{ offset: 0, color: '#fff' }, { offset: 1, color: '#000' }] } });
+    expect(path.shape).toMatchObject({ kind: 'path', path: 'M0 0 L40 20', viewBox: [0, 0, 40, 20], fill: false, stroke: '#f00', strokeWidth: 2 });
+    // the translate moves the box, not the path data
+    expect(path).toMatchObject({ x: 38, y: 32, w: 24, h: 24 });
+    expect(circle).toMatchObject({ label: 'circle 1', color: '#00f', x: 56, w: 12 });
+    expect(circle.shape).toMatchObject({ kind: 'ellipse', fill: true, stroke: '#f00', strokeWidth: 4.8 });
+    expect(circle.keyframes).toHaveLength(1);
+  });
+
+  it('fits into a given box and reports what it skips', () => {
+    const svg = el('svg', { width: '10', height: '10' }, [
+      el('text', {}, []),
+      el('polygon', { points: '0,0 10,0 5,10', transform: 'rotate(45)' }),
+    ]);
+    const { layers, unsupported } = svgToLayers(svg, { width: 100, height: 100, box: { x: 20, y: 30, w: 10, h: 10 } });
+    expect(unsupported).toEqual(['<text>: elemento no soportado', '<polygon>: transform "rotate(45)" (se ignora)']);
+    expect(layers[0]).toMatchObject({ x: 20, y: 30 });
+    expect(layers[1]).toMatchObject({ x: 20, y: 30, w: 10, h: 10 });
+    expect(layers[1].shape?.path).toBe('M0 0L10 0 5 10Z');
+  });
+
+  it('reads arc flags written without separators', () => {
+    // svgo's output for two half circles of radius 5: flags run into the end point
+    const { layers, unsupported } = svgToLayers(el('svg', { viewBox: '0 0 10 10' }, [el('path', { d: 'M0 5a5 5 0 0110 0 5 5 0 01-10 0z' })]), { width: 100, height: 100 });
+    expect(unsupported).toEqual([]);
+    expect(layers[1].shape?.viewBox).toEqual([0, 0, 10, 10]);
+    expect(flattenSvgPath('M0 5a5 5 0 0110 0').flat().every(Number.isFinite)).toBe(true);
+  });
+});
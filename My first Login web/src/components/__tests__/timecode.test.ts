@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { formatTimecode, frameAt, nextRate, parseTimecode } from '../timecode';
+
+describe('timecode', () => {
+  it('formats minutes, seconds and milliseconds and counts frames', () => {
+    expect(formatTimecode(62500)).toBe('01:02.500');
+    expect(formatTimecode(-3)).toBe('00:00.000');
+    expect(frameAt(1000, 30)).toBe(30);
+    // a time on the frame grid is that frame despite rounding
+    expect(frameAt(1000 / 30 * 7, 30)).toBe(7);
+    expect(frameAt(40, 24)).toBe(0);
+  });
+
+  it('parses the ways a time can be typed', () => {
+    expect(parseTimecode('1:02.5', 30)).toBe(62500);
+    expect(parseTimecode(' 2,5s ', 30)).toBe(2500);
+    expect(parseTimecode('1250ms', 30)).toBe(1250);
+    expect(parseTimecode('1250', 30)).toBe(1250);
+    expect(parseTimecode('75f', 25)).toBe(3000);
+    expect(parseTimecode('abc', 30)).toBeNull();
+    expect(parseTimecode('', 30)).toBeNull();
+  });
+
+  it('moves between the preset speeds', () => {
+    expect(nextRate(1, 1)).toBe(1.5);
+    expect(nextRate(1, -1)).toBe(0.5);
+    expect(nextRate(0.8, -1)).toBe(0.5);
+    expect(nextRate(4, 1)).toBe(4);
+  });
+});
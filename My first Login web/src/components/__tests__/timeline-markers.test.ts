@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { addMarker, addRegion, adjacentMarker, setLoopPoint, snapTargets, snapTime, updateRegion } from '../timelineMarkers';
+
+describe('timelineMarkers', () => {
+  it('snaps to a nearby marker before the grid', () => {
+    const targets = snapTargets({ markers: [{ id: 'm', time: 333, label: 'beat' }], regions: [{ id: 'r', start: 100, end: 900, label: 'intro' }], loop: { start: 0, end: 900 } });
+    expect(targets).toEqual([0, 100, 333, 900]);
+    expect(snapTime(340, { interval: 50, targets, threshold: 10 })).toBe(333);
+    expect(snapTime(360, { interval: 50, targets, threshold: 10 })).toBe(350);
+    expect(snapTime(361, { interval: 0, targets, threshold: 10 })).toBe(361);
+  });
+
+  it('adds markers in time order and finds the adjacent ones', () => {
+    const first = addMarker([], 800);
+    const { markers } = addMarker(first.markers, 200, 'drop');
+    expect(markers.map(m => [m.label, m.time])).toEqual([['drop', 200], ['M1', 800]]);
+    expect(adjacentMarker(markers, 200, 1)?.label).toBe('M1');
+    expect(adjacentMarker(markers, 800, -1)?.label).toBe('drop');
+    expect(adjacentMarker(markers, 100, -1)).toBeNull();
+  });
+
+  it('keeps regions inside the timeline with start before end', () => {
+    expect(addRegion([], 1800, 1800, 2000).region).toMatchObject({ start: 1000, end: 2000, label: 'Región 1' });
+    const { regions, region } = addRegion([], 600, 200, 2000);
+    expect(region).toMatchObject({ start: 200, end: 600 });
+    expect(updateRegion(regions, region.id, { start: 900 }, 2000)[0]).toMatchObject({ start: 900, end: 901 });
+    expect(updateRegion(regions, region.id, { end: 100 }, 2000)[0]).toMatchObject({ start: 99, end: 100 });
+  });
+
+  it('sets loop points against the timeline edges', () => {
+    expect(setLoopPoint(null, 'start', 500, 2000)).toEqual({ start: 500, end: 2000 });
+    expect(setLoopPoint({ start: 500, end: 2000 }, 'end', 1200, 2000)).toEqual({ start: 500, end: 1200 });
+    // an out point before the in point starts the loop at 0
+    expect(setLoopPoint({ start: 500, end: 1200 }, 'end', 300, 2000)).toEqual({ start: 0, end: 300 });
+    expect(setLoopPoint(null, 'end', 0, 2000)).toBeNull();
+  });
+});
@@ -0,0 +1,753 @@
+import { clamp, lerp, cubicBezierEasing, mixOklab, parseEasingSpec, springEasing, stepsEasing, bounceEasing, elasticEasing, flattenSvgPath, seededRandom } from './animationUtils';
+
+export type KeyframePoint = {
+  id: string;
+  time: number;
+  translate: number; // vertical px
+  opacity: number;
+  // optional tracks: a keyframe only takes part in the tracks it defines
+  translateX?: number; // horizontal px
+  scale?: number; // uniform, multiplies scaleX/scaleY
+  scaleX?: number;
+  scaleY?: number;
+  rotation?: number; // degrees
+  blur?: number; // px
+  reveal?: number; // text layers: 0..1 progress of the staggered reveal
+  draw?: number; // shape layers: 0..1 of the stroke drawn (draw-on)
+  color?: string; // fill color, mixed in OKLab
+  easing?: string; // named easing or generator call, e.g. "spring(100, 10, 1)", "steps(4, jump-end)"
+  bezier?: [number,number,number,number];
+};
+
+export type NumericProperty = 'translate' | 'translateX' | 'opacity' | 'scale' | 'scaleX' | 'scaleY' | 'rotation' | 'blur' | 'reveal' | 'draw';
+export type AnimatableProperty = NumericProperty | 'color';
+
+/** keyframeable properties in timeline/panel order */
+export const KEYFRAME_PROPERTIES: { key: AnimatableProperty; label: string; step?: number }[] = [
+  { key: 'translate', label: 'Translate Y' },
+  { key: 'translateX', label: 'Translate X' },
+  { key: 'opacity', label: 'Opacity', step: 0.01 },
+  { key: 'scale', label: 'Scale', step: 0.05 },
+  { key: 'scaleX', label: 'Scale X', step: 0.05 },
+  { key: 'scaleY', label: 'Scale Y', step: 0.05 },
+  { key: 'rotation', label: 'Rotation (°)' },
+  { key: 'blur', label: 'Blur (px)', step: 0.5 },
+  { key: 'reveal', label: 'Reveal (texto)', step: 0.05 },
+  { key: 'draw', label: 'Draw (trazo)', step: 0.05 },
+  { key: 'color', label: 'Color' },
+];
+
+/** layer kinds besides the default box/image layer; 'glitch' and 'focus' are the landing page effects */
+export type LayerType = 'group' | 'text' | 'shape' | 'glitch' | 'focus';
+
+/** tracks that only mean something on one layer type */
+export const LAYER_TYPE_PROPERTIES: Partial<Record<AnimatableProperty, LayerType>> = { reveal: 'text', draw: 'shape' };
+
+/** unit the reveal staggers over; 'none' reveals the whole text at once */
+export type TextStagger = 'none' | 'word' | 'char';
+
+export type TextConfig = {
+  content: string; // '\n' starts a new line; lines also wrap to the layer width
+  fontFamily: string;
+  fontSize: number; // px
+  fontWeight: number;
+  align: 'left' | 'center' | 'right';
+  stagger: TextStagger;
+  spread: number; // units fading in at the same time (≥ 1)
+  offsetY: number; // px each unit rises from while it appears
+};
+
+export type ShapeKind = 'rect' | 'ellipse' | 'polygon' | 'path';
+
+export type GradientConfig = {
+  type: 'linear' | 'radial';
+  angle: number; // degrees, linear only; 0 runs left to right
+  stops: { offset: number; color: string }[]; // offset 0..1
+};
+
+export type ShapeConfig = {
+  kind: ShapeKind;
+  radius?: number; // rect corner radius, px
+  sides?: number; // polygon, vertices on the ellipse inscribed in the box
+  path?: string; // SVG path data
+  viewBox?: [number, number, number, number]; // path coordinates shown in the box (scaled to fit, centered)
+  fill: boolean; // filled with the layer color unless there is a gradient
+  gradient?: GradientConfig | null;
+  stroke: string | null;
+  strokeWidth: number; // px; path units for paths
+};
+
+/** LetterGlitch: a grid of random characters that keep changing */
+export type GlitchConfig = {
+  glitchColors: string[]; // hex
+  glitchSpeed: number; // ms between glitches
+  centerVignette: boolean;
+  outerVignette: boolean;
+  smooth: boolean; // fade letters into their new color instead of switching
+  characters: string;
+  seed: number; // same seed, same glitches at every frame
+};
+
+/** TrueFocus: a sentence whose words come into focus one after another */
+export type FocusConfig = {
+  sentence: string;
+  fontFamily: string;
+  fontSize: number; // px
+  blurAmount: number; // px on the words out of focus
+  borderColor: string; // focus frame corners
+  animationDuration: number; // s the focus takes to move to the next word
+  pauseBetweenAnimations: number; // s it rests on each word
+};
+
+export type LayerConfig = {
+  id: string;
+  label: string;
+  // groups paint nothing; their transform and opacity compose into their children
+  type?: LayerType;
+  parentId?: string | null; // id of the enclosing group
+  symbolId?: string; // group instanced from a library symbol
+  text?: TextConfig; // text layers; drawn in the layer color
+  shape?: ShapeConfig; // shape layers
+  glitch?: GlitchConfig; // glitch layers; the layer color is the background
+  focus?: FocusConfig; // focus layers; words drawn in the layer color
+  depth: number; // 0..1
+  color: string;
+  image?: string | null; // data URL or URL
+  visible?: boolean;
+  // layout in preview (percentages)
+  x?: number; // 0..100
+  y?: number; // 0..100
+  w?: number; // width percent
+  h?: number; // height percent
+  keyframes: KeyframePoint[]; // sorted by time
+  responsive?: Record<string, LayerOverride>; // by breakpoint id
+};
+
+/** preview/viewport widths up to `maxWidth` px, where layers can override their layout and keyframe values */
+export type Breakpoint = { id: string; label: string; maxWidth: number };
+
+/** what a layer changes at a breakpoint; keyframe values go by keyframe id (a value on a track the keyframe lacks adds it there) */
+export type LayerOverride = {
+  x?: number;
+  y?: number;
+  w?: number;
+  h?: number;
+  keyframes?: Record<string, Partial<Record<NumericProperty, number>>>;
+};
+
+/** the base values are the desktop layout; these narrow it down */
+export const DEFAULT_BREAKPOINTS: Breakpoint[] = [
+  { id: 'tablet', label: 'Tablet', maxWidth: 1024 },
+  { id: 'mobile', label: 'Móvil', maxWidth: 640 },
+];
+
+/** named instant of the timeline; exported components emit it as an event when playback reaches it */
+export type TimelineMarker = { id: string; time: number; label: string };
+
+/** labelled span of the timeline (intro, loop, outro…) */
+export type TimelineRegion = { id: string; start: number; end: number; label: string; color?: string };
+
+/** in/out points playback repeats between */
+export type LoopRange = { start: number; end: number };
+
+/** once: stop at the end; loop: start over; pingpong: bounce between the ends */
+export type PlaybackMode = 'once' | 'loop' | 'pingpong';
+
+export type PlaybackSettings = {
+  rate: number; // 1 = real time
+  mode: PlaybackMode;
+  reverse: boolean; // start playing backwards
+  fps: number; // frame stepping and timecode
+};
+
+export const DEFAULT_PLAYBACK: PlaybackSettings = { rate: 1, mode: 'once', reverse: false, fps: 30 };
+
+/** where playback is and which way it is going */
+export type PlaybackState = { time: number; direction: 1 | -1; ended: boolean };
+
+export type AnimationConfig = {
+  timelineDuration: number;
+  layers: LayerConfig[];
+  markers?: TimelineMarker[];
+  regions?: TimelineRegion[];
+  loop?: LoopRange | null;
+  playback?: PlaybackSettings;
+  breakpoints?: Breakpoint[];
+};
+
+/** animated values of a layer at a given time */
+export type LayerState = Record<NumericProperty, number> & { color: string };
+
+/** a painted layer with the states of its enclosing groups, outermost first */
+export type EvaluatedLayer = { layer: LayerConfig; state: LayerState; parents: { layer: LayerConfig; state: LayerState }[] };
+
+export type LayerTreeEntry = { layer: LayerConfig; parents: LayerConfig[] };
+
+export type EngineImages = Record<string, HTMLImageElement | null | undefined>;
+
+type EngineHelpers = {
+  clamp: typeof clamp;
+  lerp: typeof lerp;
+  cubicBezierEasing: typeof cubicBezierEasing;
+  mixOklab: typeof mixOklab;
+  parseEasingSpec: typeof parseEasingSpec;
+  springEasing: typeof springEasing;
+  stepsEasing: typeof stepsEasing;
+  bounceEasing: typeof bounceEasing;
+  elasticEasing: typeof elasticEasing;
+  flattenSvgPath: typeof flattenSvgPath;
+  seededRandom: typeof seededRandom;
+};
+
+/**
+ * createAnimationEngine: motor de la timeline sin dependencias de React ni del DOM.
+ * Los helpers se inyectan (en vez de importarse) para que la función sea autocontenida
+ * y los exportadores puedan serializarla con toString() — ver engineRuntimeSource.
+ */
+export function createAnimationEngine({ clamp, lerp, cubicBezierEasing, mixOklab, parseEasingSpec, springEasing, stepsEasing, bounceEasing, elasticEasing, flattenSvgPath, seededRandom }: EngineHelpers) {
+  // value of a numeric track while no keyframe defines it
+  const NUMERIC_DEFAULTS: Record<NumericProperty, number> = { translate: 0, translateX: 0, opacity: 1, scale: 1, scaleX: 1, scaleY: 1, rotation: 0, blur: 0, reveal: 1, draw: 1 };
+
+  // easing of the segment that ends at `kf` (bezier wins over the named easing)
+  // generators are costly to build (spring settling), so easings are cached by their definition
+  const easingCache = new Map<string, (t: number) => number>();
+  const buildEasing = (kf: KeyframePoint): ((t: number) => number) => {
+    if (kf.bezier) {
+      const b = kf.bezier;
+      return cubicBezierEasing(b[0], b[1], b[2], b[3]);
+    }
+    const { name, args } = parseEasingSpec(kf.easing || 'linear');
+    // missing or non-numeric arguments fall back to the generator defaults
+    const num = (i: number) => (args[i] !== undefined && Number.isFinite(Number(args[i])) ? Number(args[i]) : undefined);
+    switch (name) {
+      case 'ease-in': return t => t * t;
+      case 'ease-out': return t => t * (2 - t);
+      case 'ease': return t => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t);
+      case 'spring': return springEasing(num(0), num(1), num(2));
+      case 'steps': return stepsEasing(num(0), args[1]);
+      case 'bounce': return bounceEasing();
+      case 'elastic': return elasticEasing(num(0), num(1));
+      default: return t => t;
+    }
+  };
+  const easingFor = (kf: KeyframePoint): ((t: number) => number) => {
+    const key = kf.bezier ? kf.bezier.join(',') : kf.easing || 'linear';
+    let ease = easingCache.get(key);
+    if (!ease) {
+      ease = buildEasing(kf);
+      easingCache.set(key, ease);
+    }
+    return ease;
+  };
+
+  // keyframes surrounding `time`: last one at or before it and first one at or after it
+  const findSegment = (keyframes: KeyframePoint[], time: number) => {
+    let prev = keyframes[0];
+    let next = keyframes[keyframes.length - 1];
+    for (let i = 0; i < keyframes.length; i++) {
+      if (keyframes[i].time <= time) prev = keyframes[i];
+      if (keyframes[i].time >= time) { next = keyframes[i]; break; }
+    }
+    return { prev, next };
+  };
+
+  // interpolate one track using only the keyframes that define it
+  const sampleTrack = <T>(keyframes: KeyframePoint[], time: number, get: (k: KeyframePoint) => T | undefined, mix: (a: T, b: T, t: number) => T): T | undefined => {
+    const track = keyframes.filter(k => get(k) !== undefined);
+    if (track.length === 0) return undefined;
+    const { prev, next } = findSegment(track, time);
+    const span = next.time - prev.time || 1;
+    const eased = easingFor(next)(clamp((time - prev.time) / span, 0, 1));
+    return mix(get(prev) as T, get(next) as T, eased);
+  };
+
+  const evaluateLayer = (layer: LayerConfig, time: number): LayerState | null => {
+    if (layer.keyframes.length === 0) return null;
+    const num = (key: NumericProperty) => sampleTrack(layer.keyframes, time, k => k[key], lerp) ?? NUMERIC_DEFAULTS[key];
+    return {
+      translate: num('translate'),
+      translateX: num('translateX'),
+      opacity: num('opacity'),
+      scale: num('scale'),
+      scaleX: num('scaleX'),
+      scaleY: num('scaleY'),
+      rotation: num('rotation'),
+      blur: num('blur'),
+      reveal: num('reveal'),
+      draw: num('draw'),
+      color: sampleTrack(layer.keyframes, time, k => k.color, mixOklab) ?? layer.color,
+    };
+  };
+
+  /**
+   * Layers in paint order: roots in list order, each group followed by its
+   * children (depth first). A parentId that doesn't name a group, or that forms
+   * a cycle, leaves the layer at the root.
+   */
+  const walkLayers = (layers: LayerConfig[]): LayerTreeEntry[] => {
+    const out: LayerTreeEntry[] = [];
+    const seen = new Set<string>();
+    const isGroup = (id: string | null | undefined) => !!id && layers.some(l => l.id === id && l.type === 'group');
+    const visit = (layer: LayerConfig, parents: LayerConfig[]) => {
+      if (seen.has(layer.id)) return;
+      seen.add(layer.id);
+      out.push({ layer, parents });
+      if (layer.type === 'group') layers.forEach(child => { if (child.parentId === layer.id) visit(child, [...parents, layer]); });
+    };
+    layers.forEach(l => { if (!isGroup(l.parentId)) visit(l, []); });
+    // whatever is left hangs from a cycle
+    layers.forEach(l => visit(l, []));
+    return out;
+  };
+
+  // visible layers with keyframes, in paint order; a hidden group hides its children
+  const evaluateScene = (config: AnimationConfig, time: number): EvaluatedLayer[] => {
+    const out: EvaluatedLayer[] = [];
+    const groupStates = new Map<string, LayerState>();
+    const groupState = (group: LayerConfig) => {
+      let state = groupStates.get(group.id);
+      if (!state) {
+        // a group without keyframes is a plain container
+        state = evaluateLayer(group, time) ?? { ...NUMERIC_DEFAULTS, color: group.color };
+        groupStates.set(group.id, state);
+      }
+      return state;
+    };
+    walkLayers(config.layers).forEach(({ layer, parents }) => {
+      if (!layer.visible || layer.type === 'group' || parents.some(p => !p.visible)) return;
+      const state = evaluateLayer(layer, time);
+      if (state) out.push({ layer, state, parents: parents.map(p => ({ layer: p, state: groupState(p) })) });
+    });
+    return out;
+  };
+
+  // text split into the units a stagger animates; whitespace stays as separators so DOM exports keep it
+  const textTokens = (text: string, by: TextStagger): { text: string; unit: boolean }[] => {
+    if (by === 'none') return [{ text, unit: true }];
+    const parts = by === 'word' ? text.split(/(\s+)/) : Array.from(text);
+    return parts.filter(Boolean).map(part => ({ text: part, unit: !/^\s+$/.test(part) }));
+  };
+
+  // progress (0..1) of unit `index` out of `count` when the whole reveal is at `reveal`
+  const staggerProgress = (reveal: number, index: number, count: number, spread: number) => {
+    const s = Math.max(1, spread);
+    return clamp((reveal * (count - 1 + s) - index) / s, 0, 1);
+  };
+
+  // lines wrapped to the box width, centered vertically on the layer origin
+  const drawText = (ctx: CanvasRenderingContext2D, text: TextConfig, state: LayerState, w: number) => {
+    ctx.font = text.fontWeight + ' ' + text.fontSize + 'px ' + text.fontFamily;
+    ctx.fillStyle = state.color;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    const lines: string[] = [];
+    text.content.split('\n').forEach(paragraph => {
+      let line = '';
+      paragraph.split(/(\s+)/).forEach(part => {
+        if (line.trim() && part.trim() && ctx.measureText(line + part).width > w) {
+          lines.push(line.trimEnd());
+          line = part;
+        } else line += part;
+      });
+      lines.push(line);
+    });
+    const staggered = text.stagger !== 'none';
+    const count = staggered ? lines.reduce((n, line) => n + textTokens(line, text.stagger).filter(t => t.unit).length, 0) : 1;
+    const lineHeight = text.fontSize * 1.2;
+    let index = 0;
+    lines.forEach((line, li) => {
+      const lineWidth = ctx.measureText(line).width;
+      let x = text.align === 'left' ? -w / 2 : text.align === 'right' ? w / 2 - lineWidth : -lineWidth / 2;
+      const y = (li - (lines.length - 1) / 2) * lineHeight;
+      textTokens(line, text.stagger).forEach(token => {
+        if (token.unit) {
+          const p = staggerProgress(state.reveal, staggered ? index++ : 0, count, text.spread);
+          if (p > 0) {
+            ctx.save();
+            ctx.globalAlpha *= p;
+            ctx.fillText(token.text, x, y + (1 - p) * text.offsetY);
+            ctx.restore();
+          }
+        }
+        x += ctx.measureText(token.text).width;
+      });
+    });
+  };
+
+  // outline of a shape around the layer origin, with its stroke length for draw-on
+  const shapeOutline = (shape: ShapeConfig, w: number, h: number) => {
+    const path = new Path2D();
+    const a = w / 2, b = h / 2;
+    if (shape.kind === 'path') {
+      const polylines = flattenSvgPath(shape.path || '');
+      let length = 0;
+      polylines.forEach(p => { for (let i = 2; i < p.length; i += 2) length += Math.hypot(p[i] - p[i - 2], p[i + 1] - p[i - 1]); });
+      return { path: new Path2D(shape.path || ''), length };
+    }
+    if (shape.kind === 'ellipse') {
+      path.ellipse(0, 0, a, b, 0, 0, 2 * Math.PI);
+      // Ramanujan's approximation of the perimeter
+      return { path, length: Math.PI * (3 * (a + b) - Math.sqrt((3 * a + b) * (a + 3 * b))) };
+    }
+    if (shape.kind === 'polygon') {
+      const n = Math.max(3, Math.round(shape.sides ?? 6));
+      let length = 0;
+      for (let i = 0; i <= n; i++) {
+        const t = -Math.PI / 2 + 2 * Math.PI * i / n;
+        const px = a * Math.cos(t), py = b * Math.sin(t);
+        if (i === 0) path.moveTo(px, py);
+        else {
+          const pt = -Math.PI / 2 + 2 * Math.PI * (i - 1) / n;
+          length += Math.hypot(px - a * Math.cos(pt), py - b * Math.sin(pt));
+          path.lineTo(px, py);
+        }
+      }
+      path.closePath();
+      return { path, length };
+    }
+    const r = clamp(shape.radius ?? 0, 0, Math.min(a, b));
+    path.moveTo(-a + r, -b);
+    path.arcTo(a, -b, a, b, r);
+    path.arcTo(a, b, -a, b, r);
+    path.arcTo(-a, b, -a, -b, r);
+    path.arcTo(-a, -b, a, -b, r);
+    path.closePath();
+    return { path, length: 2 * (w + h) - 8 * r + 2 * Math.PI * r };
+  };
+
+  const drawShape = (ctx: CanvasRenderingContext2D, shape: ShapeConfig, state: LayerState, w: number, h: number) => {
+    // the box the gradient spans, in drawing coordinates
+    let box = { x: 0, y: 0, w, h };
+    if (shape.kind === 'path') {
+      const [vx, vy, vw, vh] = shape.viewBox ?? [0, 0, w, h];
+      const k = Math.min(w / (vw || 1), h / (vh || 1));
+      ctx.scale(k, k);
+      ctx.translate(-vx - vw / 2, -vy - vh / 2);
+      box = { x: vx + vw / 2, y: vy + vh / 2, w: vw, h: vh };
+    }
+    const { path, length } = shapeOutline(shape, w, h);
+    const g = shape.gradient;
+    if (g && g.stops.length) {
+      ctx.save();
+      let fill: CanvasGradient;
+      if (g.type === 'radial') {
+        ctx.clip(path);
+        ctx.translate(box.x, box.y);
+        ctx.scale(box.w / 2 || 1, box.h / 2 || 1);
+        fill = ctx.createRadialGradient(0, 0, 0, 0, 0, 1);
+      } else {
+        const t = g.angle * Math.PI / 180;
+        const dx = Math.cos(t) * box.w / 2, dy = Math.sin(t) * box.h / 2;
+        fill = ctx.createLinearGradient(box.x - dx, box.y - dy, box.x + dx, box.y + dy);
+      }
+      g.stops.forEach(s => fill.addColorStop(clamp(s.offset, 0, 1), s.color));
+      ctx.fillStyle = fill;
+      if (g.type === 'radial') ctx.fillRect(-1, -1, 2, 2);
+      else ctx.fill(path);
+      ctx.restore();
+    } else if (shape.fill) {
+      ctx.fillStyle = state.color;
+      ctx.fill(path);
+    }
+    const drawn = clamp(state.draw, 0, 1);
+    if (shape.stroke && shape.strokeWidth > 0 && drawn > 0) {
+      ctx.strokeStyle = shape.stroke;
+      ctx.lineWidth = shape.strokeWidth;
+      if (drawn < 1) ctx.setLineDash([length * drawn, length]);
+      ctx.stroke(path);
+    }
+  };
+
+  // LetterGlitch grid: 10×20 px cells, each with a 5% chance to glitch on every tick
+  const GLITCH_CELL = { w: 10, h: 20, font: 16 };
+  const GLITCH_CHANCE = 0.05;
+  const GLITCH_FADE_MS = 333; // smooth color change, ~20 frames at 60 fps
+  const GLITCH_LOOKBACK = 200; // ticks searched for a cell's last glitch
+
+  // last tick at or before `tick` where the cell glitched; -1 = still its initial state
+  const lastGlitch = (seed: number, cell: number, tick: number) => {
+    for (let k = tick; k >= 0 && k > tick - GLITCH_LOOKBACK; k--) if (seededRandom(seed, cell, k, 0) < GLITCH_CHANCE) return k;
+    return -1;
+  };
+
+  /** character and color of a cell at `time`, computed from the seed alone */
+  const glitchCell = (glitch: GlitchConfig, cell: number, time: number) => {
+    const chars = Array.from(glitch.characters || '#');
+    const colors = glitch.glitchColors.length ? glitch.glitchColors : ['#61dca3'];
+    const speed = Math.max(1, glitch.glitchSpeed);
+    const last = lastGlitch(glitch.seed, cell, Math.floor(Math.max(0, time) / speed));
+    const colorOf = (tick: number) => colors[Math.floor(seededRandom(glitch.seed, cell, tick, 2) * colors.length)];
+    const char = chars[Math.floor(seededRandom(glitch.seed, cell, last, 1) * chars.length)];
+    const target = colorOf(last);
+    if (!glitch.smooth || last < 0) return { char, color: target };
+    const fade = clamp((time - last * speed) / GLITCH_FADE_MS, 0, 1);
+    return { char, color: fade >= 1 ? target : mixOklab(colorOf(lastGlitch(glitch.seed, cell, last - 1)), target, fade) };
+  };
+
+  const drawGlitch = (ctx: CanvasRenderingContext2D, glitch: GlitchConfig, state: LayerState, w: number, h: number, time: number) => {
+    ctx.beginPath();
+    ctx.rect(-w / 2, -h / 2, w, h);
+    ctx.clip();
+    ctx.fillStyle = state.color;
+    ctx.fillRect(-w / 2, -h / 2, w, h);
+    ctx.font = GLITCH_CELL.font + 'px monospace';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    const columns = Math.ceil(w / GLITCH_CELL.w), rows = Math.ceil(h / GLITCH_CELL.h);
+    for (let cell = 0; cell < columns * rows; cell++) {
+      const { char, color } = glitchCell(glitch, cell, time);
+      ctx.fillStyle = color;
+      ctx.fillText(char, -w / 2 + (cell % columns) * GLITCH_CELL.w, -h / 2 + Math.floor(cell / columns) * GLITCH_CELL.h);
+    }
+    // same radial-gradient(circle, …) overlays as the landing page component
+    const vignette = (stops: [number, string][]) => {
+      const g = ctx.createRadialGradient(0, 0, 0, 0, 0, Math.hypot(w / 2, h / 2));
+      stops.forEach(([at, color]) => g.addColorStop(at, color));
+      ctx.fillStyle = g;
+      ctx.fillRect(-w / 2, -h / 2, w, h);
+    };
+    if (glitch.outerVignette) vignette([[0.6, 'rgba(0,0,0,0)'], [1, 'rgba(0,0,0,1)']]);
+    if (glitch.centerVignette) vignette([[0, 'rgba(0,0,0,0.8)'], [0.6, 'rgba(0,0,0,0)']]);
+  };
+
+  /**
+   * Word in focus at `time` and the one it's leaving. The focus rests on each
+   * word for a whole cycle (move + pause) and `progress` (0..1) covers the move.
+   */
+  const focusState = (focus: FocusConfig, count: number, time: number) => {
+    const period = Math.max(1, (focus.animationDuration + focus.pauseBetweenAnimations) * 1000);
+    const cycle = Math.floor(Math.max(0, time) / period);
+    const previous = cycle > 0 ? (cycle - 1) % count : -1;
+    const progress = previous < 0 ? 1 : clamp((time - cycle * period) / Math.max(1, focus.animationDuration * 1000), 0, 1);
+    return { index: cycle % count, previous, progress };
+  };
+
+  const drawFocus = (ctx: CanvasRenderingContext2D, focus: FocusConfig, state: LayerState, blur: number, time: number) => {
+    const words = focus.sentence.split(' ').filter(Boolean);
+    if (!words.length) return;
+    ctx.font = '900 ' + focus.fontSize + 'px ' + focus.fontFamily;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    const gap = 16;
+    const widths = words.map(word => ctx.measureText(word).width);
+    let x = -(widths.reduce((a, b) => a + b, 0) + gap * (words.length - 1)) / 2;
+    const lefts = widths.map(width => { const left = x; x += width + gap; return left; });
+    const { index, previous, progress } = focusState(focus, words.length, time);
+    // CSS 'ease'-like smoothing of the blur transition and the frame move
+    const eased = progress * progress * (3 - 2 * progress);
+    ctx.fillStyle = state.color;
+    words.forEach((word, i) => {
+      const inFocus = i === index ? eased : i === previous ? 1 - eased : 0;
+      const total = blur + focus.blurAmount * (1 - inFocus);
+      ctx.filter = total > 0 ? 'blur(' + total + 'px)' : 'none';
+      ctx.fillText(word, lefts[i], 0);
+    });
+    ctx.filter = blur > 0 ? 'blur(' + blur + 'px)' : 'none';
+    // focus frame: four corner brackets 10px outside the word box
+    const from = previous < 0 ? index : previous;
+    const fx = lerp(lefts[from], lefts[index], eased), fw = lerp(widths[from], widths[index], eased);
+    const fh = focus.fontSize * 1.2, arm = 16, out = 10 - 1.5;
+    const left = fx - out, right = fx + fw + out, top = -fh / 2 - out, bottom = fh / 2 + out;
+    ctx.strokeStyle = focus.borderColor;
+    ctx.lineWidth = 3;
+    ctx.shadowColor = focus.borderColor;
+    ctx.shadowBlur = 4;
+    ctx.beginPath();
+    ([[left, top, 1, 1], [right, top, -1, 1], [left, bottom, 1, -1], [right, bottom, -1, -1]] as const).forEach(([cx, cy, dx, dy]) => {
+      ctx.moveTo(cx, cy + dy * (arm - 3));
+      ctx.lineTo(cx, cy);
+      ctx.lineTo(cx + dx * (arm - 3), cy);
+    });
+    ctx.stroke();
+  };
+
+  // paint a frame; layout x/y/w/h are percentages of the given size
+  const drawScene = (ctx: CanvasRenderingContext2D, config: AnimationConfig, time: number, width: number, height: number, images: EngineImages = {}) => {
+    ctx.clearRect(0, 0, width, height);
+    evaluateScene(config, time).forEach(({ layer, state, parents }) => {
+      ctx.save();
+      let alpha = clamp(state.opacity, 0, 1);
+      let blur = state.blur;
+      // each enclosing group transforms around its own pivot (its x/y)
+      parents.forEach(({ layer: group, state: g }) => {
+        const px = width * ((group.x ?? 50) / 100), py = height * ((group.y ?? 50) / 100);
+        ctx.translate(px + g.translateX, py + g.translate);
+        if (g.rotation) ctx.rotate(g.rotation * Math.PI / 180);
+        ctx.scale(g.scale * g.scaleX, g.scale * g.scaleY);
+        ctx.translate(-px, -py);
+        alpha *= clamp(g.opacity, 0, 1);
+        blur += g.blur;
+      });
+      ctx.globalAlpha = alpha;
+      if (blur > 0) ctx.filter = 'blur(' + blur + 'px)';
+      // move the origin to the layer center so rotation/scale pivot around it
+      ctx.translate(width * ((layer.x ?? 50) / 100) + state.translateX, height * ((layer.y ?? 50) / 100) + state.translate);
+      if (state.rotation) ctx.rotate(state.rotation * Math.PI / 180);
+      ctx.scale(state.scale * state.scaleX, state.scale * state.scaleY);
+      const w = width * ((layer.w ?? 60) / 100);
+      const h = height * ((layer.h ?? 30) / 100);
+      if (layer.type === 'text' && layer.text) {
+        drawText(ctx, layer.text, state, w);
+      } else if (layer.type === 'shape' && layer.shape) {
+        drawShape(ctx, layer.shape, state, w, h);
+      } else if (layer.type === 'glitch' && layer.glitch) {
+        drawGlitch(ctx, layer.glitch, state, w, h, time);
+      } else if (layer.type === 'focus' && layer.focus) {
+        drawFocus(ctx, layer.focus, state, blur, time);
+      } else if (layer.image) {
+        const img = images[layer.id];
+        if (img && img.complete && img.naturalWidth) {
+          const ar = img.width / img.height;
+          let dw = w, dh = w / ar;
+          if (dh > h) { dh = h; dw = h * ar; }
+          ctx.drawImage(img, -dw / 2, -dh / 2, dw, dh);
+        } else {
+          // placeholder while image loads
+          ctx.fillStyle = '#222';
+          ctx.fillRect(-w / 2, -h / 2, w, h);
+        }
+      } else {
+        ctx.fillStyle = state.color;
+        ctx.fillRect(-w / 2, -h / 2, w, h);
+        ctx.fillStyle = '#000';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(layer.label, 0, 0);
+      }
+      ctx.restore();
+    });
+  };
+
+  /**
+   * Markers playback reaches going from `from` to `to`, in the order it meets
+   * them: from ≤ time < to forwards, to < time ≤ from backwards. `inclusiveEnd`
+   * also takes the ones at `to` (where playback stops instead of moving on).
+   */
+  const markersBetween = (markers: TimelineMarker[] | undefined, from: number, to: number, inclusiveEnd = false): TimelineMarker[] => {
+    const list = markers ?? [];
+    if (to >= from) return list.filter(m => m.time >= from && (m.time < to || (inclusiveEnd && m.time === to))).sort((a, b) => a.time - b.time);
+    return list.filter(m => m.time <= from && (m.time > to || (inclusiveEnd && m.time === to))).sort((a, b) => b.time - a.time);
+  };
+
+  // the loop range clamped to the timeline; null when there is none or it is empty
+  const loopRangeOf = (config: AnimationConfig): LoopRange | null => {
+    if (!config.loop) return null;
+    const start = clamp(config.loop.start, 0, config.timelineDuration);
+    const end = clamp(config.loop.end, 0, config.timelineDuration);
+    return end > start ? { start, end } : null;
+  };
+
+  /**
+   * The config's playback settings. Documents saved before they existed have
+   * none: they play once, or loop when they have a loop range (same values as
+   * DEFAULT_PLAYBACK otherwise, which the runtime can't see).
+   */
+  const playbackOf = (config: AnimationConfig): PlaybackSettings =>
+    config.playback ?? { rate: 1, mode: config.loop ? 'loop' : 'once', reverse: false, fps: 30 };
+
+  // span playback runs in: the whole timeline when playing once, else the loop range if there is one
+  const playbackSpan = (config: AnimationConfig, settings: PlaybackSettings): LoopRange =>
+    (settings.mode === 'once' ? null : loopRangeOf(config)) ?? { start: 0, end: config.timelineDuration };
+
+  /** playback starting at `time`; from the end it is heading to, once and loop start over from the other end */
+  const startPlayback = (config: AnimationConfig, settings: PlaybackSettings, time: number): PlaybackState => {
+    const direction = settings.reverse ? -1 : 1;
+    const span = playbackSpan(config, settings);
+    const atEnd = direction > 0 ? time >= span.end : time <= span.start;
+    const restart = atEnd && settings.mode !== 'pingpong';
+    return { time: restart ? (direction > 0 ? span.start : span.end) : time, direction, ended: false };
+  };
+
+  /**
+   * Advance playback by `elapsed` ms of wall-clock time at the settings' rate,
+   * wrapping (loop) or bouncing (pingpong) at the span ends, and list the
+   * markers passed on the way. A frame longer than a whole cycle skips it.
+   */
+  const stepPlayback = (config: AnimationConfig, settings: PlaybackSettings, state: PlaybackState, elapsed: number): { state: PlaybackState; markers: TimelineMarker[] } => {
+    const passed: TimelineMarker[] = [];
+    if (state.ended) return { state, markers: passed };
+    const span = playbackSpan(config, settings);
+    const length = span.end - span.start;
+    if (length <= 0) return { state: { ...state, ended: true }, markers: passed };
+    let { time, direction } = state;
+    let distance = Math.abs(elapsed * settings.rate);
+    while (distance > 0) {
+      const edge = direction > 0 ? span.end : span.start;
+      const room = Math.max(0, (edge - time) * direction);
+      if (distance < room) {
+        passed.push(...markersBetween(config.markers, time, time + direction * distance));
+        time += direction * distance;
+        break;
+      }
+      distance -= room;
+      if (settings.mode === 'once') {
+        passed.push(...markersBetween(config.markers, time, edge, true));
+        return { state: { time: edge, direction, ended: true }, markers: passed };
+      }
+      if (room > 0) passed.push(...markersBetween(config.markers, time, edge));
+      if (settings.mode === 'loop') time = direction > 0 ? span.start : span.end;
+      else {
+        time = edge;
+        direction = direction > 0 ? -1 : 1;
+      }
+      // on an edge now: whole cycles bring it back here
+      distance %= settings.mode === 'loop' ? length : 2 * length;
+    }
+    return { state: { time, direction, ended: false }, markers: passed };
+  };
+
+  /** `time` moved by `frames` whole frames at `fps`, landing on the frame grid */
+  const frameStep = (time: number, fps: number, frames: number, duration: number) => {
+    const frame = 1000 / fps;
+    const current = Math.round(time / frame);
+    // off the grid, the first step lands on the neighbouring frame in that direction
+    const base = Math.abs(current * frame - time) < 1e-6 ? current : frames > 0 ? Math.floor(time / frame) : Math.ceil(time / frame);
+    return clamp((base + frames) * frame, 0, duration);
+  };
+
+  /** the config's breakpoints, widest first; documents without any get DEFAULT_BREAKPOINTS, which the runtime can't see */
+  const breakpointsOf = (config: AnimationConfig): Breakpoint[] =>
+    [...(config.breakpoints ?? [{ id: 'tablet', label: 'Tablet', maxWidth: 1024 }, { id: 'mobile', label: 'Móvil', maxWidth: 640 }])].sort((a, b) => b.maxWidth - a.maxWidth);
+
+  /** the layer with the overrides of `ids` applied in that order, so the last one wins */
+  const overrideLayer = (layer: LayerConfig, ids: string[]): LayerConfig =>
+    ids.reduce((l, id) => {
+      const o = layer.responsive?.[id];
+      if (!o) return l;
+      const values = o.keyframes ?? {};
+      return {
+        ...l,
+        x: o.x ?? l.x,
+        y: o.y ?? l.y,
+        w: o.w ?? l.w,
+        h: o.h ?? l.h,
+        keyframes: l.keyframes.map(k => (values[k.id] ? { ...k, ...values[k.id] } : k)),
+      };
+    }, layer);
+
+  /**
+   * The config as it plays `width` px wide: the breakpoints that reach that width
+   * apply from the widest to the narrowest, like max-width media queries.
+   */
+  const resolveResponsive = (config: AnimationConfig, width: number): AnimationConfig => {
+    const ids = breakpointsOf(config).filter(b => width <= b.maxWidth).map(b => b.id);
+    if (!ids.length || !config.layers.some(l => l.responsive)) return config;
+    return { ...config, layers: config.layers.map(l => (l.responsive ? overrideLayer(l, ids) : l)) };
+  };
+
+  return { easingFor, evaluateLayer, walkLayers, textTokens, staggerProgress, glitchCell, focusState, evaluateScene, drawScene, markersBetween, loopRangeOf, playbackOf, startPlayback, stepPlayback, frameStep, breakpointsOf, overrideLayer, resolveResponsive };
+}
+
+export type AnimationEngine = ReturnType<typeof createAnimationEngine>;
+
+// serialized one by one into engineRuntimeSource, so each helper must be self-contained: no imports or module-level names
+const helpers: EngineHelpers = { clamp, lerp, cubicBezierEasing, mixOklab, parseEasingSpec, springEasing, stepsEasing, bounceEasing, elasticEasing, flattenSvgPath, seededRandom };
+
+export const { easingFor, evaluateLayer, walkLayers, textTokens, staggerProgress, glitchCell, focusState, evaluateScene, drawScene, markersBetween, loopRangeOf, playbackOf, startPlayback, stepPlayback, frameStep, breakpointsOf, overrideLayer, resolveResponsive } = createAnimationEngine(helpers);
+
+/**
+ * JS expression that builds the same engine at runtime; embedded by the exporters
+ * so exported components and previews animate exactly like the editor.
+ */
+export const engineRuntimeSource = () =>
+  `(${createAnimationEngine.toString()})({ ${Object.entries(helpers).map(([name, fn]) => `${name}: ${fn.toString()}`).join(', ')} })`;
@@ -31,3 +31,272 @@ export function cubicBezierEasing(x1: number, y1: number, x2: number, y2: number
 }
 
 export const snap = (value: number, interval = 50) => (interval > 0 ? Math.round(value / interval) * interval : value);
+
+// perceptual color mix: interpolates two hex colors in OKLab and returns a hex color.
+export function mixOklab(from: string, to: string, t: number) {
+  const parse = (hex: string) => {
+    let h = hex.trim().replace(/^#/, '');
+    if (h.length === 3) h = h.split('').map(c => c + c).join('');
+    if (!/^[0-9a-f]{6}$/i.test(h)) return null;
+    const n = parseInt(h, 16);
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255].map(v => v / 255);
+  };
+  const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+  const toGamma = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055);
+  const toOklab = ([r, g, b]: number[]) => {
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+    return [
+      0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+      1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+      0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+    ];
+  };
+  const fromOklab = ([L, a, b]: number[]) => {
+    const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+    const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+    const s = (L - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+    return [
+      4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+      -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+      -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+    ];
+  };
+  const a = parse(from), b = parse(to);
+  // unparseable colors (named colors, rgb()) just switch halfway
+  if (!a || !b) return t < 0.5 ? from : to;
+  const A = toOklab(a.map(toLinear)), B = toOklab(b.map(toLinear));
+  const rgb = fromOklab(A.map((v, i) => v + (B[i] - v) * t))
+    .map(c => Math.round(Math.max(0, Math.min(1, toGamma(Math.max(0, c)))) * 255));
+  return '#' + rgb.map(v => v.toString(16).padStart(2, '0')).join('');
+}
+
+export type CubicBezier = [number, number, number, number];
+
+// curve presets offered by the keyframe curve editor. Cubic beziers can only
+// approximate elastic and bounce (one overshoot, no oscillation).
+export const BEZIER_PRESETS: { name: string; group: 'CSS' | 'Back' | 'Elastic' | 'Bounce'; value: CubicBezier }[] = [
+  { name: 'linear', group: 'CSS', value: [0, 0, 1, 1] },
+  { name: 'ease', group: 'CSS', value: [0.25, 0.1, 0.25, 1] },
+  { name: 'ease-in', group: 'CSS', value: [0.42, 0, 1, 1] },
+  { name: 'ease-out', group: 'CSS', value: [0, 0, 0.58, 1] },
+  { name: 'ease-in-out', group: 'CSS', value: [0.42, 0, 0.58, 1] },
+  { name: 'back-in', group: 'Back', value: [0.36, 0, 0.66, -0.56] },
+  { name: 'back-out', group: 'Back', value: [0.34, 1.56, 0.64, 1] },
+  { name: 'back-in-out', group: 'Back', value: [0.68, -0.6, 0.32, 1.6] },
+  { name: 'elastic-out', group: 'Elastic', value: [0.5, 1.8, 0.4, 0.8] },
+  { name: 'elastic-in', group: 'Elastic', value: [0.6, 0.2, 0.5, -0.8] },
+  { name: 'bounce-out', group: 'Bounce', value: [0.2, 1.3, 0.5, 0.95] },
+  { name: 'bounce-in', group: 'Bounce', value: [0.5, 0.05, 0.8, -0.3] },
+];
+
+// control points matching the engine's named easings (t² and t(2-t) are exact cubics); its 'ease'
+// is a piecewise quadratic no single cubic-bezier draws, so it has none, like springs and steps
+export const NAMED_EASING_BEZIER: Record<string, CubicBezier> = {
+  linear: [0, 0, 1, 1],
+  'ease-in': [1 / 3, 0, 2 / 3, 1 / 3],
+  'ease-out': [1 / 3, 2 / 3, 2 / 3, 1],
+};
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+export const formatCubicBezier = (b: CubicBezier) => `cubic-bezier(${b.map(round3).join(', ')})`;
+
+// accepts "cubic-bezier(a, b, c, d)" or a bare "a, b, c, d"; x values must stay in [0, 1]
+export function parseCubicBezier(text: string): CubicBezier | null {
+  const m = /^\s*(?:cubic-bezier\s*\()?([^()]*)\)?\s*$/i.exec(text);
+  if (!m) return null;
+  const parts = m[1].split(/[\s,]+/).filter(Boolean).map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n))) return null;
+  if (parts[0] < 0 || parts[0] > 1 || parts[2] < 0 || parts[2] > 1) return null;
+  return parts as CubicBezier;
+}
+
+// easing strings are CSS-like calls: "ease-in", "spring(100, 10, 1)", "steps(4, jump-end)".
+export function parseEasingSpec(text: string) {
+  const m = /^\s*([a-z][\w-]*)\s*(?:\(([^()]*)\))?\s*$/i.exec(text || '');
+  if (!m) return { name: '', args: [] as string[] };
+  return { name: m[1].toLowerCase(), args: m[2] ? m[2].split(',').map(s => s.trim()).filter(Boolean) : [] };
+}
+
+export const formatEasingSpec = (name: string, args: (string | number)[] = []) =>
+  args.length ? `${name}(${args.join(', ')})` : name;
+
+// The generators below return (t) => value with t in [0, 1].
+
+/**
+ * Damped spring from 0 to 1 starting at rest (stiffness k, damping c, mass m).
+ * The segment is stretched to the spring's settling time, so t = 1 is "at rest";
+ * that time in seconds is exposed as `duration`.
+ */
+export function springEasing(stiffness = 100, damping = 10, mass = 1) {
+  const k = stiffness > 0 ? stiffness : 100;
+  const c = damping >= 0 ? damping : 10;
+  const m = mass > 0 ? mass : 1;
+  const w0 = Math.sqrt(k / m);
+  const zeta = c / (2 * Math.sqrt(k * m));
+  let position: (s: number) => number;
+  if (zeta < 1) {
+    const wd = w0 * Math.sqrt(1 - zeta * zeta);
+    position = s => 1 - Math.exp(-zeta * w0 * s) * (Math.cos(wd * s) + (zeta * w0 / wd) * Math.sin(wd * s));
+  } else if (zeta === 1) {
+    position = s => 1 - Math.exp(-w0 * s) * (1 + w0 * s);
+  } else {
+    const r1 = -w0 * (zeta - Math.sqrt(zeta * zeta - 1));
+    const r2 = -w0 * (zeta + Math.sqrt(zeta * zeta - 1));
+    position = s => 1 - (r2 * Math.exp(r1 * s) - r1 * Math.exp(r2 * s)) / (r2 - r1);
+  }
+  // settling time: last moment the spring is farther than 0.1% from rest (capped at 30 s)
+  const dt = 1 / 240;
+  let duration = dt;
+  for (let s = 0; s <= 30; s += dt) if (Math.abs(position(s) - 1) > 0.001) duration = s + dt;
+  const ease = (t: number) => (t <= 0 ? 0 : t >= 1 ? 1 : position(t * duration));
+  return Object.assign(ease, { duration });
+}
+
+/** CSS steps(n, position): jump-start | jump-end (default) | jump-none | jump-both */
+export function stepsEasing(steps = 1, position = 'jump-end') {
+  const n = Math.max(1, Math.floor(steps) || 1);
+  const pos = position === 'start' ? 'jump-start' : position === 'end' ? 'jump-end' : position;
+  const jumps = pos === 'jump-both' ? n + 1 : pos === 'jump-none' ? Math.max(1, n - 1) : n;
+  const offset = pos === 'jump-start' || pos === 'jump-both' ? 1 : 0;
+  return (t: number) => {
+    if (t >= 1) return 1;
+    const step = Math.floor(Math.max(0, t) * n) + offset;
+    return Math.min(1, step / jumps);
+  };
+}
+
+/** bounce-out: lands at 1 and rebounds with decreasing height, never above 1 */
+export function bounceEasing() {
+  return (t: number) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    const n = 7.5625, d = 2.75;
+    if (t < 1 / d) return n * t * t;
+    if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+    if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+    return n * (t -= 2.625 / d) * t + 0.984375;
+  };
+}
+
+/** elastic-out: overshoots 1 and oscillates around it (amplitude ≥ 1, period in t units) */
+export function elasticEasing(amplitude = 1, period = 0.3) {
+  const a = Math.max(1, amplitude || 1);
+  const p = period > 0 ? period : 0.3;
+  const s = p / (2 * Math.PI) * Math.asin(1 / a);
+  return (t: number) => (t <= 0 ? 0 : t >= 1 ? 1 : a * Math.pow(2, -10 * t) * Math.sin((t - s) * (2 * Math.PI) / p) + 1);
+}
+
+/**
+ * SVG path data flattened into polylines: one [x0, y0, x1, y1, …] list per subpath.
+ * Curves and arcs are sampled `samples` times (stroke lengths for draw-on).
+ */
+export function flattenSvgPath(d: string, samples = 16) {
+  const tokens = d.match(/[a-df-z]|[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi) ?? [];
+  const out: number[][] = [];
+  let pts: number[] = [];
+  let i = 0, cmd = '', x = 0, y = 0, sx = 0, sy = 0;
+  // last control point, for the smooth S/T commands
+  let cx = 0, cy = 0, lastCurve = '';
+  const num = () => Number(tokens[i++]);
+  // arc flags are one digit each and may run into what follows ("0110" is 0, 1 and 10, as svgo writes it)
+  const flag = () => {
+    const t = tokens[i] ?? '';
+    if (t.length > 1 && (t[0] === '0' || t[0] === '1')) { tokens[i] = t.slice(1); return t[0] === '1'; }
+    return num() !== 0;
+  };
+  const flush = () => { if (pts.length > 2) out.push(pts); pts = [x, y]; };
+  const cubic = (x1: number, y1: number, x2: number, y2: number, ex: number, ey: number) => {
+    for (let k = 1; k <= samples; k++) {
+      const t = k / samples, m = 1 - t;
+      pts.push(m * m * m * x + 3 * m * m * t * x1 + 3 * m * t * t * x2 + t * t * t * ex, m * m * m * y + 3 * m * m * t * y1 + 3 * m * t * t * y2 + t * t * t * ey);
+    }
+    cx = x2; cy = y2; x = ex; y = ey;
+  };
+  const quad = (x1: number, y1: number, ex: number, ey: number) => {
+    for (let k = 1; k <= samples; k++) {
+      const t = k / samples, m = 1 - t;
+      pts.push(m * m * x + 2 * m * t * x1 + t * t * ex, m * m * y + 2 * m * t * y1 + t * t * ey);
+    }
+    cx = x1; cy = y1; x = ex; y = ey;
+  };
+  // endpoint to center parameterization, SVG 1.1 appendix F.6.5
+  const arc = (rx: number, ry: number, angle: number, large: boolean, sweep: boolean, ex: number, ey: number) => {
+    rx = Math.abs(rx); ry = Math.abs(ry);
+    if (!rx || !ry) { pts.push(ex, ey); x = ex; y = ey; return; }
+    const phi = angle * Math.PI / 180, cos = Math.cos(phi), sin = Math.sin(phi);
+    const dx = (x - ex) / 2, dy = (y - ey) / 2;
+    const x1 = cos * dx + sin * dy, y1 = -sin * dx + cos * dy;
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) { rx *= Math.sqrt(lambda); ry *= Math.sqrt(lambda); }
+    const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const coef = (large !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, (rx * rx * ry * ry - den) / (den || 1)));
+    const cxp = coef * rx * y1 / ry, cyp = -coef * ry * x1 / rx;
+    const ccx = cos * cxp - sin * cyp + (x + ex) / 2, ccy = sin * cxp + cos * cyp + (y + ey) / 2;
+    const ang = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const t1 = ang(1, 0, (x1 - cxp) / rx, (y1 - cyp) / ry);
+    let dt = ang((x1 - cxp) / rx, (y1 - cyp) / ry, (-x1 - cxp) / rx, (-y1 - cyp) / ry);
+    if (!sweep && dt > 0) dt -= 2 * Math.PI;
+    if (sweep && dt < 0) dt += 2 * Math.PI;
+    for (let k = 1; k <= samples; k++) {
+      const t = t1 + dt * k / samples;
+      pts.push(ccx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin, ccy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos);
+    }
+    x = ex; y = ey;
+  };
+  while (i < tokens.length) {
+    // numbers without a command letter repeat the previous command
+    if (/[a-z]/i.test(tokens[i])) cmd = tokens[i++];
+    else if (!cmd) break;
+    const rel = cmd !== cmd.toUpperCase();
+    const ox = rel ? x : 0, oy = rel ? y : 0;
+    const upper = cmd.toUpperCase();
+    const smooth = lastCurve === (upper === 'S' ? 'C' : 'Q');
+    switch (upper) {
+      case 'M':
+        x = ox + num(); y = oy + num(); sx = x; sy = y;
+        flush();
+        cmd = rel ? 'l' : 'L';
+        break;
+      case 'L': x = ox + num(); y = oy + num(); pts.push(x, y); break;
+      case 'H': x = ox + num(); pts.push(x, y); break;
+      case 'V': y = oy + num(); pts.push(x, y); break;
+      case 'C': cubic(ox + num(), oy + num(), ox + num(), oy + num(), ox + num(), oy + num()); break;
+      case 'S': cubic(smooth ? 2 * x - cx : x, smooth ? 2 * y - cy : y, ox + num(), oy + num(), ox + num(), oy + num()); break;
+      case 'Q': quad(ox + num(), oy + num(), ox + num(), oy + num()); break;
+      case 'T': quad(smooth ? 2 * x - cx : x, smooth ? 2 * y - cy : y, ox + num(), oy + num()); break;
+      case 'A': arc(num(), num(), num(), flag(), flag(), ox + num(), oy + num()); break;
+      case 'Z':
+        x = sx; y = sy;
+        pts.push(x, y);
+        flush();
+        // Z takes no numbers: stray ones after it end the path
+        cmd = '';
+        break;
+      default: i = tokens.length;
+    }
+    lastCurve = upper === 'C' || upper === 'S' ? 'C' : upper === 'Q' || upper === 'T' ? 'Q' : '';
+  }
+  if (pts.length > 2) out.push(pts);
+  return out;
+}
+
+/**
+ * Deterministic hash of a seed and integer keys into [0, 1). Random access (by
+ * cell, tick, …) lets any frame be drawn without replaying the ones before it.
+ */
+export function seededRandom(seed: number, ...keys: number[]) {
+  let h = (seed | 0) ^ 0x9e3779b9;
+  for (const k of keys) {
+    h = Math.imul(h ^ (k | 0), 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+  }
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import type { AuthClient, AuthSession, SignInInput, SignUpInput } from "@/lib/authClient"
+import { createMockAuthClient, SESSION_KEY } from "@/lib/mockAuthClient"
+import { AuthContext, type AuthStatus } from "@/hooks/use-auth"
+
+type AuthProviderProps = {
+  children: React.ReactNode
+  client?: AuthClient
+}
+
+export function AuthProvider({ children, client: clientProp }: AuthProviderProps) {
+  // default to the in-browser mock backend; created once per provider
+  const [defaultClient] = useState(() => createMockAuthClient())
+  const client = clientProp ?? defaultClient
+  const [session, setSession] = useState<AuthSession | null>(null)
+  const [status, setStatus] = useState<AuthStatus>("loading")
+
+  const refresh = useCallback(async () => {
+    const s = await client.getSession()
+    setSession(s)
+    setStatus(s ? "authenticated" : "anonymous")
+  }, [client])
+
+  useEffect(() => {
+    refresh()
+    // keep tabs in sync when another tab signs in or out
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === null || e.key === SESSION_KEY) refresh()
+    }
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  }, [refresh])
+
+  // expire the session in this tab without waiting for a reload
+  useEffect(() => {
+    if (!session) return
+    const timeout = window.setTimeout(refresh, Math.max(0, session.expiresAt - Date.now()))
+    return () => window.clearTimeout(timeout)
+  }, [session, refresh])
+
+  const value = useMemo(() => ({
+    status,
+    session,
+    signIn: async (input: SignInInput) => {
+      const s = await client.signIn(input)
+      setSession(s)
+      setStatus("authenticated")
+      return s
+    },
+    signUp: async (input: SignUpInput) => {
+      const s = await client.signUp(input)
+      setSession(s)
+      setStatus("authenticated")
+      return s
+    },
+    signOut: async () => {
+      await client.signOut()
+      setSession(null)
+      setStatus("anonymous")
+    },
+  }), [client, session, status])
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  )
+}
@@ -0,0 +1,151 @@
+import { normalizeQuery } from './studioSearch';
+
+/**
+ * Registro de comandos del editor: cada comando tiene un id estable, una
+ * etiqueta para la paleta (Ctrl+K) y atajos por defecto que el usuario puede
+ * cambiar; el keymap del usuario guarda sólo los comandos que ha reasignado.
+ *
+ * Los editores montados forman una pila de ámbitos y sólo el de arriba (el
+ * último con el que se ha interactuado) responde al teclado, así el editor
+ * de la landing y el del estudio nunca reaccionan a la misma tecla.
+ */
+export type CommandDef = { id: string; label: string; group: string; keys: string[] };
+
+/** a command as an editor offers it: whether it applies right now and what it does */
+export type RunnableCommand = CommandDef & { enabled: boolean; run: () => void };
+
+/** command id -> bindings that replace its default keys */
+export type Keymap = Record<string, string[]>;
+
+export const BUILDER_COMMANDS: CommandDef[] = [
+  { id: 'palette.open', label: 'Paleta de comandos', group: 'General', keys: ['Mod+K'] },
+  { id: 'shortcuts.open', label: 'Atajos de teclado', group: 'General', keys: ['?'] },
+  { id: 'history.undo', label: 'Deshacer', group: 'General', keys: ['Mod+Z'] },
+  { id: 'history.redo', label: 'Rehacer', group: 'General', keys: ['Mod+Shift+Z', 'Mod+Y'] },
+  { id: 'selection.clear', label: 'Deseleccionar', group: 'Selección', keys: ['Escape'] },
+  { id: 'selection.allKeyframes', label: 'Seleccionar todos los keyframes', group: 'Selección', keys: ['Mod+A'] },
+  { id: 'keyframes.add', label: 'Añadir keyframe en el cursor a las capas seleccionadas', group: 'Keyframes', keys: ['A'] },
+  { id: 'keyframes.delete', label: 'Borrar keyframes seleccionados', group: 'Keyframes', keys: ['Delete', 'Backspace'] },
+  { id: 'keyframes.nudgeLeft', label: 'Mover keyframes −10ms', group: 'Keyframes', keys: ['ArrowLeft'] },
+  { id: 'keyframes.nudgeRight', label: 'Mover keyframes +10ms', group: 'Keyframes', keys: ['ArrowRight'] },
+  { id: 'keyframes.nudgeLeftBig', label: 'Mover keyframes −100ms', group: 'Keyframes', keys: ['Shift+ArrowLeft'] },
+  { id: 'keyframes.nudgeRightBig', label: 'Mover keyframes +100ms', group: 'Keyframes', keys: ['Shift+ArrowRight'] },
+  { id: 'keyframes.copy', label: 'Copiar keyframes', group: 'Keyframes', keys: ['Mod+C'] },
+  { id: 'keyframes.paste', label: 'Pegar keyframes en el cursor', group: 'Keyframes', keys: ['Mod+V'] },
+  { id: 'keyframes.stretch', label: 'Estirar keyframes ×2', group: 'Keyframes', keys: [] },
+  { id: 'keyframes.squeeze', label: 'Comprimir keyframes ×0.5', group: 'Keyframes', keys: [] },
+  { id: 'keyframes.reverse', label: 'Invertir keyframes', group: 'Keyframes', keys: [] },
+  { id: 'keyframes.align', label: 'Alinear keyframes al cursor', group: 'Keyframes', keys: [] },
+  { id: 'keyframes.distribute', label: 'Distribuir keyframes', group: 'Keyframes', keys: [] },
+  { id: 'playback.toggle', label: 'Reproducir / pausar', group: 'Reproducción', keys: ['Space'] },
+  { id: 'playback.stepBack', label: 'Fotograma anterior', group: 'Reproducción', keys: [','] },
+  { id: 'playback.stepForward', label: 'Fotograma siguiente', group: 'Reproducción', keys: ['.'] },
+  { id: 'playback.toStart', label: 'Ir al inicio', group: 'Reproducción', keys: ['Home'] },
+  { id: 'playback.toEnd', label: 'Ir al final', group: 'Reproducción', keys: ['End'] },
+  { id: 'playback.slower', label: 'Reducir velocidad', group: 'Reproducción', keys: ['<'] },
+  { id: 'playback.faster', label: 'Aumentar velocidad', group: 'Reproducción', keys: ['>'] },
+  { id: 'playback.reverse', label: 'Reproducir al revés', group: 'Reproducción', keys: [] },
+  { id: 'playback.mode', label: 'Cambiar modo: una vez / loop / ping-pong', group: 'Reproducción', keys: [] },
+  { id: 'markers.add', label: 'Añadir marcador en el cursor', group: 'Timeline', keys: ['M'] },
+  { id: 'markers.prev', label: 'Ir al marcador anterior', group: 'Timeline', keys: ['['] },
+  { id: 'markers.next', label: 'Ir al marcador siguiente', group: 'Timeline', keys: [']'] },
+  { id: 'regions.add', label: 'Añadir región (keyframes seleccionados o cursor)', group: 'Timeline', keys: [] },
+  { id: 'loop.setIn', label: 'Entrada del loop en el cursor', group: 'Timeline', keys: ['I'] },
+  { id: 'loop.setOut', label: 'Salida del loop en el cursor', group: 'Timeline', keys: ['O'] },
+  { id: 'loop.clear', label: 'Quitar loop', group: 'Timeline', keys: [] },
+  { id: 'layers.add', label: 'Añadir capa', group: 'Capas', keys: [] },
+  { id: 'layers.addText', label: 'Añadir capa de texto', group: 'Capas', keys: [] },
+  { id: 'layers.addShape', label: 'Añadir forma', group: 'Capas', keys: [] },
+  { id: 'layers.addGroup', label: 'Añadir grupo', group: 'Capas', keys: [] },
+  { id: 'layers.duplicate', label: 'Duplicar capas seleccionadas', group: 'Capas', keys: ['Mod+D'] },
+  // shares Delete with the keyframes: it only runs when no keyframe is selected
+  { id: 'layers.delete', label: 'Borrar capas seleccionadas', group: 'Capas', keys: ['Delete', 'Backspace'] },
+  { id: 'view.timeline', label: 'Mostrar/ocultar timeline', group: 'Vista', keys: [] },
+  { id: 'view.layers', label: 'Mostrar/ocultar capas', group: 'Vista', keys: [] },
+  { id: 'view.onionSkin', label: 'Mostrar/ocultar papel cebolla', group: 'Vista', keys: [] },
+  { id: 'view.motionPaths', label: 'Mostrar/ocultar trayectorias', group: 'Vista', keys: [] },
+  { id: 'view.device', label: 'Cambiar tamaño de la vista previa (escritorio/tablet/móvil)', group: 'Vista', keys: [] },
+  { id: 'view.keyframeGraph', label: 'Keyframes como lista/curvas', group: 'Vista', keys: [] },
+  { id: 'view.zoomIn', label: 'Acercar timeline', group: 'Vista', keys: ['+', '='] },
+  { id: 'view.zoomOut', label: 'Alejar timeline', group: 'Vista', keys: ['-'] },
+];
+
+const MODIFIERS = new Set(['Control', 'Meta', 'Shift', 'Alt', 'AltGraph', 'CapsLock']);
+
+type KeyInput = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>;
+
+/** "Mod+Shift+Z" style combo (Mod = Ctrl or Cmd); null while only modifiers are down */
+export function keyCombo(ev: KeyInput): string | null {
+  if (MODIFIERS.has(ev.key)) return null;
+  let key = ev.key === ' ' ? 'Space' : ev.key;
+  const letter = key.length === 1 && key.toLowerCase() !== key.toUpperCase();
+  if (letter) key = key.toUpperCase();
+  // shifted symbols ('?', '+') already carry the shift
+  const shift = ev.shiftKey && (letter || key.length > 1);
+  return [ev.ctrlKey || ev.metaKey ? 'Mod' : '', ev.altKey ? 'Alt' : '', shift ? 'Shift' : '', key].filter(Boolean).join('+');
+}
+
+const KEY_LABELS: Record<string, string> = { Mod: 'Ctrl', ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓', Escape: 'Esc', Delete: 'Supr' };
+
+export const formatCombo = (combo: string) => combo.split('+').map((part, i, all) => (part === '' && i === all.length - 1 ? '+' : KEY_LABELS[part] ?? part)).filter(Boolean).join('+');
+
+export const bindingsFor = (command: CommandDef, keymap: Keymap) => keymap[command.id] ?? command.keys;
+
+/** commands bound to the combo, in registry order */
+export const commandsForCombo = <C extends CommandDef>(commands: C[], keymap: Keymap, combo: string) =>
+  commands.filter(c => bindingsFor(c, keymap).includes(combo));
+
+/**
+ * Bind `combo` to a command, taking it away from any other command that had it;
+ * entries that end up equal to the defaults are dropped.
+ */
+export function rebind(commands: CommandDef[], keymap: Keymap, id: string, combo: string): Keymap {
+  const next: Keymap = {};
+  commands.forEach(c => {
+    const keys = c.id === id ? [combo] : bindingsFor(c, keymap).filter(k => k !== combo);
+    if (keys.join('\n') !== c.keys.join('\n')) next[c.id] = keys;
+  });
+  return next;
+}
+
+export function resetBinding(keymap: Keymap, id: string): Keymap {
+  const next = { ...keymap };
+  delete next[id];
+  return next;
+}
+
+/** palette filter: every word of the query in the label or the group */
+export function filterCommands<C extends CommandDef>(commands: C[], query: string): C[] {
+  const words = normalizeQuery(query).split(/\s+/).filter(Boolean);
+  return commands.filter(c => {
+    const text = normalizeQuery(`${c.label} ${c.group}`);
+    return words.every(w => text.includes(w));
+  });
+}
+
+export const isKeymap = (value: unknown): value is Keymap =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+  && Object.values(value).every(keys => Array.isArray(keys) && keys.every(k => typeof k === 'string'));
+
+// keyboard scopes of the mounted editors, the active one last
+const scopes: string[] = [];
+
+/** register a scope on top of the stack; returns the function that removes it */
+export function pushScope(id: string) {
+  scopes.push(id);
+  return () => {
+    const i = scopes.lastIndexOf(id);
+    if (i >= 0) scopes.splice(i, 1);
+  };
+}
+
+/** the editor the user just interacted with takes the keyboard */
+export function raiseScope(id: string) {
+  const i = scopes.lastIndexOf(id);
+  if (i >= 0 && i !== scopes.length - 1) {
+    scopes.splice(i, 1);
+    scopes.push(id);
+  }
+}
+
+export const isActiveScope = (id: string) => scopes[scopes.length - 1] === id;
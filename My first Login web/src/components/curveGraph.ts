@@ -0,0 +1,127 @@
+import { clamp, NAMED_EASING_BEZIER, type CubicBezier } from './animationUtils';
+import { evaluateLayer, KEYFRAME_PROPERTIES, LAYER_TYPE_PROPERTIES, type KeyframePoint, type LayerConfig, type NumericProperty } from './animationEngine';
+import { moveKeyframes } from './keyframeOps';
+
+/**
+ * Vista de curvas del editor de keyframes: el valor de cada propiedad en el
+ * tiempo, con los keyframes como puntos y las asas del cubic-bezier de cada
+ * tramo escaladas al tiempo y al valor del tramo. El easing es del keyframe que
+ * cierra el tramo, así que mover un asa cambia ese tramo en todas las
+ * propiedades que terminan en él.
+ */
+export type GraphPoint = { time: number; value: number };
+
+/** visible window: time in ms, value in the property's units (or 0..1 normalized) */
+export type GraphView = { t0: number; t1: number; v0: number; v1: number };
+
+export type ValueRange = { min: number; max: number };
+
+export const PROPERTY_COLORS: Record<NumericProperty, string> = {
+  translate: '#f43f5e', translateX: '#f97316', opacity: '#eab308', scale: '#22c55e', scaleX: '#14b8a6',
+  scaleY: '#06b6d4', rotation: '#6366f1', blur: '#a855f7', reveal: '#ec4899', draw: '#84cc16',
+};
+
+const byTime = (a: KeyframePoint, b: KeyframePoint) => a.time - b.time;
+
+/** numeric properties the layer's type can animate, in panel order */
+export const graphProperties = (layer: LayerConfig) =>
+  KEYFRAME_PROPERTIES.filter(p => p.key !== 'color' && (!LAYER_TYPE_PROPERTIES[p.key] || LAYER_TYPE_PROPERTIES[p.key] === layer.type)) as { key: NumericProperty; label: string; step?: number }[];
+
+/** keyframes that set the property, in time order */
+export const propertyTrack = (layer: LayerConfig, property: NumericProperty) =>
+  layer.keyframes.filter(k => k[property] !== undefined).sort(byTime);
+
+/** lowest and highest keyframed value; a flat track gets ±1 around it so it can be drawn and normalized */
+export function trackRange(layer: LayerConfig, property: NumericProperty): ValueRange {
+  const values = propertyTrack(layer, property).map(k => k[property] as number);
+  if (!values.length) return { min: -1, max: 1 };
+  const min = Math.min(...values), max = Math.max(...values);
+  return max > min ? { min, max } : { min: min - 1, max: max + 1 };
+}
+
+/** the value the engine plays, sampled over [t0, t1] */
+export function sampleCurve(layer: LayerConfig, property: NumericProperty, t0: number, t1: number, samples = 160): GraphPoint[] {
+  return Array.from({ length: samples + 1 }, (_, i) => {
+    const time = t0 + (t1 - t0) * i / samples;
+    return { time, value: evaluateLayer(layer, time)?.[property] ?? 0 };
+  });
+}
+
+// the segment's curve as a cubic-bezier; springs, steps and the like have none
+const bezierOf = (k: KeyframePoint): CubicBezier | null => k.bezier ?? NAMED_EASING_BEZIER[k.easing || 'linear'] ?? null;
+
+/**
+ * Tangent handles of the segment from `prev` to `next`: the control points
+ * scaled to the segment's span. Null when the segment is flat (every curve
+ * looks the same) or its easing isn't a bezier.
+ */
+export function segmentHandles(prev: KeyframePoint, next: KeyframePoint, property: NumericProperty): [GraphPoint, GraphPoint] | null {
+  const bezier = bezierOf(next);
+  const v0 = prev[property], v1 = next[property];
+  if (!bezier || v0 === undefined || v1 === undefined || v1 === v0 || next.time <= prev.time) return null;
+  const at = (x: number, y: number) => ({ time: prev.time + x * (next.time - prev.time), value: v0 + y * (v1 - v0) });
+  return [at(bezier[0], bezier[1]), at(bezier[2], bezier[3])];
+}
+
+/**
+ * The bezier with one handle moved to `point`: x stays inside the segment,
+ * y within the range the curve editor allows, both to 0.01.
+ */
+export function bezierFromHandle(prev: KeyframePoint, next: KeyframePoint, property: NumericProperty, handle: 0 | 1, point: GraphPoint): CubicBezier | null {
+  const bezier = bezierOf(next);
+  const v0 = prev[property], v1 = next[property];
+  if (!bezier || v0 === undefined || v1 === undefined || v1 === v0 || next.time <= prev.time) return null;
+  const r2 = (v: number) => Math.round(v * 100) / 100;
+  const out = [...bezier] as CubicBezier;
+  out[handle * 2] = r2(clamp((point.time - prev.time) / (next.time - prev.time), 0, 1));
+  out[handle * 2 + 1] = r2(clamp((point.value - v0) / (v1 - v0), -1, 2));
+  return out;
+}
+
+/** a view around the points with `padding` of the span on every side; a single time or value gets a minimum span */
+export function fitView(points: GraphPoint[], { padding = 0.1, minTime = 100, minValue = 1 } = {}): GraphView | null {
+  if (!points.length) return null;
+  let t0 = Math.min(...points.map(p => p.time)), t1 = Math.max(...points.map(p => p.time));
+  let v0 = Math.min(...points.map(p => p.value)), v1 = Math.max(...points.map(p => p.value));
+  if (t1 - t0 < minTime) { const c = (t0 + t1) / 2; t0 = c - minTime / 2; t1 = c + minTime / 2; }
+  if (v1 - v0 < minValue) { const c = (v0 + v1) / 2; v0 = c - minValue / 2; v1 = c + minValue / 2; }
+  const pt = (t1 - t0) * padding, pv = (v1 - v0) * padding;
+  return { t0: t0 - pt, t1: t1 + pt, v0: v0 - pv, v1: v1 + pv };
+}
+
+/** scale the view by `factor` (< 1 zooms in) around `anchor`, on one axis or both */
+export function zoomView(view: GraphView, factor: number, anchor: GraphPoint, axis: 'time' | 'value' | 'both' = 'both'): GraphView {
+  const time = axis !== 'value', value = axis !== 'time';
+  return {
+    t0: time ? anchor.time - (anchor.time - view.t0) * factor : view.t0,
+    t1: time ? anchor.time + (view.t1 - anchor.time) * factor : view.t1,
+    v0: value ? anchor.value - (anchor.value - view.v0) * factor : view.v0,
+    v1: value ? anchor.value + (view.v1 - anchor.value) * factor : view.v1,
+  };
+}
+
+/** grid spacing near `span / count`: 1, 2 or 5 times a power of ten */
+export function niceStep(span: number, count = 5) {
+  const raw = Math.abs(span) / count || 1;
+  const power = 10 ** Math.floor(Math.log10(raw));
+  const m = raw / power;
+  return (m < 1.5 ? 1 : m < 3.5 ? 2 : m < 7.5 ? 5 : 10) * power;
+}
+
+export const panView = (view: GraphView, dt: number, dv: number): GraphView =>
+  ({ t0: view.t0 + dt, t1: view.t1 + dt, v0: view.v0 + dv, v1: view.v1 + dv });
+
+/**
+ * Drag keyframes of one layer from their `origins`: the times move together
+ * (stopping at the timeline ends) and, on the keyframes that set `property`,
+ * the value moves by `dv`.
+ */
+export function dragGraphKeyframes(layers: LayerConfig[], layerId: string, origins: { kfId: string; time: number; value?: number }[], property: NumericProperty, dt: number, dv: number, duration: number): LayerConfig[] {
+  const moved = dt ? moveKeyframes(layers, origins.map(o => ({ ref: { layerId, kfId: o.kfId }, time: o.time })), dt, duration) : layers;
+  if (!dv) return moved;
+  const values = new Map(origins.filter(o => o.value !== undefined).map(o => [o.kfId, o.value as number]));
+  return moved.map(l => (l.id !== layerId ? l : {
+    ...l,
+    keyframes: l.keyframes.map(k => (values.has(k.id) ? { ...k, [property]: Math.round((values.get(k.id)! + dv) * 1000) / 1000 } : k)),
+  }));
+}
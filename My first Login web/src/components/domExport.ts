@@ -0,0 +1,541 @@
+import { NAMED_EASING_BEZIER, formatCubicBezier, parseEasingSpec } from './animationUtils';
+import { breakpointsOf, easingFor, engineRuntimeSource, evaluateLayer, playbackOf, resolveResponsive, staggerProgress, textTokens, walkLayers, type AnimationConfig, type Breakpoint, type GradientConfig, type KeyframePoint, type LayerConfig, type LayerState, type ShapeConfig } from './animationEngine';
+
+/**
+ * Exportadores a DOM nativo: CSS @keyframes y Web Animations API. Cada capa se
+ * anima con transform/opacity/filter (compositables por GPU) en lugar de
+ * redibujar un canvas. Los grupos son contenedores anidados, así que sus
+ * transformaciones y opacidad se componen igual que en el editor; el texto se
+ * parte en <span> por palabra o letra, cada uno con su propia animación, y las
+ * formas son SVG en línea cuyo trazo se dibuja con stroke-dashoffset. Los
+ * efectos (LetterGlitch, TrueFocus) no caben en CSS: son un <canvas> que el
+ * script WAAPI pinta con el mismo motor, siguiendo la animación de su capa.
+ * Los marcadores de la timeline llegan al script WAAPI como eventos del escenario.
+ * La velocidad, el modo y el sentido de reproducción pasan a la duración, el
+ * número de iteraciones y la dirección de la animación; se repite la timeline
+ * entera, porque las animaciones nativas no tienen un rango de loop.
+ * Con overrides por breakpoint el escenario se encoge hasta el ancho disponible
+ * y cada breakpoint cambia lo que difiere del más ancho: el layout con media
+ * queries (o container queries sobre el escenario), las @keyframes con otro
+ * animation-name y, en el script WAAPI, los keyframes de cada animación.
+ */
+export type DomExportOptions = {
+  /** stage size in px; layout percentages and translate px are relative to it */
+  width: number;
+  height: number;
+  /** drive the animation by the stage's view timeline instead of time */
+  scroll?: boolean;
+  /** what breakpoint widths are measured on: the viewport (media queries, default) or the stage (container queries) */
+  queries?: 'media' | 'container';
+};
+
+export type DomKeyframe = { offset: number; easing: string; style: Record<string, string> };
+
+/** an animated element: a layer, one unit of a staggered text layer or the stroke of a shape */
+export type DomAnimation = { className: string; keyframes: DomKeyframe[] };
+
+export type DomLayer = { layer: LayerConfig; className: string; keyframes: DomKeyframe[]; parentId: string | null; units: DomAnimation[] };
+
+const LINEAR_SAMPLES = 40;
+// samples of the text reveal per unit; each unit's opacity is piecewise linear in between
+const STAGGER_SAMPLES = 24;
+const r3 = (v: number) => Math.round(v * 1000) / 1000;
+
+/**
+ * CSS timing function for the segment that ends at `kf`. Curves CSS can name
+ * exactly become cubic-bezier()/steps(); the rest (spring, bounce, elastic and
+ * the engine's 'ease') are sampled into linear().
+ */
+export function easingToCss(kf: KeyframePoint): string {
+  if (kf.bezier) return formatCubicBezier(kf.bezier);
+  const { name, args } = parseEasingSpec(kf.easing || 'linear');
+  if (name === 'linear' || name === '') return 'linear';
+  if (name === 'ease-in' || name === 'ease-out') return formatCubicBezier(NAMED_EASING_BEZIER[name]);
+  if (name === 'steps') {
+    const n = Math.max(1, Math.floor(Number(args[0])) || 1);
+    const pos = args[1] === 'start' ? 'jump-start' : args[1] === 'end' || !args[1] ? 'jump-end' : args[1];
+    return `steps(${n}, ${pos})`;
+  }
+  const ease = easingFor(kf);
+  return `linear(${Array.from({ length: LINEAR_SAMPLES + 1 }, (_, i) => r3(ease(i / LINEAR_SAMPLES))).join(', ')})`;
+}
+
+const slug = (s: string) => s.toLowerCase().normalize('NFD').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const layerClassName = (layer: LayerConfig, index: number) => `ab-${slug(layer.label) || 'layer'}-${index}`;
+
+const unitClassName = (className: string, index: number) => `${className}-u${index}`;
+
+const drawClassName = (className: string) => `${className}-draw`;
+
+const isEffect = (layer: LayerConfig) => layer.type === 'glitch' || layer.type === 'focus';
+
+/**
+ * The layer as its canvas draws it: filling the element, which already carries
+ * the transform, opacity and blur; only its color track is left to the engine.
+ */
+const effectCanvasLayer = (layer: LayerConfig): LayerConfig => ({
+  ...layer,
+  parentId: null,
+  x: 50,
+  y: 50,
+  w: 100,
+  h: 100,
+  keyframes: layer.keyframes.map(({ id, time, color, easing, bezier }) => ({ id, time, translate: 0, opacity: 1, color, easing, bezier })),
+});
+
+const styleOf = (layer: LayerConfig, s: LayerState, animated: Set<string>): Record<string, string> => {
+  const style: Record<string, string> = {
+    transform: `translate(${r3(s.translateX)}px, ${r3(s.translate)}px) rotate(${r3(s.rotation)}deg) scale(${r3(s.scale * s.scaleX)}, ${r3(s.scale * s.scaleY)})`,
+    opacity: String(r3(s.opacity)),
+  };
+  if (animated.has('blur')) style.filter = `blur(${r3(s.blur)}px)`;
+  // colors are written as hex, so browsers interpolate them in sRGB (the editor mixes in OKLab)
+  // text and shape fills use currentColor
+  if (animated.has('color') && !layer.image && layer.type !== 'group' && !isEffect(layer)) style[layer.type === 'text' || layer.type === 'shape' ? 'color' : 'backgroundColor'] = s.color;
+  return style;
+};
+
+// the engine holds the first/last values outside the keyframe range
+function holdEnds(frames: DomKeyframe[]) {
+  if (frames[0].offset > 0) frames.unshift({ ...frames[0], offset: 0, easing: 'linear' });
+  if (frames[frames.length - 1].offset < 1) frames.push({ ...frames[frames.length - 1], offset: 1, easing: 'linear' });
+  return frames;
+}
+
+/**
+ * Keyframes of a layer on a 0..1 offset scale. Sparse optional tracks are
+ * resampled at every keyframe time so each block defines every property; values
+ * are exact at keyframe times and each segment uses the easing of its end keyframe.
+ */
+export function layerDomKeyframes(layer: LayerConfig, timelineDuration: number): DomKeyframe[] {
+  if (layer.keyframes.length === 0) return [];
+  const animated = new Set(layer.keyframes.flatMap(k => (['blur', 'color'] as const).filter(p => k[p] !== undefined)));
+  const times = [...new Set(layer.keyframes.map(k => k.time))].sort((a, b) => a - b);
+  const duration = timelineDuration || 1;
+  const frames: DomKeyframe[] = times.map((time, i) => {
+    const next = layer.keyframes.find(k => k.time === times[i + 1]);
+    return {
+      offset: r3(Math.min(1, Math.max(0, time / duration))),
+      easing: next ? easingToCss(next) : 'linear',
+      style: styleOf(layer, evaluateLayer(layer, time)!, animated),
+    };
+  });
+  return holdEnds(frames);
+}
+
+/**
+ * Keyframes of every unit of a text layer, sampled over the span of its reveal
+ * track. A text without reveal keyframes is fully shown and gets none.
+ */
+export function textUnitKeyframes(layer: LayerConfig, timelineDuration: number): DomKeyframe[][] {
+  const text = layer.text;
+  const track = layer.keyframes.filter(k => k.reveal !== undefined).map(k => k.time);
+  if (!text || track.length === 0) return [];
+  const first = track[0], last = track[track.length - 1];
+  const times = [...new Set([...track, ...Array.from({ length: STAGGER_SAMPLES + 1 }, (_, j) => first + (last - first) * j / STAGGER_SAMPLES)])].sort((a, b) => a - b);
+  const count = textTokens(text.content, text.stagger).filter(t => t.unit).length;
+  const duration = timelineDuration || 1;
+  return Array.from({ length: count }, (_, i) => holdEnds(times.map(time => {
+    const p = staggerProgress(evaluateLayer(layer, time)!.reveal, i, count, text.spread);
+    return {
+      offset: r3(Math.min(1, Math.max(0, time / duration))),
+      easing: 'linear',
+      style: { opacity: String(r3(p)), transform: `translateY(${r3((1 - p) * text.offsetY)}px)` },
+    };
+  })));
+}
+/**
+ * Keyframes of the stroke of a shape layer: with pathLength="1" and a "1 1" dash
+ * array, a dash offset of 1 - draw shows that fraction of the outline. A shape
+ * without draw keyframes keeps its whole stroke and gets none.
+ */
+export function shapeDrawKeyframes(layer: LayerConfig, timelineDuration: number): DomKeyframe[] {
+  const track = layer.keyframes.filter(k => k.draw !== undefined);
+  if (layer.type !== 'shape' || track.length === 0) return [];
+  const duration = timelineDuration || 1;
+  return holdEnds(track.map((k, i) => ({
+    offset: r3(Math.min(1, Math.max(0, k.time / duration))),
+    easing: track[i + 1] ? easingToCss(track[i + 1]) : 'linear',
+    style: { strokeDashoffset: String(r3(1 - Math.min(1, Math.max(0, k.draw!)))) },
+  })));
+}
+
+/**
+ * Visible layers with keyframes in paint order (same filter as evaluateScene),
+ * plus the visible groups that contain them; a group without keyframes is static.
+ */
+export const domLayers = (config: AnimationConfig): DomLayer[] =>
+  walkLayers(config.layers)
+    .filter(({ layer, parents }) => layer.visible && parents.every(p => p.visible) && (layer.type === 'group' || layer.keyframes.length > 0))
+    .map(({ layer, parents }) => {
+      const className = layerClassName(layer, config.layers.indexOf(layer));
+      return {
+        layer,
+        className,
+        keyframes: layerDomKeyframes(layer, config.timelineDuration),
+        parentId: parents.length ? parents[parents.length - 1].id : null,
+        units: [
+          ...textUnitKeyframes(layer, config.timelineDuration).map((keyframes, i) => ({ className: unitClassName(className, i), keyframes })),
+          ...[shapeDrawKeyframes(layer, config.timelineDuration)].filter(k => k.length).map(keyframes => ({ className: drawClassName(className), keyframes })),
+        ],
+      };
+    });
+
+// layers and text units that actually animate, in markup order
+const domAnimations = (config: AnimationConfig): DomAnimation[] =>
+  domLayers(config).flatMap(({ className, keyframes, units }) => [...(keyframes.length ? [{ className, keyframes }] : []), ...units]);
+
+/**
+ * The config as it plays at each breakpoint, widest first, each one including
+ * the wider ones like the cascade of the emitted queries. Empty when no layer
+ * has overrides, so those exports don't change.
+ */
+const responsiveSteps = (config: AnimationConfig): { breakpoint: Breakpoint; config: AnimationConfig }[] =>
+  config.layers.some(l => l.responsive) ? breakpointsOf(config).map(breakpoint => ({ breakpoint, config: resolveResponsive(config, breakpoint.maxWidth) })) : [];
+
+const queryOf = (breakpoint: Breakpoint, queries: DomExportOptions['queries']) =>
+  `@${queries === 'container' ? 'container' : 'media'} (max-width: ${breakpoint.maxWidth}px)`;
+
+/** animations that differ at each breakpoint from what the wider ones leave, with their breakpoint; steps without changes are left out */
+function responsiveAnimations(config: AnimationConfig) {
+  let previous = new Map(domAnimations(config).map(a => [a.className, JSON.stringify(a.keyframes)]));
+  return responsiveSteps(config).map(({ breakpoint, config: at }) => {
+    const changed = domAnimations(at).filter(a => previous.get(a.className) !== JSON.stringify(a.keyframes));
+    previous = new Map([...previous, ...changed.map(a => [a.className, JSON.stringify(a.keyframes)] as const)]);
+    return { breakpoint, animations: changed };
+  }).filter(step => step.animations.length);
+}
+
+const kebab = (prop: string) => prop.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+const escapeHtml = (s: string) => s.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+// gradient spanning `box` ([x, y, w, h] in user units, or the bounding box when null), like the engine's
+function gradientMarkup(id: string, g: GradientConfig, box: ShapeConfig['viewBox'] | null) {
+  const [bx, by, bw, bh] = box ?? [0, 0, 1, 1];
+  const units = box ? 'userSpaceOnUse' : 'objectBoundingBox';
+  const stops = g.stops.map(s => `<stop offset="${r3(s.offset)}" stop-color="${escapeHtml(s.color)}" />`).join('');
+  if (g.type === 'radial') {
+    return `<radialGradient id="${id}" gradientUnits="${units}" cx="0" cy="0" r="1" gradientTransform="translate(${r3(bx + bw / 2)} ${r3(by + bh / 2)}) scale(${r3(bw / 2)} ${r3(bh / 2)})">${stops}</radialGradient>`;
+  }
+  const t = g.angle * Math.PI / 180, dx = Math.cos(t) * bw / 2, dy = Math.sin(t) * bh / 2;
+  const cx = bx + bw / 2, cy = by + bh / 2;
+  return `<linearGradient id="${id}" gradientUnits="${units}" x1="${r3(cx - dx)}" y1="${r3(cy - dy)}" x2="${r3(cx + dx)}" y2="${r3(cy + dy)}">${stops}</linearGradient>`;
+}
+
+/** inline SVG of a shape layer; the fill is currentColor so color keyframes reach it */
+function shapeMarkup(layer: LayerConfig, className: string, animatedDraw: boolean) {
+  const shape = layer.shape!;
+  const gradientId = `${className}-fill`;
+  let svgAttrs = '', element: string, box: ShapeConfig['viewBox'] | null = null;
+  if (shape.kind === 'path') {
+    if (shape.viewBox) {
+      svgAttrs = ` viewBox="${shape.viewBox.join(' ')}"`;
+      box = shape.viewBox;
+    }
+    element = `<path d="${escapeHtml(shape.path ?? '')}"`;
+  } else if (shape.kind === 'polygon') {
+    // the box is 0..100 on both axes; strokes keep their px width when it stretches
+    const n = Math.max(3, Math.round(shape.sides ?? 6));
+    const points = Array.from({ length: n }, (_, i) => {
+      const t = -Math.PI / 2 + 2 * Math.PI * i / n;
+      return `${r3(50 + 50 * Math.cos(t))},${r3(50 + 50 * Math.sin(t))}`;
+    });
+    svgAttrs = ' viewBox="0 0 100 100" preserveAspectRatio="none"';
+    box = [0, 0, 100, 100];
+    element = `<polygon points="${points.join(' ')}" vector-effect="non-scaling-stroke"`;
+  } else if (shape.kind === 'ellipse') {
+    element = '<ellipse cx="50%" cy="50%" rx="50%" ry="50%"';
+  } else {
+    element = `<rect width="100%" height="100%" rx="${shape.radius ?? 0}"`;
+  }
+  const gradient = shape.gradient && shape.gradient.stops.length ? shape.gradient : null;
+  const fill = gradient ? `url(#${gradientId})` : shape.fill ? 'currentColor' : 'none';
+  let paint = ` fill="${fill}"`;
+  if (shape.stroke && shape.strokeWidth > 0) {
+    paint += ` stroke="${escapeHtml(shape.stroke)}" stroke-width="${shape.strokeWidth}"`;
+    if (animatedDraw) paint += ` pathLength="1" stroke-dasharray="1 1" class="${drawClassName(className)}"`;
+  }
+  const defs = gradient ? `<defs>${gradientMarkup(gradientId, gradient, box)}</defs>` : '';
+  return `<svg class="${className}"${svgAttrs}>${defs}${element}${paint} /></svg>`;
+}
+
+// what a breakpoint can change in a layer's rule: where its box is, or a group's pivot
+function boxStyle(layer: LayerConfig): Record<string, string> {
+  if (layer.type === 'group') return { transformOrigin: `${layer.x ?? 50}% ${layer.y ?? 50}%` };
+  const w = layer.w ?? 60, h = layer.h ?? 30;
+  return { left: `${r3((layer.x ?? 50) - w / 2)}%`, top: `${r3((layer.y ?? 50) - h / 2)}%`, width: `${w}%`, height: `${h}%` };
+}
+
+// box changes of each breakpoint, inside its query
+function responsiveLayoutCss(config: AnimationConfig, queries: DomExportOptions['queries']) {
+  const previous = new Map(domLayers(config).map(({ layer, className }) => [className, boxStyle(layer)]));
+  return responsiveSteps(config).flatMap(({ breakpoint, config: at }) => {
+    const rules = domLayers(at).flatMap(({ layer, className }) => {
+      const box = boxStyle(layer), before = previous.get(className);
+      previous.set(className, box);
+      const changed = Object.entries(box).filter(([p, v]) => before?.[p] !== v);
+      return changed.length ? [`  .${className} {\n${changed.map(([p, v]) => `    ${kebab(p)}: ${v};`).join('\n')}\n  }`] : [];
+    });
+    return rules.length ? [`${queryOf(breakpoint, queries)} {\n${rules.join('\n\n')}\n}`] : [];
+  });
+}
+
+/** stage and layer box rules shared by the CSS and WAAPI exports */
+export function generateLayoutCss(config: AnimationConfig, { width, height, scroll, queries }: DomExportOptions) {
+  const rules = domLayers(config).map(({ layer, className }) => {
+    // groups cover the stage, so their children keep stage-relative layout
+    if (layer.type === 'group') {
+      return `.${className} {
+  position: absolute;
+  inset: 0;
+  transform-origin: ${layer.x ?? 50}% ${layer.y ?? 50}%;
+  will-change: transform, opacity;
+}`;
+    }
+    const w = layer.w ?? 60, h = layer.h ?? 30;
+    if (isEffect(layer)) {
+      return `/* drawn by the WAAPI script; with CSS alone the canvas stays empty */
+.${className} {
+  position: absolute;
+  left: ${r3((layer.x ?? 50) - w / 2)}%;
+  top: ${r3((layer.y ?? 50) - h / 2)}%;
+  width: ${w}%;
+  height: ${h}%;
+  display: block;
+  will-change: transform, opacity;
+}`;
+    }
+    if (layer.type === 'shape') {
+      return `.${className} {
+  position: absolute;
+  left: ${r3((layer.x ?? 50) - w / 2)}%;
+  top: ${r3((layer.y ?? 50) - h / 2)}%;
+  width: ${w}%;
+  height: ${h}%;
+  overflow: visible;
+  color: ${layer.color};
+  will-change: transform, opacity;
+}`;
+    }
+    if (layer.type === 'text' && layer.text) {
+      const t = layer.text;
+      return `.${className} {
+  position: absolute;
+  left: ${r3((layer.x ?? 50) - w / 2)}%;
+  top: ${r3((layer.y ?? 50) - h / 2)}%;
+  width: ${w}%;
+  height: ${h}%;
+  display: flex;
+  align-items: center;
+  color: ${layer.color};
+  font: ${t.fontWeight} ${t.fontSize}px ${t.fontFamily};
+  line-height: 1.2;
+  will-change: transform, opacity;
+}
+
+.${className} > p {
+  width: 100%;
+  margin: 0;
+  text-align: ${t.align};
+  white-space: pre-wrap;
+}
+
+.${className} span {
+  display: inline-block;
+}`;
+    }
+    return `.${className} {
+  position: absolute;
+  left: ${r3((layer.x ?? 50) - w / 2)}%;
+  top: ${r3((layer.y ?? 50) - h / 2)}%;
+  width: ${w}%;
+  height: ${h}%;
+${layer.image ? '  object-fit: contain;\n' : `  background-color: ${layer.color};\n  display: grid;\n  place-items: center;\n  color: #000;\n  font: 10px sans-serif;\n`}  will-change: transform, opacity;
+}`;
+  });
+  const responsive = responsiveLayoutCss(config, queries);
+  // with breakpoints the stage keeps its proportions down to narrower screens
+  const size = responsive.length
+    ? `  width: min(100%, ${width}px);\n  aspect-ratio: ${width} / ${height};${queries === 'container' ? '\n  container-type: inline-size;' : ''}`
+    : `  width: ${width}px;\n  height: ${height}px;`;
+  return `.ab-stage {
+  position: relative;
+${size}
+  overflow: hidden;
+  background: #000;${scroll ? '\n  /* the layers follow this element through the viewport */\n  view-timeline: --ab-stage block;' : ''}
+}
+
+${[...rules, ...responsive].join('\n\n')}
+`;
+}
+
+/** iteration count and direction for the playback settings; ping-pong alternates */
+function domPlayback(config: AnimationConfig) {
+  const { rate, mode, reverse } = playbackOf(config);
+  const direction = mode === 'pingpong' ? (reverse ? 'alternate-reverse' : 'alternate') : reverse ? 'reverse' : 'normal';
+  return { rate, infinite: mode !== 'once', direction };
+}
+
+/** CSS file: layout rules plus one @keyframes per layer */
+export function generateCssKeyframes(config: AnimationConfig, options: DomExportOptions) {
+  const { rate, infinite, direction } = domPlayback(config);
+  const keyframesRule = (name: string, keyframes: DomKeyframe[]) => {
+    const frames = keyframes.map(f => {
+      const decls = Object.entries(f.style).map(([p, v]) => `    ${kebab(p)}: ${v};`);
+      if (f.offset < 1) decls.push(`    animation-timing-function: ${f.easing};`);
+      return `  ${r3(f.offset * 100)}% {\n${decls.join('\n')}\n  }`;
+    });
+    return `@keyframes ${name} {\n${frames.join('\n')}\n}`;
+  };
+  const blocks = domAnimations(config).map(({ className, keyframes }) => {
+    const timing = options.scroll
+      // animation-timeline must come after the shorthand, which resets it
+      ? `  animation: ${className}-kf auto linear both;\n  animation-timeline: --ab-stage;\n  animation-range: cover 0% cover 100%;`
+      : `  animation: ${[`${className}-kf`, `${r3(config.timelineDuration / rate)}ms`, 'linear', infinite ? 'infinite' : '', direction !== 'normal' ? direction : '', 'both'].filter(Boolean).join(' ')};`;
+    return `${keyframesRule(`${className}-kf`, keyframes)}\n\n.${className} {\n${timing}\n}`;
+  });
+  // a breakpoint swaps in its own @keyframes; the timing stays
+  const responsive = responsiveAnimations(config).map(({ breakpoint, animations }) => {
+    const name = (className: string) => `${className}-kf-${slug(breakpoint.id) || 'bp'}`;
+    const rules = animations.map(({ className }) => `  .${className} {\n    animation-name: ${name(className)};\n  }`);
+    return `${animations.map(a => keyframesRule(name(a.className), a.keyframes)).join('\n\n')}\n\n${queryOf(breakpoint, options.queries)} {\n${rules.join('\n\n')}\n}`;
+  });
+  return `/* generated by AnimationBuilder */\n${generateLayoutCss(config, options)}\n${[...blocks, ...responsive].join('\n\n')}\n`;
+}
+
+/** stage markup matching the generated class names; groups wrap their children */
+export function generateMarkup(config: AnimationConfig) {
+  const layers = domLayers(config);
+  const render = (parentId: string | null, indent: string): string[] =>
+    layers.filter(l => l.parentId === parentId).flatMap(({ layer, className, units }) => {
+      if (isEffect(layer)) return [`${indent}<canvas class="${className}" aria-label="${escapeHtml(layer.label)}"></canvas>`];
+      if (layer.type === 'shape' && layer.shape) return [`${indent}${shapeMarkup(layer, className, units.length > 0)}`];
+      if (layer.type === 'group') return [`${indent}<div class="${className}">`, ...render(layer.id, `${indent}  `), `${indent}</div>`];
+      if (layer.type === 'text' && layer.text) {
+        let unit = 0;
+        const html = textTokens(layer.text.content, layer.text.stagger).map(t => (t.unit ? `<span class="${unitClassName(className, unit++)}">${escapeHtml(t.text)}</span>` : escapeHtml(t.text))).join('');
+        return [`${indent}<div class="${className}"><p>${html}</p></div>`];
+      }
+      return [layer.image
+        ? `${indent}<img class="${className}" src="${escapeHtml(layer.image)}" alt="${escapeHtml(layer.label)}" />`
+        : `${indent}<div class="${className}">${escapeHtml(layer.label)}</div>`];
+    });
+  return `<div class="ab-stage">\n${render(null, '  ').join('\n')}\n</div>`;
+}
+
+/** script calling element.animate() for every layer of the markup above */
+export function generateWaapiScript(config: AnimationConfig, { scroll, queries }: Pick<DomExportOptions, 'scroll' | 'queries'>) {
+  const waapiKeyframes = (keyframes: DomKeyframe[]) => keyframes.map(f => ({ offset: f.offset, easing: f.easing, ...f.style }));
+  const animations = domAnimations(config).map(({ className, keyframes }) => ({
+    selector: `.${className}`,
+    keyframes: waapiKeyframes(keyframes),
+  }));
+  const breakpoints = responsiveAnimations(config).map(({ breakpoint, animations }) => ({
+    maxWidth: breakpoint.maxWidth,
+    keyframes: Object.fromEntries(animations.map(a => [`.${a.className}`, waapiKeyframes(a.keyframes)])),
+  }));
+  const effects = domLayers(config).filter(({ layer }) => isEffect(layer)).map(({ layer, className }) => ({ selector: `.${className}`, layer: effectCanvasLayer(layer) }));
+  const markers = (config.markers ?? []).map(m => ({ name: m.label, time: m.time })).sort((a, b) => a.time - b.time);
+  const { rate, infinite, direction } = domPlayback(config);
+  const timing = [rate !== 1 ? `duration: duration / ${rate}` : 'duration', "fill: 'both'", infinite ? 'iterations: Infinity' : '', direction !== 'normal' ? `direction: '${direction}'` : ''].filter(Boolean).join(', ');
+  // which way each iteration plays the timeline
+  const forward = { normal: '() => true', reverse: '() => false', alternate: 'i => i % 2 === 0', 'alternate-reverse': 'i => i % 2 === 1' }[direction];
+  return `// generated by AnimationBuilder
+const duration = ${config.timelineDuration};
+const animations = ${JSON.stringify(animations, null, 2)};
+const stage = document.querySelector('.ab-stage');
+${scroll
+    ? `// scroll-driven: progress follows the stage through the viewport (falls back to time)
+const timeline = 'ViewTimeline' in window ? new ViewTimeline({ subject: stage, axis: 'block' }) : undefined;`
+    : 'const timeline = undefined;'}
+const players = animations.map(({ selector, keyframes }) =>
+  stage.querySelector(selector).animate(keyframes, timeline ? { timeline, fill: 'both' } : { ${timing} })
+);
+${breakpoints.length ? `
+// breakpoints, widest first: up to each width the animations listed play those keyframes (the narrowest that fits wins)
+const breakpoints = ${JSON.stringify(breakpoints, null, 2)};
+const fitBreakpoints = () => {
+  const width = ${queries === 'container' ? 'stage.clientWidth' : 'window.innerWidth'};
+  players.forEach((player, i) => {
+    const { selector, keyframes } = animations[i];
+    player.effect.setKeyframes(breakpoints.reduce((current, b) => (width <= b.maxWidth && b.keyframes[selector] ? b.keyframes[selector] : current), keyframes));
+  });
+};
+fitBreakpoints();
+${queries === 'container' ? 'new ResizeObserver(fitBreakpoints).observe(stage);' : "window.addEventListener('resize', fitBreakpoints);"}
+` : ''}${markers.length ? `
+// markers: the stage dispatches an "animationmarker" event ({ detail: { name, time } }) as the animation passes each one,
+// in either direction when it plays backwards or scrolls back
+const markers = ${JSON.stringify(markers, null, 2)};
+if (players.length) {
+  const forward = ${forward};
+  // markers met going from one time to another, in that order; the end one only when a pass ends on it
+  const passed = (from, to, inclusive) => to >= from
+    ? markers.filter(m => m.time >= from && (m.time < to || (inclusive && m.time === to)))
+    : markers.filter(m => m.time <= from && (m.time > to || (inclusive && m.time === to))).reverse();
+  let iteration = 0;
+  let last = forward(0) ? 0 : duration;
+  const watch = () => {
+    const computed = players[0].effect.getComputedTiming();
+    const time = (computed.progress ?? 0) * duration;
+    const current = computed.currentIteration ?? iteration;
+    const edge = i => (forward(i) ? duration : 0);
+    // a new iteration: finish the pass it was on, then start this one from its first edge
+    const list = current !== iteration
+      ? [...passed(last, edge(iteration)), ...passed(duration - edge(current), time, time === edge(current))]
+      : time !== last ? passed(last, time, time === edge(current)) : [];
+    list.forEach(m => stage.dispatchEvent(new CustomEvent('animationmarker', { bubbles: true, detail: m })));
+    iteration = current;
+    last = time;
+    requestAnimationFrame(watch);
+  };
+  requestAnimationFrame(watch);
+}
+` : ''}${effects.length ? `
+// LetterGlitch / TrueFocus layers: the editor's engine draws them at their own animation's progress
+const engine = ${engineRuntimeSource()};
+const effects = ${JSON.stringify(effects, null, 2)};
+effects.forEach(({ selector, layer }) => {
+  const canvas = stage.querySelector(selector);
+  const player = players[animations.findIndex(a => a.selector === selector)];
+  const ctx = canvas.getContext('2d');
+  const frame = () => {
+    const dpr = window.devicePixelRatio || 1;
+    const w = canvas.clientWidth, h = canvas.clientHeight;
+    if (canvas.width !== Math.round(w * dpr) || canvas.height !== Math.round(h * dpr)) {
+      canvas.width = Math.round(w * dpr);
+      canvas.height = Math.round(h * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    const progress = player ? player.effect.getComputedTiming().progress ?? 0 : 0;
+    engine.drawScene(ctx, { timelineDuration: duration, layers: [layer] }, progress * duration, w, h);
+    requestAnimationFrame(frame);
+  };
+  requestAnimationFrame(frame);
+});
+` : ''}export default players;
+`;
+}
+
+/** self-contained page: layout CSS + markup + WAAPI script */
+export function generateWaapiHtml(config: AnimationConfig, options: DomExportOptions) {
+  const spacer = options.scroll ? '\n  <div style="height: 100vh"></div>' : '';
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width,initial-scale=1" />
+  <title>Animation (Web Animations API)</title>
+  <style>
+body { margin: 0; min-height: 100vh; display: grid; place-items: center; background: #0b1220; }
+${generateLayoutCss(config, options)}  </style>
+</head>
+<body>${spacer}
+${generateMarkup(config)}${spacer}
+  <script type="module">
+${generateWaapiScript(config, options)}  </script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,131 @@
+import { drawScene, type AnimationConfig, type EngineImages } from './animationEngine';
+import { createGifEncoder } from '@/lib/gifEncoder';
+
+/**
+ * Render offline de la timeline: cada frame se pinta con el mismo drawScene que
+ * el preview en el instante exacto i / fps, sin depender del rAF, así que el
+ * resultado es determinista.
+ */
+export type RenderOptions = {
+  width: number;
+  height: number;
+  fps: number;
+  images?: EngineImages;
+  /** fill painted under every frame; null keeps the canvas transparent */
+  background?: string | null;
+  signal?: AbortSignal;
+  /** 0..1 */
+  onProgress?: (progress: number) => void;
+};
+
+export type VideoFormat = 'webm' | 'mp4';
+
+export const VIDEO_MIME: Record<VideoFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1', 'video/mp4'],
+};
+
+/** first MediaRecorder mime type the browser can encode, or null */
+export const supportedVideoMime = (format: VideoFormat) =>
+  typeof MediaRecorder === 'undefined' ? null : VIDEO_MIME[format].find(m => MediaRecorder.isTypeSupported(m)) ?? null;
+
+/** sample times (ms) of every frame; the last frame lands on the end of the timeline */
+export function frameTimes(duration: number, fps: number) {
+  const count = Math.max(1, Math.ceil(duration / 1000 * fps)) + 1;
+  return Array.from({ length: count }, (_, i) => Math.min(duration, i * 1000 / fps));
+}
+
+/** GIF delays are whole centiseconds; spread the rounding so the total stays exact */
+export const gifDelays = (frames: number, fps: number) =>
+  Array.from({ length: frames }, (_, i) => Math.round((i + 1) * 100 / fps) - Math.round(i * 100 / fps));
+
+const abortError = () => new DOMException('Render cancelado', 'AbortError');
+
+// let the UI paint progress and react to cancel between frames
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export function createFrameCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D no disponible');
+  return { canvas, ctx };
+}
+
+/** fill what ctx already holds from underneath; null leaves it as it is */
+export function paintBackground(ctx: CanvasRenderingContext2D, width: number, height: number, background: string | null) {
+  if (!background) return;
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+}
+
+/** paint frame `time` into ctx (scene over the optional background) */
+export function paintFrame(ctx: CanvasRenderingContext2D, config: AnimationConfig, time: number, { width, height, images = {}, background = '#000' }: RenderOptions) {
+  drawScene(ctx, config, time, width, height, images);
+  // drawScene clears the canvas, so the background goes underneath afterwards
+  paintBackground(ctx, width, height, background);
+}
+
+/** calls onFrame for every frame in order, checking for cancellation in between */
+export async function renderFrames(config: AnimationConfig, options: RenderOptions, onFrame: (ctx: CanvasRenderingContext2D, index: number, time: number) => void | Promise<void>) {
+  const { ctx } = createFrameCanvas(options.width, options.height);
+  const times = frameTimes(config.timelineDuration, options.fps);
+  for (let i = 0; i < times.length; i++) {
+    if (options.signal?.aborted) throw abortError();
+    paintFrame(ctx, config, times[i], options);
+    await onFrame(ctx, i, times[i]);
+    options.onProgress?.((i + 1) / times.length);
+    await nextTask();
+  }
+  return times.length;
+}
+
+export async function renderGif(config: AnimationConfig, options: RenderOptions): Promise<Blob> {
+  const { width, height, fps } = options;
+  const delays = gifDelays(frameTimes(config.timelineDuration, fps).length, fps);
+  const encoder = createGifEncoder(width, height);
+  await renderFrames(config, options, (ctx, i) => {
+    encoder.addFrame(ctx.getImageData(0, 0, width, height).data, delays[i]);
+  });
+  return new Blob([encoder.finish()], { type: 'image/gif' });
+}
+
+/**
+ * MediaRecorder stamps frames with wall-clock time, so frames are pushed one
+ * per 1/fps: the render takes as long as the animation, but content stays exact.
+ */
+export async function renderVideo(config: AnimationConfig, format: VideoFormat, options: RenderOptions): Promise<Blob> {
+  const mimeType = supportedVideoMime(format);
+  if (!mimeType) throw new Error(`Este navegador no puede grabar ${format.toUpperCase()}`);
+  const { canvas, ctx } = createFrameCanvas(options.width, options.height);
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const times = frameTimes(config.timelineDuration, options.fps);
+  const frameMs = 1000 / options.fps;
+  recorder.start();
+  const start = performance.now();
+  try {
+    for (let i = 0; i < times.length; i++) {
+      if (options.signal?.aborted) throw abortError();
+      paintFrame(ctx, config, times[i], options);
+      track.requestFrame();
+      options.onProgress?.((i + 1) / times.length);
+      // wait until this frame's slot is over
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, start + (i + 1) * frameMs - performance.now())));
+    }
+  } finally {
+    recorder.stop();
+    track.stop();
+  }
+  await stopped;
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+}
@@ -0,0 +1,151 @@
+import { clamp, NAMED_EASING_BEZIER, type CubicBezier } from './animationUtils';
+import type { KeyframePoint, LayerConfig } from './animationEngine';
+import { mkId } from './projectSchema';
+import type { KeyframeRef } from './selection';
+
+/**
+ * Bulk operations on the selected keyframes: group drag, copy/paste at the
+ * cursor, time scaling, reversing, aligning and distributing. They are pure,
+ * keep times within [0, duration] and leave the tracks sorted.
+ */
+export type TimedRef = { ref: KeyframeRef; time: number };
+
+/** copied keyframes; `offset` is the time after the earliest one */
+export type KeyframeClip = { layerId: string; offset: number; keyframe: KeyframePoint }[];
+
+const refKey = (layerId: string, kfId: string) => `${layerId}/${kfId}`;
+
+const byTime = (a: { time: number }, b: { time: number }) => a.time - b.time;
+
+/** the selected keyframes that still exist, in time order */
+export function selectedTimes(layers: LayerConfig[], refs: KeyframeRef[]): TimedRef[] {
+  const wanted = new Set(refs.map(r => refKey(r.layerId, r.kfId)));
+  return layers
+    .flatMap(l => l.keyframes.filter(k => wanted.has(refKey(l.id, k.id))).map(k => ({ ref: { layerId: l.id, kfId: k.id }, time: k.time })))
+    .sort(byTime);
+}
+
+function patchEach(layers: LayerConfig[], patches: Map<string, Partial<KeyframePoint>>): LayerConfig[] {
+  if (!patches.size) return layers;
+  return layers.map(l => {
+    if (!l.keyframes.some(k => patches.has(refKey(l.id, k.id)))) return l;
+    const keyframes = l.keyframes.map(k => {
+      const patch = patches.get(refKey(l.id, k.id));
+      return patch ? { ...k, ...patch } : k;
+    });
+    return { ...l, keyframes: keyframes.sort(byTime) };
+  });
+}
+
+const timePatches = (entries: TimedRef[], time: (entry: TimedRef, index: number) => number) =>
+  new Map(entries.map((e, i) => [refKey(e.ref.layerId, e.ref.kfId), { time: time(e, i) }]));
+
+/** shift keyframes from their `origins` by `delta`, stopping the whole group at the timeline ends */
+export function moveKeyframes(layers: LayerConfig[], origins: TimedRef[], delta: number, duration: number): LayerConfig[] {
+  if (!origins.length) return layers;
+  const times = origins.map(o => o.time);
+  const d = clamp(delta, -Math.min(...times), duration - Math.max(...times));
+  return patchEach(layers, timePatches(origins, o => Math.round(o.time + d)));
+}
+
+/** scale the spacing from the earliest selected keyframe by `factor` */
+export function stretchKeyframes(layers: LayerConfig[], refs: KeyframeRef[], factor: number, duration: number): LayerConfig[] {
+  const entries = selectedTimes(layers, refs);
+  if (entries.length < 2 || !(factor > 0)) return layers;
+  const pivot = entries[0].time;
+  return patchEach(layers, timePatches(entries, e => clamp(Math.round(pivot + (e.time - pivot) * factor), 0, duration)));
+}
+
+type Curve = { easing?: string; bezier?: CubicBezier };
+
+// the same curve played backwards
+function mirrorCurve({ easing, bezier }: Curve): Curve {
+  const flip = ([x1, y1, x2, y2]: CubicBezier): CubicBezier => [1 - x2, 1 - y2, 1 - x1, 1 - y1];
+  if (bezier) return { easing, bezier: flip(bezier) };
+  if (easing === 'ease-in') return { easing: 'ease-out', bezier: undefined };
+  if (easing === 'ease-out') return { easing: 'ease-in', bezier: undefined };
+  if (easing && easing !== 'linear' && NAMED_EASING_BEZIER[easing]) return { easing: undefined, bezier: flip(NAMED_EASING_BEZIER[easing]) };
+  // 'ease' is its own mirror; springs, steps and the like have none and are kept as they are
+  return { easing, bezier };
+}
+
+/**
+ * Play the selection backwards: times mirror inside the selected span and,
+ * since a keyframe's easing shapes the segment that ends at it, each curve
+ * moves to the keyframe that now ends that segment, mirrored.
+ */
+export function reverseKeyframes(layers: LayerConfig[], refs: KeyframeRef[]): LayerConfig[] {
+  const entries = selectedTimes(layers, refs);
+  if (entries.length < 2) return layers;
+  const span = entries[0].time + entries[entries.length - 1].time;
+  const patches = new Map<string, Partial<KeyframePoint>>();
+  layers.forEach(l => {
+    const own = entries.filter(e => e.ref.layerId === l.id).map(e => l.keyframes.find(k => k.id === e.ref.kfId)!);
+    own.forEach((k, i) => {
+      const next = own[i + 1];
+      // the last one becomes the first: it takes over the curve that led into the selection
+      const curve = next ? mirrorCurve(next) : { easing: own[0].easing, bezier: own[0].bezier };
+      patches.set(refKey(l.id, k.id), { time: span - k.time, easing: curve.easing, bezier: curve.bezier });
+    });
+  });
+  return patchEach(layers, patches);
+}
+
+/** move each layer's selected keyframes together so the earliest lands on `time` */
+export function alignKeyframes(layers: LayerConfig[], refs: KeyframeRef[], time: number, duration: number): LayerConfig[] {
+  const entries = selectedTimes(layers, refs);
+  const perLayer = new Map<string, TimedRef[]>();
+  entries.forEach(e => perLayer.set(e.ref.layerId, [...(perLayer.get(e.ref.layerId) ?? []), e]));
+  let out = layers;
+  perLayer.forEach(own => { out = moveKeyframes(out, own, time - own[0].time, duration); });
+  return out;
+}
+
+/** even spacing between the first and the last selected keyframe */
+export function distributeKeyframes(layers: LayerConfig[], refs: KeyframeRef[]): LayerConfig[] {
+  const entries = selectedTimes(layers, refs);
+  if (entries.length < 3) return layers;
+  const first = entries[0].time, step = (entries[entries.length - 1].time - first) / (entries.length - 1);
+  return patchEach(layers, timePatches(entries, (_, i) => Math.round(first + i * step)));
+}
+
+export function deleteKeyframes(layers: LayerConfig[], refs: KeyframeRef[]): LayerConfig[] {
+  const gone = new Set(refs.map(r => refKey(r.layerId, r.kfId)));
+  return layers.map(l => (l.keyframes.some(k => gone.has(refKey(l.id, k.id))) ? { ...l, keyframes: l.keyframes.filter(k => !gone.has(refKey(l.id, k.id))) } : l));
+}
+
+/** a new keyframe at `time` on each layer */
+export function addKeyframes(layers: LayerConfig[], layerIds: string[], time: number): { layers: LayerConfig[]; refs: KeyframeRef[] } {
+  const refs: KeyframeRef[] = [];
+  const out = layers.map(l => {
+    if (!layerIds.includes(l.id)) return l;
+    const keyframe: KeyframePoint = { id: mkId(), time, translate: 0, opacity: 1 };
+    refs.push({ layerId: l.id, kfId: keyframe.id });
+    return { ...l, keyframes: [...l.keyframes, keyframe].sort(byTime) };
+  });
+  return { layers: out, refs };
+}
+
+export function copyKeyframes(layers: LayerConfig[], refs: KeyframeRef[]): KeyframeClip {
+  const entries = selectedTimes(layers, refs);
+  if (!entries.length) return [];
+  const start = entries[0].time;
+  return entries.map(({ ref, time }) => ({
+    layerId: ref.layerId,
+    offset: time - start,
+    keyframe: layers.find(l => l.id === ref.layerId)!.keyframes.find(k => k.id === ref.kfId)!,
+  }));
+}
+
+/** the clip at `time` with fresh ids, on the layers it was copied from; it replaces keyframes at the same times */
+export function pasteKeyframes(layers: LayerConfig[], clip: KeyframeClip, time: number, duration: number): { layers: LayerConfig[]; refs: KeyframeRef[] } {
+  const refs: KeyframeRef[] = [];
+  const out = layers.map(l => {
+    const pasted = clip.filter(c => c.layerId === l.id).map(c => ({ ...c.keyframe, id: mkId(), time: clamp(Math.round(time + c.offset), 0, duration) }));
+    if (!pasted.length) return l;
+    pasted.forEach(k => refs.push({ layerId: l.id, kfId: k.id }));
+    const taken = new Set(pasted.map(k => k.time));
+    return { ...l, keyframes: [...l.keyframes.filter(k => !taken.has(k.time)), ...pasted].sort(byTime) };
+  });
+  return { layers: out, refs };
+}
@@ -0,0 +1,112 @@
+import { walkLayers, type LayerConfig } from './animationEngine';
+import { mkId } from './projectSchema';
+import { renameOverrideKeyframes } from './responsive';
+
+/**
+ * Operaciones sobre el árbol de capas. La lista sigue siendo plana: cada capa
+ * apunta a su grupo con `parentId`, y los símbolos son grupos guardados en la
+ * biblioteca del usuario que se instancian copiándolos con ids nuevos.
+ */
+export type LayerSymbol = { id: string; name: string; createdAt: number; layers: LayerConfig[] };
+
+export type LayerRow = { layer: LayerConfig; depth: number };
+
+export function descendantIds(layers: LayerConfig[], id: string): Set<string> {
+  const out = new Set<string>();
+  const visit = (parent: string) => layers.forEach(l => {
+    if (l.parentId === parent && !out.has(l.id)) { out.add(l.id); visit(l.id); }
+  });
+  visit(id);
+  return out;
+}
+
+/** rows for the layers panel and timeline; children of collapsed groups are left out */
+export const layerRows = (layers: LayerConfig[], collapsed: Record<string, boolean>): LayerRow[] =>
+  walkLayers(layers)
+    .filter(({ parents }) => !parents.some(p => collapsed[p.id]))
+    .map(({ layer, parents }) => ({ layer, depth: parents.length }));
+
+/** groups a layer can move into: any group except itself and its descendants */
+export function parentCandidates(layers: LayerConfig[], id: string): LayerConfig[] {
+  const inside = descendantIds(layers, id);
+  return layers.filter(l => l.type === 'group' && l.id !== id && !inside.has(l.id));
+}
+
+export function setLayerParent(layers: LayerConfig[], id: string, parentId: string | null): LayerConfig[] {
+  if (parentId && !parentCandidates(layers, id).some(g => g.id === parentId)) return layers;
+  return layers.map(l => (l.id === id ? { ...l, parentId } : l));
+}
+
+/** deleting a group deletes everything inside it */
+export function removeLayerTree(layers: LayerConfig[], id: string): LayerConfig[] {
+  const gone = descendantIds(layers, id).add(id);
+  return layers.filter(l => !gone.has(l.id));
+}
+
+/** drop a group and hand its children to the group's own parent (they lose its transform) */
+export function ungroupLayers(layers: LayerConfig[], groupId: string): LayerConfig[] {
+  const group = layers.find(l => l.id === groupId);
+  if (!group || group.type !== 'group') return layers;
+  return layers
+    .filter(l => l.id !== groupId)
+    .map(l => (l.parentId === groupId ? { ...l, parentId: group.parentId ?? null } : l));
+}
+
+/** the group and its descendants, detached from the project, ready for the library */
+export function symbolLayers(layers: LayerConfig[], groupId: string): LayerConfig[] {
+  const inside = descendantIds(layers, groupId);
+  return walkLayers(layers)
+    .filter(({ layer }) => layer.id === groupId || inside.has(layer.id))
+    .map(({ layer }) => {
+      if (layer.id !== groupId) return layer;
+      const root: LayerConfig = { ...layer, parentId: null };
+      delete root.symbolId;
+      return root;
+    });
+}
+
+// new keyframe ids for a copy; the breakpoint overrides follow their keyframes
+function withFreshKeyframes(layer: LayerConfig): Pick<LayerConfig, 'keyframes' | 'responsive'> {
+  const ids = new Map(layer.keyframes.map(k => [k.id, mkId()]));
+  return {
+    keyframes: layer.keyframes.map(k => ({ ...k, id: ids.get(k.id)! })),
+    ...(layer.responsive ? { responsive: renameOverrideKeyframes(layer.responsive, ids) } : {}),
+  };
+}
+
+/** copy of a symbol with fresh layer and keyframe ids; the root keeps a link to the symbol */
+export function instantiateSymbol(symbol: LayerSymbol): LayerConfig[] {
+  const ids = new Map(symbol.layers.map(l => [l.id, mkId()]));
+  return symbol.layers.map((l, i) => ({
+    ...l,
+    id: ids.get(l.id)!,
+    parentId: l.parentId ? ids.get(l.parentId) ?? null : null,
+    ...withFreshKeyframes(l),
+    ...(i === 0 ? { label: symbol.name, symbolId: symbol.id } : {}),
+  }));
+}
+
+/** copies of the layers (groups with their contents) with fresh ids, right after each original; `ids` are the copies */
+export function duplicateLayers(layers: LayerConfig[], ids: string[]): { layers: LayerConfig[]; ids: string[] } {
+  // a layer inside a duplicated group is copied with the group
+  const roots = ids.filter(id => !ids.some(other => other !== id && descendantIds(layers, other).has(id)));
+  let out = layers;
+  const copies: string[] = [];
+  roots.forEach(rootId => {
+    const inside = descendantIds(out, rootId);
+    const subtree = out.filter(l => l.id === rootId || inside.has(l.id));
+    if (!subtree.length) return;
+    const fresh = new Map(subtree.map(l => [l.id, mkId()]));
+    const copy = subtree.map(l => ({
+      ...l,
+      id: fresh.get(l.id)!,
+      parentId: l.parentId && fresh.has(l.parentId) ? fresh.get(l.parentId)! : l.parentId,
+      ...withFreshKeyframes(l),
+      ...(l.id === rootId ? { label: `${l.label} copia` } : {}),
+    }));
+    const last = Math.max(...subtree.map(l => out.indexOf(l)));
+    out = [...out.slice(0, last + 1), ...copy, ...out.slice(last + 1)];
+    copies.push(fresh.get(rootId)!);
+  });
+  return { layers: out, ids: copies };
+}
@@ -0,0 +1,364 @@
+import { cubicBezierEasing, NAMED_EASING_BEZIER, parseEasingSpec, type CubicBezier } from './animationUtils';
+import { evaluateLayer, walkLayers, type AnimationConfig, type KeyframePoint, type LayerConfig, type LayerState, type LayerType } from './animationEngine';
+import { importProject, mkId, mkMarker, mkRegion, type ProjectDocument, type SchemaError } from './projectSchema';
+
+/**
+ * Lottie (bodymovin JSON) ida y vuelta. Se exportan capas sólidas e imagen con
+ * position/opacity/rotation/scale, y los grupos como capas null con parenting;
+ * al importar sólo se entiende ese subconjunto y todo lo demás se lista en
+ * `unsupported` en vez de ignorarse en silencio. Los marcadores y regiones de
+ * la timeline viajan como marcadores de Lottie.
+ */
+type LottieTangent = { x: number | number[]; y: number | number[] };
+type LottieKeyframe = { t: number; s: number[]; o?: LottieTangent; i?: LottieTangent; h?: number };
+type LottieProperty = { a: 0; k: number | number[] } | { a: 1; k: LottieKeyframe[] };
+
+export type LottieLayer = {
+  ddd: number;
+  ind: number;
+  ty: number;
+  nm: string;
+  refId?: string;
+  parent?: number;
+  sr: number;
+  ks: { o: LottieProperty; r: LottieProperty; p: LottieProperty; a: LottieProperty; s: LottieProperty };
+  ao: number;
+  ip: number;
+  op: number;
+  st: number;
+  bm: number;
+  sc?: string;
+  sw?: number;
+  sh?: number;
+};
+
+export type LottieAnimation = {
+  v: string;
+  fr: number;
+  ip: number;
+  op: number;
+  w: number;
+  h: number;
+  nm: string;
+  ddd: number;
+  assets: { id: string; w: number; h: number; u: string; p: string; e: number }[];
+  layers: LottieLayer[];
+  /** comment markers: `tm` frame, `cm` name, `dr` length in frames (regions) */
+  markers?: { tm: number; cm: string; dr: number }[];
+};
+
+export type LottieExportOptions = { width: number; height: number; fps: number; name?: string };
+
+const LOTTIE_VERSION = '5.7.4';
+const LINEAR: CubicBezier = [0, 0, 1, 1];
+const r3 = (v: number) => Math.round(v * 1000) / 1000;
+
+// layer types with no Lottie counterpart here, by the name used in the warning
+const SKIPPED_TYPES: Partial<Record<LayerType, string>> = { text: 'texto', shape: 'forma', glitch: 'LetterGlitch', focus: 'TrueFocus' };
+
+// ---------------------------------------------------------------- export
+
+/** control points for the segment ending at kf, or null when only sampling can reproduce it */
+function segmentBezier(kf: KeyframePoint): CubicBezier | null {
+  if (kf.bezier) return kf.bezier;
+  const { name } = parseEasingSpec(kf.easing || 'linear');
+  if (name === '' || name === 'linear') return LINEAR;
+  // only t² and t(2-t) are exact cubics; 'ease' and the generators get baked
+  if (name === 'ease-in' || name === 'ease-out') return NAMED_EASING_BEZIER[name];
+  return null;
+}
+
+const staticProp = (k: number | number[]): LottieProperty => ({ a: 0, k });
+
+/**
+ * Keyframes of one Lottie property. Times are those of the keyframes defining any
+ * of `tracks`; easings that aren't cubic beziers are baked one keyframe per frame.
+ */
+function lottieProperty(layer: LayerConfig, tracks: (keyof KeyframePoint)[], value: (s: LayerState) => number[], fps: number): LottieProperty {
+  const defining = layer.keyframes.filter(k => tracks.some(t => k[t] !== undefined));
+  const frameOf = (ms: number) => r3(ms / 1000 * fps);
+  const at = (ms: number) => value(evaluateLayer(layer, ms)!).map(r3);
+  if (defining.length < 2) return staticProp(at(defining[0]?.time ?? 0));
+  const keys: LottieKeyframe[] = [];
+  defining.forEach((k, i) => {
+    const next = defining[i + 1];
+    if (!next) { keys.push({ t: frameOf(k.time), s: at(k.time) }); return; }
+    const b = segmentBezier(next);
+    if (b) {
+      keys.push({ t: frameOf(k.time), s: at(k.time), o: { x: [b[0]], y: [b[1]] }, i: { x: [b[2]], y: [b[3]] } });
+      return;
+    }
+    // spring/steps/bounce/elastic: one linear keyframe per frame of the segment
+    const step = 1000 / fps;
+    for (let t = k.time; t < next.time - 1e-6; t += step) {
+      keys.push({ t: frameOf(t), s: at(t), o: { x: [0], y: [0] }, i: { x: [1], y: [1] } });
+    }
+  });
+  return { a: 1, k: keys };
+}
+
+export function exportLottie(config: AnimationConfig, { width, height, fps, name = 'AnimationBuilder' }: LottieExportOptions): { animation: LottieAnimation; warnings: string[] } {
+  const warnings: string[] = [];
+  const op = Math.max(1, Math.round(config.timelineDuration / 1000 * fps));
+  const assets: LottieAnimation['assets'] = [];
+  const layers: LottieLayer[] = [];
+  // Lottie lists the topmost layer first; the editor paints the walk order first
+  const entries = walkLayers(config.layers)
+    .filter(({ layer, parents }) => layer.visible && parents.every(p => p.visible) && (layer.type === 'group' || layer.keyframes.length > 0))
+    .filter(({ layer }) => {
+      const skipped = layer.type ? SKIPPED_TYPES[layer.type] : undefined;
+      if (skipped) warnings.push(`${layer.label}: las capas de ${skipped} no se exportan`);
+      return !skipped;
+    })
+    .reverse();
+  const indexOf = new Map(entries.map(({ layer }, i) => [layer.id, i + 1]));
+  entries.forEach(({ layer, parents }, i) => {
+    const group = layer.type === 'group';
+    const sw = group ? 0 : r3(width * (layer.w ?? 60) / 100);
+    const sh = group ? 0 : r3(height * (layer.h ?? 30) / 100);
+    const cx = width * (layer.x ?? 50) / 100;
+    const cy = height * (layer.y ?? 50) / 100;
+    const parent = parents[parents.length - 1];
+    if (layer.keyframes.some(k => k.blur !== undefined)) warnings.push(`${layer.label}: el blur no se exporta`);
+    if (layer.keyframes.some(k => k.color !== undefined) && !group) warnings.push(`${layer.label}: la animación de color no se exporta`);
+    if (group && layer.keyframes.some(k => k.opacity !== 1)) warnings.push(`${layer.label}: Lottie no hereda la opacidad de un grupo`);
+    let refId: string | undefined;
+    if (layer.image) {
+      refId = `image_${assets.length}`;
+      // the asset is stretched to the layer box; the editor letterboxes it instead
+      assets.push({ id: refId, w: sw, h: sh, u: '', p: layer.image, e: layer.image.startsWith('data:') ? 1 : 0 });
+    }
+    layers.push({
+      ddd: 0,
+      ind: i + 1,
+      ty: group ? 3 : layer.image ? 2 : 1,
+      nm: layer.label,
+      ...(group ? {} : refId ? { refId } : { sc: layer.color, sw, sh }),
+      // a null's anchor sits on its pivot, so children keep stage coordinates at rest
+      ...(parent ? { parent: indexOf.get(parent.id) } : {}),
+      sr: 1,
+      ks: {
+        o: lottieProperty(layer, ['opacity'], s => [s.opacity * 100], fps),
+        r: lottieProperty(layer, ['rotation'], s => [s.rotation], fps),
+        p: lottieProperty(layer, ['translate', 'translateX'], s => [cx + s.translateX, cy + s.translate, 0], fps),
+        a: staticProp(group ? [r3(cx), r3(cy), 0] : [sw / 2, sh / 2, 0]),
+        s: lottieProperty(layer, ['scale', 'scaleX', 'scaleY'], s => [s.scale * s.scaleX * 100, s.scale * s.scaleY * 100, 100], fps),
+      },
+      ao: 0,
+      ip: 0,
+      op,
+      st: 0,
+      bm: 0,
+    });
+  });
+  // timeline markers are zero-length Lottie markers; labelled regions keep their length
+  const toFrame = (ms: number) => r3(ms / 1000 * fps);
+  const markers = [
+    ...(config.markers ?? []).map(m => ({ tm: toFrame(m.time), cm: m.label, dr: 0 })),
+    ...(config.regions ?? []).map(r => ({ tm: toFrame(r.start), cm: r.label, dr: toFrame(r.end - r.start) })),
+  ].sort((a, b) => a.tm - b.tm);
+  if (config.loop) warnings.push('el rango de loop no se exporta');
+  return { animation: { v: LOTTIE_VERSION, fr: fps, ip: 0, op, w: width, h: height, nm: name, ddd: 0, assets, layers, ...(markers.length ? { markers } : {}) }, warnings };
+}
+
+// ---------------------------------------------------------------- import
+
+export type LottieImportResult =
+  | { ok: true; project: ProjectDocument; unsupported: string[]; width: number; height: number; fps: number }
+  | { ok: false; errors: SchemaError[] };
+
+type Json = Record<string, unknown>;
+const isObject = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** cheap sniff so "Open project" can route Lottie files here */
+export const isLottie = (raw: unknown) =>
+  isObject(raw) && typeof raw.v === 'string' && typeof raw.fr === 'number' && Array.isArray(raw.layers);
+
+const LAYER_TYPES: Record<number, string> = { 0: 'precomp', 1: 'solid', 2: 'imagen', 3: 'null', 4: 'shape', 5: 'texto', 6: 'audio' };
+
+const first = (v: number | number[] | undefined, fallback = 0) => (Array.isArray(v) ? v[0] ?? fallback : v ?? fallback);
+
+type ParsedProperty = { keys: { frame: number; value: number[]; out?: CubicBezier; hold: boolean }[] } | { value: number[] };
+
+function parseProperty(raw: unknown, label: string, unsupported: string[]): ParsedProperty | null {
+  if (!isObject(raw)) return null;
+  if (raw.x !== undefined) unsupported.push(`${label}: expresiones (se usa el valor base)`);
+  if (raw.s === true) {
+    unsupported.push(`${label}: dimensiones separadas`);
+    return null;
+  }
+  const k = raw.k;
+  if (raw.a !== 1) return { value: Array.isArray(k) ? k.map(Number) : [Number(k)] };
+  if (!Array.isArray(k) || k.length === 0) return null;
+  const raws = (k as unknown[]).filter(isObject);
+  if (!raws.length) {
+    unsupported.push(`${label}: animada sin keyframes (se ignora)`);
+    return null;
+  }
+  if (raws.some(key => 'to' in key || 'ti' in key)) unsupported.push(`${label}: trayectorias curvas (tangentes espaciales)`);
+  const keys = raws.map(key => {
+    const o = key.o as LottieTangent | undefined, i = key.i as LottieTangent | undefined;
+    return {
+      frame: Number(key.t),
+      value: (Array.isArray(key.s) ? key.s : [key.s]).map(Number),
+      out: o && i ? [first(o.x), first(o.y), first(i.x, 1), first(i.y, 1)] as CubicBezier : undefined,
+      hold: key.h === 1,
+    };
+  });
+  return { keys };
+}
+
+// value of a parsed property at `frame`, honouring each segment's tangents
+function sampleProperty(prop: ParsedProperty, frame: number): number[] {
+  if ('value' in prop) return prop.value;
+  const { keys } = prop;
+  if (frame <= keys[0].frame) return keys[0].value;
+  for (let i = 0; i < keys.length - 1; i++) {
+    const a = keys[i], b = keys[i + 1];
+    if (frame > b.frame) continue;
+    if (a.hold) return a.value;
+    const span = b.frame - a.frame || 1;
+    const ease = a.out ? cubicBezierEasing(...a.out) : (t: number) => t;
+    const e = ease((frame - a.frame) / span);
+    // older files omit the end value and rely on the next key's start
+    return a.value.map((v, d) => v + ((b.value[d] ?? v) - v) * e);
+  }
+  return keys[keys.length - 1].value;
+}
+
+const keyFrames = (prop: ParsedProperty | null) => (prop && 'keys' in prop ? prop.keys.map(k => k.frame) : []);
+
+export function importLottie(raw: unknown): LottieImportResult {
+  if (!isLottie(raw)) return { ok: false, errors: [{ path: '', message: 'no es un archivo Lottie (faltan v, fr o layers)' }] };
+  const anim = raw as Json;
+  const fps = Number(anim.fr) || 30;
+  const ip = Number(anim.ip) || 0;
+  const width = Number(anim.w) || 800;
+  const height = Number(anim.h) || 400;
+  const unsupported: string[] = [];
+  const assets = new Map(((anim.assets as Json[] | undefined) ?? []).filter(isObject).map(a => [String(a.id), a]));
+  const toMs = (frame: number) => Math.max(0, Math.round((frame - ip) / fps * 1000));
+
+  if (anim.ddd === 1) unsupported.push('animación 3D');
+  // markers with a length come back as labelled regions
+  const lottieMarkers = (Array.isArray(anim.markers) ? anim.markers : []).filter(isObject).filter(m => Number.isFinite(Number(m.tm)));
+  const markers = lottieMarkers.filter(m => !(Number(m.dr) > 0)).map(m => mkMarker(toMs(Number(m.tm)), String(m.cm ?? '')));
+  const regions = lottieMarkers.filter(m => Number(m.dr) > 0)
+    .map(m => mkRegion(toMs(Number(m.tm)), toMs(Number(m.tm) + Number(m.dr)), String(m.cm ?? '')))
+    .filter(r => r.end > r.start);
+
+  const layers: LayerConfig[] = [];
+  const raws = ((anim.layers as unknown[]) ?? []).filter(isObject);
+  const byInd = new Map(raws.filter(l => l.ind !== undefined).map(l => [Number(l.ind), l]));
+  // null layers become groups; other layers may only hang from those
+  const groupIds = new Map(raws.filter(l => Number(l.ty) === 3 && l.ind !== undefined).map(l => [Number(l.ind), mkId()]));
+  const staticPoint = (raw: unknown) => {
+    const prop = isObject(raw) ? parseProperty(raw, '', []) : null;
+    return prop ? sampleProperty(prop, ip) : [0, 0];
+  };
+  // where a layer's parent space sits on the stage at the first frame (rotation/scale of parents ignored)
+  const originOf = (l: Json, seen = new Set<Json>()): [number, number] => {
+    const parent = l.parent !== undefined ? byInd.get(Number(l.parent)) : undefined;
+    if (!parent || seen.has(parent) || !groupIds.has(Number(parent.ind))) return [0, 0];
+    seen.add(parent);
+    const ks = isObject(parent.ks) ? parent.ks : {};
+    const [ox, oy] = originOf(parent, seen);
+    const pos = staticPoint(ks.p), anchor = staticPoint(ks.a);
+    return [ox + (pos[0] ?? 0) - (anchor[0] ?? 0), oy + (pos[1] ?? 0) - (anchor[1] ?? 0)];
+  };
+  [...raws].reverse().forEach(l => {
+    const name = typeof l.nm === 'string' ? l.nm : `Capa ${l.ind ?? layers.length + 1}`;
+    const type = Number(l.ty);
+    if (type !== 1 && type !== 2 && type !== 3) {
+      unsupported.push(`${name}: capa de tipo ${LAYER_TYPES[type] ?? type} omitida`);
+      return;
+    }
+    const group = type === 3;
+    const parentId = l.parent !== undefined ? groupIds.get(Number(l.parent)) : undefined;
+    if (l.parent !== undefined && !parentId) unsupported.push(`${name}: parenting a una capa que no es null (se ignora el padre)`);
+    if (Array.isArray(l.masksProperties) && l.masksProperties.length) unsupported.push(`${name}: máscaras`);
+    if (Array.isArray(l.ef) && l.ef.length) unsupported.push(`${name}: efectos`);
+    if (l.tt !== undefined) unsupported.push(`${name}: track matte`);
+    if (l.bm !== undefined && l.bm !== 0) unsupported.push(`${name}: modo de fusión`);
+    if (l.tm !== undefined) unsupported.push(`${name}: time remap`);
+    if (l.ddd === 1) unsupported.push(`${name}: capa 3D`);
+
+    const asset = type === 2 ? assets.get(String(l.refId)) : undefined;
+    if (type === 2 && !asset) unsupported.push(`${name}: imagen ${String(l.refId)} no encontrada`);
+    const sw = group ? 0 : Number(type === 1 ? l.sw : asset?.w) || width * 0.6;
+    const sh = group ? 0 : Number(type === 1 ? l.sh : asset?.h) || height * 0.3;
+    const image = asset ? `${asset.u ?? ''}${asset.p ?? ''}` : null;
+
+    const ks = isObject(l.ks) ? l.ks : {};
+    const p = parseProperty(ks.p, `${name}.position`, unsupported);
+    // a null's opacity doesn't reach its children in Lottie
+    const o = group ? null : parseProperty(ks.o, `${name}.opacity`, unsupported);
+    const r = parseProperty(ks.r ?? ks.rz, `${name}.rotation`, unsupported);
+    const s = parseProperty(ks.s, `${name}.scale`, unsupported);
+    const a = parseProperty(ks.a, `${name}.anchor`, unsupported);
+    if (a && 'keys' in a) unsupported.push(`${name}.anchor: anclaje animado (se usa el primer valor)`);
+    const anchor = a ? sampleProperty(a, 0) : [sw / 2, sh / 2];
+    const [ox, oy] = originOf(l);
+    const posAt = (f: number) => (p ? sampleProperty(p, f) : [width / 2 - ox, height / 2 - oy]);
+
+    // layer box center (a group's pivot) at the first frame; later positions become translate offsets
+    const base = posAt(ip);
+    const offX = group ? ox : ox + sw / 2 - (anchor[0] ?? 0), offY = group ? oy : oy + sh / 2 - (anchor[1] ?? 0);
+    const cx = base[0] + offX, cy = base[1] + offY;
+
+    const frames = [...new Set([...keyFrames(p), ...keyFrames(o), ...keyFrames(r), ...keyFrames(s), ip])].sort((x, y) => x - y);
+    const keyed = (prop: ParsedProperty | null, f: number) => !!prop && 'keys' in prop && prop.keys.some(k => k.frame === f);
+    const keyframes: KeyframePoint[] = frames.map(f => {
+      const pos = posAt(f);
+      const k: KeyframePoint = {
+        id: mkId(),
+        time: toMs(f),
+        translate: r3(pos[1] + offY - cy),
+        opacity: r3(Math.min(1, Math.max(0, (o ? sampleProperty(o, f)[0] : 100) / 100))),
+      };
+      const tx = r3(pos[0] + offX - cx);
+      if (tx !== 0 || keyed(p, f)) k.translateX = tx;
+      if (r && (keyed(r, f) || sampleProperty(r, f)[0] !== 0)) k.rotation = r3(sampleProperty(r, f)[0]);
+      if (s) {
+        const [sx, sy = sx] = sampleProperty(s, f);
+        if (keyed(s, f) || sx !== 100 || sy !== 100) {
+          if (sx === sy) k.scale = r3(sx / 100);
+          else { k.scaleX = r3(sx / 100); k.scaleY = r3(sy / 100); }
+        }
+      }
+      // Lottie stores a segment's curve on its start key, the editor on its end key
+      const prev = frames[frames.indexOf(f) - 1];
+      if (prev !== undefined) {
+        const curves = [p, o, r, s].flatMap(prop => (prop && 'keys' in prop ? prop.keys.filter(key => key.frame === prev) : []));
+        if (curves.some(c => c.hold)) k.easing = 'steps(1, jump-end)';
+        else {
+          const beziers = curves.map(c => c.out).filter((b): b is CubicBezier => !!b);
+          if (beziers.length && beziers[0].join() !== LINEAR.join()) k.bezier = beziers[0].map(r3) as CubicBezier;
+          if (beziers.some(b => b.join() !== beziers[0].join())) unsupported.push(`${name} @${toMs(f)}ms: curvas distintas por propiedad (se usa una)`);
+        }
+      }
+      return k;
+    });
+
+    const id = group ? groupIds.get(Number(l.ind)) ?? mkId() : mkId();
+    layers.push({
+      id,
+      label: name,
+      ...(group ? { type: 'group' as const } : {}),
+      ...(parentId ? { parentId } : {}),
+      depth: 0.5,
+      color: typeof l.sc === 'string' ? l.sc : '#ffffff',
+      image,
+      visible: l.hd !== true,
+      x: r3(cx / width * 100),
+      y: r3(cy / height * 100),
+      ...(group ? {} : { w: r3(sw / width * 100), h: r3(sh / height * 100) }),
+      keyframes,
+    });
+  });
+
+  const duration = Math.max(1, Math.round(((Number(anim.op) || fps) - ip) / fps * 1000));
+  const result = importProject({ version: 1, timelineDuration: duration, layers, markers, regions });
+  if (!result.ok) return result;
+  return { ok: true, project: result.project, unsupported: [...new Set(unsupported)], width, height, fps };
+}
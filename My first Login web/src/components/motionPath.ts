@@ -0,0 +1,74 @@
+import { evaluateLayer, walkLayers, type AnimationConfig, type KeyframePoint, type LayerConfig, type LayerState } from './animationEngine';
+
+/**
+ * Trayectorias de la vista previa: el centro de cada capa a lo largo de la
+ * timeline, con un punto por keyframe, en píxeles de la vista previa y con las
+ * transformaciones de sus grupos aplicadas igual que en drawScene. Arrastrar un
+ * punto cambia el translate del keyframe: el desplazamiento en pantalla se pasa
+ * al espacio de la capa deshaciendo la rotación y la escala de los grupos.
+ */
+export type Point = { x: number; y: number };
+
+export type MotionPath = { layer: LayerConfig; points: Point[]; keys: { keyframe: KeyframePoint; point: Point }[] };
+
+type Size = { width: number; height: number };
+
+// what of a layer's state moves its children
+type Placement = Pick<LayerState, 'translate' | 'translateX' | 'rotation' | 'scale' | 'scaleX' | 'scaleY'>;
+
+type PlacedGroup = { layer: LayerConfig; state: Placement };
+
+// a group without keyframes is a plain container
+const IDENTITY: Placement = { translate: 0, translateX: 0, rotation: 0, scale: 1, scaleX: 1, scaleY: 1 };
+
+const pivotOf = (layer: LayerConfig, { width, height }: Size): Point => ({ x: width * ((layer.x ?? 50) / 100), y: height * ((layer.y ?? 50) / 100) });
+
+// rotation after scale, as drawScene applies them; `inverse` undoes it
+function linear(state: Placement, v: Point, inverse = false): Point {
+  const a = state.rotation * Math.PI / 180;
+  const cos = Math.cos(a), sin = Math.sin(a);
+  const sx = state.scale * state.scaleX, sy = state.scale * state.scaleY;
+  if (!inverse) return { x: v.x * sx * cos - v.y * sy * sin, y: v.x * sx * sin + v.y * sy * cos };
+  const x = v.x * cos + v.y * sin, y = -v.x * sin + v.y * cos;
+  return { x: sx ? x / sx : 0, y: sy ? y / sy : 0 };
+}
+
+/** the enclosing groups' states at `time`, outermost first */
+export const groupsAt = (parents: LayerConfig[], time: number): PlacedGroup[] =>
+  parents.map(layer => ({ layer, state: evaluateLayer(layer, time) ?? IDENTITY }));
+
+/** where drawScene puts the center of a layer in `state` inside its `groups` */
+export function layerPoint(layer: LayerConfig, state: Placement, groups: PlacedGroup[], size: Size): Point {
+  const pivot = pivotOf(layer, size);
+  let p = { x: pivot.x + state.translateX, y: pivot.y + state.translate };
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const { layer: group, state: g } = groups[i];
+    const gp = pivotOf(group, size);
+    const v = linear(g, { x: p.x - gp.x, y: p.y - gp.y });
+    p = { x: gp.x + g.translateX + v.x, y: gp.y + g.translate + v.y };
+  }
+  return p;
+}
+
+/** a drag on screen as the change of the layer's own translateX / translate */
+export const layerDelta = (groups: PlacedGroup[], delta: Point): Point =>
+  groups.reduce((v, { state }) => linear(state, v, true), delta);
+
+/**
+ * Paths of the visible layers with keyframes: `samples` even steps over the
+ * timeline plus every keyframe time, so the corners at keyframes are kept.
+ */
+export function motionPaths(config: AnimationConfig, size: Size, samples = 120): MotionPath[] {
+  const steps = Array.from({ length: samples + 1 }, (_, i) => config.timelineDuration * i / samples);
+  return walkLayers(config.layers)
+    .filter(({ layer, parents }) => layer.type !== 'group' && layer.visible && !parents.some(p => !p.visible) && layer.keyframes.length > 0)
+    .map(({ layer, parents }) => {
+      const at = (time: number) => layerPoint(layer, evaluateLayer(layer, time)!, groupsAt(parents, time), size);
+      const times = [...new Set([...steps, ...layer.keyframes.map(k => k.time)])].sort((a, b) => a - b);
+      return { layer, points: times.map(at), keys: layer.keyframes.map(keyframe => ({ keyframe, point: at(keyframe.time) })) };
+    });
+}
+
+/** SVG path data through the points */
+export const pathData = (points: Point[]) =>
+  points.map((p, i) => `${i ? 'L' : 'M'}${Math.round(p.x * 10) / 10} ${Math.round(p.y * 10) / 10}`).join(' ');
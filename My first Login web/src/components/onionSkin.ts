@@ -0,0 +1,66 @@
+/**
+ * Papel cebolla de la vista previa: fotogramas fantasma antes y después del
+ * cursor, más transparentes cuanto más lejos están. Los anteriores se tiñen de
+ * rojo y los siguientes de verde, y se pintan detrás del fotograma actual.
+ */
+export type OnionSkinSettings = {
+  before: number; // ghosts before the playhead
+  after: number;
+  step: number; // frames between ghosts
+  opacity: number; // of the nearest ghost
+};
+
+export const DEFAULT_ONION_SKIN: OnionSkinSettings = { before: 3, after: 3, step: 2, opacity: 0.5 };
+
+export const ONION_TINTS = { before: '#ef4444', after: '#22c55e' };
+
+export type OnionGhost = { time: number; side: 'before' | 'after'; opacity: number };
+
+/**
+ * Ghost frames `step` frames apart at `fps`, nearest first; the farthest of
+ * each side fades to 1/count of the nearest's opacity. Times off the timeline
+ * are skipped.
+ */
+export function onionSkinFrames(time: number, fps: number, duration: number, { before, after, step, opacity }: OnionSkinSettings): OnionGhost[] {
+  const spacing = Math.max(1, step) * 1000 / fps;
+  const ghosts: OnionGhost[] = [];
+  const side = (count: number, direction: 1 | -1, name: OnionGhost['side']) => {
+    for (let i = 1; i <= count; i++) {
+      const t = time + direction * i * spacing;
+      if (t < 0 || t > duration) break;
+      ghosts.push({ time: t, side: name, opacity: opacity * (count - i + 1) / count });
+    }
+  };
+  side(before, -1, 'before');
+  side(after, 1, 'after');
+  return ghosts.sort((a, b) => Math.abs(a.time - time) - Math.abs(b.time - time));
+}
+
+/**
+ * Paint the ghosts behind what `ctx` already holds: each one is drawn by
+ * `paint` on the `scratch` canvas, tinted, and laid under the previous ones.
+ */
+export function drawOnionSkin(ctx: CanvasRenderingContext2D, ghosts: OnionGhost[], scratch: HTMLCanvasElement, paint: (ctx: CanvasRenderingContext2D, time: number) => void) {
+  const { width, height } = ctx.canvas;
+  scratch.width = width;
+  scratch.height = height;
+  const sctx = scratch.getContext('2d');
+  if (!sctx) return;
+  ghosts.forEach(ghost => {
+    sctx.setTransform(ctx.getTransform());
+    paint(sctx, ghost.time);
+    sctx.save();
+    sctx.setTransform(1, 0, 0, 1, 0, 0);
+    sctx.globalCompositeOperation = 'source-atop';
+    sctx.globalAlpha = 0.5;
+    sctx.fillStyle = ONION_TINTS[ghost.side];
+    sctx.fillRect(0, 0, width, height);
+    sctx.restore();
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.globalAlpha = ghost.opacity;
+    ctx.drawImage(scratch, 0, 0);
+    ctx.restore();
+  });
+}
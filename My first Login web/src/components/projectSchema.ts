@@ -0,0 +1,472 @@
+import { breakpointsOf, playbackOf, type AnimationConfig, type Breakpoint, type FocusConfig, type GlitchConfig, type KeyframePoint, type LayerConfig, type LayerType, type PlaybackMode, type PlaybackSettings, type ShapeConfig, type ShapeKind, type TextConfig, type TimelineMarker, type TimelineRegion } from './animationEngine';
+
+/**
+ * Formato de proyecto versionado. Los documentos antiguos se migran paso a paso
+ * hasta PROJECT_VERSION y después se validan campo a campo, de modo que un JSON
+ * mal formado produce errores legibles en vez de romper `draw`.
+ */
+export const PROJECT_VERSION = 1;
+
+export type ProjectDocument = AnimationConfig & { version: number };
+
+export type SchemaError = { path: string; message: string };
+
+export type ParseResult =
+  | { ok: true; project: ProjectDocument; migratedFrom: number | null }
+  | { ok: false; errors: SchemaError[] };
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// version of a raw document; 0 = unversioned exports ({ timelineDuration, layers } or a bare preset layer list)
+export const documentVersion = (raw: unknown) => (isObject(raw) && isFiniteNumber(raw.version) ? raw.version : 0);
+
+const DEFAULT_DURATION = 2000;
+
+/** migrations[n] upgrades a version-n document to version n+1 */
+const migrations: Record<number, (doc: unknown) => unknown> = {
+  0: doc => {
+    // presets stored only the layer list
+    const base: Json = Array.isArray(doc) ? { layers: doc } : isObject(doc) ? doc : {};
+    const layers = base.layers;
+    let duration = base.timelineDuration;
+    if (duration === undefined && Array.isArray(layers)) {
+      // fit the timeline to the last keyframe when the duration was dropped
+      const times = layers.flatMap(l => (isObject(l) && Array.isArray(l.keyframes) ? l.keyframes : []))
+        .map(k => (isObject(k) && isFiniteNumber(k.time) ? k.time : 0));
+      duration = Math.max(DEFAULT_DURATION, ...times);
+    }
+    return { ...base, version: 1, timelineDuration: duration, layers };
+  },
+};
+
+export function migrateProject(raw: unknown): unknown {
+  let doc = raw;
+  let version = documentVersion(doc);
+  while (version < PROJECT_VERSION) {
+    const step = migrations[version];
+    if (!step) break;
+    doc = step(doc);
+    version = documentVersion(doc);
+  }
+  return doc;
+}
+
+const LAYER_TYPES: LayerType[] = ['group', 'text', 'shape', 'glitch', 'focus'];
+
+const NUMERIC_KEYFRAME_FIELDS = ['translateX', 'scale', 'scaleX', 'scaleY', 'rotation', 'blur', 'reveal', 'draw'] as const;
+
+const TEXT_ALIGNS: TextConfig['align'][] = ['left', 'center', 'right'];
+const TEXT_STAGGERS: TextConfig['stagger'][] = ['none', 'word', 'char'];
+
+function validateText(raw: unknown, path: string, errors: SchemaError[]) {
+  if (!isObject(raw)) { errors.push({ path, message: 'una capa de texto necesita su configuración de texto' }); return; }
+  const err = (field: string, message: string) => errors.push({ path: `${path}.${field}`, message });
+  if (typeof raw.content !== 'string') err('content', 'debe ser un texto');
+  if (typeof raw.fontFamily !== 'string' || !raw.fontFamily) err('fontFamily', 'debe ser un texto no vacío');
+  if (!isFiniteNumber(raw.fontSize) || raw.fontSize <= 0) err('fontSize', 'debe ser un número > 0 (px)');
+  if (!isFiniteNumber(raw.fontWeight)) err('fontWeight', 'debe ser un número');
+  if (!TEXT_ALIGNS.includes(raw.align as TextConfig['align'])) err('align', `debe ser uno de: ${TEXT_ALIGNS.join(', ')}`);
+  if (!TEXT_STAGGERS.includes(raw.stagger as TextConfig['stagger'])) err('stagger', `debe ser uno de: ${TEXT_STAGGERS.join(', ')}`);
+  if (!isFiniteNumber(raw.spread) || raw.spread < 1) err('spread', 'debe ser un número ≥ 1');
+  if (!isFiniteNumber(raw.offsetY)) err('offsetY', 'debe ser un número (px)');
+}
+
+const SHAPE_KINDS: ShapeKind[] = ['rect', 'ellipse', 'polygon', 'path'];
+
+function validateShape(raw: unknown, path: string, errors: SchemaError[]) {
+  if (!isObject(raw)) { errors.push({ path, message: 'una capa de forma necesita su configuración de forma' }); return; }
+  const err = (field: string, message: string) => errors.push({ path: `${path}.${field}`, message });
+  if (!SHAPE_KINDS.includes(raw.kind as ShapeKind)) err('kind', `debe ser uno de: ${SHAPE_KINDS.join(', ')}`);
+  if (raw.radius !== undefined && (!isFiniteNumber(raw.radius) || raw.radius < 0)) err('radius', 'debe ser un número ≥ 0 (px)');
+  if (raw.sides !== undefined && (!isFiniteNumber(raw.sides) || raw.sides < 3)) err('sides', 'debe ser un número ≥ 3');
+  if (raw.kind === 'path' && typeof raw.path !== 'string') err('path', 'una forma libre necesita su trazado SVG (d)');
+  if (raw.viewBox !== undefined && !(Array.isArray(raw.viewBox) && raw.viewBox.length === 4 && raw.viewBox.every(isFiniteNumber))) {
+    err('viewBox', 'debe ser una lista de 4 números');
+  }
+  if (typeof raw.fill !== 'boolean') err('fill', 'debe ser true o false');
+  if (raw.gradient !== undefined && raw.gradient !== null) {
+    const g = raw.gradient;
+    if (!isObject(g) || (g.type !== 'linear' && g.type !== 'radial') || !isFiniteNumber(g.angle) || !Array.isArray(g.stops)
+      || !g.stops.every(s => isObject(s) && isFiniteNumber(s.offset) && typeof s.color === 'string')) {
+      err('gradient', 'debe ser { type: linear|radial, angle, stops: [{ offset, color }] } o null');
+    }
+  }
+  if (raw.stroke !== null && typeof raw.stroke !== 'string') err('stroke', 'debe ser un color en texto o null');
+  if (!isFiniteNumber(raw.strokeWidth) || raw.strokeWidth < 0) err('strokeWidth', 'debe ser un número ≥ 0');
+}
+
+function validateGlitch(raw: unknown, path: string, errors: SchemaError[]) {
+  if (!isObject(raw)) { errors.push({ path, message: 'una capa LetterGlitch necesita su configuración' }); return; }
+  const err = (field: string, message: string) => errors.push({ path: `${path}.${field}`, message });
+  if (!Array.isArray(raw.glitchColors) || !raw.glitchColors.every(c => typeof c === 'string')) err('glitchColors', 'debe ser una lista de colores');
+  if (!isFiniteNumber(raw.glitchSpeed) || raw.glitchSpeed <= 0) err('glitchSpeed', 'debe ser un número > 0 (ms)');
+  (['centerVignette', 'outerVignette', 'smooth'] as const).forEach(f => { if (typeof raw[f] !== 'boolean') err(f, 'debe ser true o false'); });
+  if (typeof raw.characters !== 'string' || !raw.characters) err('characters', 'debe ser un texto no vacío');
+  if (!isFiniteNumber(raw.seed)) err('seed', 'debe ser un número');
+}
+
+function validateFocus(raw: unknown, path: string, errors: SchemaError[]) {
+  if (!isObject(raw)) { errors.push({ path, message: 'una capa TrueFocus necesita su configuración' }); return; }
+  const err = (field: string, message: string) => errors.push({ path: `${path}.${field}`, message });
+  if (typeof raw.sentence !== 'string') err('sentence', 'debe ser un texto');
+  if (typeof raw.fontFamily !== 'string' || !raw.fontFamily) err('fontFamily', 'debe ser un texto no vacío');
+  if (!isFiniteNumber(raw.fontSize) || raw.fontSize <= 0) err('fontSize', 'debe ser un número > 0 (px)');
+  if (!isFiniteNumber(raw.blurAmount) || raw.blurAmount < 0) err('blurAmount', 'debe ser un número ≥ 0 (px)');
+  if (typeof raw.borderColor !== 'string') err('borderColor', 'debe ser un color en texto');
+  if (!isFiniteNumber(raw.animationDuration) || raw.animationDuration < 0) err('animationDuration', 'debe ser un número ≥ 0 (s)');
+  if (!isFiniteNumber(raw.pauseBetweenAnimations) || raw.pauseBetweenAnimations < 0) err('pauseBetweenAnimations', 'debe ser un número ≥ 0 (s)');
+}
+
+function validateKeyframe(raw: unknown, path: string, errors: SchemaError[]): KeyframePoint | null {
+  if (!isObject(raw)) { errors.push({ path, message: 'debe ser un objeto' }); return null; }
+  const start = errors.length;
+  const err = (field: string, message: string) => errors.push({ path: `${path}.${field}`, message });
+  if (typeof raw.id !== 'string' || !raw.id) err('id', 'debe ser un texto no vacío');
+  if (!isFiniteNumber(raw.time) || raw.time < 0) err('time', 'debe ser un número ≥ 0');
+  if (!isFiniteNumber(raw.translate)) err('translate', 'debe ser un número');
+  if (!isFiniteNumber(raw.opacity) || raw.opacity < 0 || raw.opacity > 1) err('opacity', 'debe ser un número entre 0 y 1');
+  NUMERIC_KEYFRAME_FIELDS.forEach(f => { if (raw[f] !== undefined && !isFiniteNumber(raw[f])) err(f, 'debe ser un número'); });
+  if (raw.color !== undefined && typeof raw.color !== 'string') err('color', 'debe ser un color en texto');
+  if (raw.easing !== undefined && typeof raw.easing !== 'string') err('easing', 'debe ser un texto');
+  if (raw.bezier !== undefined && !(Array.isArray(raw.bezier) && raw.bezier.length === 4 && raw.bezier.every(isFiniteNumber))) {
+    err('bezier', 'debe ser una lista de 4 números');
+  }
+  if (errors.length > start) return null;
+  const k: KeyframePoint = { id: raw.id as string, time: raw.time as number, translate: raw.translate as number, opacity: raw.opacity as number };
+  NUMERIC_KEYFRAME_FIELDS.forEach(f => { if (raw[f] !== undefined) k[f] = raw[f] as number; });
+  if (raw.color !== undefined) k.color = raw.color as string;
+  if (raw.easing !== undefined) k.easing = raw.easing as string;
+  if (raw.bezier !== undefined) k.bezier = raw.bezier as KeyframePoint['bezier'];
+  return k;
+}
+
+// overrides by breakpoint id: layout percentages and numeric keyframe values by keyframe id; ids of
+// breakpoints or keyframes that no longer exist are kept and ignored (undo can bring them back)
+function validateResponsive(raw: unknown, path: string, errors: SchemaError[]) {
+  if (!isObject(raw)) { errors.push({ path, message: 'debe ser un objeto' }); return; }
+  Object.entries(raw).forEach(([id, o]) => {
+    const at = `${path}.${id}`;
+    if (!isObject(o)) { errors.push({ path: at, message: 'debe ser un objeto' }); return; }
+    (['x', 'y', 'w', 'h'] as const).forEach(f => { if (o[f] !== undefined && !isFiniteNumber(o[f])) errors.push({ path: `${at}.${f}`, message: 'debe ser un número (%)' }); });
+    if (o.keyframes === undefined) return;
+    if (!isObject(o.keyframes)) { errors.push({ path: `${at}.keyframes`, message: 'debe ser un objeto' }); return; }
+    Object.entries(o.keyframes).forEach(([kfId, values]) => {
+      if (!isObject(values)) { errors.push({ path: `${at}.keyframes.${kfId}`, message: 'debe ser un objeto' }); return; }
+      Object.entries(values).forEach(([f, v]) => {
+        if (!(['translate', 'opacity', ...NUMERIC_KEYFRAME_FIELDS] as string[]).includes(f)) errors.push({ path: `${at}.keyframes.${kfId}.${f}`, message: 'no es una propiedad numérica de keyframe' });
+        else if (!isFiniteNumber(v) || (f === 'opacity' && (v < 0 || v > 1))) errors.push({ path: `${at}.keyframes.${kfId}.${f}`, message: f === 'opacity' ? 'debe ser un número entre 0 y 1' : 'debe ser un número' });
+      });
+    });
+  });
+}
+
+function validateLayer(raw: unknown, path: string, errors: SchemaError[]): LayerConfig | null {
+  if (!isObject(raw)) { errors.push({ path, message: 'debe ser un objeto' }); return null; }
+  const start = errors.length;
+  const err = (field: string, message: string) => errors.push({ path: `${path}.${field}`, message });
+  if (typeof raw.id !== 'string' || !raw.id) err('id', 'debe ser un texto no vacío');
+  if (typeof raw.label !== 'string') err('label', 'debe ser un texto');
+  if (!isFiniteNumber(raw.depth) || raw.depth < 0 || raw.depth > 1) err('depth', 'debe ser un número entre 0 y 1');
+  if (typeof raw.color !== 'string') err('color', 'debe ser un color en texto');
+  if (raw.image !== undefined && raw.image !== null && typeof raw.image !== 'string') err('image', 'debe ser una URL o null');
+  if (raw.visible !== undefined && typeof raw.visible !== 'boolean') err('visible', 'debe ser true o false');
+  (['x', 'y', 'w', 'h'] as const).forEach(f => { if (raw[f] !== undefined && !isFiniteNumber(raw[f])) err(f, 'debe ser un número (%)'); });
+  if (raw.type !== undefined && !LAYER_TYPES.includes(raw.type as LayerType)) err('type', `debe ser uno de: ${LAYER_TYPES.join(', ')}`);
+  if (raw.parentId !== undefined && raw.parentId !== null && typeof raw.parentId !== 'string') err('parentId', 'debe ser un id o null');
+  if (raw.symbolId !== undefined && typeof raw.symbolId !== 'string') err('symbolId', 'debe ser un texto');
+  if (raw.type === 'text') validateText(raw.text, `${path}.text`, errors);
+  if (raw.type === 'shape') validateShape(raw.shape, `${path}.shape`, errors);
+  if (raw.type === 'glitch') validateGlitch(raw.glitch, `${path}.glitch`, errors);
+  if (raw.type === 'focus') validateFocus(raw.focus, `${path}.focus`, errors);
+  if (raw.responsive !== undefined) validateResponsive(raw.responsive, `${path}.responsive`, errors);
+  let keyframes: KeyframePoint[] = [];
+  if (!Array.isArray(raw.keyframes)) err('keyframes', 'debe ser una lista');
+  else keyframes = raw.keyframes.map((k, i) => validateKeyframe(k, `${path}.keyframes[${i}]`, errors)).filter((k): k is KeyframePoint => !!k);
+  if (errors.length > start) return null;
+  return {
+    ...(raw as LayerConfig),
+    // the engine expects keyframes sorted by time
+    keyframes: keyframes.sort((a, b) => a.time - b.time),
+  };
+}
+
+const PLAYBACK_MODES: PlaybackMode[] = ['once', 'loop', 'pingpong'];
+
+// markers, regions, the loop range, the playback settings and the breakpoints are optional; documents without them are still version 1
+function validateTimeline(raw: Json, errors: SchemaError[]) {
+  const out: Pick<AnimationConfig, 'markers' | 'regions' | 'loop' | 'playback' | 'breakpoints'> = {};
+  const time = (v: unknown) => isFiniteNumber(v) && v >= 0;
+  if (raw.markers !== undefined) {
+    if (!Array.isArray(raw.markers)) errors.push({ path: 'markers', message: 'debe ser una lista' });
+    else {
+      raw.markers.forEach((m, i) => {
+        const path = `markers[${i}]`;
+        if (!isObject(m)) { errors.push({ path, message: 'debe ser un objeto' }); return; }
+        if (typeof m.id !== 'string' || !m.id) errors.push({ path: `${path}.id`, message: 'debe ser un texto no vacío' });
+        if (!time(m.time)) errors.push({ path: `${path}.time`, message: 'debe ser un número ≥ 0' });
+        if (typeof m.label !== 'string') errors.push({ path: `${path}.label`, message: 'debe ser un texto' });
+      });
+      out.markers = (raw.markers as TimelineMarker[]).map(m => ({ ...m })).sort((a, b) => a.time - b.time);
+    }
+  }
+  if (raw.regions !== undefined) {
+    if (!Array.isArray(raw.regions)) errors.push({ path: 'regions', message: 'debe ser una lista' });
+    else {
+      raw.regions.forEach((r, i) => {
+        const path = `regions[${i}]`;
+        if (!isObject(r)) { errors.push({ path, message: 'debe ser un objeto' }); return; }
+        if (typeof r.id !== 'string' || !r.id) errors.push({ path: `${path}.id`, message: 'debe ser un texto no vacío' });
+        if (!time(r.start)) errors.push({ path: `${path}.start`, message: 'debe ser un número ≥ 0' });
+        if (!isFiniteNumber(r.end) || !isFiniteNumber(r.start) || r.end <= r.start) errors.push({ path: `${path}.end`, message: 'debe ser un número mayor que start' });
+        if (typeof r.label !== 'string') errors.push({ path: `${path}.label`, message: 'debe ser un texto' });
+        if (r.color !== undefined && typeof r.color !== 'string') errors.push({ path: `${path}.color`, message: 'debe ser un color en texto' });
+      });
+      out.regions = (raw.regions as TimelineRegion[]).map(r => ({ ...r })).sort((a, b) => a.start - b.start);
+    }
+  }
+  if (raw.loop !== undefined && raw.loop !== null) {
+    const l = raw.loop;
+    if (!isObject(l) || !time(l.start) || !isFiniteNumber(l.end) || l.end <= (l.start as number)) {
+      errors.push({ path: 'loop', message: 'debe ser { start, end } con 0 ≤ start < end, o null' });
+    } else out.loop = { start: l.start as number, end: l.end };
+  }
+  if (raw.playback !== undefined) {
+    const p = raw.playback;
+    const start = errors.length;
+    const err = (field: string, message: string) => errors.push({ path: `playback.${field}`, message });
+    if (!isObject(p)) errors.push({ path: 'playback', message: 'debe ser un objeto' });
+    else {
+      if (!isFiniteNumber(p.rate) || p.rate <= 0) err('rate', 'debe ser un número > 0');
+      if (!PLAYBACK_MODES.includes(p.mode as PlaybackMode)) err('mode', `debe ser uno de: ${PLAYBACK_MODES.join(', ')}`);
+      if (typeof p.reverse !== 'boolean') err('reverse', 'debe ser true o false');
+      if (!isFiniteNumber(p.fps) || p.fps <= 0) err('fps', 'debe ser un número > 0');
+      if (errors.length === start) out.playback = { rate: p.rate as number, mode: p.mode as PlaybackMode, reverse: p.reverse as boolean, fps: p.fps as number };
+    }
+  }
+  if (raw.breakpoints !== undefined) {
+    if (!Array.isArray(raw.breakpoints)) errors.push({ path: 'breakpoints', message: 'debe ser una lista' });
+    else {
+      raw.breakpoints.forEach((b, i) => {
+        const path = `breakpoints[${i}]`;
+        if (!isObject(b)) { errors.push({ path, message: 'debe ser un objeto' }); return; }
+        if (typeof b.id !== 'string' || !b.id) errors.push({ path: `${path}.id`, message: 'debe ser un texto no vacío' });
+        if (typeof b.label !== 'string') errors.push({ path: `${path}.label`, message: 'debe ser un texto' });
+        if (!isFiniteNumber(b.maxWidth) || b.maxWidth <= 0) errors.push({ path: `${path}.maxWidth`, message: 'debe ser un número > 0 (px)' });
+      });
+      out.breakpoints = (raw.breakpoints as Breakpoint[]).map(b => ({ ...b })).sort((a, b) => b.maxWidth - a.maxWidth);
+    }
+  }
+  return out;
+}
+
+export function validateProject(raw: unknown): ParseResult {
+  const errors: SchemaError[] = [];
+  if (!isObject(raw)) return { ok: false, errors: [{ path: '', message: 'el proyecto debe ser un objeto JSON' }] };
+  const version = documentVersion(raw);
+  if (version > PROJECT_VERSION) {
+    return { ok: false, errors: [{ path: 'version', message: `versión ${version} no soportada (máximo ${PROJECT_VERSION})` }] };
+  }
+  if (!isFiniteNumber(raw.timelineDuration) || raw.timelineDuration <= 0) errors.push({ path: 'timelineDuration', message: 'debe ser un número > 0 (ms)' });
+  let layers: LayerConfig[] = [];
+  if (!Array.isArray(raw.layers)) errors.push({ path: 'layers', message: 'debe ser una lista' });
+  else {
+    layers = raw.layers.map((l, i) => validateLayer(l, `layers[${i}]`, errors)).filter((l): l is LayerConfig => !!l);
+    const seen = new Set<string>();
+    layers.forEach((l, i) => {
+      if (seen.has(l.id)) errors.push({ path: `layers[${i}].id`, message: `id duplicado "${l.id}"` });
+      seen.add(l.id);
+    });
+    // parents must be groups of this project, without cycles
+    const byId = new Map(layers.map(l => [l.id, l]));
+    layers.forEach((l, i) => {
+      if (!l.parentId) return;
+      const parent = byId.get(l.parentId);
+      if (!parent || parent.type !== 'group') {
+        errors.push({ path: `layers[${i}].parentId`, message: `no hay ningún grupo con id "${l.parentId}"` });
+        return;
+      }
+      const chain = new Set([l.id]);
+      for (let p: LayerConfig | undefined = parent; p; p = p.parentId ? byId.get(p.parentId) : undefined) {
+        if (chain.has(p.id)) { errors.push({ path: `layers[${i}].parentId`, message: 'los grupos forman un ciclo' }); break; }
+        chain.add(p.id);
+      }
+    });
+  }
+  const timeline = validateTimeline(raw, errors);
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, project: { version: PROJECT_VERSION, timelineDuration: raw.timelineDuration as number, layers, ...timeline }, migratedFrom: null };
+}
+
+/** migrate + validate an already parsed value */
+export function importProject(raw: unknown): ParseResult {
+  const from = documentVersion(raw);
+  const result = validateProject(migrateProject(raw));
+  return result.ok && from < PROJECT_VERSION ? { ...result, migratedFrom: from } : result;
+}
+
+/** parse text from a file, drop or paste (also accepts the `const animation = …;` snippet export) */
+export function parseProject(text: string): ParseResult {
+  const json = text.trim().replace(/^(?:export\s+)?(?:const|let|var)\s+\w+\s*=\s*/, '').replace(/;\s*$/, '');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    return { ok: false, errors: [{ path: '', message: `JSON no válido: ${(e as Error).message}` }] };
+  }
+  return importProject(raw);
+}
+
+export const mkId = () => String(Math.random()).slice(2);
+
+export const defaultLayer = (): LayerConfig => ({
+  id: mkId(),
+  label: 'Layer',
+  depth: 0.5,
+  color: '#ffffff',
+  image: null,
+  visible: true,
+  x: 50,
+  y: 50,
+  w: 60,
+  h: 30,
+  keyframes: [
+    { id: mkId(), time: 0, translate: 40, opacity: 0, easing: 'linear' },
+    { id: mkId(), time: 1000, translate: 0, opacity: 1, easing: 'linear' },
+  ],
+});
+
+export const defaultGroup = (): LayerConfig => ({
+  id: mkId(),
+  label: 'Group',
+  type: 'group',
+  depth: 0.5,
+  color: '#ffffff',
+  image: null,
+  visible: true,
+  // pivot for the group's rotation and scale
+  x: 50,
+  y: 50,
+  keyframes: [],
+});
+
+export const defaultText = (): TextConfig => ({
+  content: 'Hello world',
+  fontFamily: 'system-ui, sans-serif',
+  fontSize: 32,
+  fontWeight: 700,
+  align: 'center',
+  stagger: 'word',
+  spread: 1,
+  offsetY: 20,
+});
+
+export const defaultTextLayer = (): LayerConfig => ({
+  ...defaultLayer(),
+  label: 'Text',
+  type: 'text',
+  h: 20,
+  text: defaultText(),
+  keyframes: [
+    { id: mkId(), time: 0, translate: 0, opacity: 1, reveal: 0 },
+    { id: mkId(), time: 1000, translate: 0, opacity: 1, reveal: 1, easing: 'ease-out' },
+  ],
+});
+
+export const defaultShape = (): ShapeConfig => ({
+  kind: 'rect',
+  radius: 12,
+  sides: 6,
+  fill: true,
+  gradient: null,
+  stroke: null,
+  strokeWidth: 2,
+});
+
+export const defaultShapeLayer = (): LayerConfig => ({
+  ...defaultLayer(),
+  label: 'Shape',
+  type: 'shape',
+  color: '#38bdf8',
+  w: 30,
+  h: 30,
+  shape: defaultShape(),
+});
+
+// the landing page props
+export const defaultGlitch = (): GlitchConfig => ({
+  glitchColors: ['#2b4539', '#61dca3', '#61b3dc'],
+  glitchSpeed: 50,
+  centerVignette: true,
+  outerVignette: false,
+  smooth: true,
+  characters: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ!@#$&*()-_+=/[]{};:<>.,0123456789',
+  seed: Math.floor(Math.random() * 1e9),
+});
+
+export const defaultGlitchLayer = (): LayerConfig => ({
+  ...defaultLayer(),
+  label: 'LetterGlitch',
+  type: 'glitch',
+  depth: 0.1,
+  color: '#000000',
+  w: 100,
+  h: 100,
+  glitch: defaultGlitch(),
+  keyframes: [{ id: mkId(), time: 0, translate: 0, opacity: 1 }],
+});
+
+export const defaultFocus = (): FocusConfig => ({
+  sentence: 'Mi Primer Login',
+  fontFamily: 'system-ui, sans-serif',
+  fontSize: 48,
+  blurAmount: 5,
+  borderColor: 'crimson',
+  animationDuration: 0.4,
+  pauseBetweenAnimations: 0.9,
+});
+
+export const defaultFocusLayer = (): LayerConfig => ({
+  ...defaultLayer(),
+  label: 'TrueFocus',
+  type: 'focus',
+  h: 30,
+  focus: defaultFocus(),
+  keyframes: [{ id: mkId(), time: 0, translate: 0, opacity: 1 }],
+});
+
+/** contents of a new project: a background and a foreground layer */
+export const createDefaultProject = (): ProjectDocument => ({
+  version: PROJECT_VERSION,
+  timelineDuration: DEFAULT_DURATION,
+  layers: [defaultLayer(), { ...defaultLayer(), label: 'Foreground', depth: 0.9, color: '#f1f5f9' }],
+});
+
+const samePlayback = (a: PlaybackSettings, b: PlaybackSettings) => a.rate === b.rate && a.mode === b.mode && a.reverse === b.reverse && a.fps === b.fps;
+
+const sameBreakpoints = (a: Breakpoint[], b: Breakpoint[]) =>
+  a.length === b.length && a.every((x, i) => x.id === b[i].id && x.label === b[i].label && x.maxWidth === b[i].maxWidth);
+
+/**
+ * The document part of a config; empty marker and region lists, a missing loop
+ * and playback settings or breakpoints a reader would assume anyway (see
+ * playbackOf and breakpointsOf) are left out.
+ */
+export const projectDocument = ({ timelineDuration, layers, markers, regions, loop, playback, breakpoints }: AnimationConfig): ProjectDocument => ({
+  version: PROJECT_VERSION,
+  timelineDuration,
+  layers,
+  ...(markers?.length ? { markers } : {}),
+  ...(regions?.length ? { regions } : {}),
+  ...(loop ? { loop } : {}),
+  ...(playback && !samePlayback(playback, playbackOf({ timelineDuration, layers, loop })) ? { playback } : {}),
+  ...(breakpoints && !sameBreakpoints(breakpointsOf({ timelineDuration, layers, breakpoints }), breakpointsOf({ timelineDuration, layers })) ? { breakpoints } : {}),
+});
+
+export const serializeProject = (config: AnimationConfig) => JSON.stringify(projectDocument(config), null, 2);
+
+export const mkMarker = (time: number, label: string): TimelineMarker => ({ id: mkId(), time, label });
+
+export const mkRegion = (start: number, end: number, label: string): TimelineRegion => ({ id: mkId(), start, end, label, color: '#f59e0b' });
@@ -0,0 +1,95 @@
+import type { Breakpoint, LayerConfig, LayerOverride, NumericProperty } from './animationEngine';
+import { mkId } from './projectSchema';
+
+/**
+ * Diseño adaptable: en cada breakpoint una capa puede cambiar su layout y los
+ * valores de sus keyframes. Los valores de la capa son los de escritorio y los
+ * breakpoints se aplican del más ancho al más estrecho (ver resolveResponsive).
+ * Un override que se queda vacío desaparece, así que una capa sin cambios no
+ * lleva `responsive`. Las operaciones son puras.
+ */
+export type LayoutField = 'x' | 'y' | 'w' | 'h';
+
+export const LAYOUT_FIELDS: { key: LayoutField; label: string }[] = [
+  { key: 'x', label: 'X (%)' },
+  { key: 'y', label: 'Y (%)' },
+  { key: 'w', label: 'Ancho (%)' },
+  { key: 'h', label: 'Alto (%)' },
+];
+
+/** layout the engine assumes when a layer leaves it out */
+export const LAYOUT_DEFAULTS: Record<LayoutField, number> = { x: 50, y: 50, w: 60, h: 30 };
+
+/** preview sizes of the device switcher; null fills the panel with the desktop values */
+export const DEVICE_PRESETS: { label: string; width: number | null }[] = [
+  { label: 'Escritorio', width: null },
+  { label: 'Tablet', width: 768 },
+  { label: 'Móvil', width: 375 },
+];
+
+const byWidth = (a: Breakpoint, b: Breakpoint) => b.maxWidth - a.maxWidth;
+
+/** the breakpoint whose overrides win at `width`: the narrowest that reaches it */
+export const breakpointAt = (breakpoints: Breakpoint[], width: number | null) =>
+  width === null ? null : [...breakpoints].sort(byWidth).filter(b => width <= b.maxWidth).pop() ?? null;
+
+// `patch` applied to one layer's override; undefined values remove fields and empty overrides go away
+function withOverride(layers: LayerConfig[], layerId: string, breakpointId: string, update: (o: LayerOverride) => LayerOverride): LayerConfig[] {
+  return layers.map(l => {
+    if (l.id !== layerId) return l;
+    const next = update(l.responsive?.[breakpointId] ?? {});
+    const responsive = { ...l.responsive };
+    if (Object.keys(next).length) responsive[breakpointId] = next;
+    else delete responsive[breakpointId];
+    const out: LayerConfig = { ...l, responsive };
+    if (!Object.keys(responsive).length) delete out.responsive;
+    return out;
+  });
+}
+
+const compact = <T extends object>(o: T): T => Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined)) as T;
+
+export const setLayoutOverride = (layers: LayerConfig[], layerId: string, breakpointId: string, patch: Partial<Record<LayoutField, number | undefined>>) =>
+  withOverride(layers, layerId, breakpointId, o => compact({ ...o, ...patch }));
+
+export const setKeyframeOverride = (layers: LayerConfig[], layerId: string, breakpointId: string, kfId: string, patch: Partial<Record<NumericProperty, number | undefined>>) =>
+  withOverride(layers, layerId, breakpointId, ({ keyframes, ...o }) => {
+    const values = compact({ ...keyframes?.[kfId], ...patch });
+    const rest = { ...keyframes };
+    if (Object.keys(values).length) rest[kfId] = values;
+    else delete rest[kfId];
+    return Object.keys(rest).length ? { ...o, keyframes: rest } : o;
+  });
+
+export const clearOverrides = (layers: LayerConfig[], layerId: string, breakpointId: string) =>
+  withOverride(layers, layerId, breakpointId, () => ({}));
+
+/** values the layer overrides at a breakpoint (layout fields plus keyframe values) */
+export function overrideCount(layer: LayerConfig, breakpointId: string) {
+  const { keyframes = {}, ...layout } = layer.responsive?.[breakpointId] ?? {};
+  return Object.keys(layout).length + Object.values(keyframes).reduce((n, v) => n + Object.keys(v).length, 0);
+}
+
+/** a breakpoint up to `maxWidth` px, labelled with its width unless given a label; the list stays widest first */
+export function addBreakpoint(breakpoints: Breakpoint[], maxWidth: number, label?: string): { breakpoints: Breakpoint[]; breakpoint: Breakpoint } {
+  const breakpoint = { id: mkId(), label: label ?? `≤ ${maxWidth}px`, maxWidth };
+  return { breakpoints: [...breakpoints, breakpoint].sort(byWidth), breakpoint };
+}
+
+export const updateBreakpoint = (breakpoints: Breakpoint[], id: string, patch: Partial<Omit<Breakpoint, 'id'>>) =>
+  breakpoints.map(b => (b.id === id ? { ...b, ...patch } : b)).sort(byWidth);
+
+/** drops the breakpoint and every layer's overrides for it */
+export function removeBreakpoint(layers: LayerConfig[], breakpoints: Breakpoint[], id: string) {
+  return {
+    breakpoints: breakpoints.filter(b => b.id !== id),
+    layers: layers.some(l => l.responsive?.[id]) ? layers.reduce((out, l) => (l.responsive?.[id] ? clearOverrides(out, l.id, id) : out), layers) : layers,
+  };
+}
+
+/** the overrides with their keyframe ids renamed through `ids`, for copies that get fresh keyframe ids */
+export function renameOverrideKeyframes(responsive: Record<string, LayerOverride>, ids: Map<string, string>): Record<string, LayerOverride> {
+  return Object.fromEntries(Object.entries(responsive).map(([id, o]) => [id, o.keyframes
+    ? { ...o, keyframes: Object.fromEntries(Object.entries(o.keyframes).filter(([kfId]) => ids.has(kfId)).map(([kfId, v]) => [ids.get(kfId)!, v])) }
+    : o]));
+}
@@ -0,0 +1,67 @@
+import type { KeyframePoint, LayerConfig } from './animationEngine';
+
+/**
+ * Selección compartida entre el estudio y el editor embebido: capas y keyframes
+ * por id. El Inspector edita todo lo seleccionado a la vez y marca como mixtos
+ * los campos cuyos valores no coinciden.
+ */
+export type KeyframeRef = { layerId: string; kfId: string };
+
+export type Selection = { layerIds: string[]; keyframes: KeyframeRef[] };
+
+export const EMPTY_SELECTION: Selection = { layerIds: [], keyframes: [] };
+
+const sameRef = (a: KeyframeRef, b: KeyframeRef) => a.layerId === b.layerId && a.kfId === b.kfId;
+
+export const isKeyframeSelected = (selection: Selection, ref: KeyframeRef) => selection.keyframes.some(k => sameRef(k, ref));
+
+/** a click replaces the selection; with Ctrl/Shift (`additive`) it toggles the layer */
+export function selectLayer(selection: Selection, id: string, additive = false): Selection {
+  if (!additive) return { layerIds: [id], keyframes: [] };
+  if (!selection.layerIds.includes(id)) return { ...selection, layerIds: [...selection.layerIds, id] };
+  // unselecting a layer also drops its keyframes
+  return { layerIds: selection.layerIds.filter(l => l !== id), keyframes: selection.keyframes.filter(k => k.layerId !== id) };
+}
+
+/** selecting a keyframe also selects its layer */
+export function selectKeyframe(selection: Selection, ref: KeyframeRef, additive = false): Selection {
+  if (!additive) return { layerIds: [ref.layerId], keyframes: [ref] };
+  const layerIds = selection.layerIds.includes(ref.layerId) ? selection.layerIds : [...selection.layerIds, ref.layerId];
+  const keyframes = isKeyframeSelected(selection, ref) ? selection.keyframes.filter(k => !sameRef(k, ref)) : [...selection.keyframes, ref];
+  return { layerIds, keyframes };
+}
+
+/** without the layers and keyframes that no longer exist; the same object when nothing changed */
+export function pruneSelection(selection: Selection, layers: LayerConfig[]): Selection {
+  const byId = new Map(layers.map(l => [l.id, l]));
+  const layerIds = selection.layerIds.filter(id => byId.has(id));
+  const keyframes = selection.keyframes.filter(k => byId.get(k.layerId)?.keyframes.some(kf => kf.id === k.kfId));
+  return layerIds.length === selection.layerIds.length && keyframes.length === selection.keyframes.length ? selection : { layerIds, keyframes };
+}
+
+export const selectedLayers = (layers: LayerConfig[], selection: Selection) => layers.filter(l => selection.layerIds.includes(l.id));
+
+export const selectedKeyframes = (layers: LayerConfig[], selection: Selection) =>
+  selection.keyframes.flatMap(ref => {
+    const layer = layers.find(l => l.id === ref.layerId);
+    const keyframe = layer?.keyframes.find(k => k.id === ref.kfId);
+    return layer && keyframe ? [{ layer, keyframe }] : [];
+  });
+
+/** the value every item shares, or mixed when they differ */
+export function sharedValue<T>(values: T[]): { value: T | undefined; mixed: boolean } {
+  const mixed = values.some(v => v !== values[0]);
+  return { value: mixed ? undefined : values[0], mixed };
+}
+
+export const patchLayers = (layers: LayerConfig[], ids: string[], patch: Partial<LayerConfig>) =>
+  layers.map(l => (ids.includes(l.id) ? { ...l, ...patch } : l));
+
+export function patchKeyframes(layers: LayerConfig[], refs: KeyframeRef[], patch: Partial<KeyframePoint>) {
+  return layers.map(l => {
+    if (!refs.some(r => r.layerId === l.id)) return l;
+    const keyframes = l.keyframes.map(k => (refs.some(r => r.layerId === l.id && r.kfId === k.id) ? { ...k, ...patch } : k));
+    // the engine expects keyframes sorted by time
+    return { ...l, keyframes: keyframes.sort((a, b) => a.time - b.time) };
+  });
+}
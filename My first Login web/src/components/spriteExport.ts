@@ -0,0 +1,116 @@
+import type { AnimationConfig } from './animationEngine';
+import { createFrameCanvas, paintBackground, renderFrames, type RenderOptions } from './frameRenderer';
+import { createZip, type ZipEntry } from '@/lib/zipWriter';
+
+/**
+ * Exportación para motores de juego: sprite sheet (rejilla + atlas JSON) y
+ * secuencia de PNG numerados en un .zip. Usa el mismo render por frames que el vídeo.
+ */
+export type SpriteExportOptions = RenderOptions & {
+  /** drop frames with nothing drawn at the start and end of the timeline (judged before the background is painted) */
+  trim?: boolean;
+  /** sheet columns; defaults to a roughly square grid */
+  columns?: number;
+};
+
+export type FrameRect = { x: number; y: number; w: number; h: number };
+
+export type CapturedFrame = { index: number; time: number; duration: number; image: ImageData };
+
+export type SpriteAtlas = {
+  frames: { name: string; frame: FrameRect; time: number; duration: number }[];
+  meta: { app: string; image: string; size: { w: number; h: number }; frameSize: { w: number; h: number }; fps: number; duration: number };
+};
+
+// browsers refuse canvases larger than this in either dimension
+export const MAX_SHEET_SIZE = 16384;
+
+export const frameName = (index: number) => `frame_${String(index).padStart(4, '0')}.png`;
+
+export const isFrameEmpty = (rgba: ArrayLike<number>) => {
+  for (let i = 3; i < rgba.length; i += 4) if (rgba[i] !== 0) return false;
+  return true;
+};
+
+/** indices [start, end) left after trimming empty frames from both ends (keeps one frame) */
+export function trimRange(empty: boolean[]) {
+  if (empty.every(Boolean)) return { start: 0, end: Math.min(1, empty.length) };
+  let start = 0, end = empty.length;
+  while (start < end - 1 && empty[start]) start++;
+  while (end - 1 > start && empty[end - 1]) end--;
+  return { start, end };
+}
+
+export function planSpriteSheet(count: number, w: number, h: number, columns?: number) {
+  const cols = Math.max(1, Math.min(count, columns ?? Math.ceil(Math.sqrt(count))));
+  const rows = Math.ceil(count / cols);
+  const rects: FrameRect[] = Array.from({ length: count }, (_, i) => ({ x: (i % cols) * w, y: Math.floor(i / cols) * h, w, h }));
+  return { columns: cols, rows, width: cols * w, height: rows * h, rects };
+}
+
+export function buildAtlas(frames: Omit<CapturedFrame, 'image'>[], rects: FrameRect[], sheet: { width: number; height: number }, options: { fps: number; image: string; frameWidth: number; frameHeight: number; duration: number }): SpriteAtlas {
+  return {
+    frames: frames.map((f, i) => ({ name: frameName(f.index), frame: rects[i], time: f.time, duration: f.duration })),
+    meta: {
+      app: 'AnimationBuilder',
+      image: options.image,
+      size: { w: sheet.width, h: sheet.height },
+      frameSize: { w: options.frameWidth, h: options.frameHeight },
+      fps: options.fps,
+      duration: options.duration,
+    },
+  };
+}
+
+/** render every frame to ImageData, with durations, and trim if asked */
+export async function captureFrames(config: AnimationConfig, options: SpriteExportOptions): Promise<CapturedFrame[]> {
+  const { width, height, fps, background = '#000' } = options;
+  const frames: CapturedFrame[] = [];
+  const empty: boolean[] = [];
+  // the scene is painted alone first: an opaque background would make every frame look drawn
+  await renderFrames(config, { ...options, background: null }, (ctx, index, time) => {
+    if (options.trim) empty.push(isFrameEmpty(ctx.getImageData(0, 0, width, height).data));
+    paintBackground(ctx, width, height, background);
+    frames.push({ index, time, duration: 0, image: ctx.getImageData(0, 0, width, height) });
+  });
+  frames.forEach((f, i) => { f.duration = i + 1 < frames.length ? frames[i + 1].time - f.time : 1000 / fps; });
+  if (!options.trim) return frames;
+  const { start, end } = trimRange(empty);
+  return frames.slice(start, end);
+}
+
+const canvasPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? blob.arrayBuffer().then(b => resolve(new Uint8Array(b)), reject) : reject(new Error('No se pudo codificar el PNG'))), 'image/png');
+  });
+
+const zipBlob = (entries: ZipEntry[]) => new Blob([createZip(entries)], { type: 'application/zip' });
+
+/** zip with spritesheet.png and its spritesheet.json atlas */
+export async function renderSpriteSheet(config: AnimationConfig, options: SpriteExportOptions): Promise<Blob> {
+  const { width, height, fps } = options;
+  const frames = await captureFrames(config, options);
+  const plan = planSpriteSheet(frames.length, width, height, options.columns);
+  if (plan.width > MAX_SHEET_SIZE || plan.height > MAX_SHEET_SIZE) {
+    throw new Error(`El sprite sheet mediría ${plan.width}×${plan.height}px (máx. ${MAX_SHEET_SIZE}); baja los fps o el tamaño de frame`);
+  }
+  const { canvas, ctx } = createFrameCanvas(plan.width, plan.height);
+  frames.forEach((f, i) => ctx.putImageData(f.image, plan.rects[i].x, plan.rects[i].y));
+  const atlas = buildAtlas(frames, plan.rects, plan, { fps, image: 'spritesheet.png', frameWidth: width, frameHeight: height, duration: config.timelineDuration });
+  return zipBlob([
+    { name: 'spritesheet.png', data: await canvasPng(canvas) },
+    { name: 'spritesheet.json', data: new TextEncoder().encode(JSON.stringify(atlas, null, 2)) },
+  ]);
+}
+
+/** zip with frame_0000.png, frame_0001.png, … (numbered by their original frame index) */
+export async function renderPngSequence(config: AnimationConfig, options: SpriteExportOptions): Promise<Blob> {
+  const frames = await captureFrames(config, options);
+  const { canvas, ctx } = createFrameCanvas(options.width, options.height);
+  const entries: ZipEntry[] = [];
+  for (const f of frames) {
+    ctx.putImageData(f.image, 0, 0);
+    entries.push({ name: frameName(f.index), data: await canvasPng(canvas) });
+  }
+  return zipBlob(entries);
+}
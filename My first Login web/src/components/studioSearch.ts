@@ -0,0 +1,44 @@
+import { KEYFRAME_PROPERTIES, walkLayers, type KeyframePoint, type LayerConfig } from './animationEngine';
+import type { ProjectMeta } from '@/lib/projectStore';
+
+/**
+ * Búsqueda del estudio: encuentra capas (por nombre, tipo o texto), keyframes
+ * (por tiempo, easing o propiedad animada) y proyectos (por nombre), sin
+ * distinguir mayúsculas ni acentos.
+ */
+export type SearchResults = {
+  layers: LayerConfig[];
+  keyframes: { layer: LayerConfig; keyframe: KeyframePoint }[];
+  projects: ProjectMeta[];
+};
+
+export const normalizeQuery = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const layerText = (layer: LayerConfig) => [layer.label, layer.type ?? '', layer.text?.content ?? '', layer.focus?.sentence ?? ''].join(' ');
+
+const keyframeText = (k: KeyframePoint) => [
+  `${k.time}ms`,
+  k.easing ?? '',
+  ...KEYFRAME_PROPERTIES.filter(p => k[p.key] !== undefined).map(p => p.label),
+].join(' ');
+
+export function searchStudio(query: string, layers: LayerConfig[], projects: ProjectMeta[]): SearchResults {
+  const q = normalizeQuery(query);
+  if (!q) return { layers: [], keyframes: [], projects: [] };
+  const matches = (text: string) => normalizeQuery(text).includes(q);
+  return {
+    layers: layers.filter(l => matches(layerText(l))),
+    keyframes: layers.flatMap(layer => layer.keyframes.filter(k => matches(keyframeText(k))).map(keyframe => ({ layer, keyframe }))),
+    projects: projects.filter(p => matches(p.name)),
+  };
+}
+
+/** layers the editor keeps listed: the matches, the layers of matching keyframes and the groups around them */
+export function visibleLayerIds(layers: LayerConfig[], results: SearchResults): Set<string> {
+  const hit = new Set([...results.layers.map(l => l.id), ...results.keyframes.map(({ layer }) => layer.id)]);
+  const out = new Set<string>();
+  walkLayers(layers).forEach(({ layer, parents }) => {
+    if (hit.has(layer.id)) [layer, ...parents].forEach(l => out.add(l.id));
+  });
+  return out;
+}
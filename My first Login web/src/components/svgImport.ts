@@ -0,0 +1,214 @@
+import { flattenSvgPath } from './animationUtils';
+import type { GradientConfig, LayerConfig, ShapeConfig } from './animationEngine';
+import { defaultGroup, mkId } from './projectSchema';
+
+/**
+ * Importación de SVG como capas de forma (en vez de rasterizarlo a una imagen):
+ * cada path/rect/circle/ellipse/line/polyline/polygon se convierte en una capa
+ * de forma dentro de un grupo con el nombre del archivo. El documento se parsea
+ * con DOMParser a un árbol plano de nodos para que la conversión sea pura.
+ */
+export type SvgNode = { tag: string; attrs: Record<string, string>; children: SvgNode[] };
+
+export type SvgImportOptions = {
+  /** stage size in px */
+  width: number;
+  height: number;
+  name?: string;
+  /** box (center x/y and size, % of the stage) the drawing is fitted into; also the group's pivot */
+  box?: { x: number; y: number; w: number; h: number };
+};
+
+export type SvgImportResult = { layers: LayerConfig[]; unsupported: string[] };
+
+const DEFAULT_BOX = { x: 50, y: 50, w: 60, h: 60 };
+
+const SKIPPED_TAGS = new Set(['defs', 'title', 'desc', 'metadata', 'style', 'linearGradient', 'radialGradient', 'stop']);
+
+const r3 = (v: number) => Math.round(v * 1000) / 1000;
+
+const numbers = (text: string | undefined) => (text ?? '').trim().split(/[\s,]+/).filter(Boolean).map(Number);
+
+const length = (text: string | undefined, fallback = 0) => {
+  const v = parseFloat(text ?? '');
+  return Number.isFinite(v) ? v : fallback;
+};
+
+// gradient offsets and opacities may be written as percentages
+const fraction = (text: string | undefined, fallback: number) => {
+  if (!text) return fallback;
+  const v = parseFloat(text);
+  if (!Number.isFinite(v)) return fallback;
+  return text.trim().endsWith('%') ? v / 100 : v;
+};
+
+/** presentation attributes with the `style` attribute on top */
+const styleOf = (node: SvgNode): Record<string, string> => {
+  const out = { ...node.attrs };
+  (node.attrs.style ?? '').split(';').forEach(decl => {
+    const [prop, ...value] = decl.split(':');
+    if (prop?.trim() && value.length) out[prop.trim()] = value.join(':').trim();
+  });
+  return out;
+};
+
+export function parseSvgDocument(text: string): SvgNode {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (root.nodeName !== 'svg' || doc.getElementsByTagName('parsererror').length) throw new Error('El archivo no es un SVG válido');
+  const toNode = (el: Element): SvgNode => ({
+    tag: el.localName,
+    attrs: Object.fromEntries(Array.from(el.attributes, a => [a.name, a.value])),
+    children: Array.from(el.children, toNode),
+  });
+  return toNode(root);
+}
+
+function collectGradients(node: SvgNode, out: Map<string, GradientConfig>) {
+  if ((node.tag === 'linearGradient' || node.tag === 'radialGradient') && node.attrs.id) {
+    const stops = node.children.filter(c => c.tag === 'stop').map(stop => {
+      const style = styleOf(stop);
+      return { offset: Math.min(1, Math.max(0, fraction(style.offset, 0))), color: style['stop-color'] || '#000000' };
+    });
+    const dx = fraction(node.attrs.x2, 1) - fraction(node.attrs.x1, 0), dy = fraction(node.attrs.y2, 0) - fraction(node.attrs.y1, 0);
+    out.set(node.attrs.id, {
+      type: node.tag === 'radialGradient' ? 'radial' : 'linear',
+      angle: r3(Math.atan2(dy, dx) * 180 / Math.PI),
+      stops,
+    });
+  }
+  node.children.forEach(c => collectGradients(c, out));
+}
+
+type Inherited = { fill: string; stroke: string; strokeWidth: number; dx: number; dy: number };
+
+// geometry of a drawable element: rects and ellipses keep their kind, the rest become paths
+type Geometry = { kind: ShapeConfig['kind']; path?: string; radius?: number; box: [number, number, number, number] };
+
+function geometryOf(node: SvgNode): Geometry | null {
+  const a = node.attrs;
+  switch (node.tag) {
+    case 'rect': {
+      const w = length(a.width), h = length(a.height);
+      if (w <= 0 || h <= 0) return null;
+      return { kind: 'rect', radius: length(a.rx, length(a.ry)), box: [length(a.x), length(a.y), w, h] };
+    }
+    case 'circle': {
+      const r = length(a.r);
+      return r > 0 ? { kind: 'ellipse', box: [length(a.cx) - r, length(a.cy) - r, 2 * r, 2 * r] } : null;
+    }
+    case 'ellipse': {
+      const rx = length(a.rx), ry = length(a.ry);
+      return rx > 0 && ry > 0 ? { kind: 'ellipse', box: [length(a.cx) - rx, length(a.cy) - ry, 2 * rx, 2 * ry] } : null;
+    }
+    case 'line':
+      return pathGeometry(`M${length(a.x1)} ${length(a.y1)}L${length(a.x2)} ${length(a.y2)}`);
+    case 'polyline':
+    case 'polygon': {
+      const p = numbers(a.points);
+      if (p.length < 4) return null;
+      return pathGeometry(`M${p.slice(0, 2).join(' ')}L${p.slice(2, p.length - (p.length % 2)).join(' ')}${node.tag === 'polygon' ? 'Z' : ''}`);
+    }
+    case 'path':
+      return a.d ? pathGeometry(a.d) : null;
+    default:
+      return null;
+  }
+}
+
+// a path's box is the bounds of its flattened outline; lines get a minimum thickness
+function pathGeometry(d: string): Geometry | null {
+  const points = flattenSvgPath(d).flat();
+  if (points.length < 4) return null;
+  const xs = points.filter((_, i) => i % 2 === 0), ys = points.filter((_, i) => i % 2 === 1);
+  const x = Math.min(...xs), y = Math.min(...ys);
+  const w = Math.max(Math.max(...xs) - x, 1), h = Math.max(Math.max(...ys) - y, 1);
+  return { kind: 'path', path: d, box: [r3(x), r3(y), r3(w), r3(h)] };
+}
+
+// only translations are applied; rotations, scales and skews would distort the boxes
+function translation(transform: string | undefined, unsupported: string[], where: string) {
+  if (!transform) return { dx: 0, dy: 0 };
+  const m = /^\s*translate\(\s*([-+\d.e]+)(?:[\s,]+([-+\d.e]+))?\s*\)\s*$/i.exec(transform);
+  if (m) return { dx: Number(m[1]) || 0, dy: Number(m[2] ?? 0) || 0 };
+  unsupported.push(`${where}: transform "${transform}" (se ignora)`);
+  return { dx: 0, dy: 0 };
+}
+
+/** shape layers for every drawable element, grouped under one group layer (first in the list) */
+export function svgToLayers(root: SvgNode, { width, height, name = 'SVG', box = DEFAULT_BOX }: SvgImportOptions): SvgImportResult {
+  const unsupported: string[] = [];
+  const gradients = new Map<string, GradientConfig>();
+  collectGradients(root, gradients);
+  const vb = numbers(root.attrs.viewBox);
+  const [vx, vy, vw, vh] = vb.length === 4 && vb[2] > 0 && vb[3] > 0 ? vb : [0, 0, length(root.attrs.width, 100) || 100, length(root.attrs.height, 100) || 100];
+  // px per SVG unit once the viewBox is fitted into the box
+  const k = Math.min(width * box.w / 100 / vw, height * box.h / 100 / vh);
+  const toX = (x: number) => box.x + (x - vx - vw / 2) * k / width * 100;
+  const toY = (y: number) => box.y + (y - vy - vh / 2) * k / height * 100;
+
+  const group: LayerConfig = { ...defaultGroup(), label: name, x: box.x, y: box.y };
+  const layers: LayerConfig[] = [group];
+  const count: Record<string, number> = {};
+
+  const visit = (node: SvgNode, inherited: Inherited) => {
+    if (SKIPPED_TAGS.has(node.tag)) return;
+    const style = styleOf(node);
+    const where = node.attrs.id ? `#${node.attrs.id}` : `<${node.tag}>`;
+    const { dx, dy } = translation(style.transform, unsupported, where);
+    const own: Inherited = {
+      fill: style.fill ?? inherited.fill,
+      stroke: style.stroke ?? inherited.stroke,
+      strokeWidth: style['stroke-width'] !== undefined ? length(style['stroke-width'], 1) : inherited.strokeWidth,
+      dx: inherited.dx + dx,
+      dy: inherited.dy + dy,
+    };
+    if (node.tag === 'svg' || node.tag === 'g') {
+      node.children.forEach(c => visit(c, own));
+      return;
+    }
+    const geometry = geometryOf(node);
+    if (!geometry) {
+      unsupported.push(`${where}: ${['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon'].includes(node.tag) ? 'geometría vacía' : 'elemento no soportado'}`);
+      return;
+    }
+    const gradientRef = /^url\(\s*#([^)\s]+)\s*\)$/.exec(own.fill);
+    const gradient = gradientRef ? gradients.get(gradientRef[1]) ?? null : null;
+    if (gradientRef && !gradient) unsupported.push(`${where}: relleno "${own.fill}" (se usa negro)`);
+    const filled = own.fill !== 'none' && own.fill !== 'transparent';
+    const stroke = own.stroke !== 'none' && !own.stroke.startsWith('url(') ? own.stroke : null;
+    if (own.stroke.startsWith('url(')) unsupported.push(`${where}: trazo con degradado (se omite)`);
+    const isPath = geometry.kind === 'path';
+    const [bx, by, bw, bh] = geometry.box;
+    const x0 = bx + own.dx, y0 = by + own.dy;
+    const opacity = fraction(style.opacity, 1);
+    count[node.tag] = (count[node.tag] ?? 0) + 1;
+    layers.push({
+      id: mkId(),
+      label: node.attrs.id || `${node.tag} ${count[node.tag]}`,
+      type: 'shape',
+      parentId: group.id,
+      depth: 0.5,
+      color: filled && !gradientRef ? own.fill : '#000000',
+      image: null,
+      visible: true,
+      x: r3((toX(x0) + toX(x0 + bw)) / 2),
+      y: r3((toY(y0) + toY(y0 + bh)) / 2),
+      w: r3(bw * k / width * 100),
+      h: r3(bh * k / height * 100),
+      shape: {
+        kind: geometry.kind,
+        ...(geometry.kind === 'rect' ? { radius: r3((geometry.radius ?? 0) * k) } : {}),
+        ...(isPath ? { path: geometry.path, viewBox: geometry.box } : {}),
+        fill: filled,
+        gradient: filled ? gradient : null,
+        stroke,
+        // paths draw in their own units, the other kinds in stage px
+        strokeWidth: r3(isPath ? own.strokeWidth : own.strokeWidth * k),
+      },
+      keyframes: [{ id: mkId(), time: 0, translate: 0, opacity: Math.min(1, Math.max(0, opacity)) }],
+    });
+  };
+  visit(root, { fill: '#000000', stroke: 'none', strokeWidth: 1, dx: 0, dy: 0 });
+  return { layers, unsupported };
+}
@@ -0,0 +1,45 @@
+import type { PlaybackMode } from './animationEngine';
+
+/**
+ * Código de tiempo y controles de reproducción del editor: el tiempo se
+ * muestra como mm:ss.mmm con el número de fotograma a los fps de reproducción,
+ * y el campo acepta varias formas de escribir un instante (ver parseTimecode).
+ */
+export const PLAYBACK_RATES = [0.1, 0.25, 0.5, 1, 1.5, 2, 4];
+
+export const PLAYBACK_MODE_LABELS: Record<PlaybackMode, string> = { once: 'Una vez', loop: 'Loop', pingpong: 'Ping-pong' };
+
+/** the preset speed after (1) or before (-1) `rate`; it stays put past the last one */
+export function nextRate(rate: number, direction: 1 | -1) {
+  const next = direction > 0 ? PLAYBACK_RATES.find(r => r > rate) : [...PLAYBACK_RATES].reverse().find(r => r < rate);
+  return next ?? rate;
+}
+
+export const FPS_PRESETS = [12, 24, 25, 30, 60];
+
+const pad = (n: number, width: number) => String(n).padStart(width, '0');
+
+/** "01:02.500" for 62 500 ms */
+export function formatTimecode(ms: number) {
+  const total = Math.max(0, Math.round(ms));
+  return `${pad(Math.floor(total / 60000), 2)}:${pad(Math.floor(total / 1000) % 60, 2)}.${pad(total % 1000, 3)}`;
+}
+
+/** frame shown at `ms`, counting from 0 */
+export const frameAt = (ms: number, fps: number) => Math.floor(Math.round(ms * fps) / 1000 + 1e-9);
+
+/**
+ * Time in ms from what the user typed, or null:
+ * "1:02.5" (minutes:seconds), "2.5s", "1250ms", "1250" (ms, like the rest of
+ * the editor) and "75f" (a frame at `fps`).
+ */
+export function parseTimecode(text: string, fps: number): number | null {
+  const value = text.trim().toLowerCase().replace(',', '.');
+  let ms: number | null = null;
+  let m: RegExpMatchArray | null;
+  if ((m = value.match(/^(\d+):(\d+(?:\.\d+)?)$/))) ms = Number(m[1]) * 60000 + Number(m[2]) * 1000;
+  else if ((m = value.match(/^(\d+(?:\.\d+)?)\s*s$/))) ms = Number(m[1]) * 1000;
+  else if ((m = value.match(/^(\d+(?:\.\d+)?)\s*(?:ms)?$/))) ms = Number(m[1]);
+  else if ((m = value.match(/^(\d+)\s*f$/))) ms = Number(m[1]) * 1000 / fps;
+  return ms !== null && Number.isFinite(ms) ? Math.round(ms * 1000) / 1000 : null;
+}
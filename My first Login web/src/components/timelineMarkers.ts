@@ -0,0 +1,92 @@
+import { clamp, snap } from './animationUtils';
+import type { AnimationConfig, LoopRange, TimelineMarker, TimelineRegion } from './animationEngine';
+import { mkMarker, mkRegion } from './projectSchema';
+
+/**
+ * Marcadores, regiones con nombre y rango de loop de la timeline. Las
+ * operaciones son puras y dejan las listas ordenadas por tiempo; el snapping
+ * de keyframes usa estos puntos además de la rejilla de `snapInterval`.
+ */
+export type TimelineAnnotations = Pick<AnimationConfig, 'markers' | 'regions' | 'loop'>;
+
+/** times keyframes snap to: markers, region edges and the loop points */
+export const snapTargets = ({ markers = [], regions = [], loop }: TimelineAnnotations) =>
+  [...new Set([...markers.map(m => m.time), ...regions.flatMap(r => [r.start, r.end]), ...(loop ? [loop.start, loop.end] : [])])].sort((a, b) => a - b);
+
+/**
+ * `time` on the nearest target closer than `threshold` ms; otherwise on the grid
+ * (`interval` 0 = no grid). Targets win so a marker off the grid can be hit.
+ */
+export function snapTime(time: number, { interval, targets, threshold }: { interval: number; targets: number[]; threshold: number }): number {
+  let best: number | null = null;
+  targets.forEach(t => {
+    if (Math.abs(t - time) <= threshold && (best === null || Math.abs(t - time) < Math.abs(best - time))) best = t;
+  });
+  if (best !== null) return best;
+  return interval > 0 ? snap(time, interval) : time;
+}
+
+const byTime = (a: TimelineMarker, b: TimelineMarker) => a.time - b.time;
+const byStart = (a: TimelineRegion, b: TimelineRegion) => a.start - b.start;
+
+/** a marker at `time`, labelled "M1", "M2"… unless given a label */
+export function addMarker(markers: TimelineMarker[], time: number, label?: string): { markers: TimelineMarker[]; marker: TimelineMarker } {
+  const marker = mkMarker(time, label ?? `M${markers.length + 1}`);
+  return { markers: [...markers, marker].sort(byTime), marker };
+}
+
+export const updateMarker = (markers: TimelineMarker[], id: string, patch: Partial<TimelineMarker>) =>
+  markers.map(m => (m.id === id ? { ...m, ...patch } : m)).sort(byTime);
+
+export const removeMarker = (markers: TimelineMarker[], id: string) => markers.filter(m => m.id !== id);
+
+/** the first marker after `time` (direction 1) or the last one before it (-1) */
+export function adjacentMarker(markers: TimelineMarker[], time: number, direction: 1 | -1): TimelineMarker | null {
+  const sorted = [...markers].sort(byTime);
+  return (direction > 0 ? sorted.find(m => m.time > time) : sorted.reverse().find(m => m.time < time)) ?? null;
+}
+
+/** a region over [start, end]; a zero-length span gets `fallback` ms, inside the timeline */
+export function addRegion(regions: TimelineRegion[], start: number, end: number, duration: number, fallback = 1000): { regions: TimelineRegion[]; region: TimelineRegion } {
+  let from = clamp(Math.min(start, end), 0, duration);
+  let to = clamp(Math.max(start, end), 0, duration);
+  if (to <= from) {
+    to = Math.min(duration, from + fallback);
+    from = Math.min(from, Math.max(0, to - fallback));
+  }
+  const region = mkRegion(from, to, `Región ${regions.length + 1}`);
+  return { regions: [...regions, region].sort(byStart), region };
+}
+
+/** edits keep start < end: moving one edge past the other drags it along, 1 ms apart */
+export function updateRegion(regions: TimelineRegion[], id: string, patch: Partial<TimelineRegion>, duration: number) {
+  return regions.map(r => {
+    if (r.id !== id) return r;
+    const next = { ...r, ...patch };
+    next.start = clamp(next.start, 0, duration - 1);
+    next.end = clamp(next.end, 1, duration);
+    if (next.end <= next.start) {
+      if (patch.start !== undefined) next.end = next.start + 1;
+      else next.start = next.end - 1;
+    }
+    return next;
+  }).sort(byStart);
+}
+
+export const removeRegion = (regions: TimelineRegion[], id: string) => regions.filter(r => r.id !== id);
+
+/**
+ * Set the loop's in or out point at `time`. Without a loop the other end is the
+ * timeline edge; an in point past the out point (or the reverse) moves the
+ * other end to the timeline edge too. Null when the range would be empty.
+ */
+export function setLoopPoint(loop: LoopRange | null | undefined, point: 'start' | 'end', time: number, duration: number): LoopRange | null {
+  const t = clamp(time, 0, duration);
+  let start = point === 'start' ? t : loop?.start ?? 0;
+  let end = point === 'end' ? t : loop?.end ?? duration;
+  if (end <= start) {
+    if (point === 'start') end = duration;
+    else start = 0;
+  }
+  return end > start ? { start, end } : null;
+}
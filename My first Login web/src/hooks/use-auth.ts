@@ -0,0 +1,23 @@
+import { createContext, useContext } from "react"
+import type { AuthSession, SignInInput, SignUpInput } from "@/lib/authClient"
+
+export type AuthStatus = "loading" | "authenticated" | "anonymous"
+
+export type AuthContextState = {
+  status: AuthStatus
+  session: AuthSession | null
+  signIn: (input: SignInInput) => Promise<AuthSession>
+  signUp: (input: SignUpInput) => Promise<AuthSession>
+  signOut: () => Promise<void>
+}
+
+export const AuthContext = createContext<AuthContextState | undefined>(undefined)
+
+export const useAuth = () => {
+  const context = useContext(AuthContext)
+
+  if (context === undefined)
+    throw new Error("useAuth must be used within an AuthProvider")
+
+  return context
+}
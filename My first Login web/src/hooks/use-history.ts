@@ -0,0 +1,41 @@
+import { useCallback, useMemo, useState, type SetStateAction } from "react"
+import {
+  beginTransaction,
+  canRedo,
+  canUndo,
+  commitTransaction,
+  initHistory,
+  record,
+  redo,
+  undo,
+  DEFAULT_HISTORY_LIMIT,
+} from "@/lib/history"
+
+/**
+ * useHistory: como useState pero con deshacer/rehacer. `set` acepta el mismo
+ * updater que setState más una clave opcional de coalesce.
+ */
+export function useHistory<T>(initial: T | (() => T), limit = DEFAULT_HISTORY_LIMIT) {
+  const [history, setHistory] = useState(() => initHistory(initial instanceof Function ? initial() : initial))
+
+  const set = useCallback((next: SetStateAction<T>, options?: { coalesce?: string }) => {
+    setHistory(h => record(h, next instanceof Function ? next(h.present) : next, { coalesce: options?.coalesce, limit }))
+  }, [limit])
+
+  const controls = useMemo(() => ({
+    undo: () => setHistory(undo),
+    redo: () => setHistory(redo),
+    begin: () => setHistory(beginTransaction),
+    commit: () => setHistory(h => commitTransaction(h, limit)),
+    /** replace the state and forget every entry (e.g. after loading a project) */
+    reset: (next: T) => setHistory(initHistory(next)),
+  }), [limit])
+
+  return {
+    state: history.present,
+    set,
+    ...controls,
+    canUndo: canUndo(history),
+    canRedo: canRedo(history),
+  }
+}
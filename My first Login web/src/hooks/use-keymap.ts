@@ -0,0 +1,34 @@
+import { useCallback, useMemo, useState } from "react"
+import { useAuth } from "@/hooks/use-auth"
+import { isKeymap, type Keymap } from "@/components/commands"
+
+const storageKey = (userId: string) => `animation-builder-keymap-${userId}`
+
+const readKeymap = (userId: string): Keymap => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(storageKey(userId)) ?? "{}")
+    return isKeymap(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+/** atajos reasignados por el usuario con sesión (o el anónimo), guardados en localStorage */
+export const useKeymap = () => {
+  const { session } = useAuth()
+  const userId = session?.user.id ?? "anonymous"
+  // edits of this session; another account reads its own keymap
+  const [edited, setEdited] = useState<{ userId: string; keymap: Keymap } | null>(null)
+  const keymap = useMemo(() => (edited?.userId === userId ? edited.keymap : readKeymap(userId)), [edited, userId])
+
+  const setKeymap = useCallback((next: Keymap) => {
+    setEdited({ userId, keymap: next })
+    try {
+      localStorage.setItem(storageKey(userId), JSON.stringify(next))
+    } catch {
+      // private mode: the keymap lasts until the page is reloaded
+    }
+  }, [userId])
+
+  return [keymap, setKeymap] as const
+}
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { createIndexedDbProjectStore } from "@/lib/indexedDbProjectStore"
+import type { ProjectMeta, ProjectStore, StoredPreset } from "@/lib/projectStore"
+import type { LayerSymbol } from "@/components/layerTree"
+import { importProject } from "@/components/projectSchema"
+import { useAuth } from "@/hooks/use-auth"
+
+/** the signed-in user's store; every account has its own database */
+export const useProjectStore = (): ProjectStore => {
+  const { session } = useAuth()
+  const userId = session?.user.id ?? "anonymous"
+  return useMemo(() => createIndexedDbProjectStore({ dbName: `animation-builder-projects-${userId}` }), [userId])
+}
+
+/** the project list, refreshed on every change to the store */
+export const useProjectList = (store: ProjectStore) => {
+  const [projects, setProjects] = useState<ProjectMeta[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(() => {
+    store.list().then(
+      list => { setProjects(list); setError(null) },
+      (e: Error) => { setProjects([]); setError(e.message) }
+    )
+  }, [store])
+
+  useEffect(() => {
+    refresh()
+    return store.subscribe(refresh)
+  }, [store, refresh])
+
+  return { projects, error }
+}
+
+/** the user's symbol library; empty without a store (overlay) */
+export const useSymbolList = (store: ProjectStore | undefined) => {
+  const [symbols, setSymbols] = useState<LayerSymbol[]>([])
+
+  useEffect(() => {
+    if (!store) return
+    const refresh = () => {
+      store.listSymbols().then(setSymbols, () => setSymbols([]))
+    }
+    refresh()
+    return store.subscribe(refresh)
+  }, [store])
+
+  return symbols
+}
+
+// presets used to live in localStorage, images included; older ones only kept the layer list
+const LEGACY_PRESETS_KEY = "animation-builder-presets"
+
+type LegacyPreset = { name: string; project?: unknown; config?: unknown }
+
+// one migration at a time, so a second builder mounting meanwhile doesn't copy the same presets again
+let migration: Promise<string[]> = Promise.resolve([])
+
+/**
+ * Moves the presets left in localStorage into the store one at a time, oldest
+ * first. After each one the rest are written back, so a failure leaves only
+ * the presets not moved yet. Presets that don't validate stay in localStorage
+ * and their names are returned.
+ */
+function migrateLegacyPresets(store: ProjectStore) {
+  migration = migration.catch(() => []).then(async () => {
+    const raw = localStorage.getItem(LEGACY_PRESETS_KEY)
+    if (!raw) return []
+    const pending = JSON.parse(raw) as LegacyPreset[]
+    const rejected: LegacyPreset[] = []
+    const keep = () => {
+      const left = [...rejected, ...pending]
+      if (left.length) localStorage.setItem(LEGACY_PRESETS_KEY, JSON.stringify(left))
+      else localStorage.removeItem(LEGACY_PRESETS_KEY)
+    }
+    while (pending.length) {
+      const preset = pending[0]
+      const result = importProject(preset.project ?? preset.config)
+      if (result.ok) await store.savePreset(preset.name, result.project)
+      else rejected.push(preset)
+      pending.shift()
+      keep()
+    }
+    return rejected.map(p => p.name)
+  })
+  return migration
+}
+
+/**
+ * The builder's presets kept in the store; empty without one. Presets left in
+ * localStorage by older versions move to the store only with a session, so
+ * they land in the user's own database; `rejected` names the ones that could
+ * not be moved.
+ */
+export const usePresetList = (store: ProjectStore | undefined) => {
+  const signedIn = useAuth().session !== null
+  const [presets, setPresets] = useState<StoredPreset[]>([])
+  const [rejected, setRejected] = useState<string[]>([])
+
+  useEffect(() => {
+    if (!store) return
+    const refresh = () => {
+      store.listPresets().then(setPresets, () => setPresets([]))
+    }
+    if (signedIn) {
+      // a failed migration is tried again on the next mount
+      migrateLegacyPresets(store).then(setRejected, () => undefined).finally(refresh)
+    } else {
+      refresh()
+    }
+    return store.subscribe(refresh)
+  }, [store, signedIn])
+
+  return { presets, rejected }
+}
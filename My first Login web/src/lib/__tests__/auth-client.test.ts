@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AuthError, validateSignUp } from '../authClient';
+import { createMockAuthClient, USERS_KEY } from '../mockAuthClient';
+
+const memoryStorage = () => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (k: string) => data.get(k) ?? null,
+    setItem: (k: string, v: string) => { data.set(k, v); },
+    removeItem: (k: string) => { data.delete(k); },
+  };
+};
+
+describe('mock auth client', () => {
+  let storage: ReturnType<typeof memoryStorage>;
+  beforeEach(() => { storage = memoryStorage(); });
+
+  it('validates sign up input', () => {
+    const errors = validateSignUp({ name: '', email: 'nope', password: 'short' });
+    expect(Object.keys(errors).sort()).toEqual(['email', 'name', 'password']);
+  });
+
+  it('signs up, persists the session and hashes the password', async () => {
+    const client = createMockAuthClient({ storage, latency: 0 });
+    const session = await client.signUp({ name: 'Ana', email: 'Ana@Example.com', password: 'secreto123' });
+    expect(session.user.email).toBe('ana@example.com');
+    expect(await client.getSession()).toEqual(session);
+    const raw = storage.getItem(USERS_KEY)!;
+    expect(raw).not.toContain('secreto123');
+  });
+
+  it('rejects duplicated emails', async () => {
+    const client = createMockAuthClient({ storage, latency: 0 });
+    await client.signUp({ name: 'Ana', email: 'ana@example.com', password: 'secreto123' });
+    await expect(client.signUp({ name: 'Otra', email: 'ANA@example.com', password: 'secreto456' }))
+      .rejects.toMatchObject({ code: 'email-taken' });
+  });
+
+  it('signs in with the right password only', async () => {
+    const client = createMockAuthClient({ storage, latency: 0 });
+    await client.signUp({ name: 'Ana', email: 'ana@example.com', password: 'secreto123' });
+    await client.signOut();
+    expect(await client.getSession()).toBeNull();
+    await expect(client.signIn({ email: 'ana@example.com', password: 'otra-cosa1' })).rejects.toBeInstanceOf(AuthError);
+    const session = await client.signIn({ email: 'ana@example.com', password: 'secreto123' });
+    expect(session.user.name).toBe('Ana');
+  });
+
+  it('expires sessions', async () => {
+    const client = createMockAuthClient({ storage, latency: 0, sessionTtl: -1 });
+    await client.signUp({ name: 'Ana', email: 'ana@example.com', password: 'secreto123' });
+    expect(await client.getSession()).toBeNull();
+  });
+});
@@ -0,0 +1,10 @@
+import type { ProjectDocument } from '@/components/projectSchema';
+
+export const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+// one plain layer per image
+export const doc = (images: (string | null)[]): ProjectDocument => ({
+  version: 1,
+  timelineDuration: 1000,
+  layers: images.map((image, i) => ({ id: `l${i}`, label: 'L', depth: 0.5, color: '#fff', image, keyframes: [] })),
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { createGifEncoder, paletteIndex, TRANSPARENT_INDEX } from '../gifEncoder';
+
+// minimal reader for the encoder's own output: skips to each image and LZW-decodes it
+function decodeFrames(gif: Uint8Array) {
+  let p = 13 + 256 * 3;
+  const frames: { delay: number; indices: number[] }[] = [];
+  let delay = 0;
+  const readBlocks = () => {
+    const data: number[] = [];
+    for (let n = gif[p++]; n; n = gif[p++]) { data.push(...gif.subarray(p, p + n)); p += n; }
+    return data;
+  };
+  while (gif[p] !== 0x3b) {
+    if (gif[p] === 0x21) {
+      if (gif[p + 1] === 0xf9) delay = gif[p + 4] | (gif[p + 5] << 8);
+      p += 2;
+      readBlocks();
+    } else if (gif[p] === 0x2c) {
+      p += 10;
+      const minCodeSize = gif[p++];
+      const data = readBlocks();
+      const clear = 1 << minCodeSize;
+      let size = minCodeSize + 1, bit = 0;
+      let dict: number[][] = [];
+      const reset = () => { dict = Array.from({ length: clear + 2 }, (_, i) => [i]); size = minCodeSize + 1; };
+      const out: number[] = [];
+      let prev: number[] | null = null;
+      reset();
+      for (;;) {
+        let code = 0;
+        for (let i = 0; i < size; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+        if (code === clear) { reset(); prev = null; continue; }
+        if (code === clear + 1) break;
+        const entry: number[] = code < dict.length ? dict[code] : [...prev!, prev![0]];
+        out.push(...entry);
+        if (prev) dict.push([...prev, entry[0]]);
+        if (dict.length === 1 << size && size < 12) size++;
+        prev = entry;
+      }
+      frames.push({ delay, indices: out });
+    } else throw new Error(`unexpected block ${gif[p]}`);
+  }
+  return frames;
+}
+
+describe('gifEncoder', () => {
+  it('writes a looping GIF89a with a global palette', () => {
+    const gif = createGifEncoder(2, 1).finish();
+    expect(String.fromCharCode(...gif.subarray(0, 6))).toBe('GIF89a');
+    expect(gif[6] | (gif[7] << 8)).toBe(2);
+    expect(String.fromCharCode(...gif.subarray(13 + 768 + 3, 13 + 768 + 14))).toBe('NETSCAPE2.0');
+    expect(gif[gif.length - 1]).toBe(0x3b);
+  });
+
+  it('round-trips pixels through LZW, including table resets', () => {
+    const w = 128, h = 96;
+    const rgba = new Uint8ClampedArray(w * h * 4);
+    // pseudo-random noise fills the 4096-entry table several times
+    let seed = 7;
+    for (let i = 0; i < rgba.length; i += 4) {
+      seed = (seed * 1103515245 + 12345) >>> 0;
+      rgba[i] = seed & 255; rgba[i + 1] = (seed >> 8) & 255; rgba[i + 2] = (seed >> 16) & 255;
+      rgba[i + 3] = i % 28 === 0 ? 0 : 255;
+    }
+    const enc = createGifEncoder(w, h);
+    enc.addFrame(rgba, 4);
+    enc.addFrame(rgba, 5);
+    const frames = decodeFrames(enc.finish());
+    expect(frames.map(f => f.delay)).toEqual([4, 5]);
+    const expected = Array.from({ length: w * h }, (_, p) =>
+      rgba[p * 4 + 3] < 128 ? TRANSPARENT_INDEX : paletteIndex(rgba[p * 4], rgba[p * 4 + 1], rgba[p * 4 + 2]));
+    expect(frames[0].indices).toEqual(expected);
+  });
+});
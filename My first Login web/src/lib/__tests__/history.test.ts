@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { beginTransaction, canRedo, canUndo, commitTransaction, initHistory, record, redo, undo } from '../history';
+
+describe('history', () => {
+  it('undoes and redoes recorded changes', () => {
+    let h = initHistory(0);
+    h = record(h, 1);
+    h = record(h, 2);
+    h = undo(h);
+    expect(h.present).toBe(1);
+    h = undo(h);
+    expect(h.present).toBe(0);
+    expect(canUndo(h)).toBe(false);
+    h = redo(h);
+    expect(h.present).toBe(1);
+    expect(canRedo(h)).toBe(true);
+  });
+
+  it('drops the redo branch on a new change', () => {
+    let h = record(record(initHistory('a'), 'b'), 'c');
+    h = record(undo(h), 'd');
+    expect(h.future).toEqual([]);
+    expect(undo(h).present).toBe('b');
+  });
+
+  it('collapses a transaction into a single entry', () => {
+    let h = beginTransaction(initHistory(0));
+    for (let i = 1; i <= 10; i++) h = record(h, i);
+    h = commitTransaction(h);
+    expect(h.past).toEqual([0]);
+    expect(undo(h).present).toBe(0);
+  });
+
+  it('leaves no entry for an empty transaction', () => {
+    const h = commitTransaction(beginTransaction(initHistory(0)));
+    expect(canUndo(h)).toBe(false);
+  });
+
+  it('coalesces changes with the same key inside the window', () => {
+    let h = initHistory('');
+    h = record(h, 'h', { coalesce: 'label', now: 0 });
+    h = record(h, 'ho', { coalesce: 'label', now: 300 });
+    h = record(h, 'hol', { coalesce: 'label', now: 600 });
+    expect(h.past).toEqual(['']);
+    // same key after the window starts a new entry
+    h = record(h, 'hola', { coalesce: 'label', now: 5000 });
+    expect(h.past).toEqual(['', 'hol']);
+  });
+
+  it('respects the size limit', () => {
+    let h = initHistory(0);
+    for (let i = 1; i <= 5; i++) h = record(h, i, { limit: 3 });
+    expect(h.past).toEqual([2, 3, 4]);
+  });
+});
@@ -0,0 +1,62 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { createIndexedDbProjectStore } from '../indexedDbProjectStore';
+import { doc, PNG } from './fixtures';
+
+// a fresh database for every test
+let databases = 0;
+const freshStore = () => createIndexedDbProjectStore({ dbName: `test-${++databases}` });
+
+describe('createIndexedDbProjectStore', () => {
+  it('saves, lists, renames, duplicates and removes projects', async () => {
+    const store = freshStore();
+    let changes = 0;
+    store.subscribe(() => changes++);
+    const a = await store.create('A', doc([PNG, PNG]));
+    const loaded = await store.load(a.id);
+    expect(loaded?.meta).toEqual(a);
+    expect(loaded?.document.layers.map(l => l.image)).toEqual([PNG, PNG]);
+
+    await store.save(a.id, { ...doc([null]), timelineDuration: 2000 });
+    expect((await store.load(a.id))?.document.timelineDuration).toBe(2000);
+    await store.rename(a.id, 'Renombrado');
+    const copy = await store.duplicate(a.id);
+    expect(copy.name).toBe('Renombrado (copia)');
+    expect((await store.list()).map(p => p.id).sort()).toEqual([a.id, copy.id].sort());
+
+    await store.remove(a.id);
+    expect(await store.load(a.id)).toBeNull();
+    await expect(store.rename(a.id, 'B')).rejects.toMatchObject({ code: 'not-found' });
+    expect(changes).toBe(5);
+  });
+
+  it('keeps presets with their images, newest first', async () => {
+    const store = freshStore();
+    await store.savePreset('Uno', doc([PNG]));
+    await new Promise(r => setTimeout(r, 2));
+    await store.savePreset('Dos', doc([null]));
+    const presets = await store.listPresets();
+    expect(presets.map(p => p.name)).toEqual(['Dos', 'Uno']);
+    expect(presets[1].document.layers[0].image).toBe(PNG);
+  });
+
+  it('keeps symbol images as blobs and removes them with the symbol', async () => {
+    const store = freshStore();
+    const symbol = await store.saveSymbol('Logo', doc([PNG]).layers);
+    expect((await store.listSymbols()).map(s => s.layers[0].image)).toEqual([PNG]);
+    await store.removeSymbol(symbol.id);
+    expect(await store.listSymbols()).toEqual([]);
+  });
+
+  it('refuses to save a document that would not open again', async () => {
+    const store = freshStore();
+    const a = await store.create('A', doc([null]));
+    await expect(store.save(a.id, { ...doc([null]), timelineDuration: 0 })).rejects.toMatchObject({ code: 'invalid-document' });
+    expect((await store.load(a.id))?.document.timelineDuration).toBe(1000);
+  });
+
+  it('reports a missing IndexedDB as unavailable', async () => {
+    const store = createIndexedDbProjectStore({ factory: null as unknown as IDBFactory });
+    await expect(store.list()).rejects.toMatchObject({ code: 'unavailable' });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { assetRefs, blobToDataUrl, dataUrlToBlob, packDocument, unpackDocument } from '../projectStore';
+import { doc, PNG } from './fixtures';
+
+describe('projectStore assets', () => {
+  it('round-trips data URLs through blobs', async () => {
+    const blob = dataUrlToBlob(PNG);
+    expect(blob.type).toBe('image/png');
+    expect(await blobToDataUrl(blob)).toBe(PNG);
+  });
+
+  it('stores each distinct image once and restores it on unpack', async () => {
+    const packed = await packDocument(doc([PNG, PNG, null, 'https://example.com/a.png']));
+    expect(packed.assets).toHaveLength(1);
+    expect(assetRefs(packed.document)).toEqual([packed.assets[0].hash, packed.assets[0].hash]);
+    expect(packed.document.layers[3].image).toBe('https://example.com/a.png');
+
+    const blobs = new Map(packed.assets.map(a => [a.hash, a.blob]));
+    const restored = await unpackDocument(packed.document, async hash => blobs.get(hash));
+    expect(restored.layers.map(l => l.image)).toEqual([PNG, PNG, null, 'https://example.com/a.png']);
+  });
+
+  it('drops images whose blob is missing', async () => {
+    const packed = await packDocument(doc([PNG]));
+    const restored = await unpackDocument(packed.document, async () => undefined);
+    expect(restored.layers[0].image).toBeNull();
+  });
+});
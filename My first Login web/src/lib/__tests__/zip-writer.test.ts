@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from '../zipWriter';
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+describe('zipWriter', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(text('hello'))).toBe(0x3610a686);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('writes local headers, a central directory and the end record', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: text('hello') },
+      { name: 'frames/b.txt', data: text('world!') },
+    ]);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(new TextDecoder().decode(zip.subarray(30, 35))).toBe('a.txt');
+    expect(new TextDecoder().decode(zip.subarray(35, 40))).toBe('hello');
+
+    const eocd = zip.length - 22;
+    expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+    expect(view.getUint16(eocd + 10, true)).toBe(2);
+    const central = view.getUint32(eocd + 16, true);
+    expect(view.getUint32(central, true)).toBe(0x02014b50);
+    // second central entry points at the second local header
+    const second = central + 46 + 'a.txt'.length;
+    expect(view.getUint32(second + 42, true)).toBe(30 + 5 + 5);
+  });
+});
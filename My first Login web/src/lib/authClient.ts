@@ -0,0 +1,74 @@
+export type AuthUser = {
+  id: string;
+  name: string;
+  email: string;
+  createdAt: number;
+};
+
+export type AuthSession = {
+  token: string;
+  user: AuthUser;
+  expiresAt: number; // epoch ms
+};
+
+export type SignInInput = { email: string; password: string };
+export type SignUpInput = { name: string; email: string; password: string };
+
+export type AuthField = 'name' | 'email' | 'password';
+export type FieldErrors = Partial<Record<AuthField, string>>;
+
+export type AuthErrorCode = 'invalid-input' | 'email-taken' | 'invalid-credentials' | 'network';
+
+/**
+ * Error lanzado por cualquier AuthClient. `fieldErrors` permite a los formularios
+ * marcar el campo concreto que ha fallado.
+ */
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+  readonly fieldErrors: FieldErrors;
+
+  constructor(code: AuthErrorCode, message: string, fieldErrors: FieldErrors = {}) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Contrato que deben cumplir los backends de autenticación. La implementación
+ * por defecto (createMockAuthClient) vive en el navegador; un backend real solo
+ * tiene que implementar esta interfaz.
+ */
+export interface AuthClient {
+  getSession(): Promise<AuthSession | null>;
+  signIn(input: SignInInput): Promise<AuthSession>;
+  signUp(input: SignUpInput): Promise<AuthSession>;
+  signOut(): Promise<void>;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export function validateSignIn(input: SignInInput): FieldErrors {
+  const errors: FieldErrors = {};
+  if (!input.email.trim()) errors.email = 'El email es obligatorio';
+  else if (!EMAIL_RE.test(input.email.trim())) errors.email = 'Email no válido';
+  if (!input.password) errors.password = 'La contraseña es obligatoria';
+  return errors;
+}
+
+export function validateSignUp(input: SignUpInput): FieldErrors {
+  const errors: FieldErrors = validateSignIn(input);
+  if (!input.name.trim()) errors.name = 'El nombre es obligatorio';
+  if (input.password && input.password.length < MIN_PASSWORD_LENGTH) {
+    errors.password = `Mínimo ${MIN_PASSWORD_LENGTH} caracteres`;
+  } else if (input.password && !(/[a-z]/i.test(input.password) && /\d/.test(input.password))) {
+    errors.password = 'Debe contener letras y números';
+  }
+  return errors;
+}
+
+export const hasErrors = (errors: FieldErrors) => Object.keys(errors).length > 0;
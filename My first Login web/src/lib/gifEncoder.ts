@@ -0,0 +1,165 @@
+/**
+ * Codificador GIF89a mínimo (sin dependencias): paleta fija de 252 colores
+ * (6×7×6 niveles RGB), transparencia por alfa y LZW de hasta 12 bits.
+ */
+export type GifEncoderOptions = {
+  /** 0 = loop forever, n = play n + 1 times, null = no loop extension */
+  loop?: number | null;
+};
+
+export type GifEncoder = {
+  /** rgba: width * height * 4 bytes (ImageData.data); delay in centiseconds */
+  addFrame(rgba: Uint8ClampedArray, delay: number): void;
+  finish(): Uint8Array<ArrayBuffer>;
+};
+
+const R_LEVELS = 6, G_LEVELS = 7, B_LEVELS = 6;
+export const TRANSPARENT_INDEX = 255;
+
+class ByteWriter {
+  private buf: Uint8Array<ArrayBuffer> = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(b: number) {
+    if (this.length === this.buf.length) {
+      const next = new Uint8Array(this.buf.length * 2);
+      next.set(this.buf);
+      this.buf = next;
+    }
+    this.buf[this.length++] = b;
+  }
+
+  bytes(bs: ArrayLike<number>) {
+    for (let i = 0; i < bs.length; i++) this.byte(bs[i]);
+  }
+
+  u16(v: number) {
+    this.byte(v & 0xff);
+    this.byte((v >> 8) & 0xff);
+  }
+
+  ascii(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+
+  result() {
+    return this.buf.slice(0, this.length);
+  }
+}
+
+export function paletteIndex(r: number, g: number, b: number) {
+  const ri = Math.round(r / 255 * (R_LEVELS - 1));
+  const gi = Math.round(g / 255 * (G_LEVELS - 1));
+  const bi = Math.round(b / 255 * (B_LEVELS - 1));
+  return (ri * G_LEVELS + gi) * B_LEVELS + bi;
+}
+
+function palette() {
+  const table = new Uint8Array(256 * 3);
+  for (let r = 0; r < R_LEVELS; r++) {
+    for (let g = 0; g < G_LEVELS; g++) {
+      for (let b = 0; b < B_LEVELS; b++) {
+        const i = ((r * G_LEVELS + g) * B_LEVELS + b) * 3;
+        table[i] = Math.round(r * 255 / (R_LEVELS - 1));
+        table[i + 1] = Math.round(g * 255 / (G_LEVELS - 1));
+        table[i + 2] = Math.round(b * 255 / (B_LEVELS - 1));
+      }
+    }
+  }
+  return table;
+}
+
+// LZW with variable code size, emitted as 255-byte sub-blocks
+function writeLzw(out: ByteWriter, indices: Uint8Array, minCodeSize = 8) {
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoi + 1;
+  let dict = new Map<number, number>();
+
+  const block: number[] = [];
+  let bitBuf = 0, bitCount = 0;
+  const emit = (code: number) => {
+    bitBuf |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuf & 0xff);
+      bitBuf >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) { out.byte(255); out.bytes(block); block.length = 0; }
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const found = dict.get(key);
+    if (found !== undefined) { prefix = found; continue; }
+    emit(prefix);
+    if (nextCode === 4096) {
+      // table full: start over
+      emit(clear);
+      dict = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = eoi + 1;
+    } else {
+      // the decoder widens its codes one entry later, so compare before adding
+      if (nextCode === 1 << codeSize) codeSize++;
+      dict.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(eoi);
+  if (bitCount > 0) block.push(bitBuf & 0xff);
+  if (block.length) { out.byte(block.length); out.bytes(block); }
+  out.byte(0);
+}
+
+export function createGifEncoder(width: number, height: number, { loop = 0 }: GifEncoderOptions = {}): GifEncoder {
+  const out = new ByteWriter();
+  out.ascii('GIF89a');
+  out.u16(width);
+  out.u16(height);
+  out.byte(0xf7); // global color table, 8 bits per channel, 256 entries
+  out.byte(0);
+  out.byte(0);
+  out.bytes(palette());
+  if (loop !== null) {
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.ascii('NETSCAPE2.0');
+    out.bytes([0x03, 0x01]);
+    out.u16(loop);
+    out.byte(0);
+  }
+
+  return {
+    addFrame(rgba, delay) {
+      const indices = new Uint8Array(width * height);
+      let transparent = false;
+      for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+        if (rgba[i + 3] < 128) { indices[p] = TRANSPARENT_INDEX; transparent = true; }
+        else indices[p] = paletteIndex(rgba[i], rgba[i + 1], rgba[i + 2]);
+      }
+      // graphic control: dispose to background so transparent areas don't keep old pixels
+      out.bytes([0x21, 0xf9, 0x04, (2 << 2) | (transparent ? 1 : 0)]);
+      out.u16(Math.max(0, Math.round(delay)));
+      out.byte(TRANSPARENT_INDEX);
+      out.byte(0);
+      out.byte(0x2c);
+      out.u16(0);
+      out.u16(0);
+      out.u16(width);
+      out.u16(height);
+      out.byte(0);
+      writeLzw(out, indices);
+    },
+    finish() {
+      out.byte(0x3b);
+      return out.result();
+    },
+  };
+}
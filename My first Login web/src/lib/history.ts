@@ -0,0 +1,65 @@
+/**
+ * Pila de deshacer/rehacer inmutable y genérica. Las transacciones (begin/commit)
+ * agrupan una interacción continua (p. ej. un drag) en una sola entrada, y las
+ * claves de `coalesce` fusionan ediciones seguidas del mismo campo.
+ */
+export type HistoryState<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  /** snapshot taken by beginTransaction, null when no transaction is open */
+  tx: { start: T } | null;
+  /** coalesce key and timestamp of the last recorded change */
+  last: { key: string; at: number } | null;
+};
+
+export type RecordOptions = {
+  /** consecutive changes with the same key (within `window` ms) share one entry */
+  coalesce?: string;
+  now?: number;
+  window?: number;
+  limit?: number;
+};
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+const COALESCE_WINDOW = 1000;
+
+export const initHistory = <T>(present: T): HistoryState<T> => ({ past: [], present, future: [], tx: null, last: null });
+
+const pushPast = <T>(past: T[], entry: T, limit: number) => [...past, entry].slice(-limit);
+
+export function record<T>(h: HistoryState<T>, next: T, { coalesce, now = Date.now(), window = COALESCE_WINDOW, limit = DEFAULT_HISTORY_LIMIT }: RecordOptions = {}): HistoryState<T> {
+  if (Object.is(next, h.present)) return h;
+  // inside a transaction only the present moves; commit adds the entry
+  if (h.tx) return { ...h, present: next, future: [] };
+  const last = coalesce ? { key: coalesce, at: now } : null;
+  if (coalesce && h.last && h.last.key === coalesce && now - h.last.at <= window) {
+    return { ...h, present: next, future: [], last };
+  }
+  return { past: pushPast(h.past, h.present, limit), present: next, future: [], tx: null, last };
+}
+
+export const beginTransaction = <T>(h: HistoryState<T>): HistoryState<T> =>
+  h.tx ? h : { ...h, tx: { start: h.present }, last: null };
+
+export function commitTransaction<T>(h: HistoryState<T>, limit = DEFAULT_HISTORY_LIMIT): HistoryState<T> {
+  if (!h.tx) return h;
+  // a transaction that changed nothing (a click without drag) leaves no entry
+  if (Object.is(h.tx.start, h.present)) return { ...h, tx: null };
+  return { ...h, past: pushPast(h.past, h.tx.start, limit), tx: null, last: null };
+}
+
+export function undo<T>(h: HistoryState<T>): HistoryState<T> {
+  const c = commitTransaction(h);
+  if (c.past.length === 0) return c;
+  return { past: c.past.slice(0, -1), present: c.past[c.past.length - 1], future: [c.present, ...c.future], tx: null, last: null };
+}
+
+export function redo<T>(h: HistoryState<T>): HistoryState<T> {
+  const c = commitTransaction(h);
+  if (c.future.length === 0) return c;
+  return { past: [...c.past, c.present], present: c.future[0], future: c.future.slice(1), tx: null, last: null };
+}
+
+export const canUndo = <T>(h: HistoryState<T>) => h.past.length > 0 || (!!h.tx && !Object.is(h.tx.start, h.present));
+export const canRedo = <T>(h: HistoryState<T>) => h.future.length > 0;
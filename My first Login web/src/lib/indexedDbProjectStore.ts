@@ -0,0 +1,220 @@
+import { importProject, projectDocument, type ProjectDocument } from '@/components/projectSchema';
+import type { LayerConfig } from '@/components/animationEngine';
+import type { LayerSymbol } from '@/components/layerTree';
+import {
+  assetRefs,
+  packDocument,
+  ProjectStoreError,
+  unpackDocument,
+  type ProjectMeta,
+  type ProjectStore,
+  type StoredPreset,
+} from './projectStore';
+
+type ProjectRecord = ProjectMeta & { document: ProjectDocument };
+type AssetRecord = { projectId: string; hash: string; blob: Blob };
+// symbols saved before their images moved to blobs keep `layers` inline
+type SymbolRecord = Omit<LayerSymbol, 'layers'> & { document?: ProjectDocument; layers?: LayerConfig[] };
+
+type IndexedDbStoreOptions = {
+  /** one database per user keeps accounts on a shared browser apart */
+  dbName?: string;
+  factory?: IDBFactory;
+};
+
+const PROJECTS = 'projects';
+const ASSETS = 'assets';
+const SYMBOLS = 'symbols';
+const PRESETS = 'presets';
+// 2: symbol library
+const DB_VERSION = 2;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new ProjectStoreError('unavailable', 'transacción cancelada'));
+  });
+
+// all asset keys of a project (or a preset or symbol, whose images are stored the same way): [projectId, *]
+const projectAssets = (id: string) => IDBKeyRange.bound([id, ''], [id, '\uffff']);
+
+const mkId = () => crypto.randomUUID();
+
+// the document through the same validation and migrations as imported files; one that wouldn't open again is refused
+function validated(raw: unknown) {
+  const result = importProject(raw);
+  if (!result.ok) throw new ProjectStoreError('invalid-document', `${result.errors[0].path}: ${result.errors[0].message}`);
+  return result.project;
+}
+
+// a symbol's layers are stored as a document so their images go through the same packing
+const symbolDocument = (layers: LayerConfig[]) => projectDocument({ timelineDuration: 1, layers });
+
+/**
+ * Proyectos en IndexedDB: un registro por proyecto con el documento versionado
+ * y las imágenes aparte como blobs (deduplicadas por hash dentro del proyecto).
+ */
+export function createIndexedDbProjectStore({ dbName = 'animation-builder-projects', factory = globalThis.indexedDB }: IndexedDbStoreOptions = {}): ProjectStore {
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(l => l());
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!factory) return Promise.reject(new ProjectStoreError('unavailable', 'IndexedDB no está disponible en este navegador'));
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const req = factory.open(dbName, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(ASSETS)) db.createObjectStore(ASSETS, { keyPath: ['projectId', 'hash'] });
+        if (!db.objectStoreNames.contains(SYMBOLS)) db.createObjectStore(SYMBOLS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PRESETS)) db.createObjectStore(PRESETS, { keyPath: 'id' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(new ProjectStoreError('unavailable', req.error?.message ?? 'no se pudo abrir la base de datos'));
+      };
+    });
+    return dbPromise;
+  };
+
+  const getRecord = async (id: string) => {
+    const db = await open();
+    const record = await request<ProjectRecord | undefined>(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+    if (!record) throw new ProjectStoreError('not-found', 'el proyecto no existe');
+    return record;
+  };
+
+  const metaOf = ({ id, name, createdAt, updatedAt }: ProjectRecord): ProjectMeta => ({ id, name, createdAt, updatedAt });
+
+  // writes the packed document (of a project, a preset or a symbol) and its blobs, dropping blobs no layer uses anymore
+  const write = async <T extends { id: string }>(storeName: string, meta: T, document: ProjectDocument) => {
+    const packed = await packDocument(validated(document));
+    const db = await open();
+    const tx = db.transaction([storeName, ASSETS], 'readwrite');
+    const assets = tx.objectStore(ASSETS);
+    tx.objectStore(storeName).put({ ...meta, document: packed.document });
+    const existing = new Set((await request(assets.getAllKeys(projectAssets(meta.id)))).map(k => (k as [string, string])[1]));
+    packed.assets.forEach(a => { if (!existing.has(a.hash)) assets.put({ projectId: meta.id, hash: a.hash, blob: a.blob } satisfies AssetRecord); });
+    const used = new Set(assetRefs(packed.document));
+    existing.forEach(hash => { if (!used.has(hash)) assets.delete([meta.id, hash]); });
+    await done(tx);
+    notify();
+    return meta;
+  };
+
+  // the stored document with its images back as data URLs, through the same migrations as imported files
+  const read = async (id: string, document: ProjectDocument) => {
+    const db = await open();
+    // read every blob up front: the transaction closes once we await non-IDB work
+    const assets = await request<AssetRecord[]>(db.transaction(ASSETS).objectStore(ASSETS).getAll(projectAssets(id)));
+    const blobs = new Map(assets.map(a => [a.hash, a.blob]));
+    return validated(await unpackDocument(document, async hash => blobs.get(hash)));
+  };
+
+  return {
+    async list() {
+      const db = await open();
+      const records = await request<ProjectRecord[]>(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+      return records.map(metaOf).sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+
+    async load(id) {
+      let record: ProjectRecord;
+      try {
+        record = await getRecord(id);
+      } catch (e) {
+        if (e instanceof ProjectStoreError && e.code === 'not-found') return null;
+        throw e;
+      }
+      return { meta: metaOf(record), document: await read(id, record.document) };
+    },
+
+    async create(name, document) {
+      const now = Date.now();
+      return write(PROJECTS, { id: mkId(), name, createdAt: now, updatedAt: now }, document);
+    },
+
+    async save(id, document) {
+      const record = await getRecord(id);
+      return write(PROJECTS, { ...metaOf(record), updatedAt: Date.now() }, document);
+    },
+
+    async rename(id, name) {
+      const record = await getRecord(id);
+      const next = { ...record, name, updatedAt: Date.now() };
+      const db = await open();
+      const tx = db.transaction(PROJECTS, 'readwrite');
+      tx.objectStore(PROJECTS).put(next);
+      await done(tx);
+      notify();
+      return metaOf(next);
+    },
+
+    async duplicate(id) {
+      const loaded = await this.load(id);
+      if (!loaded) throw new ProjectStoreError('not-found', 'el proyecto no existe');
+      return this.create(`${loaded.meta.name} (copia)`, loaded.document);
+    },
+
+    async remove(id) {
+      const db = await open();
+      const tx = db.transaction([PROJECTS, ASSETS], 'readwrite');
+      tx.objectStore(PROJECTS).delete(id);
+      tx.objectStore(ASSETS).delete(projectAssets(id));
+      await done(tx);
+      notify();
+    },
+
+    async listSymbols() {
+      const db = await open();
+      const records = await request<SymbolRecord[]>(db.transaction(SYMBOLS).objectStore(SYMBOLS).getAll());
+      // a record that no longer validates is skipped, not fatal
+      const symbols = await Promise.all(records.map(({ document, layers, ...s }) =>
+        read(s.id, document ?? symbolDocument(layers ?? [])).then(d => ({ ...s, layers: d.layers }), () => null)));
+      return symbols.filter(s => s !== null).sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    async saveSymbol(name, layers) {
+      const meta = { id: mkId(), name, createdAt: Date.now() };
+      await write(SYMBOLS, meta, symbolDocument(layers));
+      return { ...meta, layers };
+    },
+
+    async removeSymbol(id) {
+      const db = await open();
+      const tx = db.transaction([SYMBOLS, ASSETS], 'readwrite');
+      tx.objectStore(SYMBOLS).delete(id);
+      tx.objectStore(ASSETS).delete(projectAssets(id));
+      await done(tx);
+      notify();
+    },
+
+    async listPresets() {
+      const db = await open();
+      const records = await request<StoredPreset[]>(db.transaction(PRESETS).objectStore(PRESETS).getAll());
+      // like symbols, a preset that no longer validates is skipped
+      const presets = await Promise.all(records.map(p => read(p.id, p.document).then(document => ({ ...p, document }), () => null)));
+      return presets.filter(p => p !== null).sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    async savePreset(name, document) {
+      const meta = { id: mkId(), name, createdAt: Date.now() };
+      await write(PRESETS, meta, document);
+      return { ...meta, document };
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
@@ -0,0 +1,140 @@
+import {
+  AuthError,
+  hasErrors,
+  normalizeEmail,
+  validateSignIn,
+  validateSignUp,
+  type AuthClient,
+  type AuthSession,
+  type AuthUser,
+} from './authClient';
+
+type StoredUser = AuthUser & { salt: string; passwordHash: string };
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+type MockAuthOptions = {
+  storage?: KeyValueStorage;
+  /** artificial delay in ms so the UI can show its loading state */
+  latency?: number;
+  /** session lifetime in ms (default 7 days) */
+  sessionTtl?: number;
+};
+
+export const USERS_KEY = 'mock-auth-users';
+export const SESSION_KEY = 'mock-auth-session';
+const PBKDF2_ITERATIONS = 100_000;
+
+const toHex = (buf: ArrayBuffer | Uint8Array) =>
+  Array.from(buf instanceof Uint8Array ? buf : new Uint8Array(buf)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) ?? []).map(h => parseInt(h, 16)));
+
+const randomHex = (bytes: number) => toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+
+async function hashPassword(password: string, saltHex: string) {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(saltHex), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+}
+
+// constant-time comparison so hash checks don't leak how many chars matched
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const wait = (ms: number) => (ms > 0 ? new Promise(r => setTimeout(r, ms)) : Promise.resolve());
+
+/**
+ * Backend simulado en el navegador: los usuarios se guardan en storage con la
+ * contraseña derivada por PBKDF2 + salt, así el flujo completo funciona offline.
+ */
+export function createMockAuthClient({ storage = localStorage, latency = 300, sessionTtl = 7 * 24 * 3600 * 1000 }: MockAuthOptions = {}): AuthClient {
+  const readUsers = (): StoredUser[] => {
+    try {
+      const raw = storage.getItem(USERS_KEY);
+      return raw ? JSON.parse(raw) : [];
+    } catch {
+      return [];
+    }
+  };
+  const writeUsers = (users: StoredUser[]) => storage.setItem(USERS_KEY, JSON.stringify(users));
+
+  const publicUser = ({ id, name, email, createdAt }: StoredUser): AuthUser => ({ id, name, email, createdAt });
+
+  const startSession = (user: StoredUser): AuthSession => {
+    const session: AuthSession = { token: randomHex(24), user: publicUser(user), expiresAt: Date.now() + sessionTtl };
+    storage.setItem(SESSION_KEY, JSON.stringify(session));
+    return session;
+  };
+
+  return {
+    async getSession() {
+      try {
+        const raw = storage.getItem(SESSION_KEY);
+        if (!raw) return null;
+        const session = JSON.parse(raw) as AuthSession;
+        if (!session.expiresAt || session.expiresAt <= Date.now()) {
+          storage.removeItem(SESSION_KEY);
+          return null;
+        }
+        // drop sessions whose account no longer exists
+        if (!readUsers().some(u => u.id === session.user.id)) {
+          storage.removeItem(SESSION_KEY);
+          return null;
+        }
+        return session;
+      } catch {
+        return null;
+      }
+    },
+
+    async signIn(input) {
+      const errors = validateSignIn(input);
+      if (hasErrors(errors)) throw new AuthError('invalid-input', 'Revisa los campos marcados', errors);
+      await wait(latency);
+      const email = normalizeEmail(input.email);
+      const user = readUsers().find(u => u.email === email);
+      // same message for unknown email and wrong password to avoid account enumeration
+      const invalid = new AuthError('invalid-credentials', 'Email o contraseña incorrectos');
+      if (!user) throw invalid;
+      const hash = await hashPassword(input.password, user.salt);
+      if (!safeEqual(hash, user.passwordHash)) throw invalid;
+      return startSession(user);
+    },
+
+    async signUp(input) {
+      const errors = validateSignUp(input);
+      if (hasErrors(errors)) throw new AuthError('invalid-input', 'Revisa los campos marcados', errors);
+      await wait(latency);
+      const email = normalizeEmail(input.email);
+      const users = readUsers();
+      if (users.some(u => u.email === email)) {
+        throw new AuthError('email-taken', 'Ya existe una cuenta con ese email', { email: 'Ya está registrado' });
+      }
+      const salt = randomHex(16);
+      const user: StoredUser = {
+        id: randomHex(8),
+        name: input.name.trim(),
+        email,
+        createdAt: Date.now(),
+        salt,
+        passwordHash: await hashPassword(input.password, salt),
+      };
+      writeUsers([...users, user]);
+      return startSession(user);
+    },
+
+    async signOut() {
+      await wait(latency / 3);
+      storage.removeItem(SESSION_KEY);
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import type { LayerConfig } from '@/components/animationEngine';
+import type { ProjectDocument } from '@/components/projectSchema';
+import type { LayerSymbol } from '@/components/layerTree';
+
+export type ProjectMeta = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type StoredProject = { meta: ProjectMeta; document: ProjectDocument };
+
+/** a builder preset: a whole project saved under a name */
+export type StoredPreset = { id: string; name: string; createdAt: number; document: ProjectDocument };
+
+export type ProjectStoreErrorCode = 'not-found' | 'unavailable' | 'invalid-document';
+
+export class ProjectStoreError extends Error {
+  code: ProjectStoreErrorCode;
+
+  constructor(code: ProjectStoreErrorCode, message: string) {
+    super(message);
+    this.name = 'ProjectStoreError';
+    this.code = code;
+  }
+}
+
+/**
+ * Almacén de proyectos del studio. La implementación por defecto usa IndexedDB
+ * (ver indexedDbProjectStore) pero la UI sólo depende de esta interfaz.
+ */
+export interface ProjectStore {
+  /** most recently updated first */
+  list(): Promise<ProjectMeta[]>;
+  load(id: string): Promise<StoredProject | null>;
+  create(name: string, document: ProjectDocument): Promise<ProjectMeta>;
+  save(id: string, document: ProjectDocument): Promise<ProjectMeta>;
+  rename(id: string, name: string): Promise<ProjectMeta>;
+  duplicate(id: string): Promise<ProjectMeta>;
+  remove(id: string): Promise<void>;
+  /** symbol library shared by every project of the store, newest first */
+  listSymbols(): Promise<LayerSymbol[]>;
+  saveSymbol(name: string, layers: LayerConfig[]): Promise<LayerSymbol>;
+  removeSymbol(id: string): Promise<void>;
+  /** builder presets, shared by every project of the store, newest first */
+  listPresets(): Promise<StoredPreset[]>;
+  savePreset(name: string, document: ProjectDocument): Promise<StoredPreset>;
+  /** called after any change so project, preset and symbol lists can refresh */
+  subscribe(listener: () => void): () => void;
+}
+
+export const UNTITLED_PROJECT = 'Proyecto sin título';
+
+// images live outside the document as blobs; layers point at them with this scheme
+const ASSET_PREFIX = 'asset:';
+
+export type PackedAsset = { hash: string; blob: Blob };
+
+const toHex = (buf: ArrayBuffer) => Array.from(new Uint8Array(buf)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export function dataUrlToBlob(url: string): Blob {
+  const match = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(url);
+  if (!match) throw new ProjectStoreError('invalid-document', 'la imagen no es una data URL');
+  const [, type, base64, data] = match;
+  if (!base64) return new Blob([decodeURIComponent(data)], { type });
+  const bin = atob(data);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return new Blob([bytes], { type });
+}
+
+export async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let bin = '';
+  // chunked so large images don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(bin)}`;
+}
+
+/**
+ * Replace data-URL images with `asset:<sha256>` references. The editor (and
+ * every exporter) keeps working with data URLs; only the stored copy changes.
+ */
+export async function packDocument(document: ProjectDocument): Promise<{ document: ProjectDocument; assets: PackedAsset[] }> {
+  const assets = new Map<string, PackedAsset>();
+  const layers = await Promise.all(document.layers.map(async (layer): Promise<LayerConfig> => {
+    if (!layer.image?.startsWith('data:')) return layer;
+    const blob = dataUrlToBlob(layer.image);
+    const hash = toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+    assets.set(hash, { hash, blob });
+    return { ...layer, image: `${ASSET_PREFIX}${hash}` };
+  }));
+  return { document: { ...document, layers }, assets: [...assets.values()] };
+}
+
+export async function unpackDocument(document: ProjectDocument, getAsset: (hash: string) => Promise<Blob | undefined>): Promise<ProjectDocument> {
+  const layers = await Promise.all(document.layers.map(async (layer): Promise<LayerConfig> => {
+    if (!layer.image?.startsWith(ASSET_PREFIX)) return layer;
+    const blob = await getAsset(layer.image.slice(ASSET_PREFIX.length));
+    // a missing blob loses the image, not the project
+    return { ...layer, image: blob ? await blobToDataUrl(blob) : null };
+  }));
+  return { ...document, layers };
+}
+
+export const assetRefs = (document: ProjectDocument) =>
+  document.layers.flatMap(l => (l.image?.startsWith(ASSET_PREFIX) ? [l.image.slice(ASSET_PREFIX.length)] : []));
@@ -0,0 +1,90 @@
+/**
+ * Escritor ZIP mínimo sin compresión (método STORE): suficiente para empaquetar
+ * PNGs, que ya vienen comprimidos.
+ */
+export type ZipEntry = { name: string; data: Uint8Array; modified?: Date };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time used by zip headers (2-second resolution, local time)
+const dosDateTime = (d: Date) => ({
+  time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+  date: ((Math.max(1980, d.getFullYear()) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+});
+
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const files = entries.map(e => ({ ...e, nameBytes: encoder.encode(e.name), crc: crc32(e.data), stamp: dosDateTime(e.modified ?? new Date()) }));
+  const localSize = files.reduce((n, f) => n + 30 + f.nameBytes.length + f.data.length, 0);
+  const centralSize = files.reduce((n, f) => n + 46 + f.nameBytes.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let p = 0;
+  const u16 = (v: number) => { view.setUint16(p, v, true); p += 2; };
+  const u32 = (v: number) => { view.setUint32(p, v, true); p += 4; };
+  const bytes = (b: Uint8Array) => { out.set(b, p); p += b.length; };
+
+  const offsets: number[] = [];
+  files.forEach(f => {
+    offsets.push(p);
+    u32(0x04034b50);
+    u16(20); // version needed
+    u16(0x0800); // UTF-8 names
+    u16(0); // stored
+    u16(f.stamp.time);
+    u16(f.stamp.date);
+    u32(f.crc);
+    u32(f.data.length);
+    u32(f.data.length);
+    u16(f.nameBytes.length);
+    u16(0);
+    bytes(f.nameBytes);
+    bytes(f.data);
+  });
+
+  const centralStart = p;
+  files.forEach((f, i) => {
+    u32(0x02014b50);
+    u16(20); // version made by
+    u16(20);
+    u16(0x0800);
+    u16(0);
+    u16(f.stamp.time);
+    u16(f.stamp.date);
+    u32(f.crc);
+    u32(f.data.length);
+    u32(f.data.length);
+    u16(f.nameBytes.length);
+    u16(0); // extra
+    u16(0); // comment
+    u16(0); // disk
+    u16(0); // internal attrs
+    u32(0); // external attrs
+    u32(offsets[i]);
+    bytes(f.nameBytes);
+  });
+
+  u32(0x06054b50);
+  u16(0);
+  u16(0);
+  u16(files.length);
+  u16(files.length);
+  u32(p - centralStart);
+  u32(centralStart);
+  u16(0);
+  return out;
+}
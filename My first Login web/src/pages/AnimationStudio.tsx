@@ -1,9 +1,107 @@
-import React, { useEffect } from 'react';
-import AnimationBuilder from '../components/EditableSection';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import AnimationBuilder, { type BuilderHandle, type BuilderMenus, type BuilderView } from '../components/EditableSection';
+import Inspector from '../components/Inspector';
+import { createDefaultProject } from '../components/projectSchema';
+import { EMPTY_SELECTION, selectKeyframe, selectLayer, type Selection } from '../components/selection';
+import { normalizeQuery, searchStudio, visibleLayerIds } from '../components/studioSearch';
+import type { LayerConfig } from '../components/animationEngine';
+import { UNTITLED_PROJECT, type ProjectMeta } from '@/lib/projectStore';
+import { useProjectList, useProjectStore } from '@/hooks/use-project-store';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 
-const AnimationStudio: React.FC<{onClose?: ()=>void}> = ({ onClose }) => {
+type StudioProps = {
+  onClose?: ()=>void;
+  /** project opened from the /studio/:projectId route */
+  projectId?: string;
+  /** navigate to another project (replace: don't leave the current URL in history) */
+  onOpenProject?: (id: string, replace?: boolean) => void;
+};
+
+const fmtUpdated = (ms: number) => new Date(ms).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+// entries per section of the search results
+const MAX_RESULTS = 8;
+
+const menuButtonClass = 'px-2 py-1 rounded hover:bg-white/10';
+
+const AnimationStudio: React.FC<StudioProps> = ({ onClose, projectId, onOpenProject }) => {
+  const builderRef = useRef<BuilderHandle>(null);
+  // shared with the builder: the Inspector edits what is selected on its timeline
+  const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+  const [layers, setLayers] = useState<LayerConfig[]>([]);
+  const store = useProjectStore();
+  const { projects, error: storeError } = useProjectList(store);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const current = projects?.find(p => p.id === projectId);
+  // the last failed project action (a full or blocked database); the next one that succeeds clears it
+  const [actionError, setActionError] = useState<string | null>(null);
+  const reportError = (action: string) => (e: Error) => setActionError(`${action}: ${e.message}`);
+  const succeeded = () => setActionError(null);
+  // the builder reports what the menus show: whether undo and redo are available, its panels and zoom, the shortcuts and the exporters
+  const [builderHistory, setBuilderHistory] = useState({ canUndo: false, canRedo: false });
+  const [builderView, setBuilderView] = useState<BuilderView>({ panels: { layers: true, timeline: true }, zoom: 1, breakpoint: null });
+  const [builderMenus, setBuilderMenus] = useState<BuilderMenus>({ shortcuts: {}, exporters: [] });
+  const builderShown = !!current || !!storeError;
+  // the studio's own side panels
+  const [sidePanels, setSidePanels] = useState({ projects: true, inspector: true });
+  const [query, setQuery] = useState('');
+  const [searchOpen, setSearchOpen] = useState(false);
+  const searching = normalizeQuery(query) !== '';
+  const results = useMemo(() => searchStudio(query, layers, projects ?? []), [query, layers, projects]);
+  const visibleLayers = useMemo(() => (searching ? visibleLayerIds(layers, results) : null), [searching, layers, results]);
+
+  // also run by the effect below, so it only changes with the store
+  const createProject = useCallback((replace = false) =>
+    store.create(UNTITLED_PROJECT, createDefaultProject()).then(
+      meta => { setActionError(null); onOpenProject?.(meta.id, replace); },
+      (e: Error) => setActionError(`No se pudo crear el proyecto: ${e.message}`),
+    ), [store, onOpenProject]);
+
+  // /studio (or a deleted project) opens the most recent project, creating one if there is none
+  const creatingRef = useRef(false);
+  useEffect(() => {
+    if (!projects || storeError || current) return;
+    if (projects.length) onOpenProject?.(projects[0].id, true);
+    else if (!creatingRef.current) {
+      // guard against a second empty-list render creating another project
+      creatingRef.current = true;
+      createProject(true).finally(() => { creatingRef.current = false; });
+    }
+  }, [projects, storeError, current, onOpenProject, createProject]);
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim()) store.rename(renaming.id, renaming.name.trim()).then(succeeded, reportError('No se pudo renombrar el proyecto'));
+    setRenaming(null);
+  };
+  const saveProjectAs = () => {
+    const doc = builderRef.current?.document();
+    if (!doc) return;
+    const name = window.prompt('Nombre del nuevo proyecto', current ? `${current.name} (copia)` : UNTITLED_PROJECT);
+    if (!name?.trim()) return;
+    store.create(name.trim(), doc).then(meta => { succeeded(); onOpenProject?.(meta.id); }, reportError('No se pudo guardar el proyecto'));
+  };
+  const zoomBy = (step: number) => {
+    const builder = builderRef.current;
+    if (builder) builder.setZoom(builder.zoom() + step);
+  };
+  const closeSearch = () => setSearchOpen(false);
+  const duplicateProject = (p: ProjectMeta) => store.duplicate(p.id).then(meta => { succeeded(); onOpenProject?.(meta.id); }, reportError(`No se pudo duplicar "${p.name}"`));
+  const deleteProject = (p: ProjectMeta) => {
+    if (!window.confirm(`¿Eliminar "${p.name}"? Esta acción no se puede deshacer.`)) return;
+    // the effect above moves on to another project when the open one disappears
+    store.remove(p.id).then(succeeded, reportError(`No se pudo eliminar "${p.name}"`));
+  };
   useEffect(()=>{
-    const onKey = (e: KeyboardEvent) => { if(e.key === 'Escape' && onClose) onClose(); };
+    // the builder marks the keys its commands handled (Escape also clears its selection)
+    const onKey = (e: KeyboardEvent) => { if(e.key === 'Escape' && !e.defaultPrevented && onClose) onClose(); };
     window.addEventListener('keydown', onKey);
     return ()=> window.removeEventListener('keydown', onKey);
   }, [onClose]);
@@ -16,31 +114,197 @@ const AnimationStudio: React.FC<{onClose?: ()=>void}> = ({ onClose }) => {
           <div className="font-bold text-lg">Animation Studio</div>
         </div>
         <nav className="ml-6 flex gap-2 text-sm opacity-90">
-          <button className="px-2 py-1 rounded hover:bg-white/10">File</button>
-          <button className="px-2 py-1 rounded hover:bg-white/10">Edit</button>
-          <button className="px-2 py-1 rounded hover:bg-white/10">View</button>
-          <button className="px-2 py-1 rounded hover:bg-white/10">Export</button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className={menuButtonClass}>File</button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="z-70 min-w-44">
+              <DropdownMenuItem disabled={!!storeError} onSelect={()=>createProject()}>New</DropdownMenuItem>
+              <DropdownMenuItem disabled={!builderShown} onSelect={()=>builderRef.current?.openFile()}>Open…</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem disabled={!builderShown} onSelect={()=>builderRef.current?.save()}>
+                {storeError ? 'Download .json' : 'Save'}
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!builderShown || !!storeError} onSelect={()=>saveProjectAs()}>Save as…</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className={menuButtonClass}>Edit</button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="z-70 min-w-44">
+              <DropdownMenuItem disabled={!builderHistory.canUndo} onSelect={()=>builderRef.current?.undo()}>
+                Undo<DropdownMenuShortcut>{builderMenus.shortcuts['history.undo']}</DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!builderHistory.canRedo} onSelect={()=>builderRef.current?.redo()}>
+                Redo<DropdownMenuShortcut>{builderMenus.shortcuts['history.redo']}</DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem disabled={!selection.layerIds.length} onSelect={()=>builderRef.current?.duplicate()}>
+                Duplicate<DropdownMenuShortcut>{builderMenus.shortcuts['layers.duplicate']}</DropdownMenuShortcut>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className={menuButtonClass}>View</button>
+            </DropdownMenuTrigger>
+            {/* the palette and the cheatsheet take the focus; the menu must not hand it back to its trigger */}
+            <DropdownMenuContent align="start" className="z-70 min-w-44" onCloseAutoFocus={e=>e.preventDefault()}>
+              <DropdownMenuCheckboxItem checked={sidePanels.projects} onCheckedChange={v=>setSidePanels(p=>({ ...p, projects: v }))}>Projects</DropdownMenuCheckboxItem>
+              {builderShown ? (['timeline', 'layers'] as const).map(panel => (
+                <DropdownMenuCheckboxItem key={panel} checked={builderView.panels[panel]} onCheckedChange={v=>builderRef.current?.setPanel(panel, v)}>
+                  {panel === 'timeline' ? 'Timeline' : 'Layers'}
+                </DropdownMenuCheckboxItem>
+              )) : null}
+              <DropdownMenuCheckboxItem checked={sidePanels.inspector} onCheckedChange={v=>setSidePanels(p=>({ ...p, inspector: v }))}>Inspector</DropdownMenuCheckboxItem>
+              <DropdownMenuSeparator />
+              {/* timeline zoom; keep the menu open while stepping */}
+              <DropdownMenuItem disabled={!builderShown} onSelect={e=>{ e.preventDefault(); zoomBy(0.5); }}>
+                Zoom in<DropdownMenuShortcut>{builderMenus.shortcuts['view.zoomIn']}</DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!builderShown} onSelect={e=>{ e.preventDefault(); zoomBy(-0.5); }}>
+                Zoom out<DropdownMenuShortcut>{builderMenus.shortcuts['view.zoomOut']}</DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!builderShown} onSelect={()=>builderRef.current?.setZoom(1)}>
+                Reset zoom{builderShown ? <DropdownMenuShortcut>{Math.round(builderView.zoom * 100)}%</DropdownMenuShortcut> : null}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem disabled={!builderShown} onSelect={()=>builderRef.current?.openPalette()}>
+                Command palette<DropdownMenuShortcut>{builderMenus.shortcuts['palette.open']}</DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!builderShown} onSelect={()=>builderRef.current?.openShortcuts()}>
+                Keyboard shortcuts<DropdownMenuShortcut>{builderMenus.shortcuts['shortcuts.open']}</DropdownMenuShortcut>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className={menuButtonClass}>Export</button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="z-70 min-w-52">
+              {builderShown ? builderMenus.exporters.map(x => (
+                <DropdownMenuItem key={x.id} title={x.title} onSelect={()=>builderRef.current?.runExporter(x.id)}>{x.label}</DropdownMenuItem>
+              )) : null}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem disabled={!builderShown} onSelect={()=>builderRef.current?.showFramesExport()}>PNG / GIF / sprite…</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </nav>
-        <div className="ml-auto flex items-center gap-2">
-          <input className="px-2 py-1 rounded text-black" placeholder="Buscar..." />
+        <div className="ml-auto flex items-center gap-2 relative">
+          <input
+            type="search"
+            aria-label="Buscar capas, keyframes y proyectos"
+            className="px-2 py-1 rounded text-black"
+            placeholder="Buscar..."
+            value={query}
+            onChange={e=>{ setQuery(e.target.value); setSearchOpen(true); }}
+            onFocus={()=>setSearchOpen(true)}
+            onBlur={closeSearch}
+            onKeyDown={e=>{ if (e.key === 'Escape' && query) { e.stopPropagation(); setQuery(''); } }}
+          />
+          {searching && searchOpen ? (
+            // mousedown keeps the focus in the input so the list doesn't close before the click
+            <div className="absolute right-0 top-full mt-1 z-70 w-80 max-h-96 overflow-auto rounded bg-neutral-900 border border-white/10 p-2 text-sm shadow-lg" onMouseDown={e=>e.preventDefault()}>
+              {!results.layers.length && !results.keyframes.length && !results.projects.length ? <div className="opacity-70">Sin resultados</div> : null}
+              {results.layers.length ? (
+                <section aria-label="Capas">
+                  <div className="text-xs uppercase opacity-60">Capas</div>
+                  {results.layers.slice(0, MAX_RESULTS).map(l => (
+                    <button key={l.id} className="block w-full text-left px-2 py-1 rounded hover:bg-white/10" onClick={()=>{ setSelection(selectLayer(EMPTY_SELECTION, l.id)); closeSearch(); }}>
+                      {l.label}{l.type ? <span className="ml-1 opacity-60">({l.type})</span> : null}
+                    </button>
+                  ))}
+                </section>
+              ) : null}
+              {results.keyframes.length ? (
+                <section aria-label="Keyframes">
+                  <div className="text-xs uppercase opacity-60">Keyframes</div>
+                  {results.keyframes.slice(0, MAX_RESULTS).map(({ layer, keyframe }) => (
+                    <button key={keyframe.id} className="block w-full text-left px-2 py-1 rounded hover:bg-white/10" onClick={()=>{
+                      setSelection(selectKeyframe(EMPTY_SELECTION, { layerId: layer.id, kfId: keyframe.id }));
+                      builderRef.current?.seek(keyframe.time);
+                      closeSearch();
+                    }}>
+                      {layer.label} @ {keyframe.time}ms{keyframe.easing ? <span className="ml-1 opacity-60">{keyframe.easing}</span> : null}
+                    </button>
+                  ))}
+                </section>
+              ) : null}
+              {results.projects.length ? (
+                <section aria-label="Proyectos">
+                  <div className="text-xs uppercase opacity-60">Proyectos</div>
+                  {results.projects.slice(0, MAX_RESULTS).map(p => (
+                    <button key={p.id} className="block w-full text-left px-2 py-1 rounded hover:bg-white/10" onClick={()=>{ onOpenProject?.(p.id); closeSearch(); }}>{p.name}</button>
+                  ))}
+                </section>
+              ) : null}
+            </div>
+          ) : null}
         </div>
       </header>
 
       <div className="studio-body flex-1 flex overflow-hidden">
+        {sidePanels.projects ? (
         <aside className="studio-sidebar w-64 bg-white/5 p-3 border-r border-white/10">
-          <div className="mb-3 font-semibold">Project</div>
-          <div className="text-sm">Files · Layers · Assets</div>
+          <div className="mb-3 flex items-center gap-2">
+            <div className="font-semibold flex-1 truncate">Project{current ? <span className="ml-2 text-xs font-normal opacity-70">{current.name}</span> : null}</div>
+            <button className="px-2 py-1 text-xs bg-white/10 rounded" onClick={()=>createProject()}>+ Nuevo</button>
+          </div>
+          {storeError ? <div role="alert" className="text-xs text-red-300 mb-2">Los proyectos no se guardarán: {storeError}</div> : null}
+          {actionError ? <div role="alert" className="text-xs text-red-300 mb-2">{actionError}</div> : null}
+          {/* the search box filters this list too */}
+          <ul className="text-sm space-y-1" aria-label="Proyectos">
+            {(searching ? results.projects : projects)?.map(p => (
+              <li key={p.id} className={`group flex items-center gap-1 rounded px-2 py-1 ${p.id === projectId ? 'bg-white/15' : 'hover:bg-white/10'}`}>
+                {renaming?.id === p.id ? (
+                  <input
+                    autoFocus
+                    className="flex-1 min-w-0 px-1 rounded text-black"
+                    value={renaming.name}
+                    onChange={e=>setRenaming({ id: p.id, name: e.target.value })}
+                    onBlur={commitRename}
+                    onKeyDown={e=>{ if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') { e.stopPropagation(); setRenaming(null); } }}
+                  />
+                ) : (
+                  <button className="flex-1 min-w-0 text-left" onClick={()=>onOpenProject?.(p.id)} onDoubleClick={()=>setRenaming({ id: p.id, name: p.name })}>
+                    <div className="truncate">{p.name}</div>
+                    <div className="text-xs opacity-60">{fmtUpdated(p.updatedAt)}</div>
+                  </button>
+                )}
+                <button title="Renombrar" aria-label={`Renombrar ${p.name}`} className="text-xs opacity-70 hover:opacity-100" onClick={()=>setRenaming({ id: p.id, name: p.name })}>✎</button>
+                <button title="Duplicar" aria-label={`Duplicar ${p.name}`} className="text-xs opacity-70 hover:opacity-100" onClick={()=>duplicateProject(p)}>⧉</button>
+                <button title="Eliminar" aria-label={`Eliminar ${p.name}`} className="text-xs opacity-70 hover:opacity-100" onClick={()=>deleteProject(p)}>✕</button>
+              </li>
+            ))}
+          </ul>
         </aside>
+        ) : null}
 
         <main className="studio-main flex-1 p-4 overflow-auto">
           {/* Embed the builder in embedded mode */}
-          <AnimationBuilder mode="embedded" />
+          {/* keyed by project so switching projects starts a fresh history */}
+          {builderShown ? (
+            <AnimationBuilder key={projectId} mode="embedded" ref={builderRef} store={storeError ? undefined : store} projectId={projectId}
+              selection={selection} onSelectionChange={setSelection} onLayersChange={setLayers} onHistoryChange={setBuilderHistory} onViewChange={setBuilderView} onMenusChange={setBuilderMenus}
+              visibleLayers={visibleLayers} />
+          ) : (
+            <div className="text-sm opacity-70" role={actionError ? 'alert' : undefined}>{actionError ?? 'Cargando proyectos…'}</div>
+          )}
         </main>
 
-        <aside className="studio-right w-80 bg-white/5 p-3 border-l border-white/10">
+        {sidePanels.inspector ? (
+        <aside className="studio-right w-80 bg-white/5 p-3 border-l border-white/10 overflow-auto">
           <div className="font-semibold mb-2">Inspector</div>
-          <div className="text-sm">Propiedades de la capa seleccionada</div>
+          <Inspector
+            layers={layers}
+            selection={selection}
+            breakpoint={builderView.breakpoint}
+            onUpdate={(update, coalesce) => builderRef.current?.updateLayers(update, coalesce)}
+            onImageFile={(layerId, file) => builderRef.current?.setLayerImage(layerId, file)}
+          />
         </aside>
+        ) : null}
       </div>
     </div>
   );
@@ -0,0 +1,112 @@
+import React from 'react';
+import { useLocation, useNavigate, type Location } from 'react-router';
+import { ModeToggle } from '../components/mode-toggle';
+import { ThemeProvider } from "../components/theme-provider"
+import TrueFocus from '../components/TrueFocus';
+import LetterGlitch from '../components/LetterGlitch.tsx';
+// ParallaxWrapper is available if needed later
+// (currently not used) - keeping import commented to avoid lint warnings.
+import AnimationBuilder from '../components/EditableSection';
+// import ParallaxWrapper from '../components/ParallaxWrapper';
+import ParallaxSection from '../components/ParallaxSection';
+import { AuthDialog, type AuthMode } from '../components/AuthForms';
+import { useAuth } from '../hooks/use-auth';
+import { useProjectStore } from '../hooks/use-project-store';
+
+  //import { BeakerIcon } from '@heroicons/react/24/solid'
+  // <BeakerIcon className=''/>
+/**
+ * LandingPage: portada con el hero, la sección de ayuda y el editor flotante.
+ * Las rutas /login y /register montan esta misma página con el diálogo abierto.
+ */
+const LandingPage: React.FC<{ authMode?: AuthMode }> = ({ authMode }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { status, session, signOut } = useAuth();
+  // the floating editor keeps its presets and symbols in the user's project store
+  const store = useProjectStore();
+  // where RequireAuth sent us from, so we can go back there after signing in
+  const from = (location.state as { from?: Location } | null)?.from;
+  const closeAuth = React.useCallback(()=> navigate('/'), [navigate]);
+  const onAuthenticated = React.useCallback(()=> navigate(from ?? '/', { replace: true }), [navigate, from]);
+  const switchAuth = (m: AuthMode) => navigate(m === 'signin' ? '/login' : '/register', { replace: true, state: location.state });
+
+  return (
+    <>
+  <AnimationBuilder onOpenStudio={()=>navigate('/studio')} store={store} />
+      <ThemeProvider defaultTheme="dark" storageKey="vite-ui-theme">
+      {
+        <>
+          <nav className='top-4 right-4 z-50 flex flex-col gap-2 items-start fixed p-2'>
+
+            <div className='flex flex-row gap-2 items-center'>
+              <ModeToggle/>
+            </div>
+
+          </nav>
+
+          <div className="App h-screen w-screen overflow-hidden">
+
+            <LetterGlitch glitchColors={ ['#2b4539', '#61dca3', '#61b3dc'] } glitchSpeed={50} centerVignette={true} outerVignette={false} smooth={true} characters='ABCDEFGHIJKLMNOPQRSTUVWXYZ!@#$&*()-_+=/[]{};:<>.,0123456789'/>
+
+
+
+              <div className='absolute top-0 left-0 w-full h-full flex justify-center items-center animate-accordion-down overflow-hidden theme-locked'>
+                  <div className="w-full h-screen flex flex-col justify-center items-center">
+                    <TrueFocus sentence="Mi Primer Login" manualMode={false} blurAmount={5} borderColor="crimson" animationDuration={0.4} pauseBetweenAnimations={0.9}/>
+                    <br />
+                    <p>Welcome to my first login web application built with React! xd</p>
+                  </div>
+              </div>
+          </div>
+        </>
+      }
+      </ThemeProvider>
+
+
+
+
+
+
+
+
+      {/* Normal page section with scroll-driven parallax */}
+      <ParallaxSection maxTranslate={70} fade={true} className="w-full">
+  <section className="relative overflow-hidden py-28 bg-linear-to-b from-gray-900 via-gray-800 to-gray-900 text-white">
+          {/* Background layer (moves slow) */}
+          <div data-parallax-depth="0.2" className="absolute inset-0 parallax-bg pointer-events-none" aria-hidden="true"></div>
+
+          <div className="relative z-10 flex justify-center">
+            <div className="max-w-4xl px-6 text-center">
+              {/* Mid layer (moves medium) */}
+              <div data-parallax-depth="0.5" className="mb-6">
+                <h2 className="text-3xl font-bold mb-2">Help</h2>
+                <p className="mb-4 text-lg">esta es una sección de ayuda</p>
+              </div>
+
+              {/* Foreground layer (moves faster) */}
+              <div data-parallax-depth="0.9" className="mb-8 flex justify-center items-center gap-4">
+                {status === 'authenticated' && session ? (
+                  <>
+                    <span>Hola, {session.user.name}</span>
+                    <button className="bg-transparent border border-white px-5 py-2 rounded" onClick={()=>signOut()}>SIGN OUT</button>
+                  </>
+                ) : (
+                  <>
+                    <button className="bg-white text-black px-5 py-2 rounded" disabled={status === 'loading'} onClick={()=>navigate('/login')}>SIGN IN</button>
+                    <button className="bg-transparent border border-white px-5 py-2 rounded" disabled={status === 'loading'} onClick={()=>navigate('/register')}>SIGN UP</button>
+                  </>
+                )}
+              </div>
+
+              <div className="text-sm text-gray-300">Unete a nuestra comunidad · Contact: © 2023 My Login App</div>
+            </div>
+          </div>
+        </section>
+      </ParallaxSection>
+      {authMode ? <AuthDialog mode={authMode} onModeChange={switchAuth} onClose={closeAuth} onSuccess={onAuthenticated} /> : null}
+    </>
+  )
+}
+
+export default LandingPage